@@ -1,7 +1,10 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  experimental: {
+    // The proxy buffers request bodies; leave room for the largest media upload (see UPLOAD_LIMITS).
+    proxyClientMaxBodySize: "210mb",
+  },
 };
 
 export default nextConfig;
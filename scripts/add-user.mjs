@@ -0,0 +1,28 @@
+// Adds or updates a user in the local credentials file.
+// Usage: node scripts/add-user.mjs <username> <password> [editor|viewer]
+import { randomBytes, scryptSync } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+
+const [username, password, role = "editor"] = process.argv.slice(2);
+if (!username || !password || !["editor", "viewer"].includes(role)) {
+  console.error("Usage: node scripts/add-user.mjs <username> <password> [editor|viewer]");
+  process.exit(1);
+}
+
+const usersPath = process.env.AUTH_USERS_FILE || path.join(process.cwd(), "auth", "users.json");
+let users = [];
+try {
+  users = JSON.parse(await fs.readFile(usersPath, "utf8"));
+} catch {
+  users = [];
+}
+
+const salt = randomBytes(16);
+const hash = scryptSync(password, salt, 64);
+const entry = { username, role, passwordHash: `scrypt$${salt.toString("hex")}$${hash.toString("hex")}` };
+const next = [...users.filter((user) => user.username !== username), entry];
+
+await fs.mkdir(path.dirname(usersPath), { recursive: true });
+await fs.writeFile(usersPath, `${JSON.stringify(next, null, 2)}\n`, "utf8");
+console.log(`Saved ${role} "${username}" to ${usersPath}`);
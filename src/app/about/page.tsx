@@ -1,18 +1,12 @@
 import Link from "next/link";
 
+import CitationText from "@/components/CitationText";
+import { collectBibliography } from "@/lib/citations";
 import { loadPlaces } from "@/lib/loadPlaces";
 
-export const dynamic = "force-dynamic";
-
 export default async function AboutPage() {
   const places = await loadPlaces();
-  const sourceLinks = Array.from(
-    new Set(
-      places
-        .flatMap((place) => place.sources || [])
-        .filter((item): item is string => typeof item === "string" && item.trim().length > 0),
-    ),
-  );
+  const bibliography = collectBibliography(places);
 
   return (
     <main className="min-h-screen bg-slate-50 pb-16">
@@ -32,24 +26,48 @@ export default async function AboutPage() {
         </header>
 
         <section className="space-y-3">
-          <h2 className="text-2xl font-semibold text-slate-900">Nguon tu lieu</h2>
-          {sourceLinks.length === 0 ? (
-            <p className="text-sm text-slate-600">Chua co nguon. Them cac duong dan vao truong sources cua tung dia diem.</p>
+          <div className="flex flex-wrap items-baseline justify-between gap-2">
+            <h2 className="text-2xl font-semibold text-slate-900">Thu muc tai lieu</h2>
+            {bibliography.length > 0 ? (
+              <p className="text-sm text-slate-500">
+                Tai ve:{" "}
+                <a href="/api/citations?format=bibtex" className="font-semibold text-blue-700 underline underline-offset-2">
+                  BibTeX
+                </a>{" "}
+                &middot;{" "}
+                <a href="/api/citations?format=csl" className="font-semibold text-blue-700 underline underline-offset-2">
+                  CSL-JSON
+                </a>
+              </p>
+            ) : null}
+          </div>
+          {bibliography.length === 0 ? (
+            <p className="text-sm text-slate-600">Chua co nguon. Them nguon trich dan cho tung dia diem trong trang quan tri.</p>
           ) : (
-            <ul className="space-y-2">
-              {sourceLinks.map((link) => (
-                <li key={link}>
-                  <a
-                    href={link}
-                    target="_blank"
-                    rel="noopener noreferrer"
-                    className="text-blue-700 underline underline-offset-2 hover:text-blue-800"
-                  >
-                    {link}
-                  </a>
+            <ol className="list-decimal space-y-3 pl-5 text-sm text-slate-700">
+              {bibliography.map((entry, idx) => (
+                <li key={`${idx}-${entry.citation.id}`}>
+                  <p>
+                    <CitationText citation={entry.citation} />
+                  </p>
+                  <p className="mt-1 text-xs text-slate-500">
+                    Dung cho:{" "}
+                    {entry.places.map((place, placeIdx) => (
+                      <span key={`${place.slug}-${placeIdx}`}>
+                        {placeIdx > 0 ? ", " : ""}
+                        {place.slug ? (
+                          <Link href={`/places/${place.slug}`} className="underline underline-offset-2 hover:text-slate-700">
+                            {place.title.trim()}
+                          </Link>
+                        ) : (
+                          place.title.trim()
+                        )}
+                      </span>
+                    ))}
+                  </p>
                 </li>
               ))}
-            </ul>
+            </ol>
           )}
         </section>
 
@@ -0,0 +1,300 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+
+import AdminSessionBar from "@/components/AdminSessionBar";
+import type { MediaAsset, MediaAssetKind } from "@/lib/mediaLibrary";
+
+type MediaResponse = {
+  assets: MediaAsset[];
+};
+
+type MediaErrorResponse = {
+  error?: string;
+  updatedPlaces?: string[];
+};
+
+type KindFilter = MediaAssetKind | "all";
+
+const formatSize = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(1)} MB` : `${Math.max(1, Math.round(bytes / 1024))} KB`;
+
+const assetApiUrl = (asset: MediaAsset) => `/api/media/${asset.path.split("/").map(encodeURIComponent).join("/")}`;
+
+const isUnused = (asset: MediaAsset) => asset.references.length === 0 && !asset.usedInCode;
+
+export default function MediaLibraryPage() {
+  const [assets, setAssets] = useState<MediaAsset[]>([]);
+  const [status, setStatus] = useState<"idle" | "loading" | "saving" | "error">("idle");
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [search, setSearch] = useState("");
+  const [kindFilter, setKindFilter] = useState<KindFilter>("all");
+  const [unusedOnly, setUnusedOnly] = useState(false);
+  const [selectedPath, setSelectedPath] = useState<string | null>(null);
+  const [renameText, setRenameText] = useState("");
+  const [reloadToken, setReloadToken] = useState(0);
+
+  useEffect(() => {
+    let mounted = true;
+    setStatus("loading");
+    fetch("/api/media", { cache: "no-store" })
+      .then(async (res) => {
+        if (!res.ok) throw new Error("Failed to load media");
+        return (await res.json()) as MediaResponse;
+      })
+      .then((data) => {
+        if (!mounted) return;
+        setAssets(data.assets);
+        setStatus("idle");
+      })
+      .catch((err) => {
+        if (!mounted) return;
+        setError(err instanceof Error ? err.message : "Failed to load media");
+        setStatus("error");
+      });
+    return () => {
+      mounted = false;
+    };
+  }, [reloadToken]);
+
+  useEffect(() => {
+    if (!notice) return;
+    const timer = window.setTimeout(() => setNotice(null), 1800);
+    return () => window.clearTimeout(timer);
+  }, [notice]);
+
+  const filtered = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    return assets.filter(
+      (asset) =>
+        (kindFilter === "all" || asset.kind === kindFilter) &&
+        (!unusedOnly || isUnused(asset)) &&
+        (!query ||
+          asset.path.toLowerCase().includes(query) ||
+          asset.references.some((ref) => ref.placeTitle.toLowerCase().includes(query))),
+    );
+  }, [assets, kindFilter, unusedOnly, search]);
+
+  const unusedCount = useMemo(() => assets.filter(isUnused).length, [assets]);
+  const selected = assets.find((asset) => asset.path === selectedPath) ?? null;
+
+  const selectAsset = (asset: MediaAsset) => {
+    setSelectedPath(asset.path);
+    setRenameText(asset.name);
+    setError(null);
+  };
+
+  const handleRename = async () => {
+    if (!selected) return;
+    setStatus("saving");
+    setError(null);
+    try {
+      const res = await fetch(assetApiUrl(selected), {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name: renameText }),
+      });
+      const data = (await res.json().catch(() => ({}))) as MediaErrorResponse & { asset?: MediaAsset };
+      if (!res.ok || !data.asset) {
+        throw new Error(data.error || "Rename failed");
+      }
+      const updated = data.updatedPlaces?.length ?? 0;
+      setSelectedPath(data.asset.path);
+      setRenameText(data.asset.name);
+      setNotice(updated > 0 ? `Da doi ten, cap nhat ${updated} dia diem.` : "Da doi ten.");
+      setStatus("idle");
+      setReloadToken((prev) => prev + 1);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Rename failed");
+      setStatus("error");
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!selected) return;
+    if (!window.confirm(`Delete ${selected.path}? This cannot be undone.`)) return;
+    setStatus("saving");
+    setError(null);
+    try {
+      const res = await fetch(assetApiUrl(selected), { method: "DELETE" });
+      if (!res.ok) {
+        const data = (await res.json().catch(() => ({}))) as MediaErrorResponse;
+        throw new Error(data.error || "Delete failed");
+      }
+      setSelectedPath(null);
+      setNotice("Da xoa tep.");
+      setStatus("idle");
+      setReloadToken((prev) => prev + 1);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Delete failed");
+      setStatus("error");
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-50 px-6 py-8">
+      <div className="mx-auto flex w-full max-w-6xl flex-col gap-6">
+        <AdminSessionBar />
+        {notice ? (
+          <div className="fixed left-1/2 top-6 z-50 -translate-x-1/2">
+            <div className="rounded-full bg-emerald-500/90 px-4 py-2 text-sm font-semibold text-white shadow-lg">
+              {notice}
+            </div>
+          </div>
+        ) : null}
+
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <div>
+            <h1 className="text-2xl font-semibold text-slate-900">Media Library</h1>
+            <p className="text-sm text-slate-600">
+              Files in public/media. {assets.length} files, {unusedCount} not used by any place.
+            </p>
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <input
+              type="text"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Search files or places"
+              className="w-56 rounded-md border border-slate-200 bg-white px-3 py-2 text-sm text-slate-700"
+            />
+            <select
+              value={kindFilter}
+              onChange={(e) => setKindFilter(e.target.value as KindFilter)}
+              className="rounded-md border border-slate-200 bg-white px-3 py-2 text-sm text-slate-700"
+            >
+              <option value="all">All types</option>
+              <option value="image">Images</option>
+              <option value="video">Videos</option>
+              <option value="audio">Audio</option>
+              <option value="other">Other</option>
+            </select>
+            <label className="flex items-center gap-2 text-sm text-slate-700">
+              <input type="checkbox" checked={unusedOnly} onChange={(e) => setUnusedOnly(e.target.checked)} />
+              Unused only
+            </label>
+          </div>
+        </div>
+
+        {error ? <p className="text-sm text-red-600">{error}</p> : null}
+
+        <div className="grid gap-4 lg:grid-cols-[1fr_340px]">
+          <section className="rounded-xl border border-slate-200 bg-white p-4 shadow-sm">
+            {status === "loading" ? <p className="text-sm text-slate-500">Loading...</p> : null}
+            {status !== "loading" && filtered.length === 0 ? (
+              <p className="text-sm text-slate-500">No matching files.</p>
+            ) : null}
+            <ul className="grid max-h-[75vh] gap-3 overflow-y-auto sm:grid-cols-2 md:grid-cols-3">
+              {filtered.map((asset) => (
+                <li key={asset.path}>
+                  <button
+                    type="button"
+                    onClick={() => selectAsset(asset)}
+                    className={`flex w-full flex-col gap-1 rounded-md border p-2 text-left text-xs transition ${
+                      asset.path === selectedPath ? "border-[#991B1B] bg-red-50" : "border-slate-200 hover:bg-slate-50"
+                    }`}
+                  >
+                    {asset.kind === "image" ? (
+                      <img
+                        src={asset.thumbnailUrl ?? asset.url}
+                        alt=""
+                        loading="lazy"
+                        className="h-28 w-full rounded bg-slate-100 object-cover"
+                      />
+                    ) : (
+                      <span className="flex h-28 w-full items-center justify-center rounded bg-slate-100 text-xs font-semibold uppercase text-slate-500">
+                        {asset.kind}
+                      </span>
+                    )}
+                    <span className="break-all font-semibold text-slate-800">{asset.name}</span>
+                    <span className="text-slate-500">
+                      {asset.folder || "media"} · {formatSize(asset.size)}
+                    </span>
+                    {isUnused(asset) ? (
+                      <span className="w-fit rounded-full bg-amber-100 px-2 py-0.5 font-semibold text-amber-800">
+                        Unused
+                      </span>
+                    ) : null}
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </section>
+
+          <aside className="h-fit rounded-xl border border-slate-200 bg-white p-4 shadow-sm">
+            {selected ? (
+              <div className="space-y-3 text-sm">
+                {selected.kind === "image" ? (
+                  <img src={selected.url} alt="" className="w-full rounded bg-slate-100 object-contain" />
+                ) : selected.kind === "video" ? (
+                  <video src={selected.url} controls className="w-full rounded bg-slate-900" />
+                ) : selected.kind === "audio" ? (
+                  <audio src={selected.url} controls className="w-full" />
+                ) : null}
+                <div>
+                  <a href={selected.url} target="_blank" rel="noreferrer" className="break-all font-mono text-xs text-[#991B1B] underline">
+                    {selected.url}
+                  </a>
+                  <p className="text-xs text-slate-500">
+                    {formatSize(selected.size)} · changed {new Date(selected.modifiedAt).toLocaleString()}
+                  </p>
+                </div>
+                <div>
+                  <label className="text-xs font-semibold uppercase tracking-wide text-slate-500">File name</label>
+                  <div className="mt-1 flex gap-2">
+                    <input
+                      type="text"
+                      value={renameText}
+                      onChange={(e) => setRenameText(e.target.value)}
+                      disabled={selected.usedInCode}
+                      className="min-w-0 flex-1 rounded-md border border-slate-200 px-3 py-2 text-sm text-slate-700 disabled:bg-slate-50"
+                    />
+                    <button
+                      type="button"
+                      onClick={handleRename}
+                      disabled={status === "saving" || selected.usedInCode || renameText.trim() === selected.name}
+                      className="rounded-md bg-[#991B1B] px-3 py-2 text-sm font-semibold text-white shadow-sm hover:bg-[#7F1D1D] disabled:opacity-60"
+                    >
+                      Rename
+                    </button>
+                  </div>
+                  <p className="mt-1 text-xs text-slate-500">Places that use the file are updated to the new name.</p>
+                </div>
+                <div>
+                  <p className="text-xs font-semibold uppercase tracking-wide text-slate-500">Used by</p>
+                  {selected.usedInCode ? (
+                    <p className="mt-1 text-xs text-slate-600">The site itself (referenced in the source code).</p>
+                  ) : null}
+                  {selected.references.length > 0 ? (
+                    <ul className="mt-1 space-y-1 text-xs text-slate-700">
+                      {selected.references.map((ref, index) => (
+                        <li key={`${ref.placeId}-${ref.field}-${index}`}>
+                          <span className="font-semibold">{ref.placeTitle}</span>{" "}
+                          <span className="font-mono text-slate-500">{ref.field}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  ) : !selected.usedInCode ? (
+                    <p className="mt-1 text-xs text-amber-700">No place or story uses this file.</p>
+                  ) : null}
+                </div>
+                <button
+                  type="button"
+                  onClick={handleDelete}
+                  disabled={status === "saving" || !isUnused(selected)}
+                  title={isUnused(selected) ? undefined : "Remove the file from every place first"}
+                  className="w-full rounded-md border border-rose-200 bg-white px-3 py-2 text-sm font-semibold text-rose-700 shadow-sm hover:bg-rose-50 disabled:opacity-60"
+                >
+                  Delete file
+                </button>
+              </div>
+            ) : (
+              <p className="text-sm text-slate-500">Select a file to preview, rename or delete it.</p>
+            )}
+          </aside>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,43 +1,128 @@
 "use client";
 
+import Link from "next/link";
 import { useEffect, useMemo, useRef, useState } from "react";
 
-import { Place } from "@/types/place";
+import AdminSessionBar from "@/components/AdminSessionBar";
+import LinkReportPanel from "@/components/LinkReportPanel";
+import MarkdownPreview from "@/components/MarkdownPreview";
+import MediaPicker from "@/components/MediaPicker";
+import MergeConflictPanel from "@/components/MergeConflictPanel";
+import RevisionHistoryPanel from "@/components/RevisionHistoryPanel";
+import { formatCitation, nextCitationId } from "@/lib/citations";
+import {
+  comparePlaceDates,
+  formatDateSpan,
+  formatDateValue,
+  parsePeriodLabel,
+  periodLabelConflict,
+  storedDateFromText,
+} from "@/lib/historicalDates";
+import type { MediaAsset } from "@/lib/mediaLibrary";
+import type { UploadedMedia } from "@/lib/mediaUpload";
+import { PLACE_SCHEMA_VERSION } from "@/lib/migratePlace";
+import { createPlaceId, slugify } from "@/lib/placeIdentity";
+import { PlaceRecordIssues, validatePlaces } from "@/lib/placeSchema";
+import { MergeChoice, mergeRecords } from "@/lib/threeWayMerge";
+import { Citation, MediaLink, Place, PlaceStory } from "@/types/place";
 
-type EditablePlace = Place & {
-  detailMarkdown?: string;
-  stories?: { title?: string; body?: string; imageUrl?: string; imageLabel?: string }[];
+type PlacesResponse = {
+  places: Place[];
+  issues?: PlaceRecordIssues[];
+  versions?: Record<string, string>;
 };
 
-type PlacesResponse = {
-  places: EditablePlace[];
+type PlaceSaveResponse = {
+  error?: string;
+  place?: Place;
+  version?: string;
+  cascadedRoutes?: number[];
 };
 
-const emptyPlace: EditablePlace = {
-  title: "",
-  coords: [0, 0],
+type UploadError = {
+  error?: string;
+  code?: string;
+  accepted?: string[];
+};
+
+/** Turns the upload endpoint's structured error into a message the editor can act on. */
+function uploadErrorMessage(file: File, data: UploadError) {
+  const message = data.error || "Upload failed";
+  if (data.code === "unsupported_type" && data.accepted) {
+    return `${file.name}: ${message}. Accepted: ${data.accepted.join(", ")}`;
+  }
+  if (data.code === "too_large") {
+    return `${file.name} (${(file.size / (1024 * 1024)).toFixed(1)} MB): ${message}`;
+  }
+  return `${file.name}: ${message}`;
+}
+
+type SlugPreview = {
+  from: string | null;
+  to: string;
+  takenBy: string | null;
+  routes: { fid?: number; field: "fromSlug" | "toSlug"; fromSlug?: string; toSlug?: string }[];
+  questions: string[];
+};
+
+/** Which field a file picked from the media library goes into. */
+type PickerTarget =
+  | { kind: "image"; listKey: "images"; index: number }
+  | { kind: "video"; listKey: "videos"; index: number }
+  | { kind: "audio"; listKey: "audio" }
+  | { kind: "image"; listKey: "stories"; index: number }
+  | { kind: "image"; listKey: "detailMarkdown" };
+
+type PendingMerge = {
+  base: Place[];
+  local: Place[];
+  remote: Place[];
+  remoteVersions: Record<string, string>;
+};
+
+const placeKey = (place: Place, index: number) => place.id || place.slug || `#${index + 1}`;
+
+/** Fields that differ between two versions of a place; removed fields map to null. */
+const changedFields = (before: Place, after: Place) => {
+  const changes: Record<string, unknown> = {};
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)]) as Set<keyof Place>;
+  keys.forEach((key) => {
+    if (JSON.stringify(before[key]) === JSON.stringify(after[key])) return;
+    changes[key] = after[key] === undefined ? null : after[key];
+  });
+  return changes;
 };
 
-const createId = () => `place-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+/** Splits the editor state into the create/update/delete calls needed to bring the server in line. */
+const diffPlaces = (base: Place[], local: Place[]) => {
+  const baseById = new Map(base.map((place) => [place.id ?? "", place]));
+  const localIds = new Set(local.map((place) => place.id ?? ""));
+  const created = local.filter((place) => !baseById.has(place.id ?? ""));
+  const updated = local.flatMap((place) => {
+    const before = baseById.get(place.id ?? "");
+    if (!before) return [];
+    const changes = changedFields(before, place);
+    return Object.keys(changes).length > 0 ? [{ place, changes }] : [];
+  });
+  const deleted = base.filter((place) => !localIds.has(place.id ?? ""));
+  return { created, updated, deleted };
+};
 
-const slugify = (value: string) =>
-  value
-    .toLowerCase()
-    .normalize("NFD")
-    .replace(/[\u0300-\u036f]/g, "")
-    .replace(/đ/g, "d")
-    .replace(/[^a-z0-9]+/g, "-")
-    .replace(/^-+|-+$/g, "");
+const emptyPlace: Place = {
+  schemaVersion: PLACE_SCHEMA_VERSION,
+  title: "",
+  coords: [0, 0],
+};
 
-const ensurePlaceIdentity = (place: EditablePlace): EditablePlace => {
-  const id = place.id && place.id.trim().length > 0 ? place.id : createId();
+const ensurePlaceIdentity = (place: Place): Place => {
+  const id = place.id && place.id.trim().length > 0 ? place.id : createPlaceId();
   const slug =
     place.slug && place.slug.trim().length > 0 ? place.slug : slugify(place.title || "") || id;
   return { ...place, id, slug };
 };
 
 export default function PlacesAdminPage() {
-  const [places, setPlaces] = useState<EditablePlace[]>([]);
+  const [places, setPlaces] = useState<Place[]>([]);
   const [selectedIndex, setSelectedIndex] = useState<number>(-1);
   const [search, setSearch] = useState("");
   const [status, setStatus] = useState<"idle" | "loading" | "saving" | "saved" | "error">("idle");
@@ -47,11 +132,21 @@ export default function PlacesAdminPage() {
   const markdownRef = useRef<HTMLTextAreaElement | null>(null);
   const [lngText, setLngText] = useState("");
   const [latText, setLatText] = useState("");
+  const [summary, setSummary] = useState("");
+  const [showHistory, setShowHistory] = useState(false);
+  const [showLinks, setShowLinks] = useState(false);
+  const [linkToken, setLinkToken] = useState(0);
+  const [reloadToken, setReloadToken] = useState(0);
+  const [versions, setVersions] = useState<Record<string, string>>({});
+  const [pendingMerge, setPendingMerge] = useState<PendingMerge | null>(null);
+  const [mergeChoices, setMergeChoices] = useState<Record<string, MergeChoice>>({});
+  const [slugPreview, setSlugPreview] = useState<SlugPreview | null>(null);
+  const [pickerTarget, setPickerTarget] = useState<PickerTarget | null>(null);
 
   useEffect(() => {
     let mounted = true;
     setStatus("loading");
-    fetch("/api/places")
+    fetch("/api/places", { cache: "no-store" })
       .then(async (res) => {
         if (!res.ok) throw new Error("Failed to load places");
         return (await res.json()) as PlacesResponse;
@@ -61,6 +156,8 @@ export default function PlacesAdminPage() {
         const list = Array.isArray(data.places) ? data.places : [];
         setPlaces(list);
         setSavedSnapshot(JSON.stringify(list));
+        setVersions(data.versions ?? {});
+        setPendingMerge(null);
         setSelectedIndex(list.length ? 0 : -1);
         setStatus("idle");
       })
@@ -72,20 +169,13 @@ export default function PlacesAdminPage() {
     return () => {
       mounted = false;
     };
-  }, []);
+  }, [reloadToken]);
 
   const filtered = useMemo(() => {
     const query = search.trim().toLowerCase();
     const sorted = places
       .map((p, idx) => ({ p, idx }))
-      .sort((a, b) => {
-        const aKey = (a.p.dateStart || "").trim();
-        const bKey = (b.p.dateStart || "").trim();
-        if (aKey && bKey && aKey !== bKey) return aKey.localeCompare(bKey);
-        if (aKey && !bKey) return -1;
-        if (!aKey && bKey) return 1;
-        return (a.p.title || "").localeCompare(b.p.title || "");
-      })
+      .sort((a, b) => comparePlaceDates(a.p, b.p) || (a.p.title || "").localeCompare(b.p.title || ""))
       .map((entry, order) => ({ ...entry, order: order + 1 }));
     if (!query) return sorted;
     return sorted.filter(({ p }) =>
@@ -94,7 +184,61 @@ export default function PlacesAdminPage() {
   }, [places, search]);
 
   const selectedPlace = selectedIndex >= 0 ? places[selectedIndex] : null;
-  const currentSnapshot = useMemo(() => JSON.stringify(places), [places]);
+  const validation = useMemo(() => validatePlaces(places.map(ensurePlaceIdentity)), [places]);
+  const issuesByIndex = useMemo(() => {
+    const map = new Map<number, PlaceRecordIssues>();
+    validation.issues.forEach((issue) => map.set(issue.index, issue));
+    return map;
+  }, [validation]);
+  const selectedErrors = issuesByIndex.get(selectedIndex)?.errors ?? [];
+  const merge = useMemo(
+    () =>
+      pendingMerge
+        ? mergeRecords(pendingMerge.base, pendingMerge.local, pendingMerge.remote, placeKey, mergeChoices)
+        : null,
+    [pendingMerge, mergeChoices],
+  );
+  const savedSlugs = useMemo(
+    () => new Map((JSON.parse(savedSnapshot || "[]") as Place[]).map((place) => [place.id ?? "", place.slug ?? ""])),
+    [savedSnapshot],
+  );
+  const selectedId = selectedPlace?.id ?? "";
+  const selectedSlug = selectedPlace?.slug ?? "";
+  const savedSlug = savedSlugs.get(selectedId) ?? "";
+
+  // A slug change on a saved place is carried over to its routes; show which ones before saving.
+  useEffect(() => {
+    if (!selectedId || !savedSlug || !selectedSlug || selectedSlug === savedSlug) {
+      setSlugPreview(null);
+      return;
+    }
+    let active = true;
+    const timer = window.setTimeout(() => {
+      fetch(`/api/places/${encodeURIComponent(selectedId)}/slug-preview?slug=${encodeURIComponent(selectedSlug)}`, {
+        cache: "no-store",
+      })
+        .then(async (res) => (res.ok ? ((await res.json()) as SlugPreview) : null))
+        .then((data) => {
+          if (active) setSlugPreview(data);
+        })
+        .catch(() => {
+          if (active) setSlugPreview(null);
+        });
+    }, 300);
+    return () => {
+      active = false;
+      window.clearTimeout(timer);
+    };
+  }, [selectedId, selectedSlug, savedSlug]);
+
+  const fieldError = (field: string) =>
+    selectedErrors
+      .filter((item) => item.field === field || item.field.startsWith(`${field}[`) || item.field.startsWith(`${field}.`))
+      .map((item) => item.message)
+      .join(" ");
+
+  const labelSpan = selectedPlace ? parsePeriodLabel(selectedPlace.periodLabel) : null;
+  const dateConflict = selectedPlace ? periodLabelConflict(selectedPlace) : null;
 
   useEffect(() => {
     if (!selectedPlace) {
@@ -107,7 +251,7 @@ export default function PlacesAdminPage() {
     setLatText(Number.isFinite(lat) ? String(lat) : "");
   }, [selectedPlace]);
 
-  const updatePlace = (patch: Partial<EditablePlace>) => {
+  const updatePlace = (patch: Partial<Place>) => {
     if (selectedIndex < 0) return;
     setPlaces((prev) => {
       const next = [...prev];
@@ -122,7 +266,7 @@ export default function PlacesAdminPage() {
         }
       }
       if (!updated.id || updated.id.trim().length === 0) {
-        updated.id = createId();
+        updated.id = createPlaceId();
       }
       if (!updated.slug || updated.slug.trim().length === 0) {
         updated.slug = slugify(updated.title || "") || updated.id;
@@ -144,6 +288,20 @@ export default function PlacesAdminPage() {
     });
   };
 
+  // "07/1928" or "1930-9" typed into a date field is rewritten in the stored format once the field loses focus.
+  const normalizeDateField = (key: "dateStart" | "dateEnd", value: string) => {
+    const stored = storedDateFromText(value, key === "dateEnd" ? "end" : "start");
+    if (stored && stored !== value) updatePlace({ [key]: stored });
+  };
+
+  const applyLabelDates = () => {
+    if (!labelSpan) return;
+    updatePlace({
+      dateStart: formatDateValue(labelSpan.start),
+      dateEnd: labelSpan.end ? formatDateValue(labelSpan.end) : undefined,
+    });
+  };
+
   const handleCoordChange = (field: "lng" | "lat", value: string) => {
     const normalized = value.replace(",", ".");
     if (field === "lng") setLngText(normalized);
@@ -174,7 +332,26 @@ export default function PlacesAdminPage() {
     });
   };
 
-  const updateMediaList = (listKey: "images" | "videos", index: number, patch: { label?: string; url?: string }) => {
+  // Puts a numbered footnote marker at the cursor and its definition at the end of the text.
+  const insertFootnote = () => {
+    const textarea = markdownRef.current;
+    if (!textarea || selectedIndex < 0) return;
+    const value = places[selectedIndex]?.detailMarkdown ?? "";
+    const used = Array.from(value.matchAll(/\[\^(\d+)\]/g), (match) => Number(match[1]));
+    const n = Math.max(0, ...used) + 1;
+    const cursor = textarea.selectionEnd ?? value.length;
+    const marker = `[^${n}]`;
+    const definition = `[^${n}]: `;
+    const body = `${value.slice(0, cursor)}${marker}${value.slice(cursor)}`.replace(/\s*$/, "");
+    const next = `${body}\n\n${definition}`;
+    updatePlace({ detailMarkdown: next });
+    window.requestAnimationFrame(() => {
+      textarea.focus();
+      textarea.setSelectionRange(next.length, next.length);
+    });
+  };
+
+  const updateMediaList = (listKey: "images" | "videos", index: number, patch: MediaLink) => {
     if (selectedIndex < 0) return;
     setPlaces((prev) => {
       const next = [...prev];
@@ -199,14 +376,22 @@ export default function PlacesAdminPage() {
         method: "PUT",
         body: form,
       });
-      if (!res.ok) throw new Error("Upload failed");
-      const data = (await res.json()) as { url?: string };
-      if (data.url) {
-        if (listKey === "audio") {
-          updatePlace({ media: { ...(selectedPlace?.media ?? {}), audio: data.url } });
-        } else {
-          updateMediaList(listKey, index, { url: data.url });
-        }
+      if (!res.ok) {
+        const data = (await res.json().catch(() => ({}))) as UploadError;
+        throw new Error(uploadErrorMessage(file, data));
+      }
+      const data = (await res.json()) as UploadedMedia;
+      if (listKey === "audio") {
+        updatePlace({ media: { ...(selectedPlace?.media ?? {}), audio: data.url } });
+      } else if (listKey === "images") {
+        updateMediaList(listKey, index, {
+          url: data.url,
+          width: data.width,
+          height: data.height,
+          thumbnailUrl: data.thumbnailUrl,
+        });
+      } else {
+        updateMediaList(listKey, index, { url: data.url });
       }
       setStatus("idle");
     } catch (err) {
@@ -240,10 +425,7 @@ export default function PlacesAdminPage() {
     });
   };
 
-  const updateStory = (
-    index: number,
-    patch: { title?: string; body?: string; imageUrl?: string; imageLabel?: string },
-  ) => {
+  const updateStory = (index: number, patch: PlaceStory) => {
     if (selectedIndex < 0) return;
     setPlaces((prev) => {
       const next = [...prev];
@@ -272,11 +454,12 @@ export default function PlacesAdminPage() {
       const form = new FormData();
       form.append("file", file);
       const res = await fetch("/api/places?type=image", { method: "PUT", body: form });
-      if (!res.ok) throw new Error("Upload failed");
-      const data = (await res.json()) as { url?: string };
-      if (data.url) {
-        updateStory(storyIndex, { imageUrl: data.url });
+      if (!res.ok) {
+        const data = (await res.json().catch(() => ({}))) as UploadError;
+        throw new Error(uploadErrorMessage(file, data));
       }
+      const data = (await res.json()) as UploadedMedia;
+      updateStory(storyIndex, { imageUrl: data.url });
       setStatus("idle");
     } catch (err) {
       setError(err instanceof Error ? err.message : "Upload failed");
@@ -284,6 +467,28 @@ export default function PlacesAdminPage() {
     }
   };
 
+  const handlePick = (asset: MediaAsset) => {
+    if (!pickerTarget) return;
+    if (pickerTarget.listKey === "detailMarkdown") {
+      applyMarkdown(`![${asset.name.replace(/\.[^.]+$/, "")}](${asset.url})`);
+    } else if (pickerTarget.listKey === "audio") {
+      updatePlace({ media: { ...(selectedPlace?.media ?? {}), audio: asset.url } });
+    } else if (pickerTarget.listKey === "stories") {
+      updateStory(pickerTarget.index, { imageUrl: asset.url });
+    } else if (pickerTarget.listKey === "images") {
+      // Size and thumbnail describe the previous file, not the picked one.
+      updateMediaList("images", pickerTarget.index, {
+        url: asset.url,
+        width: undefined,
+        height: undefined,
+        thumbnailUrl: asset.thumbnailUrl,
+      });
+    } else {
+      updateMediaList("videos", pickerTarget.index, { url: asset.url });
+    }
+    setPickerTarget(null);
+  };
+
   const removeStory = (index: number) => {
     if (selectedIndex < 0) return;
     setPlaces((prev) => {
@@ -295,6 +500,39 @@ export default function PlacesAdminPage() {
     });
   };
 
+  const updateSource = (index: number, patch: Partial<Citation>) => {
+    if (selectedIndex < 0) return;
+    setPlaces((prev) => {
+      const next = [...prev];
+      const sources = [...(next[selectedIndex].sources ?? [])];
+      sources[index] = { ...sources[index], ...patch };
+      next[selectedIndex] = { ...next[selectedIndex], sources };
+      return next;
+    });
+  };
+
+  const addSource = () => {
+    if (selectedIndex < 0) return;
+    setPlaces((prev) => {
+      const next = [...prev];
+      const current = next[selectedIndex].sources ?? [];
+      const sources = [...current, { id: nextCitationId(current), title: "" }];
+      next[selectedIndex] = { ...next[selectedIndex], sources };
+      return next;
+    });
+  };
+
+  const removeSource = (index: number) => {
+    if (selectedIndex < 0) return;
+    setPlaces((prev) => {
+      const next = [...prev];
+      const sources = [...(next[selectedIndex].sources ?? [])];
+      sources.splice(index, 1);
+      next[selectedIndex] = { ...next[selectedIndex], sources };
+      return next;
+    });
+  };
+
   const handleSave = async () => {
     const normalized = places.map(ensurePlaceIdentity);
     const normalizedSnapshot = JSON.stringify(normalized);
@@ -302,31 +540,163 @@ export default function PlacesAdminPage() {
       setNotice({ type: "noop", message: "Chua co thay doi." });
       return;
     }
+    if (!validation.ok) {
+      const first = validation.issues[0];
+      if (first && first.index >= 0) setSelectedIndex(first.index);
+      setError(`${validation.issues.length} place(s) have invalid fields. Fix them before saving.`);
+      setStatus("error");
+      return;
+    }
     setStatus("saving");
     setError(null);
+    const base = JSON.parse(savedSnapshot || "[]") as Place[];
+    const { created, updated, deleted } = diffPlaces(base, normalized);
+    const note = summary.trim() || undefined;
+    const server = new Map(base.map((place) => [place.id ?? "", place]));
+    const nextVersions = { ...versions };
+    const conflicts: { base: Place; local?: Place; remote?: Place; version?: string }[] = [];
+    const failures: string[] = [];
+    const savedIds = new Set<string>();
+    let cascaded = 0;
+
+    const send = async (url: string, init: RequestInit) => {
+      const res = await fetch(url, init);
+      const data = (await res.json().catch(() => ({}))) as PlaceSaveResponse;
+      return { res, data };
+    };
+    const ifMatch = (id: string) => ({ "If-Match": `"${versions[id] ?? ""}"` });
+
     try {
-      if (normalizedSnapshot !== currentSnapshot) {
-        setPlaces(normalized);
+      // Deletes first so their slugs are free for renamed or new places.
+      for (const place of deleted) {
+        const id = place.id ?? "";
+        const { res, data } = await send(`/api/places/${encodeURIComponent(id)}`, {
+          method: "DELETE",
+          headers: ifMatch(id),
+        });
+        if (res.ok || res.status === 404) {
+          server.delete(id);
+          delete nextVersions[id];
+        } else if (res.status === 409 && data.place) {
+          conflicts.push({ base: place, remote: data.place, version: data.version });
+        } else {
+          failures.push(`${place.title || id}: ${data.error ?? "Delete failed"}`);
+        }
       }
-      const res = await fetch("/api/places", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ places: normalized }),
-      });
-      if (!res.ok) throw new Error("Save failed");
+      for (const { place, changes } of updated) {
+        const id = place.id ?? "";
+        const { res, data } = await send(`/api/places/${encodeURIComponent(id)}`, {
+          method: "PATCH",
+          headers: { "Content-Type": "application/json", ...ifMatch(id) },
+          body: JSON.stringify({ changes, summary: note }),
+        });
+        if (res.ok && data.place && data.version) {
+          server.set(id, data.place);
+          nextVersions[id] = data.version;
+          savedIds.add(id);
+          cascaded += data.cascadedRoutes?.length ?? 0;
+        } else if (res.status === 409 && data.place) {
+          conflicts.push({ base: server.get(id) ?? place, local: place, remote: data.place, version: data.version });
+        } else if (res.status === 404) {
+          conflicts.push({ base: server.get(id) ?? place, local: place });
+        } else {
+          failures.push(`${place.title || id}: ${data.error ?? "Save failed"}`);
+        }
+      }
+      for (const place of created) {
+        const { res, data } = await send("/api/places", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ place, summary: note }),
+        });
+        if (res.ok && data.place && data.version) {
+          server.set(data.place.id ?? "", data.place);
+          nextVersions[data.place.id ?? ""] = data.version;
+          savedIds.add(data.place.id ?? "");
+        } else {
+          failures.push(`${place.title || place.id}: ${data.error ?? "Create failed"}`);
+        }
+      }
+    } catch (err) {
+      failures.push(err instanceof Error ? err.message : "Save failed");
+    }
+
+    // Places that went through now show exactly what the server stored.
+    const saved = normalized.map((place) => (savedIds.has(place.id ?? "") ? server.get(place.id ?? "") ?? place : place));
+    setVersions(nextVersions);
+    if (conflicts.length === 0 && failures.length === 0) {
+      setPlaces(saved);
+      setSavedSnapshot(JSON.stringify(saved));
+      setSummary("");
       setStatus("saved");
-      setSavedSnapshot(normalizedSnapshot);
-      setNotice({ type: "saved", message: "Da luu thanh cong." });
+      setLinkToken((prev) => prev + 1);
+      setNotice({
+        type: "saved",
+        message: cascaded > 0 ? `Da luu thanh cong. Cap nhat ${cascaded} tuyen duong.` : "Da luu thanh cong.",
+      });
       window.setTimeout(() => setStatus("idle"), 1200);
-    } catch (err) {
-      setError(err instanceof Error ? err.message : "Save failed");
-      setStatus("error");
+      return;
+    }
+    setPlaces(saved);
+    setSavedSnapshot(JSON.stringify(Array.from(server.values())));
+    if (conflicts.length > 0) {
+      setPendingMerge({
+        base: conflicts.map((item) => item.base),
+        local: conflicts.flatMap((item) => (item.local ? [item.local] : [])),
+        remote: conflicts.flatMap((item) => (item.remote ? [item.remote] : [])),
+        remoteVersions: Object.fromEntries(
+          conflicts.flatMap((item) => (item.remote && item.version ? [[item.remote.id ?? "", item.version]] : [])),
+        ),
+      });
+      setMergeChoices({});
     }
+    const messages = [
+      conflicts.length > 0 ? `${conflicts.length} place(s) were changed by someone else` : "",
+      ...failures,
+    ].filter(Boolean);
+    setError(messages.join("; "));
+    setStatus("error");
+  };
+
+  const handleApplyMerge = () => {
+    if (!pendingMerge || !merge) return;
+    const conflictIds = new Set(pendingMerge.base.map((place) => place.id ?? ""));
+    const mergedById = new Map(merge.merged.map((place) => [place.id ?? "", place]));
+    const next = places.flatMap((place) => {
+      const id = place.id ?? "";
+      if (!conflictIds.has(id)) return [place];
+      const merged = mergedById.get(id);
+      return merged ? [merged] : [];
+    });
+    // A place this editor deleted but someone else edited comes back if "theirs" was chosen.
+    merge.merged.forEach((place) => {
+      if (!next.some((item) => item.id === place.id)) next.push(place);
+    });
+    const server = (JSON.parse(savedSnapshot || "[]") as Place[]).flatMap((place) => {
+      const id = place.id ?? "";
+      if (!conflictIds.has(id)) return [place];
+      const remote = pendingMerge.remote.find((item) => item.id === id);
+      return remote ? [remote] : [];
+    });
+    setPlaces(next);
+    setSavedSnapshot(JSON.stringify(server));
+    setVersions((prev) => {
+      const updated = { ...prev, ...pendingMerge.remoteVersions };
+      conflictIds.forEach((id) => {
+        if (!pendingMerge.remoteVersions[id]) delete updated[id];
+      });
+      return updated;
+    });
+    setSelectedIndex((prev) => Math.min(prev, next.length - 1));
+    setPendingMerge(null);
+    setError(null);
+    setStatus("idle");
+    setNotice({ type: "saved", message: "Da gop thay doi. Kiem tra roi luu lai." });
   };
 
   const handleAdd = () => {
     setPlaces((prev) => {
-      const id = createId();
+      const id = createPlaceId();
       const next = [...prev, { ...emptyPlace, id, slug: id }];
       setSelectedIndex(next.length - 1);
       return next;
@@ -356,6 +726,10 @@ export default function PlacesAdminPage() {
   return (
     <div className="min-h-screen bg-slate-50 px-6 py-8">
       <div className="mx-auto flex w-full max-w-6xl flex-col gap-6">
+        <AdminSessionBar />
+        {pickerTarget ? (
+          <MediaPicker kind={pickerTarget.kind} onPick={handlePick} onClose={() => setPickerTarget(null)} />
+        ) : null}
         {notice ? (
           <div className="fixed left-1/2 top-6 z-50 -translate-x-1/2">
             <div
@@ -375,6 +749,26 @@ export default function PlacesAdminPage() {
             <p className="text-sm text-slate-600">Edit places.json without touching the map UI.</p>
           </div>
           <div className="flex items-center gap-2">
+            <Link
+              href="/admin/media"
+              className="rounded-md border border-slate-200 bg-white px-3 py-2 text-sm font-semibold text-slate-700 shadow-sm hover:bg-slate-100"
+            >
+              Media library
+            </Link>
+            <button
+              type="button"
+              onClick={() => setShowHistory((prev) => !prev)}
+              className="rounded-md border border-slate-200 bg-white px-3 py-2 text-sm font-semibold text-slate-700 shadow-sm hover:bg-slate-100"
+            >
+              {showHistory ? "Hide history" : "History"}
+            </button>
+            <button
+              type="button"
+              onClick={() => setShowLinks((prev) => !prev)}
+              className="rounded-md border border-slate-200 bg-white px-3 py-2 text-sm font-semibold text-slate-700 shadow-sm hover:bg-slate-100"
+            >
+              {showLinks ? "Hide link check" : "Check links"}
+            </button>
             <button
               type="button"
               onClick={handleAdd}
@@ -382,6 +776,13 @@ export default function PlacesAdminPage() {
             >
               Add place
             </button>
+            <input
+              type="text"
+              value={summary}
+              onChange={(e) => setSummary(e.target.value)}
+              placeholder="Change summary (optional)"
+              className="w-56 rounded-md border border-slate-200 bg-white px-3 py-2 text-sm text-slate-700"
+            />
             <button
               type="button"
               onClick={handleSave}
@@ -393,6 +794,38 @@ export default function PlacesAdminPage() {
           </div>
         </div>
 
+        {merge ? (
+          <MergeConflictPanel
+            conflicts={merge.conflicts}
+            choices={mergeChoices}
+            autoMerged={merge.autoMerged}
+            onChoose={(id, choice) => setMergeChoices((prev) => ({ ...prev, [id]: choice }))}
+            onApply={handleApplyMerge}
+            onCancel={() => setPendingMerge(null)}
+          />
+        ) : null}
+
+        {showHistory ? (
+          <RevisionHistoryPanel
+            kind="places"
+            onRestored={() => {
+              setNotice({ type: "saved", message: "Da khoi phuc phien ban." });
+              setReloadToken((prev) => prev + 1);
+              setLinkToken((prev) => prev + 1);
+            }}
+          />
+        ) : null}
+
+        {showLinks ? (
+          <LinkReportPanel
+            refreshToken={linkToken}
+            onSelectPlace={(placeId) => {
+              const index = places.findIndex((place) => place.id === placeId);
+              if (index >= 0) setSelectedIndex(index);
+            }}
+          />
+        ) : null}
+
         <div className="grid gap-4 lg:grid-cols-[320px_1fr]">
           <aside className="rounded-xl border border-slate-200 bg-white p-4 shadow-sm">
             <input
@@ -423,6 +856,11 @@ export default function PlacesAdminPage() {
                         {order}
                       </span>
                       <p className="font-semibold">{p.title || "(untitled)"}</p>
+                      {issuesByIndex.has(idx) ? (
+                        <span className="ml-auto shrink-0 rounded-full bg-rose-100 px-2 py-0.5 text-[10px] font-semibold text-rose-700">
+                          {issuesByIndex.get(idx)?.errors.length} error(s)
+                        </span>
+                      ) : null}
                     </div>
                     <p className="text-xs text-slate-500">
                       {[p.city, p.country].filter(Boolean).join(", ")}
@@ -437,6 +875,18 @@ export default function PlacesAdminPage() {
           <section className="rounded-xl border border-slate-200 bg-white p-5 shadow-sm">
             {selectedPlace ? (
               <div className="grid gap-4 md:grid-cols-2">
+                {selectedErrors.length > 0 ? (
+                  <div className="md:col-span-2 rounded-md border border-rose-200 bg-rose-50 px-3 py-2">
+                    <p className="text-xs font-semibold uppercase tracking-wide text-rose-600">Validation errors</p>
+                    <ul className="mt-1 space-y-0.5 text-sm text-rose-700">
+                      {selectedErrors.map((item, idx) => (
+                        <li key={`error-${idx}`}>
+                          <span className="font-mono text-xs">{item.field || "place"}</span>: {item.message}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                ) : null}
                 <div className="md:col-span-2">
                   <label className="text-xs font-semibold uppercase tracking-wide text-slate-500">Title</label>
                   <textarea
@@ -445,6 +895,7 @@ export default function PlacesAdminPage() {
                     rows={2}
                     className="mt-1 w-full rounded-md border border-slate-200 px-3 py-2 text-sm text-slate-700"
                   />
+                  {fieldError("title") ? <p className="mt-1 text-xs text-rose-600">{fieldError("title")}</p> : null}
                 </div>
                 <div>
                   <label className="text-xs font-semibold uppercase tracking-wide text-slate-500">Slug</label>
@@ -454,6 +905,39 @@ export default function PlacesAdminPage() {
                     onChange={(e) => updatePlace({ slug: e.target.value })}
                     className="mt-1 w-full rounded-md border border-slate-200 px-3 py-2 text-sm text-slate-700"
                   />
+                  {fieldError("slug") ? <p className="mt-1 text-xs text-rose-600">{fieldError("slug")}</p> : null}
+                  {slugPreview ? (
+                    <div className="mt-2 rounded-md bg-amber-50 p-2 text-xs text-amber-900">
+                      {slugPreview.takenBy ? (
+                        <p className="font-semibold text-rose-700">Slug already used by {slugPreview.takenBy}.</p>
+                      ) : null}
+                      <p>
+                        Saving renames <span className="font-mono">{slugPreview.from}</span> to{" "}
+                        <span className="font-mono">{slugPreview.to}</span>.{" "}
+                        {slugPreview.routes.length === 0
+                          ? "No routes use this slug."
+                          : `${slugPreview.routes.length} route end(s) will follow:`}
+                      </p>
+                      {slugPreview.routes.length > 0 ? (
+                        <ul className="mt-1 list-disc pl-4">
+                          {slugPreview.routes.map((route) => (
+                            <li key={`${route.fid}-${route.field}`}>
+                              Route #{route.fid},{" "}
+                              {route.field === "fromSlug"
+                                ? `start of the leg to ${route.toSlug}`
+                                : `end of the leg from ${route.fromSlug}`}
+                            </li>
+                          ))}
+                        </ul>
+                      ) : null}
+                      {slugPreview.questions.length > 0 ? (
+                        <p className="mt-1">
+                          {slugPreview.questions.length} quiz question(s) will follow:{" "}
+                          <span className="font-mono">{slugPreview.questions.join(", ")}</span>
+                        </p>
+                      ) : null}
+                    </div>
+                  ) : null}
                 </div>
                 <div>
                   <label className="text-xs font-semibold uppercase tracking-wide text-slate-500">ID</label>
@@ -463,6 +947,7 @@ export default function PlacesAdminPage() {
                     onChange={(e) => updatePlace({ id: e.target.value })}
                     className="mt-1 w-full rounded-md border border-slate-200 px-3 py-2 text-sm text-slate-700"
                   />
+                  {fieldError("id") ? <p className="mt-1 text-xs text-rose-600">{fieldError("id")}</p> : null}
                 </div>
                 <div>
                   <label className="text-xs font-semibold uppercase tracking-wide text-slate-500">Country</label>
@@ -473,6 +958,22 @@ export default function PlacesAdminPage() {
                     className="mt-1 w-full rounded-md border border-slate-200 px-3 py-2 text-sm text-slate-700"
                   />
                 </div>
+                <div>
+                  <label className="text-xs font-semibold uppercase tracking-wide text-slate-500">Country code</label>
+                  <input
+                    type="text"
+                    value={selectedPlace.countryCode ?? ""}
+                    onChange={(e) =>
+                      updatePlace({ countryCode: e.target.value.trim().toUpperCase() || undefined })
+                    }
+                    placeholder="VNM"
+                    maxLength={3}
+                    className="mt-1 w-full rounded-md border border-slate-200 px-3 py-2 text-sm text-slate-700"
+                  />
+                  {fieldError("countryCode") ? (
+                    <p className="mt-1 text-xs text-rose-600">{fieldError("countryCode")}</p>
+                  ) : null}
+                </div>
                 <div>
                   <label className="text-xs font-semibold uppercase tracking-wide text-slate-500">City</label>
                   <input
@@ -492,6 +993,7 @@ export default function PlacesAdminPage() {
                     onBlur={(e) => handleCoordChange("lng", e.target.value)}
                     className="mt-1 w-full rounded-md border border-slate-200 px-3 py-2 text-sm text-slate-700"
                   />
+                  {fieldError("coords[0]") ? <p className="mt-1 text-xs text-rose-600">{fieldError("coords[0]")}</p> : null}
                 </div>
                 <div>
                   <label className="text-xs font-semibold uppercase tracking-wide text-slate-500">Latitude</label>
@@ -503,6 +1005,7 @@ export default function PlacesAdminPage() {
                     onBlur={(e) => handleCoordChange("lat", e.target.value)}
                     className="mt-1 w-full rounded-md border border-slate-200 px-3 py-2 text-sm text-slate-700"
                   />
+                  {fieldError("coords[1]") ? <p className="mt-1 text-xs text-rose-600">{fieldError("coords[1]")}</p> : null}
                 </div>
                 <div>
                   <label className="text-xs font-semibold uppercase tracking-wide text-slate-500">Period label</label>
@@ -512,6 +1015,23 @@ export default function PlacesAdminPage() {
                     onChange={(e) => updatePlace({ periodLabel: e.target.value })}
                     className="mt-1 w-full rounded-md border border-slate-200 px-3 py-2 text-sm text-slate-700"
                   />
+                  {selectedPlace.periodLabel?.trim() ? (
+                    <p className="mt-1 text-xs text-slate-500">
+                      {labelSpan ? `Reads as ${formatDateSpan(labelSpan)}` : "Not read as a date; sorting uses the dates below."}
+                    </p>
+                  ) : null}
+                  {dateConflict ? (
+                    <div className="mt-2 rounded-md bg-amber-50 p-2 text-xs text-amber-900">
+                      <p>{dateConflict}</p>
+                      <button
+                        type="button"
+                        onClick={applyLabelDates}
+                        className="mt-1 font-semibold text-amber-900 underline underline-offset-2"
+                      >
+                        Use the label&apos;s dates
+                      </button>
+                    </div>
+                  ) : null}
                 </div>
                 <div>
                   <label className="text-xs font-semibold uppercase tracking-wide text-slate-500">Date start</label>
@@ -519,8 +1039,11 @@ export default function PlacesAdminPage() {
                     type="text"
                     value={selectedPlace.dateStart ?? ""}
                     onChange={(e) => updatePlace({ dateStart: e.target.value })}
+                    onBlur={(e) => normalizeDateField("dateStart", e.target.value)}
+                    placeholder="1928-07, 1930~, 1911-06-05"
                     className="mt-1 w-full rounded-md border border-slate-200 px-3 py-2 text-sm text-slate-700"
                   />
+                  {fieldError("dateStart") ? <p className="mt-1 text-xs text-rose-600">{fieldError("dateStart")}</p> : null}
                 </div>
                 <div>
                   <label className="text-xs font-semibold uppercase tracking-wide text-slate-500">Date end</label>
@@ -528,8 +1051,11 @@ export default function PlacesAdminPage() {
                     type="text"
                     value={selectedPlace.dateEnd ?? ""}
                     onChange={(e) => updatePlace({ dateEnd: e.target.value })}
+                    onBlur={(e) => normalizeDateField("dateEnd", e.target.value)}
+                    placeholder="1928-07, 1930~, 1911-06-05"
                     className="mt-1 w-full rounded-md border border-slate-200 px-3 py-2 text-sm text-slate-700"
                   />
+                  {fieldError("dateEnd") ? <p className="mt-1 text-xs text-rose-600">{fieldError("dateEnd")}</p> : null}
                 </div>
                 <div className="md:col-span-2">
                   <label className="text-xs font-semibold uppercase tracking-wide text-slate-500">
@@ -571,14 +1097,73 @@ export default function PlacesAdminPage() {
                     >
                       Quote
                     </button>
+                    <button
+                      type="button"
+                      onClick={() => applyMarkdown("1. ", "")}
+                      className="rounded-md border border-slate-200 bg-white px-2 py-1 text-xs font-semibold text-slate-700"
+                    >
+                      Numbered
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => applyMarkdown("[", "](https://)")}
+                      className="rounded-md border border-slate-200 bg-white px-2 py-1 text-xs font-semibold text-slate-700"
+                    >
+                      Link
+                    </button>
+                    <button
+                      type="button"
+                      onClick={insertFootnote}
+                      className="rounded-md border border-slate-200 bg-white px-2 py-1 text-xs font-semibold text-slate-700"
+                    >
+                      Footnote
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => setPickerTarget({ kind: "image", listKey: "detailMarkdown" })}
+                      className="rounded-md border border-slate-200 bg-white px-2 py-1 text-xs font-semibold text-slate-700"
+                    >
+                      Image
+                    </button>
+                    <select
+                      value=""
+                      onChange={(e) => {
+                        if (e.target.value) applyMarkdown(`[@${e.target.value}]`);
+                      }}
+                      disabled={!selectedPlace.sources?.length}
+                      className="rounded-md border border-slate-200 bg-white px-2 py-1 text-xs font-semibold text-slate-700 disabled:opacity-60"
+                    >
+                      <option value="">Cite source...</option>
+                      {(selectedPlace.sources ?? []).map((source, idx) => {
+                        const text = formatCitation(source);
+                        return (
+                          <option key={`${idx}-${source.id}`} value={source.id}>
+                            [{source.id}] {text.length > 60 ? `${text.slice(0, 60)}...` : text}
+                          </option>
+                        );
+                      })}
+                    </select>
                   </div>
-                  <textarea
-                    ref={markdownRef}
-                    value={selectedPlace.detailMarkdown ?? ""}
-                    onChange={(e) => updatePlace({ detailMarkdown: e.target.value })}
-                    rows={8}
-                    className="mt-1 w-full rounded-md border border-slate-200 px-3 py-2 text-sm text-slate-700"
-                  />
+                  <div className="mt-1 grid gap-3 lg:grid-cols-2">
+                    <textarea
+                      ref={markdownRef}
+                      value={selectedPlace.detailMarkdown ?? ""}
+                      onChange={(e) => updatePlace({ detailMarkdown: e.target.value })}
+                      rows={12}
+                      className="w-full rounded-md border border-slate-200 px-3 py-2 font-mono text-sm text-slate-700"
+                    />
+                    <div className="max-h-80 overflow-y-auto rounded-md border border-slate-200 bg-slate-50 px-3 py-2">
+                      <MarkdownPreview
+                        markdown={selectedPlace.detailMarkdown ?? ""}
+                        sources={selectedPlace.sources}
+                        idPrefix="preview-"
+                      />
+                    </div>
+                  </div>
+                  <p className="mt-1 text-xs text-slate-500">
+                    Markdown with links, numbered lists, tables and footnotes. [@s2] cites the source with id s2; bare
+                    image names are looked up in public/media.
+                  </p>
                 </div>
                 <div className="md:col-span-2">
                   <div className="flex items-center justify-between">
@@ -621,6 +1206,13 @@ export default function PlacesAdminPage() {
                                 onChange={(e) => handleUpload("images", idx, e.target.files?.[0] ?? null)}
                               />
                             </label>
+                            <button
+                              type="button"
+                              onClick={() => setPickerTarget({ kind: "image", listKey: "images", index: idx })}
+                              className="rounded-md border border-slate-200 px-2 py-2 text-xs font-semibold text-slate-700"
+                            >
+                              Library
+                            </button>
                             <button
                               type="button"
                               onClick={() => removeMediaItem("images", idx)}
@@ -675,6 +1267,13 @@ export default function PlacesAdminPage() {
                                 onChange={(e) => handleUpload("videos", idx, e.target.files?.[0] ?? null)}
                               />
                             </label>
+                            <button
+                              type="button"
+                              onClick={() => setPickerTarget({ kind: "video", listKey: "videos", index: idx })}
+                              className="rounded-md border border-slate-200 px-2 py-2 text-xs font-semibold text-slate-700"
+                            >
+                              Library
+                            </button>
                             <button
                               type="button"
                               onClick={() => removeMediaItem("videos", idx)}
@@ -691,15 +1290,24 @@ export default function PlacesAdminPage() {
                 <div className="md:col-span-2">
                   <div className="flex items-center justify-between">
                     <label className="text-xs font-semibold uppercase tracking-wide text-slate-500">Audio</label>
-                    <label className="cursor-pointer rounded-md border border-slate-200 bg-white px-2 py-1 text-xs font-semibold text-slate-700">
-                      Upload audio
-                      <input
-                        type="file"
-                        accept="audio/*"
-                        className="hidden"
-                        onChange={(e) => handleUpload("audio", 0, e.target.files?.[0] ?? null)}
-                      />
-                    </label>
+                    <div className="flex items-center gap-2">
+                      <label className="cursor-pointer rounded-md border border-slate-200 bg-white px-2 py-1 text-xs font-semibold text-slate-700">
+                        Upload audio
+                        <input
+                          type="file"
+                          accept="audio/*"
+                          className="hidden"
+                          onChange={(e) => handleUpload("audio", 0, e.target.files?.[0] ?? null)}
+                        />
+                      </label>
+                      <button
+                        type="button"
+                        onClick={() => setPickerTarget({ kind: "audio", listKey: "audio" })}
+                        className="rounded-md border border-slate-200 bg-white px-2 py-1 text-xs font-semibold text-slate-700"
+                      >
+                        Pick from library
+                      </button>
+                    </div>
                   </div>
                   <input
                     type="text"
@@ -760,15 +1368,24 @@ export default function PlacesAdminPage() {
                               placeholder="Image URL"
                               className="rounded-md border border-slate-200 px-3 py-2 text-sm text-slate-700"
                             />
-                            <label className="cursor-pointer rounded-md border border-slate-200 px-2 py-2 text-xs font-semibold text-slate-700">
-                              Upload
-                              <input
-                                type="file"
-                                accept="image/*"
-                                className="hidden"
-                                onChange={(e) => handleStoryImageUpload(idx, e.target.files?.[0] ?? null)}
-                              />
-                            </label>
+                            <div className="flex items-center gap-2">
+                              <label className="cursor-pointer rounded-md border border-slate-200 px-2 py-2 text-xs font-semibold text-slate-700">
+                                Upload
+                                <input
+                                  type="file"
+                                  accept="image/*"
+                                  className="hidden"
+                                  onChange={(e) => handleStoryImageUpload(idx, e.target.files?.[0] ?? null)}
+                                />
+                              </label>
+                              <button
+                                type="button"
+                                onClick={() => setPickerTarget({ kind: "image", listKey: "stories", index: idx })}
+                                className="rounded-md border border-slate-200 px-2 py-2 text-xs font-semibold text-slate-700"
+                              >
+                                Library
+                              </button>
+                            </div>
                           </div>
                           <textarea
                             value={story.body ?? ""}
@@ -777,6 +1394,78 @@ export default function PlacesAdminPage() {
                             placeholder="Story content"
                             className="mt-2 w-full rounded-md border border-slate-200 px-3 py-2 text-sm text-slate-700"
                           />
+                          {story.body?.trim() ? (
+                            <details className="mt-1 rounded-md border border-slate-200 bg-slate-50 px-3 py-2">
+                              <summary className="cursor-pointer text-xs font-semibold text-slate-600">Preview</summary>
+                              <MarkdownPreview
+                                markdown={story.body}
+                                sources={selectedPlace.sources}
+                                idPrefix={`preview-story-${idx + 1}-`}
+                              />
+                            </details>
+                          ) : null}
+                        </div>
+                      ))
+                    )}
+                  </div>
+                </div>
+                <div className="md:col-span-2">
+                  <div className="flex items-center justify-between">
+                    <label className="text-xs font-semibold uppercase tracking-wide text-slate-500">Sources</label>
+                    <button
+                      type="button"
+                      onClick={addSource}
+                      className="rounded-md border border-slate-200 bg-white px-2 py-1 text-xs font-semibold text-slate-700"
+                    >
+                      Add source
+                    </button>
+                  </div>
+                  <div className="mt-2 space-y-3">
+                    {(selectedPlace.sources ?? []).length === 0 ? (
+                      <p className="text-xs text-slate-500">No sources yet.</p>
+                    ) : (
+                      (selectedPlace.sources ?? []).map((source, idx) => (
+                        <div key={`source-${idx}`} className="rounded-md border border-slate-200 p-3">
+                          <div className="flex items-center justify-between gap-2">
+                            <p className="text-xs font-semibold uppercase tracking-wide text-slate-500">
+                              Source {idx + 1}
+                            </p>
+                            <button
+                              type="button"
+                              onClick={() => removeSource(idx)}
+                              className="rounded-md border border-slate-200 px-2 py-1 text-xs font-semibold text-slate-700"
+                            >
+                              Remove
+                            </button>
+                          </div>
+                          <div className="mt-2 grid gap-2 md:grid-cols-3">
+                            {(
+                              [
+                                ["id", "Id (used as [@id])"],
+                                ["author", "Author(s), e.g. Duiker, William J."],
+                                ["title", "Title"],
+                                ["publisher", "Publisher"],
+                                ["date", "Published (YYYY-MM-DD)"],
+                                ["page", "Page(s)"],
+                                ["url", "URL"],
+                                ["accessed", "Accessed (YYYY-MM-DD)"],
+                                ["note", "Note"],
+                              ] as const
+                            ).map(([key, placeholder]) => (
+                              <input
+                                key={key}
+                                type="text"
+                                value={source[key] ?? ""}
+                                onChange={(e) => updateSource(idx, { [key]: e.target.value })}
+                                placeholder={placeholder}
+                                title={placeholder}
+                                className={`rounded-md border border-slate-200 px-3 py-2 text-sm text-slate-700 ${
+                                  key === "url" || key === "title" ? "md:col-span-2" : ""
+                                }`}
+                              />
+                            ))}
+                          </div>
+                          <p className="mt-2 text-xs text-slate-600">{formatCitation(source)}</p>
                         </div>
                       ))
                     )}
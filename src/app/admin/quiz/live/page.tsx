@@ -0,0 +1,335 @@
+"use client";
+
+import Link from "next/link";
+import { useEffect, useState } from "react";
+
+import AdminSessionBar from "@/components/AdminSessionBar";
+import { AUDIENCE_LEVELS } from "@/lib/quizSchema";
+import type { QuizSessionQuestionStats, QuizSessionStats } from "@/lib/quizSessionStore";
+import { AudienceLevel } from "@/types/place";
+import { QuizQuestion } from "@/types/quiz";
+
+type SessionResponse = {
+  error?: string;
+  session?: QuizSessionStats;
+};
+
+const LEVEL_LABELS: Record<AudienceLevel, string> = {
+  primary: "Primary",
+  secondary: "Secondary",
+  high: "High school",
+};
+
+/** One bar per answer a question can get, with the right ones marked. */
+const distributionOf = (question: QuizQuestion, stats: QuizSessionQuestionStats) => {
+  switch (question.type) {
+    case "single":
+    case "multiple":
+      return question.options.map((option, index) => ({
+        label: option,
+        count: stats.counts[index] ?? 0,
+        right: question.type === "single" ? question.correctIndex === index : question.correctIndexes.includes(index),
+      }));
+    case "truefalse":
+      return [
+        { label: "True", count: stats.counts[1] ?? 0, right: question.answer },
+        { label: "False", count: stats.counts[0] ?? 0, right: !question.answer },
+      ];
+    default:
+      return [
+        { label: "Right", count: stats.correct, right: true },
+        { label: "Wrong", count: stats.answered - stats.correct, right: false },
+      ];
+  }
+};
+
+export default function QuizLivePage() {
+  const [sessions, setSessions] = useState<QuizSessionStats[]>([]);
+  const [activeCode, setActiveCode] = useState<string | null>(null);
+  const [stats, setStats] = useState<QuizSessionStats | null>(null);
+  const [level, setLevel] = useState<AudienceLevel | "all">("all");
+  const [size, setSize] = useState(10);
+  const [status, setStatus] = useState<"idle" | "loading" | "saving" | "error">("idle");
+  const [error, setError] = useState<string | null>(null);
+  const [connected, setConnected] = useState(false);
+  const [reloadToken, setReloadToken] = useState(0);
+
+  useEffect(() => {
+    let mounted = true;
+    setStatus("loading");
+    fetch("/api/quiz/sessions", { cache: "no-store" })
+      .then(async (res) => {
+        if (!res.ok) throw new Error("Failed to load sessions");
+        return (await res.json()) as { sessions: QuizSessionStats[] };
+      })
+      .then((data) => {
+        if (!mounted) return;
+        setSessions(data.sessions);
+        setStatus("idle");
+      })
+      .catch((err) => {
+        if (!mounted) return;
+        setError(err instanceof Error ? err.message : "Failed to load sessions");
+        setStatus("error");
+      });
+    return () => {
+      mounted = false;
+    };
+  }, [reloadToken]);
+
+  // The server pushes the whole session again whenever a student joins or answers.
+  useEffect(() => {
+    if (!activeCode) return;
+    const source = new EventSource(`/api/quiz/sessions/${activeCode}/events`);
+    source.addEventListener("open", () => setConnected(true));
+    source.addEventListener("error", () => setConnected(false));
+    source.addEventListener("stats", (event) => {
+      setStats(JSON.parse((event as MessageEvent<string>).data) as QuizSessionStats);
+    });
+    return () => {
+      source.close();
+      setConnected(false);
+    };
+  }, [activeCode]);
+
+  const handleStart = async () => {
+    setStatus("saving");
+    setError(null);
+    try {
+      const res = await fetch("/api/quiz/sessions", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ size, ...(level === "all" ? {} : { level }) }),
+      });
+      const data = (await res.json().catch(() => ({}))) as SessionResponse;
+      if (!res.ok || !data.session) throw new Error(data.error || "Failed to start session");
+      setStats(data.session);
+      setActiveCode(data.session.code);
+      setStatus("idle");
+      setReloadToken((prev) => prev + 1);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to start session");
+      setStatus("error");
+    }
+  };
+
+  const handleEnd = async () => {
+    if (!activeCode) return;
+    if (!window.confirm(`End session ${activeCode}? Students can no longer answer.`)) return;
+    setStatus("saving");
+    setError(null);
+    try {
+      const res = await fetch(`/api/quiz/sessions/${activeCode}`, { method: "DELETE" });
+      const data = (await res.json().catch(() => ({}))) as SessionResponse;
+      if (!res.ok || !data.session) throw new Error(data.error || "Failed to end session");
+      setStats(data.session);
+      setStatus("idle");
+      setReloadToken((prev) => prev + 1);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to end session");
+      setStatus("error");
+    }
+  };
+
+  const selectSession = (session: QuizSessionStats) => {
+    setStats(session);
+    setActiveCode(session.code);
+  };
+
+  const current = stats && stats.code === activeCode ? stats : null;
+  const statsById = new Map(current?.questionStats.map((item) => [item.id, item]));
+
+  return (
+    <div className="min-h-screen bg-slate-50 px-6 py-8">
+      <div className="mx-auto flex w-full max-w-6xl flex-col gap-6">
+        <AdminSessionBar />
+
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <div>
+            <h1 className="text-2xl font-semibold text-slate-900">Live Quiz Session</h1>
+            <p className="text-sm text-slate-600">
+              Students join from the quiz tab on /map with the session code and all answer the same set.
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <Link
+              href="/admin/quiz"
+              className="rounded-md border border-slate-200 bg-white px-3 py-2 text-sm font-semibold text-slate-700 shadow-sm hover:bg-slate-100"
+            >
+              Quiz editor
+            </Link>
+          </div>
+        </div>
+
+        {error ? <p className="text-sm text-red-600">{error}</p> : null}
+
+        <div className="grid gap-4 lg:grid-cols-[300px_1fr]">
+          <aside className="flex flex-col gap-4">
+            <section className="rounded-xl border border-slate-200 bg-white p-4 shadow-sm">
+              <h2 className="text-sm font-semibold text-slate-900">New session</h2>
+              <div className="mt-3 flex flex-col gap-3">
+                <label className="flex flex-col gap-1 text-xs font-semibold text-slate-600">
+                  Level
+                  <select
+                    value={level}
+                    onChange={(e) => setLevel(e.target.value as AudienceLevel | "all")}
+                    className="rounded-md border border-slate-200 bg-white px-3 py-2 text-sm font-normal text-slate-700"
+                  >
+                    <option value="all">All levels</option>
+                    {AUDIENCE_LEVELS.map((item) => (
+                      <option key={item} value={item}>
+                        {LEVEL_LABELS[item]}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                <label className="flex flex-col gap-1 text-xs font-semibold text-slate-600">
+                  Questions
+                  <input
+                    type="number"
+                    min={1}
+                    max={30}
+                    value={size}
+                    onChange={(e) => setSize(Math.max(1, Math.min(30, Number(e.target.value) || 1)))}
+                    className="rounded-md border border-slate-200 bg-white px-3 py-2 text-sm font-normal text-slate-700"
+                  />
+                </label>
+                <button
+                  type="button"
+                  onClick={handleStart}
+                  disabled={status === "saving"}
+                  className="rounded-md bg-[#991B1B] px-4 py-2 text-sm font-semibold text-white shadow-sm hover:bg-[#7F1D1D] disabled:opacity-60"
+                >
+                  Start session
+                </button>
+              </div>
+            </section>
+
+            <section className="rounded-xl border border-slate-200 bg-white p-4 shadow-sm">
+              <h2 className="text-sm font-semibold text-slate-900">Sessions</h2>
+              {status === "loading" ? <p className="mt-2 text-sm text-slate-500">Loading...</p> : null}
+              {sessions.length === 0 && status !== "loading" ? (
+                <p className="mt-2 text-sm text-slate-500">No sessions yet.</p>
+              ) : null}
+              <ul className="mt-2 space-y-2">
+                {sessions.map((session) => (
+                  <li key={session.code}>
+                    <button
+                      type="button"
+                      onClick={() => selectSession(session)}
+                      className={`flex w-full items-center justify-between rounded-md border px-3 py-2 text-left text-sm transition ${
+                        session.code === activeCode
+                          ? "border-[#991B1B] bg-red-50"
+                          : "border-slate-200 hover:bg-slate-50"
+                      }`}
+                    >
+                      <span className="font-mono font-semibold text-slate-900">{session.code}</span>
+                      <span className="text-xs text-slate-500">
+                        {session.status === "open" ? `${session.students.length} students` : "Ended"}
+                      </span>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </section>
+          </aside>
+
+          <section className="flex flex-col gap-4">
+            {!current ? (
+              <p className="rounded-xl border border-slate-200 bg-white p-4 text-sm text-slate-500 shadow-sm">
+                Start a session or pick one to follow it live.
+              </p>
+            ) : (
+              <>
+                <div className="flex flex-wrap items-center justify-between gap-3 rounded-xl border border-slate-200 bg-white p-4 shadow-sm">
+                  <div>
+                    <p className="text-xs font-semibold uppercase tracking-wide text-slate-500">Session code</p>
+                    <p className="font-mono text-4xl font-bold tracking-widest text-[#991B1B]">{current.code}</p>
+                    <p className="mt-1 text-xs text-slate-500">
+                      {current.questions.length} questions
+                      {current.level ? ` · ${LEVEL_LABELS[current.level]}` : ""} · started by {current.createdBy}
+                      {current.status === "open" ? (connected ? " · live" : " · reconnecting...") : " · ended"}
+                    </p>
+                  </div>
+                  <button
+                    type="button"
+                    onClick={handleEnd}
+                    disabled={current.status !== "open" || status === "saving"}
+                    className="rounded-md border border-rose-200 bg-white px-3 py-2 text-sm font-semibold text-rose-700 shadow-sm hover:bg-rose-50 disabled:opacity-60"
+                  >
+                    End session
+                  </button>
+                </div>
+
+                <div className="rounded-xl border border-slate-200 bg-white p-4 shadow-sm">
+                  <h2 className="text-sm font-semibold text-slate-900">Students ({current.students.length})</h2>
+                  {current.students.length === 0 ? (
+                    <p className="mt-2 text-sm text-slate-500">Waiting for students to join...</p>
+                  ) : (
+                    <table className="mt-3 w-full text-left text-xs text-slate-700">
+                      <thead className="text-slate-500">
+                        <tr>
+                          <th className="py-1 font-semibold">Name</th>
+                          <th className="py-1 font-semibold">Answered</th>
+                          <th className="py-1 font-semibold">Right</th>
+                          <th className="py-1 font-semibold">Submitted</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {current.students.map((student) => (
+                          <tr key={student.id} className="border-t border-slate-100">
+                            <td className="py-1">{student.name}</td>
+                            <td className="py-1">
+                              {student.answered}/{current.questions.length}
+                            </td>
+                            <td className="py-1">{student.correct}</td>
+                            <td className="py-1">{student.submitted ? "Yes" : "-"}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  )}
+                </div>
+
+                {current.questions.map((question, index) => {
+                  const questionStats = statsById.get(question.id);
+                  if (!questionStats) return null;
+                  const bars = distributionOf(question, questionStats);
+                  const most = Math.max(1, ...bars.map((bar) => bar.count));
+                  return (
+                    <div key={question.id} className="rounded-xl border border-slate-200 bg-white p-4 shadow-sm">
+                      <div className="flex items-start justify-between gap-3">
+                        <p className="text-sm font-semibold text-slate-900">
+                          {index + 1}. {question.question}
+                        </p>
+                        <span className="shrink-0 text-xs text-slate-500">
+                          {questionStats.answered} answered · {questionStats.correct} right
+                        </span>
+                      </div>
+                      <ul className="mt-3 space-y-1.5">
+                        {bars.map((bar, barIndex) => (
+                          <li key={barIndex} className="grid grid-cols-[minmax(0,14rem)_1fr_2rem] items-center gap-2 text-xs">
+                            <span className={`truncate ${bar.right ? "font-semibold text-emerald-700" : "text-slate-600"}`}>
+                              {bar.label}
+                            </span>
+                            <span className="h-3 rounded bg-slate-100">
+                              <span
+                                className={`block h-3 rounded ${bar.right ? "bg-emerald-500" : "bg-slate-400"}`}
+                                style={{ width: `${(bar.count / most) * 100}%` }}
+                              />
+                            </span>
+                            <span className="text-right font-semibold text-slate-700">{bar.count}</span>
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  );
+                })}
+              </>
+            )}
+          </section>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,990 @@
+"use client";
+
+import Link from "next/link";
+import { useEffect, useMemo, useState } from "react";
+
+import AdminSessionBar from "@/components/AdminSessionBar";
+import MergeConflictPanel from "@/components/MergeConflictPanel";
+import RevisionHistoryPanel from "@/components/RevisionHistoryPanel";
+import { MAP_QUESTION_RADIUS_KM } from "@/lib/quizGrading";
+import {
+  AUDIENCE_LEVELS,
+  MIN_QUIZ_OPTIONS,
+  QUIZ_QUESTION_TYPES,
+  QuizRecordIssues,
+  nextQuestionId,
+  validateQuiz,
+} from "@/lib/quizSchema";
+import { MergeChoice, mergeRecords } from "@/lib/threeWayMerge";
+import { AudienceLevel, Place } from "@/types/place";
+import { QuizQuestion, QuizQuestionType } from "@/types/quiz";
+
+type QuizResponse = {
+  questions: QuizQuestion[];
+  issues?: QuizRecordIssues[];
+  versions?: Record<string, string>;
+};
+
+type PlaceOption = Pick<Place, "slug" | "title">;
+
+type QuestionSaveResponse = {
+  error?: string;
+  question?: QuizQuestion;
+  version?: string;
+};
+
+type PendingMerge = {
+  base: QuizQuestion[];
+  local: QuizQuestion[];
+  remote: QuizQuestion[];
+  remoteVersions: Record<string, string>;
+};
+
+const LEVEL_LABELS: Record<AudienceLevel, string> = {
+  primary: "Primary",
+  secondary: "Secondary",
+  high: "High school",
+};
+
+const TYPE_LABELS: Record<QuizQuestionType, string> = {
+  single: "Single choice",
+  multiple: "Multiple answers",
+  truefalse: "True / false",
+  order: "Chronological order",
+  map: "Find on the map",
+};
+
+const questionKey = (question: QuizQuestion, index: number) => question.id || `#${index + 1}`;
+
+/** Fields that differ between two versions of a question; removed fields map to null. */
+const changedFields = (before: QuizQuestion, after: QuizQuestion) => {
+  const changes: Record<string, unknown> = {};
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)]) as Set<keyof QuizQuestion>;
+  keys.forEach((key) => {
+    if (JSON.stringify(before[key]) === JSON.stringify(after[key])) return;
+    changes[key] = after[key] === undefined ? null : after[key];
+  });
+  return changes;
+};
+
+/** Splits the editor state into the create/update/delete calls needed to bring the server in line. */
+const diffQuestions = (base: QuizQuestion[], local: QuizQuestion[]) => {
+  const baseById = new Map(base.map((question) => [question.id, question]));
+  const localIds = new Set(local.map((question) => question.id));
+  const created = local.filter((question) => !baseById.has(question.id));
+  const updated = local.flatMap((question) => {
+    const before = baseById.get(question.id);
+    if (!before) return [];
+    const changes = changedFields(before, question);
+    return Object.keys(changes).length > 0 ? [{ question, changes }] : [];
+  });
+  const deleted = base.filter((question) => !localIds.has(question.id));
+  return { created, updated, deleted };
+};
+
+const describeQuestion = (question: QuizQuestion) =>
+  question.question.length > 60 ? `${question.id} (${question.question.slice(0, 57)}...)` : question.id;
+
+/** The options of a choice question or the events of an ordering one. */
+const choicesOf = (question: QuizQuestion) =>
+  question.type === "order" ? question.items : "options" in question ? question.options : [];
+
+/**
+ * Replaces the options or events. The correct answers follow their options: `remap` gives
+ * the new position of each old one, or -1 when it was removed.
+ */
+const withChoices = (question: QuizQuestion, choices: string[], remap: (index: number) => number): QuizQuestion => {
+  switch (question.type) {
+    case "single":
+      return { ...question, options: choices, correctIndex: remap(question.correctIndex) };
+    case "multiple":
+      return {
+        ...question,
+        options: choices,
+        correctIndexes: question.correctIndexes.map(remap).filter((index) => index >= 0),
+      };
+    case "order":
+      return { ...question, items: choices };
+    default:
+      return question;
+  }
+};
+
+/** Switches a question to another type, keeping its text, tags and whatever answers carry over. */
+const convertQuestion = (question: QuizQuestion, type: QuizQuestionType): QuizQuestion => {
+  const { id, question: text, explanation, placeSlugs, levels } = question;
+  const base = { id, question: text, explanation, placeSlugs, levels };
+  const choices = choicesOf(question);
+  const list = choices.length > 0 ? choices : ["", ""];
+  switch (type) {
+    case "single":
+      return {
+        ...base,
+        type,
+        options: list,
+        correctIndex: question.type === "multiple" ? (question.correctIndexes[0] ?? 0) : 0,
+      };
+    case "multiple":
+      return {
+        ...base,
+        type,
+        options: list,
+        correctIndexes: question.type === "single" && question.correctIndex >= 0 ? [question.correctIndex] : [],
+      };
+    case "truefalse":
+      return { ...base, type, answer: true };
+    case "order":
+      return { ...base, type, items: list };
+    case "map":
+      return { ...base, type, placeSlug: placeSlugs?.[0] ?? "" };
+  }
+};
+
+export default function QuizAdminPage() {
+  const [questions, setQuestions] = useState<QuizQuestion[]>([]);
+  const [selectedIndex, setSelectedIndex] = useState(-1);
+  const [search, setSearch] = useState("");
+  const [status, setStatus] = useState<"idle" | "loading" | "saving" | "saved" | "error">("loading");
+  const [error, setError] = useState<string | null>(null);
+  const [savedSnapshot, setSavedSnapshot] = useState<string>("");
+  const [notice, setNotice] = useState<{ type: "saved" | "noop"; message: string } | null>(null);
+  const [summary, setSummary] = useState("");
+  const [showHistory, setShowHistory] = useState(false);
+  const [reloadToken, setReloadToken] = useState(0);
+  const [versions, setVersions] = useState<Record<string, string>>({});
+  const [pendingMerge, setPendingMerge] = useState<PendingMerge | null>(null);
+  const [mergeChoices, setMergeChoices] = useState<Record<string, MergeChoice>>({});
+  const [placeOptions, setPlaceOptions] = useState<PlaceOption[] | null>(null);
+
+  useEffect(() => {
+    let mounted = true;
+    fetch("/api/quiz", { cache: "no-store" })
+      .then(async (res) => {
+        if (!res.ok) throw new Error("Failed to load questions");
+        return (await res.json()) as QuizResponse;
+      })
+      .then((data) => {
+        if (!mounted) return;
+        const list = Array.isArray(data.questions) ? data.questions : [];
+        setQuestions(list);
+        setSelectedIndex(list.length ? 0 : -1);
+        setSavedSnapshot(JSON.stringify(list));
+        setVersions(data.versions ?? {});
+        setPendingMerge(null);
+        setStatus("idle");
+      })
+      .catch((err) => {
+        if (!mounted) return;
+        setError(err instanceof Error ? err.message : "Failed to load");
+        setStatus("error");
+      });
+    return () => {
+      mounted = false;
+    };
+  }, [reloadToken]);
+
+  // Places to tag questions with; until they load, slugs are not checked against them.
+  useEffect(() => {
+    let mounted = true;
+    fetch("/api/places", { cache: "no-store" })
+      .then(async (res) => {
+        if (!res.ok) throw new Error("Failed to load places");
+        return (await res.json()) as { places: Place[] };
+      })
+      .then((data) => {
+        if (!mounted) return;
+        const list = Array.isArray(data.places) ? data.places : [];
+        setPlaceOptions(list.flatMap((place) => (place.slug ? [{ slug: place.slug, title: place.title }] : [])));
+      })
+      .catch(() => {
+        if (mounted) setPlaceOptions(null);
+      });
+    return () => {
+      mounted = false;
+    };
+  }, [reloadToken]);
+
+  useEffect(() => {
+    if (!notice) return;
+    const timer = window.setTimeout(() => setNotice(null), 1800);
+    return () => window.clearTimeout(timer);
+  }, [notice]);
+
+  const savedIds = useMemo(
+    () => new Set((JSON.parse(savedSnapshot || "[]") as QuizQuestion[]).map((question) => question.id)),
+    [savedSnapshot],
+  );
+  const filtered = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    const list = questions.map((question, idx) => ({ question, idx }));
+    if (!query) return list;
+    return list.filter(({ question }) =>
+      [question.id, question.question, ...choicesOf(question)].join(" ").toLowerCase().includes(query),
+    );
+  }, [questions, search]);
+
+  const placeTitles = useMemo(
+    () => new Map((placeOptions ?? []).map((place) => [place.slug ?? "", place.title])),
+    [placeOptions],
+  );
+  const validation = useMemo(
+    () => validateQuiz(questions, placeOptions ? new Set(placeTitles.keys()) : undefined),
+    [questions, placeOptions, placeTitles],
+  );
+  const issuesByIndex = useMemo(() => {
+    const map = new Map<number, QuizRecordIssues>();
+    validation.issues.forEach((issue) => map.set(issue.index, issue));
+    return map;
+  }, [validation]);
+  const selectedQuestion = selectedIndex >= 0 ? questions[selectedIndex] : null;
+  const selectedErrors = issuesByIndex.get(selectedIndex)?.errors ?? [];
+  const merge = useMemo(
+    () =>
+      pendingMerge
+        ? mergeRecords(pendingMerge.base, pendingMerge.local, pendingMerge.remote, questionKey, mergeChoices)
+        : null,
+    [pendingMerge, mergeChoices],
+  );
+
+  const fieldError = (field: string) =>
+    selectedErrors
+      .filter((item) => item.field === field)
+      .map((item) => item.message)
+      .join(" ");
+
+  const replaceQuestion = (question: QuizQuestion) => {
+    if (selectedIndex < 0) return;
+    setQuestions((prev) => prev.map((item, idx) => (idx === selectedIndex ? question : item)));
+  };
+
+  // Fields shared by every type; the type-specific ones go through replaceQuestion.
+  const updateQuestion = (patch: Partial<Pick<QuizQuestion, "id" | "question" | "explanation">>) => {
+    if (selectedQuestion) replaceQuestion({ ...selectedQuestion, ...patch });
+  };
+
+  // An empty list is dropped so untagged questions keep the shape they had.
+  const updateTags = (patch: Pick<QuizQuestion, "placeSlugs"> | Pick<QuizQuestion, "levels">) => {
+    if (!selectedQuestion) return;
+    const next: QuizQuestion = { ...selectedQuestion, ...patch };
+    if (next.placeSlugs?.length === 0) delete next.placeSlugs;
+    if (next.levels?.length === 0) delete next.levels;
+    replaceQuestion(next);
+  };
+
+  const toggleLevel = (level: AudienceLevel) => {
+    if (!selectedQuestion) return;
+    const levels = selectedQuestion.levels ?? [];
+    updateTags({
+      levels: levels.includes(level)
+        ? levels.filter((item) => item !== level)
+        : AUDIENCE_LEVELS.filter((item) => item === level || levels.includes(item)),
+    });
+  };
+
+  const updateOption = (index: number, value: string) => {
+    if (!selectedQuestion) return;
+    const choices = [...choicesOf(selectedQuestion)];
+    choices[index] = value;
+    replaceQuestion(withChoices(selectedQuestion, choices, (idx) => idx));
+  };
+
+  const addOption = () => {
+    if (!selectedQuestion) return;
+    replaceQuestion(withChoices(selectedQuestion, [...choicesOf(selectedQuestion), ""], (idx) => idx));
+  };
+
+  // The correct answer follows its option; removing the correct option leaves none picked until the editor chooses.
+  const removeOption = (index: number) => {
+    if (!selectedQuestion) return;
+    replaceQuestion(
+      withChoices(
+        selectedQuestion,
+        choicesOf(selectedQuestion).filter((_, idx) => idx !== index),
+        (idx) => (idx === index ? -1 : idx > index ? idx - 1 : idx),
+      ),
+    );
+  };
+
+  const moveOption = (index: number, offset: number) => {
+    if (!selectedQuestion) return;
+    const target = index + offset;
+    const choices = [...choicesOf(selectedQuestion)];
+    if (target < 0 || target >= choices.length) return;
+    [choices[index], choices[target]] = [choices[target], choices[index]];
+    replaceQuestion(
+      withChoices(selectedQuestion, choices, (idx) => (idx === index ? target : idx === target ? index : idx)),
+    );
+  };
+
+  const toggleCorrect = (index: number) => {
+    if (selectedQuestion?.type !== "multiple") return;
+    const { correctIndexes } = selectedQuestion;
+    replaceQuestion({
+      ...selectedQuestion,
+      correctIndexes: correctIndexes.includes(index)
+        ? correctIndexes.filter((idx) => idx !== index)
+        : [...correctIndexes, index].sort((a, b) => a - b),
+    });
+  };
+
+  const handleSave = async () => {
+    const currentSnapshot = JSON.stringify(questions);
+    if (currentSnapshot === savedSnapshot) {
+      setNotice({ type: "noop", message: "Chua co thay doi." });
+      return;
+    }
+    if (!validation.ok) {
+      const first = validation.issues[0];
+      if (first && first.index >= 0) setSelectedIndex(first.index);
+      setError(`${validation.issues.length} question(s) have invalid fields. Fix them before saving.`);
+      setStatus("error");
+      return;
+    }
+    setStatus("saving");
+    setError(null);
+    const base = JSON.parse(savedSnapshot || "[]") as QuizQuestion[];
+    const { created, updated, deleted } = diffQuestions(base, questions);
+    const note = summary.trim() || undefined;
+    const server = new Map(base.map((question) => [question.id, question]));
+    const nextVersions = { ...versions };
+    const conflicts: { base: QuizQuestion; local?: QuizQuestion; remote?: QuizQuestion; version?: string }[] = [];
+    const failures: string[] = [];
+    const savedOk = new Set<string>();
+
+    const send = async (url: string, init: RequestInit) => {
+      const res = await fetch(url, init);
+      const data = (await res.json().catch(() => ({}))) as QuestionSaveResponse;
+      return { res, data };
+    };
+    const ifMatch = (id: string) => ({ "If-Match": `"${versions[id] ?? ""}"` });
+
+    try {
+      // Deletes first so their ids are free for new questions.
+      for (const question of deleted) {
+        const { res, data } = await send(`/api/quiz/${encodeURIComponent(question.id)}`, {
+          method: "DELETE",
+          headers: ifMatch(question.id),
+        });
+        if (res.ok || res.status === 404) {
+          server.delete(question.id);
+          delete nextVersions[question.id];
+        } else if (res.status === 409 && data.question) {
+          conflicts.push({ base: question, remote: data.question, version: data.version });
+        } else {
+          failures.push(`${describeQuestion(question)}: ${data.error ?? "Delete failed"}`);
+        }
+      }
+      for (const { question, changes } of updated) {
+        const { res, data } = await send(`/api/quiz/${encodeURIComponent(question.id)}`, {
+          method: "PATCH",
+          headers: { "Content-Type": "application/json", ...ifMatch(question.id) },
+          body: JSON.stringify({ changes, summary: note }),
+        });
+        if (res.ok && data.question && data.version) {
+          server.set(question.id, data.question);
+          nextVersions[question.id] = data.version;
+          savedOk.add(question.id);
+        } else if (res.status === 409 && data.question) {
+          conflicts.push({
+            base: server.get(question.id) ?? question,
+            local: question,
+            remote: data.question,
+            version: data.version,
+          });
+        } else if (res.status === 404) {
+          conflicts.push({ base: server.get(question.id) ?? question, local: question });
+        } else {
+          failures.push(`${describeQuestion(question)}: ${data.error ?? "Save failed"}`);
+        }
+      }
+      for (const question of created) {
+        const { res, data } = await send("/api/quiz", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ question, summary: note }),
+        });
+        if (res.ok && data.question && data.version) {
+          server.set(data.question.id, data.question);
+          nextVersions[data.question.id] = data.version;
+          savedOk.add(data.question.id);
+        } else {
+          failures.push(`${describeQuestion(question)}: ${data.error ?? "Create failed"}`);
+        }
+      }
+    } catch (err) {
+      failures.push(err instanceof Error ? err.message : "Save failed");
+    }
+
+    // Questions that went through now show exactly what the server stored.
+    const saved = questions.map((question) =>
+      savedOk.has(question.id) ? (server.get(question.id) ?? question) : question,
+    );
+    setQuestions(saved);
+    setVersions(nextVersions);
+    if (conflicts.length === 0 && failures.length === 0) {
+      setSavedSnapshot(JSON.stringify(saved));
+      setSummary("");
+      setStatus("saved");
+      setNotice({ type: "saved", message: "Da luu thanh cong." });
+      window.setTimeout(() => setStatus("idle"), 1200);
+      return;
+    }
+    setSavedSnapshot(JSON.stringify(Array.from(server.values())));
+    if (conflicts.length > 0) {
+      setPendingMerge({
+        base: conflicts.map((item) => item.base),
+        local: conflicts.flatMap((item) => (item.local ? [item.local] : [])),
+        remote: conflicts.flatMap((item) => (item.remote ? [item.remote] : [])),
+        remoteVersions: Object.fromEntries(
+          conflicts.flatMap((item) => (item.remote && item.version ? [[item.remote.id, item.version]] : [])),
+        ),
+      });
+      setMergeChoices({});
+    }
+    const messages = [
+      conflicts.length > 0 ? `${conflicts.length} question(s) were changed by someone else` : "",
+      ...failures,
+    ].filter(Boolean);
+    setError(messages.join("; "));
+    setStatus("error");
+  };
+
+  const handleApplyMerge = () => {
+    if (!pendingMerge || !merge) return;
+    const conflictIds = new Set(pendingMerge.base.map((question) => question.id));
+    const mergedById = new Map(merge.merged.map((question) => [question.id, question]));
+    const next = questions.flatMap((question) => {
+      if (!conflictIds.has(question.id)) return [question];
+      const merged = mergedById.get(question.id);
+      return merged ? [merged] : [];
+    });
+    // A question this editor deleted but someone else edited comes back if "theirs" was chosen.
+    merge.merged.forEach((question) => {
+      if (!next.some((item) => item.id === question.id)) next.push(question);
+    });
+    const server = (JSON.parse(savedSnapshot || "[]") as QuizQuestion[]).flatMap((question) => {
+      if (!conflictIds.has(question.id)) return [question];
+      const remote = pendingMerge.remote.find((item) => item.id === question.id);
+      return remote ? [remote] : [];
+    });
+    setQuestions(next);
+    setSavedSnapshot(JSON.stringify(server));
+    setVersions((prev) => {
+      const updated = { ...prev, ...pendingMerge.remoteVersions };
+      conflictIds.forEach((id) => {
+        if (!pendingMerge.remoteVersions[id]) delete updated[id];
+      });
+      return updated;
+    });
+    setSelectedIndex((prev) => Math.min(prev, next.length - 1));
+    setPendingMerge(null);
+    setError(null);
+    setStatus("idle");
+    setNotice({ type: "saved", message: "Da gop thay doi. Kiem tra roi luu lai." });
+  };
+
+  const handleAdd = () => {
+    setQuestions((prev) => {
+      // Saved ids count too, so a question removed but not yet saved does not hand its id to a new one.
+      const id = nextQuestionId([...prev, ...Array.from(savedIds, (savedId) => ({ id: savedId }))]);
+      const next: QuizQuestion[] = [...prev, { id, type: "single", question: "", options: ["", ""], correctIndex: 0 }];
+      setSelectedIndex(next.length - 1);
+      return next;
+    });
+  };
+
+  const handleRemove = () => {
+    if (!selectedQuestion) return;
+    if (!window.confirm(`Remove question ${selectedQuestion.id}?`)) return;
+    setQuestions((prev) => {
+      const next = [...prev];
+      next.splice(selectedIndex, 1);
+      const nextIndex = Math.min(selectedIndex, next.length - 1);
+      setSelectedIndex(nextIndex >= 0 ? nextIndex : -1);
+      return next;
+    });
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-50 px-6 py-8">
+      <div className="mx-auto flex w-full max-w-6xl flex-col gap-6">
+        <AdminSessionBar />
+        {notice ? (
+          <div className="fixed left-1/2 top-6 z-50 -translate-x-1/2">
+            <div
+              className={`rounded-full px-4 py-2 text-sm font-semibold shadow-lg ${
+                notice.type === "saved" ? "bg-emerald-500/90 text-white" : "bg-slate-900/90 text-white"
+              }`}
+            >
+              {notice.message}
+            </div>
+          </div>
+        ) : null}
+
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <div>
+            <h1 className="text-2xl font-semibold text-slate-900">Quiz Editor</h1>
+            <p className="text-sm text-slate-600">Edit the questions in quiz.json used by the map&apos;s quiz tab.</p>
+          </div>
+          <div className="flex items-center gap-2">
+            <Link
+              href="/admin/quiz/results"
+              className="rounded-md border border-slate-200 bg-white px-3 py-2 text-sm font-semibold text-slate-700 shadow-sm hover:bg-slate-100"
+            >
+              Results
+            </Link>
+            <Link
+              href="/admin/quiz/live"
+              className="rounded-md border border-slate-200 bg-white px-3 py-2 text-sm font-semibold text-slate-700 shadow-sm hover:bg-slate-100"
+            >
+              Live session
+            </Link>
+            <button
+              type="button"
+              onClick={() => setShowHistory((prev) => !prev)}
+              className="rounded-md border border-slate-200 bg-white px-3 py-2 text-sm font-semibold text-slate-700 shadow-sm hover:bg-slate-100"
+            >
+              {showHistory ? "Hide history" : "History"}
+            </button>
+            <button
+              type="button"
+              onClick={handleAdd}
+              className="rounded-md border border-slate-200 bg-white px-3 py-2 text-sm font-semibold text-slate-700 shadow-sm hover:bg-slate-100"
+            >
+              Add question
+            </button>
+            <button
+              type="button"
+              onClick={handleRemove}
+              disabled={selectedIndex < 0}
+              className="rounded-md border border-rose-200 bg-white px-3 py-2 text-sm font-semibold text-rose-700 shadow-sm hover:bg-rose-50 disabled:opacity-60"
+            >
+              Remove question
+            </button>
+            <input
+              type="text"
+              value={summary}
+              onChange={(e) => setSummary(e.target.value)}
+              placeholder="Change summary (optional)"
+              className="w-56 rounded-md border border-slate-200 bg-white px-3 py-2 text-sm text-slate-700"
+            />
+            <button
+              type="button"
+              onClick={handleSave}
+              disabled={status === "saving"}
+              className="rounded-md bg-[#991B1B] px-4 py-2 text-sm font-semibold text-white shadow-sm hover:bg-[#7F1D1D] disabled:opacity-60"
+            >
+              {status === "saving" ? "Saving..." : "Save"}
+            </button>
+          </div>
+        </div>
+
+        {status === "error" && error ? (
+          <p className="rounded-md border border-rose-200 bg-rose-50 px-3 py-2 text-sm text-rose-700">{error}</p>
+        ) : null}
+
+        {merge ? (
+          <MergeConflictPanel
+            conflicts={merge.conflicts}
+            choices={mergeChoices}
+            autoMerged={merge.autoMerged}
+            onChoose={(id, choice) => setMergeChoices((prev) => ({ ...prev, [id]: choice }))}
+            onApply={handleApplyMerge}
+            onCancel={() => setPendingMerge(null)}
+          />
+        ) : null}
+
+        {showHistory ? (
+          <RevisionHistoryPanel
+            kind="quiz"
+            onRestored={() => {
+              setNotice({ type: "saved", message: "Da khoi phuc phien ban." });
+              setReloadToken((prev) => prev + 1);
+            }}
+          />
+        ) : null}
+
+        <div className="grid gap-4 lg:grid-cols-[320px_1fr]">
+          <aside className="rounded-xl border border-slate-200 bg-white p-4 shadow-sm">
+            <input
+              type="text"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Search questions and options"
+              className="w-full rounded-md border border-slate-200 px-3 py-2 text-sm text-slate-700"
+            />
+            <p className="mt-2 text-xs font-semibold uppercase tracking-wide text-slate-400">
+              {questions.length} question(s)
+            </p>
+            <div className="mt-3 max-h-[70vh] overflow-y-auto space-y-1">
+              {filtered.length === 0 ? (
+                <p className="px-2 py-3 text-sm text-slate-500">No matches.</p>
+              ) : (
+                filtered.map(({ question, idx }) => (
+                  <button
+                    key={`question-${idx}`}
+                    type="button"
+                    onClick={() => setSelectedIndex(idx)}
+                    className={`w-full rounded-md px-2 py-2 text-left text-sm transition ${
+                      idx === selectedIndex ? "bg-[#EAB308]/20 text-slate-900" : "text-slate-700 hover:bg-slate-100"
+                    }`}
+                  >
+                    <div className="flex items-center gap-2">
+                      <span className="font-mono text-xs font-semibold text-slate-500">{question.id || "(no id)"}</span>
+                      {question.type !== "single" ? (
+                        <span className="text-[10px] font-semibold text-slate-400">{TYPE_LABELS[question.type]}</span>
+                      ) : null}
+                      {!savedIds.has(question.id) ? (
+                        <span className="rounded-full bg-slate-100 px-2 py-0.5 text-[10px] font-semibold text-slate-600">
+                          New
+                        </span>
+                      ) : null}
+                      {issuesByIndex.has(idx) ? (
+                        <span className="ml-auto shrink-0 rounded-full bg-rose-100 px-2 py-0.5 text-[10px] font-semibold text-rose-700">
+                          {issuesByIndex.get(idx)?.errors.length} error(s)
+                        </span>
+                      ) : null}
+                    </div>
+                    <p className="mt-0.5 line-clamp-2 text-xs text-slate-600">{question.question || "(empty question)"}</p>
+                  </button>
+                ))
+              )}
+            </div>
+          </aside>
+
+          <section className="rounded-xl border border-slate-200 bg-white p-5 shadow-sm">
+            {selectedQuestion ? (
+              <div className="grid gap-4">
+                {selectedErrors.length > 0 ? (
+                  <div className="rounded-md border border-rose-200 bg-rose-50 px-3 py-2">
+                    <p className="text-xs font-semibold uppercase tracking-wide text-rose-600">Validation errors</p>
+                    <ul className="mt-1 space-y-0.5 text-sm text-rose-700">
+                      {selectedErrors.map((item, idx) => (
+                        <li key={`error-${idx}`}>
+                          <span className="font-mono text-xs">{item.field || "question"}</span>: {item.message}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                ) : null}
+                <div>
+                  <label className="text-xs font-semibold uppercase tracking-wide text-slate-500">Id</label>
+                  <input
+                    type="text"
+                    value={selectedQuestion.id}
+                    onChange={(e) => updateQuestion({ id: e.target.value.trim() })}
+                    readOnly={savedIds.has(selectedQuestion.id)}
+                    className="mt-1 w-full rounded-md border border-slate-200 px-3 py-2 font-mono text-sm text-slate-700 read-only:bg-slate-50 read-only:text-slate-500"
+                  />
+                  <p className="mt-1 text-xs text-slate-500">
+                    {savedIds.has(selectedQuestion.id)
+                      ? "Saved questions keep their id."
+                      : "Letters, digits, - and _. Fixed once the question is saved."}
+                  </p>
+                  {fieldError("id") ? <p className="mt-1 text-xs text-rose-600">{fieldError("id")}</p> : null}
+                </div>
+                <div>
+                  <label className="text-xs font-semibold uppercase tracking-wide text-slate-500">Type</label>
+                  <select
+                    value={selectedQuestion.type}
+                    onChange={(e) => replaceQuestion(convertQuestion(selectedQuestion, e.target.value as QuizQuestionType))}
+                    className="mt-1 w-full rounded-md border border-slate-200 bg-white px-3 py-2 text-sm text-slate-700"
+                  >
+                    {QUIZ_QUESTION_TYPES.map((type) => (
+                      <option key={type} value={type}>
+                        {TYPE_LABELS[type]}
+                      </option>
+                    ))}
+                  </select>
+                  {fieldError("type") ? <p className="mt-1 text-xs text-rose-600">{fieldError("type")}</p> : null}
+                </div>
+                <div>
+                  <label className="text-xs font-semibold uppercase tracking-wide text-slate-500">
+                    {selectedQuestion.type === "truefalse" ? "Statement" : "Question"}
+                  </label>
+                  <textarea
+                    value={selectedQuestion.question}
+                    onChange={(e) => updateQuestion({ question: e.target.value })}
+                    rows={3}
+                    className="mt-1 w-full rounded-md border border-slate-200 px-3 py-2 text-sm text-slate-700"
+                  />
+                  {fieldError("question") ? (
+                    <p className="mt-1 text-xs text-rose-600">{fieldError("question")}</p>
+                  ) : null}
+                </div>
+                {selectedQuestion.type === "single" ||
+                selectedQuestion.type === "multiple" ||
+                selectedQuestion.type === "order" ? (
+                  <div>
+                    <div className="flex items-center justify-between">
+                      <label className="text-xs font-semibold uppercase tracking-wide text-slate-500">
+                        {selectedQuestion.type === "order" ? "Events" : "Options"}
+                      </label>
+                      <button
+                        type="button"
+                        onClick={addOption}
+                        className="rounded-md border border-slate-200 bg-white px-2 py-1 text-xs font-semibold text-slate-700 hover:bg-slate-100"
+                      >
+                        {selectedQuestion.type === "order" ? "Add event" : "Add option"}
+                      </button>
+                    </div>
+                    <p className="mt-1 text-xs text-slate-500">
+                      {selectedQuestion.type === "single" ? (
+                        <>
+                          Pick the correct option. It is stored as <code>correctIndex</code>, counted from 0.
+                        </>
+                      ) : selectedQuestion.type === "multiple" ? (
+                        <>
+                          Tick every correct option. Players must pick all of them and nothing else. They are stored as{" "}
+                          <code>correctIndexes</code>, counted from 0.
+                        </>
+                      ) : (
+                        "List the events earliest first. Players see them shuffled and put them back in order."
+                      )}
+                    </p>
+                    <div className="mt-2 space-y-2">
+                      {choicesOf(selectedQuestion).map((option, idx) => {
+                        const choiceField = selectedQuestion.type === "order" ? "items" : "options";
+                        const isCorrect =
+                          selectedQuestion.type === "single"
+                            ? selectedQuestion.correctIndex === idx
+                            : selectedQuestion.type === "multiple" && selectedQuestion.correctIndexes.includes(idx);
+                        return (
+                          <div key={`option-${idx}`}>
+                            <div className="flex items-center gap-2">
+                              <label className="flex shrink-0 items-center gap-1 text-xs font-semibold text-slate-600">
+                                {selectedQuestion.type === "single" ? (
+                                  <input
+                                    type="radio"
+                                    name="correct-option"
+                                    checked={isCorrect}
+                                    onChange={() => replaceQuestion({ ...selectedQuestion, correctIndex: idx })}
+                                  />
+                                ) : selectedQuestion.type === "multiple" ? (
+                                  <input type="checkbox" checked={isCorrect} onChange={() => toggleCorrect(idx)} />
+                                ) : null}
+                                {selectedQuestion.type === "order" ? idx + 1 : String.fromCharCode(65 + idx)}
+                              </label>
+                              <input
+                                type="text"
+                                value={option}
+                                onChange={(e) => updateOption(idx, e.target.value)}
+                                className={`w-full rounded-md border px-3 py-2 text-sm text-slate-700 ${
+                                  isCorrect ? "border-emerald-300 bg-emerald-50" : "border-slate-200"
+                                }`}
+                              />
+                              <button
+                                type="button"
+                                onClick={() => moveOption(idx, -1)}
+                                disabled={idx === 0}
+                                className="rounded-md border border-slate-200 bg-white px-2 py-1 text-xs text-slate-600 hover:bg-slate-100 disabled:opacity-40"
+                                aria-label="Move up"
+                              >
+                                ↑
+                              </button>
+                              <button
+                                type="button"
+                                onClick={() => moveOption(idx, 1)}
+                                disabled={idx === choicesOf(selectedQuestion).length - 1}
+                                className="rounded-md border border-slate-200 bg-white px-2 py-1 text-xs text-slate-600 hover:bg-slate-100 disabled:opacity-40"
+                                aria-label="Move down"
+                              >
+                                ↓
+                              </button>
+                              <button
+                                type="button"
+                                onClick={() => removeOption(idx)}
+                                disabled={choicesOf(selectedQuestion).length <= MIN_QUIZ_OPTIONS}
+                                className="rounded-md border border-rose-200 bg-white px-2 py-1 text-xs font-semibold text-rose-700 hover:bg-rose-50 disabled:opacity-40"
+                              >
+                                Remove
+                              </button>
+                            </div>
+                            {fieldError(`${choiceField}[${idx}]`) ? (
+                              <p className="mt-1 text-xs text-rose-600">{fieldError(`${choiceField}[${idx}]`)}</p>
+                            ) : null}
+                            {fieldError(`correctIndexes[${idx}]`) ? (
+                              <p className="mt-1 text-xs text-rose-600">{fieldError(`correctIndexes[${idx}]`)}</p>
+                            ) : null}
+                          </div>
+                        );
+                      })}
+                    </div>
+                    {["options", "items", "correctIndex", "correctIndexes"].map((field) =>
+                      fieldError(field) ? (
+                        <p key={field} className="mt-1 text-xs text-rose-600">
+                          {fieldError(field)}
+                        </p>
+                      ) : null,
+                    )}
+                  </div>
+                ) : null}
+                {selectedQuestion.type === "truefalse" ? (
+                  <div>
+                    <label className="text-xs font-semibold uppercase tracking-wide text-slate-500">Answer</label>
+                    <div className="mt-2 flex gap-4">
+                      {[true, false].map((value) => (
+                        <label key={String(value)} className="flex items-center gap-2 text-sm text-slate-700">
+                          <input
+                            type="radio"
+                            name="true-false-answer"
+                            checked={selectedQuestion.answer === value}
+                            onChange={() => replaceQuestion({ ...selectedQuestion, answer: value })}
+                          />
+                          {value ? "True" : "False"}
+                        </label>
+                      ))}
+                    </div>
+                    {fieldError("answer") ? <p className="mt-1 text-xs text-rose-600">{fieldError("answer")}</p> : null}
+                  </div>
+                ) : null}
+                {selectedQuestion.type === "map" ? (
+                  <div className="grid gap-3 sm:grid-cols-[1fr_160px]">
+                    <div>
+                      <label className="text-xs font-semibold uppercase tracking-wide text-slate-500">Place to find</label>
+                      <select
+                        value={selectedQuestion.placeSlug}
+                        onChange={(e) => replaceQuestion({ ...selectedQuestion, placeSlug: e.target.value })}
+                        disabled={!placeOptions}
+                        className="mt-1 w-full rounded-md border border-slate-200 bg-white px-3 py-2 text-sm text-slate-700 disabled:opacity-60"
+                      >
+                        <option value="">{placeOptions ? "Choose a place..." : "Places unavailable"}</option>
+                        {selectedQuestion.placeSlug && !placeTitles.has(selectedQuestion.placeSlug) ? (
+                          <option value={selectedQuestion.placeSlug}>{selectedQuestion.placeSlug}</option>
+                        ) : null}
+                        {(placeOptions ?? []).map((place) => (
+                          <option key={place.slug} value={place.slug}>
+                            {place.title || place.slug}
+                          </option>
+                        ))}
+                      </select>
+                      <p className="mt-1 text-xs text-slate-500">
+                        Players click the map; a click within the radius of this place counts.
+                      </p>
+                      {fieldError("placeSlug") ? (
+                        <p className="mt-1 text-xs text-rose-600">{fieldError("placeSlug")}</p>
+                      ) : null}
+                    </div>
+                    <div>
+                      <label className="text-xs font-semibold uppercase tracking-wide text-slate-500">Radius (km)</label>
+                      <input
+                        type="number"
+                        min={1}
+                        value={selectedQuestion.radiusKm ?? ""}
+                        placeholder={String(MAP_QUESTION_RADIUS_KM)}
+                        onChange={(e) =>
+                          replaceQuestion({
+                            ...selectedQuestion,
+                            radiusKm: e.target.value === "" ? undefined : Number(e.target.value),
+                          })
+                        }
+                        className="mt-1 w-full rounded-md border border-slate-200 px-3 py-2 text-sm text-slate-700"
+                      />
+                      {fieldError("radiusKm") ? (
+                        <p className="mt-1 text-xs text-rose-600">{fieldError("radiusKm")}</p>
+                      ) : null}
+                    </div>
+                  </div>
+                ) : null}
+                <div>
+                  <label className="text-xs font-semibold uppercase tracking-wide text-slate-500">Explanation</label>
+                  <textarea
+                    value={selectedQuestion.explanation ?? ""}
+                    onChange={(e) => updateQuestion({ explanation: e.target.value || undefined })}
+                    rows={2}
+                    placeholder="Optional. Shown to players after the set is graded."
+                    className="mt-1 w-full rounded-md border border-slate-200 px-3 py-2 text-sm text-slate-700"
+                  />
+                  {fieldError("explanation") ? (
+                    <p className="mt-1 text-xs text-rose-600">{fieldError("explanation")}</p>
+                  ) : null}
+                </div>
+                <div>
+                  <label className="text-xs font-semibold uppercase tracking-wide text-slate-500">Places</label>
+                  <p className="mt-1 text-xs text-slate-500">
+                    What the question is about. Students who answer wrongly get a link to these places on the map.
+                  </p>
+                  <div className="mt-2 flex flex-wrap gap-2">
+                    {(selectedQuestion.placeSlugs ?? []).map((slug, idx) => {
+                      const problem = fieldError(`placeSlugs[${idx}]`);
+                      return (
+                        <span
+                          key={`${slug}-${idx}`}
+                          title={problem || slug}
+                          className={`inline-flex items-center gap-1 rounded-full px-2 py-1 text-xs font-semibold ${
+                            problem ? "bg-rose-100 text-rose-700" : "bg-slate-100 text-slate-700"
+                          }`}
+                        >
+                          {placeTitles.get(slug) || slug}
+                          <button
+                            type="button"
+                            onClick={() =>
+                              updateTags({
+                                placeSlugs: (selectedQuestion.placeSlugs ?? []).filter((_, i) => i !== idx),
+                              })
+                            }
+                            className="ml-1 text-slate-500 hover:text-rose-700"
+                            aria-label={`Remove ${slug}`}
+                          >
+                            ×
+                          </button>
+                        </span>
+                      );
+                    })}
+                    <select
+                      value=""
+                      onChange={(e) => {
+                        if (!e.target.value) return;
+                        updateTags({ placeSlugs: [...(selectedQuestion.placeSlugs ?? []), e.target.value] });
+                      }}
+                      disabled={!placeOptions}
+                      className="rounded-md border border-slate-200 bg-white px-2 py-1 text-xs text-slate-700 disabled:opacity-60"
+                    >
+                      <option value="">{placeOptions ? "Add a place..." : "Places unavailable"}</option>
+                      {(placeOptions ?? [])
+                        .filter((place) => !selectedQuestion.placeSlugs?.includes(place.slug ?? ""))
+                        .map((place) => (
+                          <option key={place.slug} value={place.slug}>
+                            {place.title || place.slug}
+                          </option>
+                        ))}
+                    </select>
+                  </div>
+                  {(selectedQuestion.placeSlugs ?? []).map((slug, idx) =>
+                    fieldError(`placeSlugs[${idx}]`) ? (
+                      <p key={`error-${slug}-${idx}`} className="mt-1 text-xs text-rose-600">
+                        <span className="font-mono">{slug}</span>: {fieldError(`placeSlugs[${idx}]`)}
+                      </p>
+                    ) : null,
+                  )}
+                  {fieldError("placeSlugs") ? (
+                    <p className="mt-1 text-xs text-rose-600">{fieldError("placeSlugs")}</p>
+                  ) : null}
+                </div>
+                <div>
+                  <label className="text-xs font-semibold uppercase tracking-wide text-slate-500">Levels</label>
+                  <p className="mt-1 text-xs text-slate-500">The audiences the question suits. None checked means all.</p>
+                  <div className="mt-2 flex flex-wrap gap-4">
+                    {AUDIENCE_LEVELS.map((level) => (
+                      <label key={level} className="flex items-center gap-2 text-sm text-slate-700">
+                        <input
+                          type="checkbox"
+                          checked={selectedQuestion.levels?.includes(level) ?? false}
+                          onChange={() => toggleLevel(level)}
+                        />
+                        {LEVEL_LABELS[level]}
+                      </label>
+                    ))}
+                  </div>
+                  {fieldError("levels") ? <p className="mt-1 text-xs text-rose-600">{fieldError("levels")}</p> : null}
+                </div>
+              </div>
+            ) : (
+              <p className="text-sm text-slate-500">Select a question to edit.</p>
+            )}
+          </section>
+        </div>
+      </div>
+    </div>
+  );
+}
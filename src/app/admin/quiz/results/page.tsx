@@ -0,0 +1,214 @@
+"use client";
+
+import Link from "next/link";
+import { useEffect, useMemo, useState } from "react";
+
+import AdminSessionBar from "@/components/AdminSessionBar";
+import type { QuizHistorySummary } from "@/lib/quizHistory";
+import type { StoredQuizAttempt } from "@/lib/quizResultStore";
+import { QuizQuestion } from "@/types/quiz";
+
+type ResultsResponse = {
+  summary: QuizHistorySummary;
+  browsers: number;
+  recent: StoredQuizAttempt[];
+};
+
+const formatTime = (value: string) => new Date(value).toLocaleString();
+
+export default function QuizResultsPage() {
+  const [results, setResults] = useState<ResultsResponse | null>(null);
+  const [questions, setQuestions] = useState<QuizQuestion[]>([]);
+  const [status, setStatus] = useState<"idle" | "loading" | "saving" | "error">("idle");
+  const [error, setError] = useState<string | null>(null);
+  const [turnedOff, setTurnedOff] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [reloadToken, setReloadToken] = useState(0);
+
+  useEffect(() => {
+    let mounted = true;
+    setStatus("loading");
+    Promise.all([
+      fetch("/api/quiz/results", { cache: "no-store" }).then(async (res) => {
+        if (res.status === 404) return null;
+        if (!res.ok) throw new Error("Failed to load quiz results");
+        return (await res.json()) as ResultsResponse;
+      }),
+      fetch("/api/quiz", { cache: "no-store" }).then(async (res) =>
+        res.ok ? ((await res.json()) as { questions: QuizQuestion[] }).questions : [],
+      ),
+    ])
+      .then(([data, bank]) => {
+        if (!mounted) return;
+        setTurnedOff(data === null);
+        setResults(data);
+        setQuestions(bank);
+        setStatus("idle");
+      })
+      .catch((err) => {
+        if (!mounted) return;
+        setError(err instanceof Error ? err.message : "Failed to load quiz results");
+        setStatus("error");
+      });
+    return () => {
+      mounted = false;
+    };
+  }, [reloadToken]);
+
+  useEffect(() => {
+    if (!notice) return;
+    const timer = window.setTimeout(() => setNotice(null), 1800);
+    return () => window.clearTimeout(timer);
+  }, [notice]);
+
+  const questionText = useMemo(
+    () => new Map(questions.map((question) => [question.id, question.question])),
+    [questions],
+  );
+
+  const handleClear = async () => {
+    if (!window.confirm("Delete every collected quiz result? This cannot be undone.")) return;
+    setStatus("saving");
+    setError(null);
+    try {
+      const res = await fetch("/api/quiz/results", { method: "DELETE" });
+      const data = (await res.json().catch(() => ({}))) as { error?: string; cleared?: number };
+      if (!res.ok) throw new Error(data.error || "Clear failed");
+      setNotice(`Da xoa ${data.cleared ?? 0} ket qua.`);
+      setStatus("idle");
+      setReloadToken((prev) => prev + 1);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Clear failed");
+      setStatus("error");
+    }
+  };
+
+  const summary = results?.summary;
+
+  return (
+    <div className="min-h-screen bg-slate-50 px-6 py-8">
+      <div className="mx-auto flex w-full max-w-6xl flex-col gap-6">
+        <AdminSessionBar />
+        {notice ? (
+          <div className="fixed left-1/2 top-6 z-50 -translate-x-1/2">
+            <div className="rounded-full bg-emerald-500/90 px-4 py-2 text-sm font-semibold text-white shadow-lg">
+              {notice}
+            </div>
+          </div>
+        ) : null}
+
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <div>
+            <h1 className="text-2xl font-semibold text-slate-900">Quiz Results</h1>
+            <p className="text-sm text-slate-600">
+              Graded sets sent from the map&apos;s quiz tab
+              {summary ? `: ${summary.attempts} attempts from ${results.browsers} browsers.` : "."}
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <Link
+              href="/admin/quiz"
+              className="rounded-md border border-slate-200 bg-white px-3 py-2 text-sm font-semibold text-slate-700 shadow-sm hover:bg-slate-100"
+            >
+              Quiz editor
+            </Link>
+            <button
+              type="button"
+              onClick={handleClear}
+              disabled={!summary || summary.attempts === 0 || status === "saving"}
+              className="rounded-md border border-rose-200 bg-white px-3 py-2 text-sm font-semibold text-rose-700 shadow-sm hover:bg-rose-50 disabled:opacity-60"
+            >
+              Clear results
+            </button>
+          </div>
+        </div>
+
+        {error ? <p className="text-sm text-red-600">{error}</p> : null}
+        {status === "loading" ? <p className="text-sm text-slate-500">Loading...</p> : null}
+        {turnedOff ? (
+          <p className="rounded-xl border border-slate-200 bg-white p-4 text-sm text-slate-600 shadow-sm">
+            Results are not collected. Start the server with <code>QUIZ_RESULTS_API=1</code> to receive graded sets
+            from every browser; until then each browser only keeps its own history.
+          </p>
+        ) : null}
+
+        {summary ? (
+          summary.attempts === 0 ? (
+            <p className="rounded-xl border border-slate-200 bg-white p-4 text-sm text-slate-500 shadow-sm">
+              No results yet.
+            </p>
+          ) : (
+            <div className="grid gap-4 lg:grid-cols-2">
+              <section className="rounded-xl border border-slate-200 bg-white p-4 shadow-sm">
+                <h2 className="text-sm font-semibold text-slate-900">
+                  Scores by day (average {summary.averagePercent ?? 0}%)
+                </h2>
+                <ul className="mt-3 space-y-2">
+                  {summary.byDay.map((day) => (
+                    <li key={day.day} className="grid grid-cols-[6rem_1fr_7rem] items-center gap-2 text-xs">
+                      <span className="text-slate-600">{day.day}</span>
+                      <span className="h-2 rounded-full bg-slate-100">
+                        <span
+                          className="block h-2 rounded-full bg-[#991B1B]/70"
+                          style={{ width: `${day.averagePercent}%` }}
+                        />
+                      </span>
+                      <span className="text-right text-slate-700">
+                        {day.averagePercent}% · {day.attempts} {day.attempts === 1 ? "attempt" : "attempts"}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </section>
+
+              <section className="rounded-xl border border-slate-200 bg-white p-4 shadow-sm">
+                <h2 className="text-sm font-semibold text-slate-900">Most missed questions</h2>
+                {summary.mostMissed.length === 0 ? (
+                  <p className="mt-3 text-sm text-slate-500">Every question was answered correctly.</p>
+                ) : (
+                  <ol className="mt-3 list-decimal space-y-2 pl-5 text-sm text-slate-700">
+                    {summary.mostMissed.map((entry) => (
+                      <li key={entry.id}>
+                        <span className="font-mono text-xs text-slate-500">{entry.id}</span>{" "}
+                        {questionText.get(entry.id) ?? "(deleted question)"}{" "}
+                        <span className="text-xs font-semibold text-rose-700">
+                          missed {entry.missed} of {entry.asked}
+                        </span>
+                      </li>
+                    ))}
+                  </ol>
+                )}
+              </section>
+
+              <section className="rounded-xl border border-slate-200 bg-white p-4 shadow-sm lg:col-span-2">
+                <h2 className="text-sm font-semibold text-slate-900">Recent results</h2>
+                <table className="mt-3 w-full text-left text-xs text-slate-700">
+                  <thead className="text-slate-500">
+                    <tr>
+                      <th className="py-1 font-semibold">Finished</th>
+                      <th className="py-1 font-semibold">Score</th>
+                      <th className="py-1 font-semibold">Level</th>
+                      <th className="py-1 font-semibold">Browser</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {results.recent.map((result) => (
+                      <tr key={result.id} className="border-t border-slate-100">
+                        <td className="py-1">{formatTime(result.finishedAt)}</td>
+                        <td className="py-1 font-semibold">
+                          {result.score}/{result.total}
+                        </td>
+                        <td className="py-1">{result.level ?? "All"}</td>
+                        <td className="py-1 font-mono text-slate-500">{result.browserId ?? "-"}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </section>
+            </div>
+          )
+        ) : null}
+      </div>
+    </div>
+  );
+}
@@ -2,29 +2,79 @@
 
 import { useEffect, useMemo, useState } from "react";
 
-type RouteFeature = {
-  type: "Feature";
-  properties?: {
-    fid?: number;
-    fromSlug?: string;
-    toSlug?: string;
-    order?: string | number;
-    mode?: string;
-    label?: string;
-  };
-  geometry: {
-    type: "LineString";
-    coordinates: [number, number][];
-  };
-};
+import AdminSessionBar from "@/components/AdminSessionBar";
+import IntegrityPanel from "@/components/IntegrityPanel";
+import MergeConflictPanel from "@/components/MergeConflictPanel";
+import RevisionHistoryPanel from "@/components/RevisionHistoryPanel";
+import { MergeChoice, mergeRecords } from "@/lib/threeWayMerge";
+import { RouteCollection, RouteFeature, RouteProperties } from "@/types/route";
 
 type RoutesResponse = {
-  routes: {
-    type: "FeatureCollection";
-    features: RouteFeature[];
-  };
+  routes: RouteCollection;
+  versions?: Record<string, string>;
 };
 
+type RouteSaveResponse = {
+  error?: string;
+  route?: RouteFeature;
+  version?: string;
+};
+
+// Routes merge property by property, with the geometry as one more field.
+type FlatRoute = RouteProperties & { geometry: RouteFeature["geometry"] };
+
+type PendingMerge = {
+  base: FlatRoute[];
+  local: FlatRoute[];
+  remote: FlatRoute[];
+  remoteVersions: Record<string, string>;
+};
+
+const flattenRoute = (route: RouteFeature): FlatRoute => ({ ...route.properties, geometry: route.geometry });
+
+const unflattenRoute = ({ geometry, ...properties }: FlatRoute): RouteFeature => ({
+  type: "Feature",
+  properties,
+  geometry,
+});
+
+const routeKey = (route: FlatRoute, index: number) => {
+  if (route.fid !== undefined) return `fid ${route.fid}`;
+  if (route.fromSlug && route.toSlug) return `${route.fromSlug}->${route.toSlug}`;
+  return `#${index + 1}`;
+};
+
+/** Properties and geometry that differ from the saved feature; removed properties map to null. */
+const changedRouteFields = (before: RouteFeature, after: RouteFeature) => {
+  const changes: { properties?: Record<string, unknown>; geometry?: RouteFeature["geometry"] } = {};
+  const beforeProps: Record<string, unknown> = { ...before.properties };
+  const afterProps: Record<string, unknown> = { ...after.properties };
+  Array.from(new Set([...Object.keys(beforeProps), ...Object.keys(afterProps)])).forEach((key) => {
+    if (JSON.stringify(beforeProps[key]) === JSON.stringify(afterProps[key])) return;
+    changes.properties = { ...changes.properties, [key]: afterProps[key] === undefined ? null : afterProps[key] };
+  });
+  if (JSON.stringify(before.geometry) !== JSON.stringify(after.geometry)) changes.geometry = after.geometry;
+  return changes;
+};
+
+/** Splits the editor state into per-segment calls; features without a fid are new. */
+const diffRoutes = (base: RouteFeature[], local: RouteFeature[]) => {
+  const baseByFid = new Map(base.map((route) => [route.properties?.fid, route]));
+  const localFids = new Set(local.map((route) => route.properties?.fid));
+  const created = local.filter((route) => route.properties?.fid === undefined || !baseByFid.has(route.properties.fid));
+  const updated = local.flatMap((route) => {
+    const before = route.properties?.fid !== undefined ? baseByFid.get(route.properties.fid) : undefined;
+    if (!before) return [];
+    const changes = changedRouteFields(before, route);
+    return Object.keys(changes).length > 0 ? [{ route, changes }] : [];
+  });
+  const deleted = base.filter((route) => !localFids.has(route.properties?.fid));
+  return { created, updated, deleted };
+};
+
+const describeRoute = (route: RouteFeature) =>
+  route.properties?.label || `${route.properties?.fromSlug || "?"} -> ${route.properties?.toSlug || "?"}`;
+
 const emptyFeature: RouteFeature = {
   type: "Feature",
   properties: { order: "", mode: "" },
@@ -39,11 +89,18 @@ export default function RoutesAdminPage() {
   const [error, setError] = useState<string | null>(null);
   const [savedSnapshot, setSavedSnapshot] = useState<string>("");
   const [notice, setNotice] = useState<{ type: "saved" | "noop"; message: string } | null>(null);
+  const [summary, setSummary] = useState("");
+  const [showHistory, setShowHistory] = useState(false);
+  const [reloadToken, setReloadToken] = useState(0);
+  const [versions, setVersions] = useState<Record<string, string>>({});
+  const [pendingMerge, setPendingMerge] = useState<PendingMerge | null>(null);
+  const [mergeChoices, setMergeChoices] = useState<Record<string, MergeChoice>>({});
+  const [integrityToken, setIntegrityToken] = useState(0);
 
   useEffect(() => {
     let mounted = true;
     setStatus("loading");
-    fetch("/api/routes")
+    fetch("/api/routes", { cache: "no-store" })
       .then(async (res) => {
         if (!res.ok) throw new Error("Failed to load routes");
         return (await res.json()) as RoutesResponse;
@@ -54,6 +111,8 @@ export default function RoutesAdminPage() {
         setRoutes(list);
         setSelectedIndex(list.length ? 0 : -1);
         setSavedSnapshot(JSON.stringify(list));
+        setVersions(data.versions ?? {});
+        setPendingMerge(null);
         setStatus("idle");
       })
       .catch((err) => {
@@ -64,9 +123,16 @@ export default function RoutesAdminPage() {
     return () => {
       mounted = false;
     };
-  }, []);
+  }, [reloadToken]);
 
   const currentSnapshot = useMemo(() => JSON.stringify(routes), [routes]);
+  const merge = useMemo(
+    () =>
+      pendingMerge
+        ? mergeRecords(pendingMerge.base, pendingMerge.local, pendingMerge.remote, routeKey, mergeChoices)
+        : null,
+    [pendingMerge, mergeChoices],
+  );
   const selectedRoute = selectedIndex >= 0 ? routes[selectedIndex] : null;
 
   useEffect(() => {
@@ -123,21 +189,141 @@ export default function RoutesAdminPage() {
     }
     setStatus("saving");
     setError(null);
+    const base = JSON.parse(savedSnapshot || "[]") as RouteFeature[];
+    const { created, updated, deleted } = diffRoutes(base, routes);
+    const note = summary.trim() || undefined;
+    const server = new Map(base.map((route) => [route.properties?.fid, route]));
+    const nextVersions = { ...versions };
+    const conflicts: { base: RouteFeature; local?: RouteFeature; remote?: RouteFeature; version?: string }[] = [];
+    const failures: string[] = [];
+    // Saved features keyed by their position in the editor, so new ones pick up their assigned fid.
+    const savedAt = new Map<number, RouteFeature>();
+
+    const send = async (url: string, init: RequestInit) => {
+      const res = await fetch(url, init);
+      const data = (await res.json().catch(() => ({}))) as RouteSaveResponse;
+      return { res, data };
+    };
+    const ifMatch = (fid: number) => ({ "If-Match": `"${versions[String(fid)] ?? ""}"` });
+
     try {
-      const res = await fetch("/api/routes", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ routes }),
-      });
-      if (!res.ok) throw new Error("Save failed");
+      for (const route of deleted) {
+        const fid = route.properties?.fid as number;
+        const { res, data } = await send(`/api/routes/${fid}`, { method: "DELETE", headers: ifMatch(fid) });
+        if (res.ok || res.status === 404) {
+          server.delete(fid);
+          delete nextVersions[String(fid)];
+        } else if (res.status === 409 && data.route) {
+          conflicts.push({ base: route, remote: data.route, version: data.version });
+        } else {
+          failures.push(`${describeRoute(route)}: ${data.error ?? "Delete failed"}`);
+        }
+      }
+      for (const { route, changes } of updated) {
+        const fid = route.properties?.fid as number;
+        const { res, data } = await send(`/api/routes/${fid}`, {
+          method: "PATCH",
+          headers: { "Content-Type": "application/json", ...ifMatch(fid) },
+          body: JSON.stringify({ changes, summary: note }),
+        });
+        if (res.ok && data.route && data.version) {
+          server.set(fid, data.route);
+          nextVersions[String(fid)] = data.version;
+          savedAt.set(routes.indexOf(route), data.route);
+        } else if (res.status === 409 && data.route) {
+          conflicts.push({ base: server.get(fid) ?? route, local: route, remote: data.route, version: data.version });
+        } else if (res.status === 404) {
+          conflicts.push({ base: server.get(fid) ?? route, local: route });
+        } else {
+          failures.push(`${describeRoute(route)}: ${data.error ?? "Save failed"}`);
+        }
+      }
+      for (const route of created) {
+        const { res, data } = await send("/api/routes", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ route, summary: note }),
+        });
+        if (res.ok && data.route && data.version) {
+          server.set(data.route.properties?.fid, data.route);
+          nextVersions[String(data.route.properties?.fid)] = data.version;
+          savedAt.set(routes.indexOf(route), data.route);
+        } else {
+          failures.push(`${describeRoute(route)}: ${data.error ?? "Create failed"}`);
+        }
+      }
+    } catch (err) {
+      failures.push(err instanceof Error ? err.message : "Save failed");
+    }
+
+    const saved = routes.map((route, index) => savedAt.get(index) ?? route);
+    setRoutes(saved);
+    setVersions(nextVersions);
+    setIntegrityToken((prev) => prev + 1);
+    if (conflicts.length === 0 && failures.length === 0) {
+      setSavedSnapshot(JSON.stringify(saved));
+      setSummary("");
       setStatus("saved");
-      setSavedSnapshot(currentSnapshot);
       setNotice({ type: "saved", message: "Da luu thanh cong." });
       window.setTimeout(() => setStatus("idle"), 1200);
-    } catch (err) {
-      setError(err instanceof Error ? err.message : "Save failed");
-      setStatus("error");
+      return;
     }
+    setSavedSnapshot(JSON.stringify(Array.from(server.values())));
+    if (conflicts.length > 0) {
+      setPendingMerge({
+        base: conflicts.map((item) => flattenRoute(item.base)),
+        local: conflicts.flatMap((item) => (item.local ? [flattenRoute(item.local)] : [])),
+        remote: conflicts.flatMap((item) => (item.remote ? [flattenRoute(item.remote)] : [])),
+        remoteVersions: Object.fromEntries(
+          conflicts.flatMap((item) =>
+            item.remote && item.version ? [[String(item.remote.properties?.fid), item.version]] : [],
+          ),
+        ),
+      });
+      setMergeChoices({});
+    }
+    const messages = [
+      conflicts.length > 0 ? `${conflicts.length} route(s) were changed by someone else` : "",
+      ...failures,
+    ].filter(Boolean);
+    setError(messages.join("; "));
+    setStatus("error");
+  };
+
+  const handleApplyMerge = () => {
+    if (!pendingMerge || !merge) return;
+    const conflictFids = new Set(pendingMerge.base.map((route) => route.fid));
+    const mergedByFid = new Map(merge.merged.map((route) => [route.fid, unflattenRoute(route)]));
+    const next = routes.flatMap((route) => {
+      const fid = route.properties?.fid;
+      if (!conflictFids.has(fid)) return [route];
+      const merged = mergedByFid.get(fid);
+      return merged ? [merged] : [];
+    });
+    // A route this editor deleted but someone else edited comes back if "theirs" was chosen.
+    mergedByFid.forEach((route, fid) => {
+      if (!next.some((item) => item.properties?.fid === fid)) next.push(route);
+    });
+    const server = (JSON.parse(savedSnapshot || "[]") as RouteFeature[]).flatMap((route) => {
+      const fid = route.properties?.fid;
+      if (!conflictFids.has(fid)) return [route];
+      const remote = pendingMerge.remote.find((item) => item.fid === fid);
+      return remote ? [unflattenRoute(remote)] : [];
+    });
+    setRoutes(next);
+    setSavedSnapshot(JSON.stringify(server));
+    setVersions((prev) => {
+      const updated = { ...prev, ...pendingMerge.remoteVersions };
+      conflictFids.forEach((fid) => {
+        if (!pendingMerge.remoteVersions[String(fid)]) delete updated[String(fid)];
+      });
+      return updated;
+    });
+    setSelectedIndex((prev) => Math.min(prev, next.length - 1));
+    setPendingMerge(null);
+    setError(null);
+    setStatus("idle");
+    setNotice({ type: "saved", message: "Da gop thay doi. Kiem tra roi luu lai." });
   };
 
   const handleAdd = () => {
@@ -165,6 +351,7 @@ export default function RoutesAdminPage() {
   return (
     <div className="min-h-screen bg-slate-50 px-6 py-8">
       <div className="mx-auto flex w-full max-w-6xl flex-col gap-6">
+        <AdminSessionBar />
         {notice ? (
           <div className="fixed left-1/2 top-6 z-50 -translate-x-1/2">
             <div
@@ -183,6 +370,13 @@ export default function RoutesAdminPage() {
             <p className="text-sm text-slate-600">Edit routes.json without touching the map UI.</p>
           </div>
           <div className="flex items-center gap-2">
+            <button
+              type="button"
+              onClick={() => setShowHistory((prev) => !prev)}
+              className="rounded-md border border-slate-200 bg-white px-3 py-2 text-sm font-semibold text-slate-700 shadow-sm hover:bg-slate-100"
+            >
+              {showHistory ? "Hide history" : "History"}
+            </button>
             <button
               type="button"
               onClick={handleAdd}
@@ -198,6 +392,13 @@ export default function RoutesAdminPage() {
             >
               Remove route
             </button>
+            <input
+              type="text"
+              value={summary}
+              onChange={(e) => setSummary(e.target.value)}
+              placeholder="Change summary (optional)"
+              className="w-56 rounded-md border border-slate-200 bg-white px-3 py-2 text-sm text-slate-700"
+            />
             <button
               type="button"
               onClick={handleSave}
@@ -209,6 +410,36 @@ export default function RoutesAdminPage() {
           </div>
         </div>
 
+        <IntegrityPanel
+          refreshToken={integrityToken}
+          onSelectRoute={(fid) => {
+            const index = routes.findIndex((route) => route.properties?.fid === fid);
+            if (index >= 0) setSelectedIndex(index);
+          }}
+        />
+
+        {merge ? (
+          <MergeConflictPanel
+            conflicts={merge.conflicts}
+            choices={mergeChoices}
+            autoMerged={merge.autoMerged}
+            onChoose={(id, choice) => setMergeChoices((prev) => ({ ...prev, [id]: choice }))}
+            onApply={handleApplyMerge}
+            onCancel={() => setPendingMerge(null)}
+          />
+        ) : null}
+
+        {showHistory ? (
+          <RevisionHistoryPanel
+            kind="routes"
+            onRestored={() => {
+              setNotice({ type: "saved", message: "Da khoi phuc phien ban." });
+              setReloadToken((prev) => prev + 1);
+              setIntegrityToken((prev) => prev + 1);
+            }}
+          />
+        ) : null}
+
         <div className="grid gap-4 lg:grid-cols-[320px_1fr]">
           <aside className="rounded-xl border border-slate-200 bg-white p-4 shadow-sm">
             <div className="mt-1 max-h-[70vh] overflow-y-auto space-y-2">
@@ -226,7 +457,9 @@ export default function RoutesAdminPage() {
                         isActive ? "bg-[#EAB308]/20 text-slate-900" : "text-slate-700 hover:bg-slate-100"
                       }`}
                     >
-                      <p className="text-xs font-semibold">{`Route ${idx + 1}`}</p>
+                      <p className="text-xs font-semibold">
+                        {route.properties?.fid !== undefined ? `Route #${route.properties.fid}` : "New route"}
+                      </p>
                       <p className="text-xs text-slate-500">
                         {route.properties?.fromSlug || "from"} → {route.properties?.toSlug || "to"}
                       </p>
@@ -0,0 +1,53 @@
+import { NextResponse } from "next/server";
+
+import {
+  AuthConfigError,
+  SESSION_COOKIE,
+  SESSION_MAX_AGE,
+  createSessionToken,
+  getSession,
+  verifyCredentials,
+} from "@/lib/auth";
+
+export async function GET(request: Request) {
+  const session = getSession(request);
+  if (!session) {
+    return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+  }
+  return NextResponse.json({ user: { username: session.username, role: session.role } });
+}
+
+export async function POST(request: Request) {
+  try {
+    const body = await request.json();
+    const username = typeof body?.username === "string" ? body.username.trim() : "";
+    const password = typeof body?.password === "string" ? body.password : "";
+    if (!username || !password) {
+      return NextResponse.json({ error: "Missing username or password" }, { status: 400 });
+    }
+    const session = await verifyCredentials(username, password);
+    if (!session) {
+      return NextResponse.json({ error: "Invalid username or password" }, { status: 401 });
+    }
+    const response = NextResponse.json({ user: { username: session.username, role: session.role } });
+    response.cookies.set(SESSION_COOKIE, createSessionToken(session), {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: process.env.NODE_ENV === "production",
+      path: "/",
+      maxAge: SESSION_MAX_AGE,
+    });
+    return response;
+  } catch (err) {
+    if (err instanceof AuthConfigError) {
+      return NextResponse.json({ error: err.message }, { status: 500 });
+    }
+    return NextResponse.json({ error: "Failed to sign in" }, { status: 500 });
+  }
+}
+
+export async function DELETE() {
+  const response = NextResponse.json({ ok: true });
+  response.cookies.delete(SESSION_COOKIE);
+  return response;
+}
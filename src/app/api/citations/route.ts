@@ -0,0 +1,59 @@
+import { NextResponse } from "next/server";
+
+import { collectBibliography, toBibtex, toCslJson } from "@/lib/citations";
+import { loadPlaces } from "@/lib/loadPlaces";
+import { Citation } from "@/types/place";
+
+const FORMATS = {
+  bibtex: { contentType: "application/x-bibtex; charset=utf-8", extension: "bib" },
+  csl: { contentType: "application/vnd.citationstyles.csl+json; charset=utf-8", extension: "json" },
+} as const;
+
+type ExportFormat = keyof typeof FORMATS;
+
+const isExportFormat = (value: string): value is ExportFormat => value in FORMATS;
+
+/**
+ * Downloads citations as BibTeX (`?format=bibtex`) or CSL-JSON (`?format=csl`):
+ * one place's sources with `?place=<slug>`, otherwise the whole bibliography.
+ */
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const format = searchParams.get("format") ?? "bibtex";
+  if (!isExportFormat(format)) {
+    return NextResponse.json({ error: "format must be bibtex or csl" }, { status: 400 });
+  }
+  const slug = searchParams.get("place");
+  const places = await loadPlaces();
+
+  // Keys are prefixed with a place slug so ids like "s1" from different places stay apart.
+  let groups: { prefix: string; citations: Citation[] }[];
+  if (slug) {
+    const place = places.find((item) => item.slug === slug);
+    if (!place) {
+      return NextResponse.json({ error: "Place not found" }, { status: 404 });
+    }
+    groups = [{ prefix: `${slug}:`, citations: place.sources ?? [] }];
+  } else {
+    groups = collectBibliography(places).map((entry) => ({
+      prefix: `${entry.places[0]?.slug ?? "place"}:`,
+      citations: [entry.citation],
+    }));
+  }
+
+  const body =
+    format === "bibtex"
+      ? `${groups.map((group) => toBibtex(group.citations, group.prefix)).join("\n\n")}\n`
+      : JSON.stringify(
+          groups.flatMap((group) => toCslJson(group.citations, group.prefix)),
+          null,
+          2,
+        );
+  const { contentType, extension } = FORMATS[format];
+  return new NextResponse(body, {
+    headers: {
+      "Content-Type": contentType,
+      "Content-Disposition": `attachment; filename="${slug ?? "bibliography"}.${extension}"`,
+    },
+  });
+}
@@ -0,0 +1,15 @@
+import { NextResponse } from "next/server";
+
+import { checkIntegrity } from "@/lib/integrity";
+import { readPlaces } from "@/lib/placeStore";
+import { readRoutes } from "@/lib/routeStore";
+
+export async function GET() {
+  try {
+    const [{ places }, { routes }] = await Promise.all([readPlaces(), readRoutes()]);
+    return NextResponse.json(checkIntegrity(places, routes));
+  } catch (err) {
+    console.error("Failed to check data integrity", err);
+    return NextResponse.json({ error: "Failed to check data integrity" }, { status: 500 });
+  }
+}
@@ -0,0 +1,19 @@
+import { NextResponse } from "next/server";
+
+import { getSession } from "@/lib/auth";
+import { checkPlaceLinks } from "@/lib/linkCheck";
+import { storeErrorResponse } from "@/lib/storeError";
+
+/** Reports broken media and links across all places. `?remote=1` also requests external URLs. */
+export async function GET(request: Request) {
+  const remote = new URL(request.url).searchParams.get("remote") === "1";
+  // Requesting external sites is slow and goes out from the server, so only signed-in users may ask for it.
+  if (remote && !getSession(request)) {
+    return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+  }
+  try {
+    return NextResponse.json(await checkPlaceLinks({ remote }));
+  } catch (err) {
+    return storeErrorResponse(err, "Failed to check links");
+  }
+}
@@ -0,0 +1,38 @@
+import { NextResponse } from "next/server";
+
+import { getSession } from "@/lib/auth";
+import { revalidateData } from "@/lib/dataCache";
+import { deleteMediaAsset, renameMediaAsset } from "@/lib/mediaLibrary";
+import { storeErrorResponse } from "@/lib/storeError";
+
+type Context = {
+  params: Promise<{ path: string[] }>;
+};
+
+/** Renames a file from `{ name }`; places that use it are updated to the new URL. */
+export async function PATCH(request: Request, { params }: Context) {
+  const { path } = await params;
+  try {
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body.name !== "string" || !body.name.trim()) {
+      return NextResponse.json({ error: "Expected { name }", field: "name" }, { status: 400 });
+    }
+    const { asset, updatedPlaces } = await renameMediaAsset(path.join("/"), body.name, {
+      author: getSession(request)?.username ?? "unknown",
+    });
+    if (updatedPlaces.length > 0) revalidateData("places");
+    return NextResponse.json({ asset, updatedPlaces });
+  } catch (err) {
+    return storeErrorResponse(err, "Failed to rename file");
+  }
+}
+
+export async function DELETE(_request: Request, { params }: Context) {
+  const { path } = await params;
+  try {
+    const asset = await deleteMediaAsset(path.join("/"));
+    return NextResponse.json({ ok: true, asset });
+  } catch (err) {
+    return storeErrorResponse(err, "Failed to delete file");
+  }
+}
@@ -0,0 +1,13 @@
+import { NextResponse } from "next/server";
+
+import { listMediaAssets } from "@/lib/mediaLibrary";
+import { storeErrorResponse } from "@/lib/storeError";
+
+export async function GET() {
+  try {
+    const assets = await listMediaAssets();
+    return NextResponse.json({ assets });
+  } catch (err) {
+    return storeErrorResponse(err, "Failed to list media");
+  }
+}
@@ -0,0 +1,72 @@
+import { NextResponse } from "next/server";
+
+import { getSession } from "@/lib/auth";
+import { revalidateData } from "@/lib/dataCache";
+import { formatETag, parseIfMatch } from "@/lib/dataStore";
+import { deletePlace, findPlaceIndex, placeVersion, readPlaces, updatePlace } from "@/lib/placeStore";
+import { storeErrorResponse } from "@/lib/storeError";
+
+type Context = {
+  params: Promise<{ id: string }>;
+};
+
+const ifMatchRequired = () => NextResponse.json({ error: "If-Match header required" }, { status: 428 });
+
+export async function GET(_request: Request, { params }: Context) {
+  const { id } = await params;
+  try {
+    const { places } = await readPlaces();
+    const index = findPlaceIndex(places, id);
+    if (index < 0) {
+      return NextResponse.json({ error: "Place not found" }, { status: 404 });
+    }
+    const place = places[index];
+    const version = placeVersion(place);
+    return NextResponse.json({ place, version }, { headers: { ETag: formatETag(version) } });
+  } catch (err) {
+    return storeErrorResponse(err, "Failed to read place");
+  }
+}
+
+export async function PATCH(request: Request, { params }: Context) {
+  const { id } = await params;
+  const expected = parseIfMatch(request.headers.get("if-match"));
+  if (!expected) return ifMatchRequired();
+  try {
+    const body = await request.json().catch(() => null);
+    // Either { changes, summary } or the bare patch object.
+    const wrapped = Boolean(body) && typeof body === "object" && "changes" in body;
+    const patch = wrapped ? body.changes : body;
+    const { place, version, revision, cascadedRoutes, cascadedQuestions } = await updatePlace(
+      id,
+      patch,
+      {
+        author: getSession(request)?.username ?? "unknown",
+        summary: wrapped && typeof body.summary === "string" ? body.summary : undefined,
+      },
+      expected,
+    );
+    revalidateData("places");
+    if (cascadedRoutes.length > 0) revalidateData("routes");
+    if (cascadedQuestions.length > 0) revalidateData("quiz");
+    return NextResponse.json(
+      { place, version, revision, cascadedRoutes, cascadedQuestions },
+      { headers: { ETag: formatETag(version) } },
+    );
+  } catch (err) {
+    return storeErrorResponse(err, "Failed to update place");
+  }
+}
+
+export async function DELETE(request: Request, { params }: Context) {
+  const { id } = await params;
+  const expected = parseIfMatch(request.headers.get("if-match"));
+  if (!expected) return ifMatchRequired();
+  try {
+    const { revision } = await deletePlace(id, { author: getSession(request)?.username ?? "unknown" }, expected);
+    revalidateData("places");
+    return NextResponse.json({ ok: true, revision });
+  } catch (err) {
+    return storeErrorResponse(err, "Failed to delete place");
+  }
+}
@@ -0,0 +1,21 @@
+import { NextResponse } from "next/server";
+
+import { previewSlugRename } from "@/lib/placeStore";
+import { storeErrorResponse } from "@/lib/storeError";
+
+type Context = {
+  params: Promise<{ id: string }>;
+};
+
+export async function GET(request: Request, { params }: Context) {
+  const { id } = await params;
+  const slug = new URL(request.url).searchParams.get("slug")?.trim();
+  if (!slug) {
+    return NextResponse.json({ error: "slug is required" }, { status: 400 });
+  }
+  try {
+    return NextResponse.json(await previewSlugRename(id, slug));
+  } catch (err) {
+    return storeErrorResponse(err, "Failed to preview slug change");
+  }
+}
@@ -1,57 +1,57 @@
 import { NextResponse } from "next/server";
-import { promises as fs } from "fs";
-import path from "path";
 
-const placesPath = path.join(process.cwd(), "src", "data", "places.json");
+import { getSession } from "@/lib/auth";
+import { revalidateData } from "@/lib/dataCache";
+import { formatETag } from "@/lib/dataStore";
+import { isMediaKind, storeUpload } from "@/lib/mediaUpload";
+import { validatePlaces } from "@/lib/placeSchema";
+import { createPlace, placeVersion, readPlaces } from "@/lib/placeStore";
+import { StoreError, storeErrorResponse } from "@/lib/storeError";
 
 export async function GET() {
   try {
-    const raw = await fs.readFile(placesPath, "utf8");
-    const places = JSON.parse(raw);
-    return NextResponse.json({ places });
+    const { places, version } = await readPlaces();
+    const { issues } = validatePlaces(places);
+    // Per-place versions are what PATCH and DELETE on /api/places/[id] expect in If-Match.
+    const versions = Object.fromEntries(places.map((place) => [place.id ?? "", placeVersion(place)]));
+    return NextResponse.json({ places, issues, version, versions }, { headers: { ETag: formatETag(version) } });
   } catch (err) {
-    return NextResponse.json({ error: "Failed to read places.json" }, { status: 500 });
+    return storeErrorResponse(err, "Failed to read places.json");
   }
 }
 
-function sanitizeFileName(name: string) {
-  return name.replace(/[^a-zA-Z0-9._-]/g, "_");
-}
-
+/**
+ * Uploads a media file. `?type=image|video|audio` names the slot the file is
+ * meant for; the stored kind always comes from the file's content.
+ */
 export async function PUT(request: Request) {
   try {
-    const { searchParams } = new URL(request.url);
-    const type = searchParams.get("type") || "image";
-    const formData = await request.formData();
-    const file = formData.get("file");
-    if (!(file instanceof File)) {
-      return NextResponse.json({ error: "Missing file" }, { status: 400 });
-    }
-    const buffer = Buffer.from(await file.arrayBuffer());
-    const safeName = sanitizeFileName(file.name || `${Date.now()}`);
-    const folder =
-      type === "video" ? "uploads/videos" : type === "audio" ? "uploads/audio" : "uploads/images";
-    const targetDir = path.join(process.cwd(), "public", "media", folder);
-    await fs.mkdir(targetDir, { recursive: true });
-    const filePath = path.join(targetDir, safeName);
-    await fs.writeFile(filePath, buffer);
-    const url = `/media/${folder}/${safeName}`;
-    return NextResponse.json({ url });
+    const type = new URL(request.url).searchParams.get("type");
+    const formData = await request.formData().catch(() => null);
+    if (!formData) throw new StoreError(400, "Expected a multipart upload", { code: "invalid_body" });
+    const media = await storeUpload(formData.get("file"), isMediaKind(type) ? type : undefined);
+    return NextResponse.json(media, { status: media.duplicate ? 200 : 201 });
   } catch (err) {
-    return NextResponse.json({ error: "Failed to upload file" }, { status: 500 });
+    return storeErrorResponse(err, "Failed to upload file");
   }
 }
 
 export async function POST(request: Request) {
   try {
-    const body = await request.json();
-    if (!body || !Array.isArray(body.places)) {
-      return NextResponse.json({ error: "Invalid payload" }, { status: 400 });
-    }
-    const payload = JSON.stringify(body.places, null, 2);
-    await fs.writeFile(placesPath, `${payload}\n`, "utf8");
-    return NextResponse.json({ ok: true });
+    const body = await request.json().catch(() => null);
+    // Either { place, summary } or the bare place object.
+    const wrapped = Boolean(body) && typeof body === "object" && "place" in body;
+    const input = wrapped ? body.place : body;
+    const { place, version, revision } = await createPlace(input, {
+      author: getSession(request)?.username ?? "unknown",
+      summary: wrapped && typeof body.summary === "string" ? body.summary : undefined,
+    });
+    revalidateData("places");
+    return NextResponse.json(
+      { place, version, revision },
+      { status: 201, headers: { ETag: formatETag(version), Location: `/api/places/${encodeURIComponent(place.id ?? "")}` } },
+    );
   } catch (err) {
-    return NextResponse.json({ error: "Failed to save places.json" }, { status: 500 });
+    return storeErrorResponse(err, "Failed to create place");
   }
 }
@@ -0,0 +1,66 @@
+import { NextResponse } from "next/server";
+
+import { getSession } from "@/lib/auth";
+import { revalidateData } from "@/lib/dataCache";
+import { formatETag, parseIfMatch } from "@/lib/dataStore";
+import { deleteQuestion, findQuestionIndex, questionVersion, readQuiz, updateQuestion } from "@/lib/quizStore";
+import { storeErrorResponse } from "@/lib/storeError";
+
+type Context = {
+  params: Promise<{ id: string }>;
+};
+
+const ifMatchRequired = () => NextResponse.json({ error: "If-Match header required" }, { status: 428 });
+const notFound = () => NextResponse.json({ error: "Question not found" }, { status: 404 });
+
+export async function GET(_request: Request, { params }: Context) {
+  const { id } = await params;
+  try {
+    const { questions } = await readQuiz();
+    const index = findQuestionIndex(questions, id);
+    if (index < 0) return notFound();
+    const question = questions[index];
+    const version = questionVersion(question);
+    return NextResponse.json({ question, version }, { headers: { ETag: formatETag(version) } });
+  } catch (err) {
+    return storeErrorResponse(err, "Failed to read question");
+  }
+}
+
+export async function PATCH(request: Request, { params }: Context) {
+  const { id } = await params;
+  const expected = parseIfMatch(request.headers.get("if-match"));
+  if (!expected) return ifMatchRequired();
+  try {
+    const body = await request.json().catch(() => null);
+    // Either { changes, summary } or the bare object of changed fields.
+    const wrapped = Boolean(body) && typeof body === "object" && "changes" in body;
+    const patch = wrapped ? body.changes : body;
+    const { question, version, revision } = await updateQuestion(
+      id,
+      patch,
+      {
+        author: getSession(request)?.username ?? "unknown",
+        summary: wrapped && typeof body.summary === "string" ? body.summary : undefined,
+      },
+      expected,
+    );
+    revalidateData("quiz");
+    return NextResponse.json({ question, version, revision }, { headers: { ETag: formatETag(version) } });
+  } catch (err) {
+    return storeErrorResponse(err, "Failed to update question");
+  }
+}
+
+export async function DELETE(request: Request, { params }: Context) {
+  const { id } = await params;
+  const expected = parseIfMatch(request.headers.get("if-match"));
+  if (!expected) return ifMatchRequired();
+  try {
+    const { revision } = await deleteQuestion(id, { author: getSession(request)?.username ?? "unknown" }, expected);
+    revalidateData("quiz");
+    return NextResponse.json({ ok: true, revision });
+  } catch (err) {
+    return storeErrorResponse(err, "Failed to delete question");
+  }
+}
@@ -0,0 +1,50 @@
+import { NextResponse } from "next/server";
+
+import { getSession } from "@/lib/auth";
+import { summarizeAttempts } from "@/lib/quizHistory";
+import { clearQuizResults, quizResultsEnabled, readQuizResults, recordQuizResult } from "@/lib/quizResultStore";
+import { storeErrorResponse } from "@/lib/storeError";
+
+const RECENT_RESULTS = 20;
+
+const turnedOff = () =>
+  NextResponse.json({ error: "Quiz results are not collected (set QUIZ_RESULTS_API=1)" }, { status: 404 });
+
+/** Scores over time and the most missed questions across every browser. Signed-in users only. */
+export async function GET(request: Request) {
+  if (!quizResultsEnabled()) return turnedOff();
+  // Students may send results without signing in, but only teachers read them.
+  if (!getSession(request)) {
+    return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+  }
+  try {
+    const results = await readQuizResults();
+    return NextResponse.json({
+      summary: summarizeAttempts(results, 10),
+      browsers: new Set(results.flatMap((result) => (result.browserId ? [result.browserId] : []))).size,
+      recent: results.slice(-RECENT_RESULTS).reverse(),
+    });
+  } catch (err) {
+    return storeErrorResponse(err, "Failed to read quiz results");
+  }
+}
+
+export async function POST(request: Request) {
+  if (!quizResultsEnabled()) return turnedOff();
+  try {
+    const body = await request.json().catch(() => null);
+    const { result, created } = await recordQuizResult(body);
+    return NextResponse.json({ result }, { status: created ? 201 : 200 });
+  } catch (err) {
+    return storeErrorResponse(err, "Failed to save quiz result");
+  }
+}
+
+export async function DELETE() {
+  if (!quizResultsEnabled()) return turnedOff();
+  try {
+    return NextResponse.json({ cleared: await clearQuizResults() });
+  } catch (err) {
+    return storeErrorResponse(err, "Failed to clear quiz results");
+  }
+}
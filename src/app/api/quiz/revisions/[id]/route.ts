@@ -0,0 +1,15 @@
+import { handleGetRevision, handleRestoreRevision } from "@/lib/revisionRoutes";
+
+type Context = {
+  params: Promise<{ id: string }>;
+};
+
+export async function GET(request: Request, { params }: Context) {
+  const { id } = await params;
+  return handleGetRevision("quiz", request, id);
+}
+
+export async function POST(request: Request, { params }: Context) {
+  const { id } = await params;
+  return handleRestoreRevision("quiz", request, id);
+}
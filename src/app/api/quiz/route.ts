@@ -0,0 +1,41 @@
+import { NextResponse } from "next/server";
+
+import { getSession } from "@/lib/auth";
+import { revalidateData } from "@/lib/dataCache";
+import { formatETag } from "@/lib/dataStore";
+import { validateQuiz } from "@/lib/quizSchema";
+import { createQuestion, questionVersion, readPlaceSlugs, readQuiz } from "@/lib/quizStore";
+import { storeErrorResponse } from "@/lib/storeError";
+
+export async function GET() {
+  try {
+    const [{ questions, version }, knownSlugs] = await Promise.all([readQuiz(), readPlaceSlugs()]);
+    const { issues } = validateQuiz(questions, knownSlugs);
+    // Per-question versions are what PATCH and DELETE on /api/quiz/[id] expect in If-Match.
+    const versions = Object.fromEntries(questions.map((question) => [question.id, questionVersion(question)]));
+    return NextResponse.json({ questions, issues, version, versions }, { headers: { ETag: formatETag(version) } });
+  } catch (err) {
+    return storeErrorResponse(err, "Failed to read quiz.json");
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const body = await request.json().catch(() => null);
+    // Either { question, summary } or the bare question object, whose `question` is its text.
+    const wrapped =
+      Boolean(body) && typeof body === "object" && Boolean(body.question) && typeof body.question === "object";
+    const input = wrapped ? body.question : body;
+    const { question, version, revision } = await createQuestion(input, {
+      author: getSession(request)?.username ?? "unknown",
+      summary: wrapped && typeof body.summary === "string" ? body.summary : undefined,
+    });
+    revalidateData("quiz");
+    return NextResponse.json(
+      { question, version, revision },
+      { status: 201, headers: { ETag: formatETag(version), Location: `/api/quiz/${encodeURIComponent(question.id)}` } },
+    );
+  } catch (err) {
+    return storeErrorResponse(err, "Failed to create question");
+  }
+}
@@ -0,0 +1,19 @@
+import { NextResponse } from "next/server";
+
+import { answerQuizSession } from "@/lib/quizSessionStore";
+import { storeErrorResponse } from "@/lib/storeError";
+
+type Context = {
+  params: Promise<{ code: string }>;
+};
+
+/** `{ studentId, answers: { [questionId]: answer | null }, submitted? }` */
+export async function POST(request: Request, { params }: Context) {
+  const { code } = await params;
+  try {
+    const body = (await request.json().catch(() => null)) ?? {};
+    return NextResponse.json(answerQuizSession(code, body));
+  } catch (err) {
+    return storeErrorResponse(err, "Failed to save quiz answers");
+  }
+}
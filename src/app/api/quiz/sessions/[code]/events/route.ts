@@ -0,0 +1,75 @@
+import { getSession } from "@/lib/auth";
+import { getQuizSessionStats, getQuizSessionView, subscribeQuizSession } from "@/lib/quizSessionStore";
+import { storeErrorResponse } from "@/lib/storeError";
+
+type Context = {
+  params: Promise<{ code: string }>;
+};
+
+// Proxies drop a connection that stays silent for too long.
+const KEEP_ALIVE_MS = 25_000;
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Server-sent events for a session. Signed-in users get a `stats` event with every
+ * student's answers on each change; students get `status` so they learn when it ends.
+ */
+export async function GET(request: Request, { params }: Context) {
+  const { code } = await params;
+  const teacher = Boolean(getSession(request));
+  const snapshot = () =>
+    teacher
+      ? { event: "stats", data: getQuizSessionStats(code) }
+      : { event: "status", data: { status: getQuizSessionView(code).status } };
+  try {
+    // Fails with 404 before the stream opens when there is no such session.
+    const first = snapshot();
+    const encoder = new TextEncoder();
+    let stop = () => {};
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        // Students only hear about the status, so most changes leave their event unchanged.
+        let last = "";
+        const send = ({ event, data }: { event: string; data: unknown }) => {
+          const message = `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+          if (message === last) return;
+          last = message;
+          controller.enqueue(encoder.encode(message));
+        };
+        send(first);
+        const unsubscribe = subscribeQuizSession(code, () => {
+          try {
+            send(snapshot());
+          } catch {
+            // The session expired; the client sees the stream end.
+            stop();
+          }
+        });
+        const keepAlive = setInterval(() => controller.enqueue(encoder.encode(": keep-alive\n\n")), KEEP_ALIVE_MS);
+        stop = () => {
+          unsubscribe();
+          clearInterval(keepAlive);
+          try {
+            controller.close();
+          } catch {
+            // Already closed.
+          }
+        };
+        request.signal.addEventListener("abort", () => stop());
+      },
+      cancel() {
+        stop();
+      },
+    });
+    return new Response(stream, {
+      headers: {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache, no-transform",
+        Connection: "keep-alive",
+      },
+    });
+  } catch (err) {
+    return storeErrorResponse(err, "Failed to follow quiz session");
+  }
+}
@@ -0,0 +1,20 @@
+import { NextResponse } from "next/server";
+
+import { getQuizSessionView, joinQuizSession } from "@/lib/quizSessionStore";
+import { storeErrorResponse } from "@/lib/storeError";
+
+type Context = {
+  params: Promise<{ code: string }>;
+};
+
+/** `{ name }` joins as a new student; `{ studentId }` rejoins, e.g. after a reload. */
+export async function POST(request: Request, { params }: Context) {
+  const { code } = await params;
+  try {
+    const body = (await request.json().catch(() => null)) ?? {};
+    const student = joinQuizSession(code, body);
+    return NextResponse.json({ session: getQuizSessionView(code), ...student });
+  } catch (err) {
+    return storeErrorResponse(err, "Failed to join quiz session");
+  }
+}
@@ -0,0 +1,30 @@
+import { NextResponse } from "next/server";
+
+import { getSession } from "@/lib/auth";
+import { closeQuizSession, getQuizSessionStats, getQuizSessionView } from "@/lib/quizSessionStore";
+import { storeErrorResponse } from "@/lib/storeError";
+
+type Context = {
+  params: Promise<{ code: string }>;
+};
+
+/** The session's set; signed-in users also get every student's progress. */
+export async function GET(request: Request, { params }: Context) {
+  const { code } = await params;
+  try {
+    if (getSession(request)) return NextResponse.json({ session: getQuizSessionStats(code) });
+    return NextResponse.json({ session: getQuizSessionView(code) });
+  } catch (err) {
+    return storeErrorResponse(err, "Failed to read quiz session");
+  }
+}
+
+/** Ends the session. Its results stay readable until it expires. */
+export async function DELETE(_request: Request, { params }: Context) {
+  const { code } = await params;
+  try {
+    return NextResponse.json({ session: closeQuizSession(code) });
+  } catch (err) {
+    return storeErrorResponse(err, "Failed to end quiz session");
+  }
+}
@@ -0,0 +1,46 @@
+import { NextResponse } from "next/server";
+
+import { getSession } from "@/lib/auth";
+import { loadPlaces } from "@/lib/loadPlaces";
+import { loadQuiz } from "@/lib/loadQuiz";
+import { dealQuizSet, filterQuizBank } from "@/lib/quizBank";
+import { isAudienceLevel } from "@/lib/quizSchema";
+import { createQuizSession, listQuizSessions } from "@/lib/quizSessionStore";
+import { storeErrorResponse } from "@/lib/storeError";
+
+const DEFAULT_SET_SIZE = 10;
+const MAX_SET_SIZE = 30;
+
+/** Sessions in progress, for the teacher's dashboard. */
+export async function GET(request: Request) {
+  if (!getSession(request)) {
+    return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+  }
+  return NextResponse.json({ sessions: listQuizSessions() });
+}
+
+/** Deals one set from the published quiz and opens a session for it. */
+export async function POST(request: Request) {
+  try {
+    const body = (await request.json().catch(() => null)) ?? {};
+    const level = isAudienceLevel(body.level) ? body.level : undefined;
+    const size =
+      Number.isInteger(body.size) && body.size > 0 ? Math.min(body.size, MAX_SET_SIZE) : DEFAULT_SET_SIZE;
+    const [quiz, places] = await Promise.all([loadQuiz(), loadPlaces()]);
+    const locations = Object.fromEntries(
+      places.flatMap((place) => (place.slug && place.coords ? [[place.slug, place.coords]] : [])),
+    ) as Record<string, [number, number]>;
+    const bank = filterQuizBank(quiz, { level }).filter(
+      (question) => question.type !== "map" || locations[question.placeSlug],
+    );
+    const session = createQuizSession({
+      questions: dealQuizSet(bank, size),
+      createdBy: getSession(request)?.username ?? "unknown",
+      level,
+      locations,
+    });
+    return NextResponse.json({ session }, { status: 201 });
+  } catch (err) {
+    return storeErrorResponse(err, "Failed to start quiz session");
+  }
+}
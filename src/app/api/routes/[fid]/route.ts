@@ -0,0 +1,75 @@
+import { NextResponse } from "next/server";
+
+import { getSession } from "@/lib/auth";
+import { revalidateData } from "@/lib/dataCache";
+import { formatETag, parseIfMatch } from "@/lib/dataStore";
+import { deleteRoute, findRouteIndex, readRoutes, routeVersion, updateRoute } from "@/lib/routeStore";
+import { storeErrorResponse } from "@/lib/storeError";
+
+type Context = {
+  params: Promise<{ fid: string }>;
+};
+
+const ifMatchRequired = () => NextResponse.json({ error: "If-Match header required" }, { status: 428 });
+const notFound = () => NextResponse.json({ error: "Route not found" }, { status: 404 });
+
+async function readFid(params: Context["params"]) {
+  const { fid } = await params;
+  const value = Number(fid);
+  return fid.trim() && Number.isFinite(value) ? value : null;
+}
+
+export async function GET(_request: Request, { params }: Context) {
+  const fid = await readFid(params);
+  if (fid === null) return notFound();
+  try {
+    const { routes } = await readRoutes();
+    const index = findRouteIndex(routes.features, fid);
+    if (index < 0) return notFound();
+    const route = routes.features[index];
+    const version = routeVersion(route);
+    return NextResponse.json({ route, version }, { headers: { ETag: formatETag(version) } });
+  } catch (err) {
+    return storeErrorResponse(err, "Failed to read route");
+  }
+}
+
+export async function PATCH(request: Request, { params }: Context) {
+  const fid = await readFid(params);
+  if (fid === null) return notFound();
+  const expected = parseIfMatch(request.headers.get("if-match"));
+  if (!expected) return ifMatchRequired();
+  try {
+    const body = await request.json().catch(() => null);
+    // Either { changes, summary } or the bare { properties?, geometry? } patch.
+    const wrapped = Boolean(body) && typeof body === "object" && "changes" in body;
+    const patch = wrapped ? body.changes : body;
+    const { route, version, revision } = await updateRoute(
+      fid,
+      patch,
+      {
+        author: getSession(request)?.username ?? "unknown",
+        summary: wrapped && typeof body.summary === "string" ? body.summary : undefined,
+      },
+      expected,
+    );
+    revalidateData("routes");
+    return NextResponse.json({ route, version, revision }, { headers: { ETag: formatETag(version) } });
+  } catch (err) {
+    return storeErrorResponse(err, "Failed to update route");
+  }
+}
+
+export async function DELETE(request: Request, { params }: Context) {
+  const fid = await readFid(params);
+  if (fid === null) return notFound();
+  const expected = parseIfMatch(request.headers.get("if-match"));
+  if (!expected) return ifMatchRequired();
+  try {
+    const { revision } = await deleteRoute(fid, { author: getSession(request)?.username ?? "unknown" }, expected);
+    revalidateData("routes");
+    return NextResponse.json({ ok: true, revision });
+  } catch (err) {
+    return storeErrorResponse(err, "Failed to delete route");
+  }
+}
@@ -0,0 +1,5 @@
+import { handleListRevisions } from "@/lib/revisionRoutes";
+
+export async function GET(request: Request) {
+  return handleListRevisions("routes", request);
+}
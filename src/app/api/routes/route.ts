@@ -1,60 +1,57 @@
 import { NextResponse } from "next/server";
-import { promises as fs } from "fs";
-import path from "path";
 
-const routesPath = path.join(process.cwd(), "src", "data", "routes.json");
+import { getSession } from "@/lib/auth";
+import { revalidateData } from "@/lib/dataCache";
+import { formatETag } from "@/lib/dataStore";
+import { createRoute, findRouteBetween, readRoutes, routeVersion } from "@/lib/routeStore";
+import { storeErrorResponse } from "@/lib/storeError";
 
-type FeatureCollection = {
-  type: "FeatureCollection";
-  name?: string;
-  crs?: unknown;
-  features: unknown[];
-};
-
-export async function GET() {
+export async function GET(request: Request) {
   try {
-    const raw = await fs.readFile(routesPath, "utf8");
-    const routes = JSON.parse(raw);
-    return NextResponse.json({ routes });
+    const { routes, version } = await readRoutes();
+    const { searchParams } = new URL(request.url);
+    const from = searchParams.get("from");
+    const to = searchParams.get("to");
+    if (from || to) {
+      if (!from || !to) {
+        return NextResponse.json({ error: "Both from and to are required" }, { status: 400 });
+      }
+      const route = findRouteBetween(routes.features, from, to);
+      if (!route) {
+        return NextResponse.json({ error: "No route between these places" }, { status: 404 });
+      }
+      const segmentVersion = routeVersion(route);
+      return NextResponse.json({ route, version: segmentVersion }, { headers: { ETag: formatETag(segmentVersion) } });
+    }
+    // Per-route versions are what PATCH and DELETE on /api/routes/[fid] expect in If-Match.
+    const versions = Object.fromEntries(
+      routes.features.map((route) => [String(route.properties?.fid), routeVersion(route)]),
+    );
+    return NextResponse.json({ routes, version, versions }, { headers: { ETag: formatETag(version) } });
   } catch (err) {
-    return NextResponse.json({ error: "Failed to read routes.json" }, { status: 500 });
-  }
-}
-
-function buildCollection(features: unknown[], base?: FeatureCollection): FeatureCollection {
-  if (base && base.type === "FeatureCollection") {
-    return { ...base, features };
+    return storeErrorResponse(err, "Failed to read routes.json");
   }
-  return { type: "FeatureCollection", features };
 }
 
 export async function POST(request: Request) {
   try {
-    const body = await request.json();
-    const incoming = body?.routes;
-    let collection: FeatureCollection | null = null;
-
-    if (Array.isArray(incoming)) {
-      let existing: FeatureCollection | undefined;
-      try {
-        const raw = await fs.readFile(routesPath, "utf8");
-        existing = JSON.parse(raw) as FeatureCollection;
-      } catch (err) {
-        existing = undefined;
-      }
-      collection = buildCollection(incoming, existing);
-    } else if (incoming && typeof incoming === "object" && incoming.type === "FeatureCollection") {
-      collection = incoming as FeatureCollection;
-    }
-
-    if (!collection) {
-      return NextResponse.json({ error: "Invalid payload" }, { status: 400 });
-    }
-
-    const payload = JSON.stringify(collection, null, 2);
-    await fs.writeFile(routesPath, `${payload}\n`, "utf8");
-    return NextResponse.json({ ok: true });
+    const body = await request.json().catch(() => null);
+    // Either { route, summary } or the bare feature.
+    const wrapped = Boolean(body) && typeof body === "object" && "route" in body;
+    const input = wrapped ? body.route : body;
+    const { route, version, revision } = await createRoute(input, {
+      author: getSession(request)?.username ?? "unknown",
+      summary: wrapped && typeof body.summary === "string" ? body.summary : undefined,
+    });
+    revalidateData("routes");
+    return NextResponse.json(
+      { route, version, revision },
+      {
+        status: 201,
+        headers: { ETag: formatETag(version), Location: `/api/routes/${route.properties?.fid}` },
+      },
+    );
   } catch (err) {
-    return NextResponse.json({ error: "Failed to save routes.json" }, { status: 500 });
+    return storeErrorResponse(err, "Failed to create route");
   }
 }
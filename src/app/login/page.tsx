@@ -0,0 +1,88 @@
+"use client";
+
+import { FormEvent, useState } from "react";
+
+/**
+ * Where to go after signing in: `next` when it stays on this site, otherwise the
+ * places editor. Browsers read `/\evil.com` like `//evil.com`, so the check resolves it.
+ */
+function redirectTarget(next: string | null) {
+  const fallback = "/admin/places";
+  if (!next) return fallback;
+  try {
+    const url = new URL(next, window.location.origin);
+    return url.origin === window.location.origin ? `${url.pathname}${url.search}${url.hash}` : fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+export default function LoginPage() {
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+  const [status, setStatus] = useState<"idle" | "loading" | "error">("idle");
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setStatus("loading");
+    setError(null);
+    try {
+      const res = await fetch("/api/auth", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ username, password }),
+      });
+      if (!res.ok) {
+        const data = (await res.json().catch(() => ({}))) as { error?: string };
+        throw new Error(data.error || "Sign in failed");
+      }
+      window.location.assign(redirectTarget(new URLSearchParams(window.location.search).get("next")));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Sign in failed");
+      setStatus("error");
+    }
+  };
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-slate-50 px-6 py-8">
+      <form
+        onSubmit={handleSubmit}
+        className="w-full max-w-sm space-y-4 rounded-xl border border-slate-200 bg-white p-6 shadow-sm"
+      >
+        <div>
+          <h1 className="text-2xl font-semibold text-slate-900">Sign in</h1>
+          <p className="text-sm text-slate-600">Editors can save changes, viewers can only browse the editors.</p>
+        </div>
+        <div>
+          <label className="text-xs font-semibold uppercase tracking-wide text-slate-500">Username</label>
+          <input
+            type="text"
+            value={username}
+            onChange={(e) => setUsername(e.target.value)}
+            autoComplete="username"
+            className="mt-1 w-full rounded-md border border-slate-200 px-3 py-2 text-sm text-slate-700"
+          />
+        </div>
+        <div>
+          <label className="text-xs font-semibold uppercase tracking-wide text-slate-500">Password</label>
+          <input
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            autoComplete="current-password"
+            className="mt-1 w-full rounded-md border border-slate-200 px-3 py-2 text-sm text-slate-700"
+          />
+        </div>
+        {status === "error" && error ? <p className="text-sm text-red-600">{error}</p> : null}
+        <button
+          type="submit"
+          disabled={status === "loading"}
+          className="w-full rounded-md bg-[#991B1B] px-4 py-2 text-sm font-semibold text-white shadow-sm hover:bg-[#7F1D1D] disabled:opacity-60"
+        >
+          {status === "loading" ? "Signing in..." : "Sign in"}
+        </button>
+      </form>
+    </div>
+  );
+}
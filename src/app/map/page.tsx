@@ -1,15 +1,16 @@
 import MapView from "@/components/MapView";
 import { loadPlaces } from "@/lib/loadPlaces";
+import { loadQuiz } from "@/lib/loadQuiz";
+import { loadRoutes } from "@/lib/loadRoutes";
+import { quizResultsEnabled } from "@/lib/quizResultStore";
 import { Place } from "@/types/place";
 
-export const dynamic = "force-dynamic";
-
 export default async function MapPage() {
-  const places = await loadPlaces();
+  const [places, routes, quiz] = await Promise.all([loadPlaces(), loadRoutes(), loadQuiz()]);
 
   return (
     <main className="min-h-screen bg-slate-50">
-      <MapView places={places as Place[]} />
+      <MapView places={places as Place[]} routes={routes} quiz={quiz} saveResults={quizResultsEnabled()} />
     </main>
   );
 }
@@ -1,9 +1,8 @@
 import Link from "next/link";
 
+import { placePeriod } from "@/lib/historicalDates";
 import { loadPlaces } from "@/lib/loadPlaces";
 
-export const dynamic = "force-dynamic";
-
 export default async function Home() {
   const places = await loadPlaces();
   const preview = places.slice(0, 5);
@@ -36,7 +35,7 @@ export default async function Home() {
           </div>
         </div>
 
-        <section className="grid gap-4 sm:grid-cols-3">
+        <section className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
           <Link
             href="/map"
             className="rounded-xl border border-slate-200 bg-white p-4 text-sm font-semibold text-slate-800 shadow-sm transition hover:-translate-y-0.5 hover:border-blue-200 hover:shadow-md"
@@ -55,6 +54,12 @@ export default async function Home() {
           >
             Routes editor
           </Link>
+          <Link
+            href="/admin/quiz"
+            className="rounded-xl border border-slate-200 bg-white p-4 text-sm font-semibold text-slate-800 shadow-sm transition hover:-translate-y-0.5 hover:border-blue-200 hover:shadow-md"
+          >
+            Quiz editor
+          </Link>
         </section>
 
         <section className="space-y-4">
@@ -81,10 +86,7 @@ export default async function Home() {
                         {[place.city, place.country].filter(Boolean).join(", ") || "Dia diem"}
                       </p>
                       <p className="text-xs font-medium text-blue-700">
-                        {place.periodLabel ||
-                          (place.dateStart && place.dateEnd
-                            ? `${place.dateStart} -> ${place.dateEnd}`
-                            : place.dateStart || place.dateEnd || "Chua co thoi gian")}
+                        {placePeriod(place, "Chua co thoi gian")}
                       </p>
                     </div>
                     <span className="text-xs font-semibold text-blue-600">Chi tiet</span>
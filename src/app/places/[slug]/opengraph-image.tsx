@@ -0,0 +1,116 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { ImageResponse } from "next/og";
+import sharp from "sharp";
+
+import { placePeriod } from "@/lib/historicalDates";
+import { loadPlacesWithSlug } from "@/lib/loadPlaces";
+import { placePreviewImage } from "@/lib/placeSeo";
+import { SITE_NAME } from "@/lib/site";
+
+export const size = { width: 1200, height: 630 };
+export const contentType = "image/png";
+export const alt = "Dia diem tren hanh trinh";
+
+type Props = {
+  params: Promise<{ slug: string }>;
+};
+
+const REMOTE_TIMEOUT_MS = 5000;
+
+async function readImage(url: string) {
+  if (/^https?:\/\//i.test(url)) {
+    const res = await fetch(url, { signal: AbortSignal.timeout(REMOTE_TIMEOUT_MS) });
+    if (!res.ok) throw new Error(`Image request failed with ${res.status}`);
+    return Buffer.from(await res.arrayBuffer());
+  }
+  const publicRoot = path.join(process.cwd(), "public");
+  const filePath = path.resolve(publicRoot, `.${decodeURI(url.replace(/[?#].*$/, ""))}`);
+  if (!filePath.startsWith(`${publicRoot}${path.sep}`)) throw new Error("Image is outside public/");
+  return fs.readFile(filePath);
+}
+
+/**
+ * The cover cropped to the card size as a JPEG data URL. Satori cannot decode
+ * WebP or AVIF, so every format goes through sharp first.
+ */
+async function backgroundFor(url: string | undefined) {
+  if (!url) return null;
+  try {
+    const jpeg = await sharp(await readImage(url))
+      .rotate()
+      .resize(size.width, size.height, { fit: "cover" })
+      .jpeg({ quality: 80 })
+      .toBuffer();
+    return `data:image/jpeg;base64,${jpeg.toString("base64")}`;
+  } catch (err) {
+    console.warn(`Open Graph image: could not use ${url}`, err);
+    return null;
+  }
+}
+
+export default async function Image({ params }: Props) {
+  const { slug } = await params;
+  const places = await loadPlacesWithSlug();
+  const place = places.find((item) => item.slug === slug);
+  const title = place?.title.trim() || SITE_NAME;
+  const period = place ? placePeriod(place) : "";
+  const location = place ? [place.city, place.country].filter(Boolean).join(", ") : "";
+  const background = await backgroundFor(place ? placePreviewImage(place) : undefined);
+
+  return new ImageResponse(
+    (
+      <div
+        style={{
+          width: "100%",
+          height: "100%",
+          display: "flex",
+          position: "relative",
+          backgroundColor: "#7F1D1D",
+          color: "white",
+        }}
+      >
+        {background ? (
+          <img src={background} alt="" width={size.width} height={size.height} style={{ position: "absolute", top: 0, left: 0 }} />
+        ) : null}
+        <div
+          style={{
+            position: "absolute",
+            top: 0,
+            left: 0,
+            width: "100%",
+            height: "100%",
+            display: "flex",
+            flexDirection: "column",
+            justifyContent: "flex-end",
+            padding: "56px 64px",
+            backgroundImage: "linear-gradient(to bottom, rgba(15,23,42,0.05) 20%, rgba(15,23,42,0.85) 100%)",
+          }}
+        >
+          <div style={{ fontSize: 26, fontWeight: 600, letterSpacing: 2, textTransform: "uppercase", opacity: 0.85 }}>
+            {SITE_NAME}
+          </div>
+          <div
+            style={{
+              display: "flex",
+              marginTop: 16,
+              maxWidth: size.width - 128,
+              fontSize: title.length > 70 ? 48 : 60,
+              fontWeight: 700,
+              lineHeight: 1.15,
+            }}
+          >
+            {title}
+          </div>
+          {period || location ? (
+            <div style={{ marginTop: 20, display: "flex", gap: 24, fontSize: 30, opacity: 0.9 }}>
+              {period ? <span style={{ color: "#FDE68A" }}>{period}</span> : null}
+              {location ? <span>{location}</span> : null}
+            </div>
+          ) : null}
+        </div>
+      </div>
+    ),
+    size,
+  );
+}
@@ -1,39 +1,151 @@
+import type { Metadata } from "next";
 import Link from "next/link";
 import { notFound } from "next/navigation";
 
-import { loadPlaces } from "@/lib/loadPlaces";
-
-export const dynamic = "force-dynamic";
+import CitationText from "@/components/CitationText";
+import { placePeriod } from "@/lib/historicalDates";
+import { sortPlacesByJourney } from "@/lib/journeyOrder";
+import { journeySearch } from "@/lib/journeyUrl";
+import { loadPlaces, loadPlacesWithSlug } from "@/lib/loadPlaces";
+import { loadRoutes } from "@/lib/loadRoutes";
+import { renderMarkdown } from "@/lib/markdown";
+import { getEmbedVideoSrc, isImageUrl, isVideoUrl } from "@/lib/mediaUrls";
+import { placeDescription, placeJsonLd } from "@/lib/placeSeo";
+import { MediaLink, Place } from "@/types/place";
 
 type Props = {
-  params: {
+  params: Promise<{
     slug: string;
-  };
+  }>;
 };
 
+const MAPBOX_TOKEN = process.env.NEXT_PUBLIC_MAPBOX_TOKEN;
+
+// `[@id]` markers in the text jump to that entry of the source list.
+const SOURCE_ANCHOR = "source-";
+
+/** Gallery strings and image links in one list, in the order the editor entered them. */
+function galleryItems(place: Place): MediaLink[] {
+  const gallery = (place.media?.gallery ?? []).map((url) => ({ url }));
+  return [...gallery, ...(place.media?.images ?? [])].filter((item) => item.url);
+}
+
+function StaticMap({ place }: { place: Place }) {
+  const [lng, lat] = place.coords;
+  if (MAPBOX_TOKEN) {
+    const src =
+      `https://api.mapbox.com/styles/v1/mapbox/streets-v12/static/pin-l+991b1b(${lng},${lat})/${lng},${lat},4,0/640x320@2x` +
+      `?access_token=${encodeURIComponent(MAPBOX_TOKEN)}`;
+    return <img src={src} alt={`Ban do ${place.title}`} className="h-auto w-full" loading="lazy" />;
+  }
+  // Without a Mapbox token fall back to the OpenStreetMap embed, which needs no key.
+  const bbox = [lng - 8, lat - 5, lng + 8, lat + 5].join(",");
+  return (
+    <iframe
+      title={`Ban do ${place.title}`}
+      src={`https://www.openstreetmap.org/export/embed.html?bbox=${bbox}&layer=mapnik&marker=${lat},${lng}`}
+      className="h-64 w-full"
+      loading="lazy"
+    />
+  );
+}
+
+function VideoItem({ video }: { video: MediaLink }) {
+  if (!video.url) return null;
+  if (isVideoUrl(video.url)) {
+    return <video src={video.url} controls className="w-full rounded-md" />;
+  }
+  const embed = getEmbedVideoSrc(video.url);
+  if (embed) {
+    return (
+      <div className="aspect-video w-full overflow-hidden rounded-md">
+        <iframe
+          src={embed}
+          title={video.label || "Video"}
+          className="h-full w-full"
+          allow="accelerometer; autoplay; clipboard-write; encrypted-media; gyroscope; picture-in-picture"
+          allowFullScreen
+        />
+      </div>
+    );
+  }
+  return (
+    <a
+      href={video.url}
+      target="_blank"
+      rel="noopener noreferrer"
+      className="text-sm font-semibold text-[#991B1B] underline underline-offset-2"
+    >
+      {video.label || video.url}
+    </a>
+  );
+}
+
+// Slugs added after the build are rendered on first request and cached like the rest.
+export async function generateStaticParams() {
+  const places = await loadPlacesWithSlug();
+  return places.map((place) => ({ slug: place.slug }));
+}
+
+// The Open Graph image comes from opengraph-image.tsx next to this page; Next adds it to openGraph/twitter itself.
+export async function generateMetadata({ params }: Props): Promise<Metadata> {
+  const { slug } = await params;
+  const place = (await loadPlaces()).find((item) => item.slug === slug);
+  if (!place) return { title: "Khong tim thay dia diem" };
+  const title = place.title.trim();
+  const description = placeDescription(place);
+  const canonical = `/places/${place.slug}`;
+  return {
+    title,
+    description,
+    alternates: { canonical },
+    openGraph: { type: "article", title, description, url: canonical },
+    twitter: { card: "summary_large_image", title, description },
+  };
+}
+
 export default async function PlaceDetailPage({ params }: Props) {
-  const places = await loadPlaces();
-  const place = places.find((item) => item.slug === params.slug);
+  const { slug } = await params;
+  const [places, routes] = await Promise.all([loadPlaces(), loadRoutes()]);
+  const journey = sortPlacesByJourney(places, routes);
+  const index = journey.findIndex((item) => item.slug === slug);
 
-  if (!place) {
+  if (index < 0) {
     notFound();
   }
 
+  const place = journey[index];
+  const previous = index > 0 ? journey[index - 1] : null;
+  const next = index < journey.length - 1 ? journey[index + 1] : null;
+  const gallery = galleryItems(place);
+  const videos = (place.media?.videos ?? []).filter((video) => video.url);
+
   return (
     <main className="min-h-screen bg-slate-50 pb-16">
+      <script
+        type="application/ld+json"
+        // Escape "<" so text in the data cannot close the script element.
+        dangerouslySetInnerHTML={{ __html: JSON.stringify(placeJsonLd(place)).replace(/</g, "\\u003c") }}
+      />
       <div className="mx-auto max-w-4xl px-4 py-10 space-y-8">
         <div className="space-y-2">
-          <p className="text-sm font-semibold uppercase tracking-wide text-blue-700">Dia diem</p>
+          <p className="text-sm font-semibold uppercase tracking-wide text-blue-700">
+            Dia diem {index + 1}/{journey.length}
+          </p>
           <h1 className="text-3xl font-bold text-slate-900 sm:text-4xl">{place.title}</h1>
           <p className="text-base text-slate-700">
             {[place.city, place.country].filter(Boolean).join(", ") || "Dia diem"}
           </p>
-          <p className="text-base font-medium text-blue-700">
-            {place.periodLabel ||
-              (place.dateStart && place.dateEnd
-                ? `${place.dateStart} -> ${place.dateEnd}`
-                : place.dateStart || place.dateEnd || "Thoi gian chua cap nhat")}
-          </p>
+          <p className="text-base font-medium text-blue-700">{placePeriod(place, "Thoi gian chua cap nhat")}</p>
+          {place.tags && place.tags.length > 0 ? (
+            <ul className="flex flex-wrap gap-2">
+              {place.tags.map((tag) => (
+                <li key={tag} className="rounded-full bg-slate-200 px-3 py-1 text-xs font-semibold text-slate-700">
+                  {tag}
+                </li>
+              ))}
+            </ul>
+          ) : null}
         </div>
 
         {place.media?.cover ? (
@@ -42,6 +154,13 @@ export default async function PlaceDetailPage({ params }: Props) {
           </div>
         ) : null}
 
+        {place.media?.audio ? (
+          <section className="space-y-2">
+            <h2 className="text-xl font-semibold text-slate-900">Thuyet minh</h2>
+            <audio src={place.media.audio} controls preload="none" className="w-full" />
+          </section>
+        ) : null}
+
         <section className="grid gap-4 md:grid-cols-3">
           <div className="rounded-xl border border-slate-200 bg-white p-4 shadow-sm">
             <h2 className="text-lg font-semibold text-slate-900">Chinh</h2>
@@ -63,31 +182,185 @@ export default async function PlaceDetailPage({ params }: Props) {
           </div>
         </section>
 
+        {place.detailMarkdown ? (
+          <section className="space-y-3">
+            <h2 className="text-xl font-semibold text-slate-900">Noi dung</h2>
+            <div
+              className="rounded-xl border border-slate-200 bg-white p-5 text-justify text-sm leading-relaxed text-slate-800 shadow-sm"
+              dangerouslySetInnerHTML={{
+                __html: renderMarkdown(place.detailMarkdown, { sources: place.sources, sourceAnchorPrefix: SOURCE_ANCHOR }),
+              }}
+            />
+          </section>
+        ) : null}
+
+        {place.accuracyNote ? (
+          <aside className="rounded-xl border border-amber-200 bg-amber-50 p-4 text-sm text-amber-900">
+            <p className="font-semibold">Ghi chu ve do chinh xac</p>
+            <p className="mt-1">{place.accuracyNote}</p>
+          </aside>
+        ) : null}
+
+        {gallery.length > 0 ? (
+          <section className="space-y-3">
+            <h2 className="text-xl font-semibold text-slate-900">Hinh anh</h2>
+            <ul className="grid gap-3 sm:grid-cols-2 md:grid-cols-3">
+              {gallery.map((image, idx) => (
+                <li key={`${image.url}-${idx}`} className="overflow-hidden rounded-xl border border-slate-200 bg-white shadow-sm">
+                  {image.url && isImageUrl(image.url) ? (
+                    <a href={image.url} target="_blank" rel="noopener noreferrer">
+                      <img
+                        src={image.thumbnailUrl || image.url}
+                        alt={image.label || place.title}
+                        width={image.width}
+                        height={image.height}
+                        loading="lazy"
+                        className="aspect-[4/3] h-auto w-full object-cover"
+                      />
+                    </a>
+                  ) : (
+                    <a
+                      href={image.url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="block break-all px-3 pt-3 text-sm font-semibold text-[#991B1B] underline underline-offset-2"
+                    >
+                      {image.label || image.url}
+                    </a>
+                  )}
+                  {image.label ? <p className="px-3 py-2 text-xs text-slate-600">{image.label}</p> : null}
+                </li>
+              ))}
+            </ul>
+          </section>
+        ) : null}
+
+        {videos.length > 0 ? (
+          <section className="space-y-3">
+            <h2 className="text-xl font-semibold text-slate-900">Video</h2>
+            <div className="grid gap-4 md:grid-cols-2">
+              {videos.map((video, idx) => (
+                <div key={`${video.url}-${idx}`} className="space-y-2 rounded-xl border border-slate-200 bg-white p-3 shadow-sm">
+                  <VideoItem video={video} />
+                  {video.label ? <p className="text-sm font-semibold text-slate-800">{video.label}</p> : null}
+                </div>
+              ))}
+            </div>
+          </section>
+        ) : null}
+
+        {place.stories && place.stories.length > 0 ? (
+          <section className="space-y-3">
+            <h2 className="text-xl font-semibold text-slate-900">Cau chuyen</h2>
+            <div className="space-y-4">
+              {place.stories.map((story, idx) => (
+                <article
+                  key={`story-${idx}`}
+                  className="overflow-hidden rounded-xl border border-slate-200 bg-white shadow-sm md:flex"
+                >
+                  {story.imageUrl && isImageUrl(story.imageUrl) ? (
+                    <figure className="md:w-1/3 md:shrink-0">
+                      <img
+                        src={story.imageUrl}
+                        alt={story.imageLabel || story.title || place.title}
+                        loading="lazy"
+                        className="h-full w-full object-cover"
+                      />
+                      {story.imageLabel ? (
+                        <figcaption className="px-3 py-2 text-xs text-slate-600">{story.imageLabel}</figcaption>
+                      ) : null}
+                    </figure>
+                  ) : null}
+                  <div className="space-y-2 p-4">
+                    <h3 className="text-lg font-semibold text-slate-900">{story.title || `Cau chuyen ${idx + 1}`}</h3>
+                    <div
+                      className="text-sm leading-relaxed text-slate-700"
+                      dangerouslySetInnerHTML={{
+                        __html: renderMarkdown(story.body || "Dang cap nhat cau chuyen...", {
+                          sources: place.sources,
+                          sourceAnchorPrefix: SOURCE_ANCHOR,
+                          idPrefix: `story-${idx + 1}-`,
+                        }),
+                      }}
+                    />
+                  </div>
+                </article>
+              ))}
+            </div>
+          </section>
+        ) : null}
+
+        <section className="space-y-3">
+          <h2 className="text-xl font-semibold text-slate-900">Vi tri</h2>
+          <div className="overflow-hidden rounded-xl border border-slate-200 bg-white shadow-sm">
+            <StaticMap place={place} />
+          </div>
+          <p className="text-xs text-slate-500">
+            {place.coords[1].toFixed(4)}, {place.coords[0].toFixed(4)}
+          </p>
+        </section>
+
         <section className="space-y-3">
-          <h2 className="text-xl font-semibold text-slate-900">Nguon</h2>
+          <div className="flex flex-wrap items-baseline justify-between gap-2">
+            <h2 className="text-xl font-semibold text-slate-900">Nguon</h2>
+            {place.sources && place.sources.length > 0 ? (
+              <p className="text-xs text-slate-500">
+                Tai ve:{" "}
+                <a
+                  href={`/api/citations?place=${encodeURIComponent(place.slug ?? "")}&format=bibtex`}
+                  className="font-semibold text-blue-700 underline underline-offset-2"
+                >
+                  BibTeX
+                </a>{" "}
+                &middot;{" "}
+                <a
+                  href={`/api/citations?place=${encodeURIComponent(place.slug ?? "")}&format=csl`}
+                  className="font-semibold text-blue-700 underline underline-offset-2"
+                >
+                  CSL-JSON
+                </a>
+              </p>
+            ) : null}
+          </div>
           {place.sources && place.sources.length > 0 ? (
-            <ul className="space-y-2">
-              {place.sources.map((link) => (
-                <li key={link}>
-                  <a
-                    href={link}
-                    target="_blank"
-                    rel="noopener noreferrer"
-                    className="text-blue-700 underline underline-offset-2 hover:text-blue-800"
-                  >
-                    {link}
-                  </a>
+            <ol className="list-decimal space-y-2 pl-5 text-sm text-slate-700">
+              {place.sources.map((citation) => (
+                <li key={citation.id} id={`${SOURCE_ANCHOR}${citation.id}`} className="scroll-mt-6">
+                  <CitationText citation={citation} />
                 </li>
               ))}
-            </ul>
+            </ol>
           ) : (
             <p className="text-sm text-slate-600">Chua co nguon.</p>
           )}
         </section>
 
+        <nav className="grid gap-3 sm:grid-cols-2" aria-label="Hanh trinh">
+          {previous?.slug ? (
+            <Link
+              href={`/places/${previous.slug}`}
+              className="rounded-xl border border-slate-200 bg-white p-4 text-sm shadow-sm hover:border-blue-300"
+            >
+              <span className="block text-xs font-semibold uppercase tracking-wide text-slate-500">Truoc</span>
+              <span className="font-semibold text-slate-900">{previous.title}</span>
+            </Link>
+          ) : (
+            <span />
+          )}
+          {next?.slug ? (
+            <Link
+              href={`/places/${next.slug}`}
+              className="rounded-xl border border-slate-200 bg-white p-4 text-right text-sm shadow-sm hover:border-blue-300"
+            >
+              <span className="block text-xs font-semibold uppercase tracking-wide text-slate-500">Tiep theo</span>
+              <span className="font-semibold text-slate-900">{next.title}</span>
+            </Link>
+          ) : null}
+        </nav>
+
         <div className="flex flex-wrap gap-3">
           <Link
-            href="/map"
+            href={`/map${journeySearch({ step: index, place: place.slug })}`}
             className="rounded-lg bg-blue-600 px-4 py-2 text-sm font-semibold text-white hover:bg-blue-700"
           >
             Quay lai ban do
@@ -0,0 +1,23 @@
+import { promises as fs } from "fs";
+import type { MetadataRoute } from "next";
+
+import { dataFilePaths } from "@/lib/dataStore";
+import { loadPlacesWithSlug } from "@/lib/loadPlaces";
+import { absoluteUrl } from "@/lib/site";
+
+export default async function sitemap(): Promise<MetadataRoute.Sitemap> {
+  const places = await loadPlacesWithSlug();
+  // Places carry no timestamps of their own, so the data file's last write stands in for all of them.
+  const lastModified = (await fs.stat(dataFilePaths.places).catch(() => null))?.mtime ?? new Date();
+  return [
+    { url: absoluteUrl("/"), lastModified, changeFrequency: "weekly", priority: 1 },
+    { url: absoluteUrl("/map"), lastModified, changeFrequency: "weekly", priority: 0.8 },
+    { url: absoluteUrl("/about"), changeFrequency: "monthly", priority: 0.5 },
+    ...places.map((place) => ({
+      url: absoluteUrl(`/places/${place.slug}`),
+      lastModified,
+      changeFrequency: "monthly" as const,
+      priority: 0.7,
+    })),
+  ];
+}
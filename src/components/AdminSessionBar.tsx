@@ -0,0 +1,52 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+type SessionUser = {
+  username: string;
+  role: "editor" | "viewer";
+};
+
+export default function AdminSessionBar() {
+  const [user, setUser] = useState<SessionUser | null>(null);
+
+  useEffect(() => {
+    let mounted = true;
+    fetch("/api/auth")
+      .then(async (res) => (res.ok ? ((await res.json()) as { user: SessionUser }) : null))
+      .then((data) => {
+        if (mounted && data) setUser(data.user);
+      })
+      .catch(() => {
+        // The proxy already redirected anonymous visitors; nothing to show.
+      });
+    return () => {
+      mounted = false;
+    };
+  }, []);
+
+  const handleSignOut = async () => {
+    await fetch("/api/auth", { method: "DELETE" });
+    window.location.assign("/login");
+  };
+
+  if (!user) return null;
+
+  return (
+    <div className="flex items-center justify-end gap-3 text-xs text-slate-600">
+      <span>
+        Signed in as <span className="font-semibold text-slate-800">{user.username}</span> ({user.role})
+      </span>
+      {user.role === "viewer" ? (
+        <span className="rounded-full bg-amber-100 px-2 py-0.5 font-semibold text-amber-800">Read only</span>
+      ) : null}
+      <button
+        type="button"
+        onClick={handleSignOut}
+        className="rounded-md border border-slate-200 bg-white px-2 py-1 font-semibold text-slate-700 hover:bg-slate-100"
+      >
+        Sign out
+      </button>
+    </div>
+  );
+}
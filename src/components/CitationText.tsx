@@ -0,0 +1,27 @@
+import { citationSegments } from "@/lib/citations";
+import { Citation } from "@/types/place";
+
+/** One citation in the house style, with the title in italics and the URL as a link. */
+export default function CitationText({ citation }: { citation: Citation }) {
+  return (
+    <>
+      {citationSegments(citation).map((segment, idx) =>
+        segment.kind === "title" ? (
+          <em key={idx}>{segment.text}</em>
+        ) : segment.kind === "url" ? (
+          <a
+            key={idx}
+            href={segment.text}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="break-all text-blue-700 underline underline-offset-2 hover:text-blue-800"
+          >
+            {segment.text}
+          </a>
+        ) : (
+          <span key={idx}>{segment.text}</span>
+        ),
+      )}
+    </>
+  );
+}
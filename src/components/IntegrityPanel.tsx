@@ -0,0 +1,104 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+import type { IntegrityReport } from "@/lib/integrity";
+
+type IntegrityPanelProps = {
+  /** Bump to re-run the check, e.g. after a save. */
+  refreshToken: number;
+  onSelectRoute?: (fid: number) => void;
+};
+
+export default function IntegrityPanel({ refreshToken, onSelectRoute }: IntegrityPanelProps) {
+  const [report, setReport] = useState<IntegrityReport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let mounted = true;
+    fetch("/api/integrity", { cache: "no-store" })
+      .then(async (res) => {
+        if (!res.ok) throw new Error("Failed to check integrity");
+        return (await res.json()) as IntegrityReport;
+      })
+      .then((data) => {
+        if (!mounted) return;
+        setReport(data);
+        setError(null);
+      })
+      .catch((err) => {
+        if (mounted) setError(err instanceof Error ? err.message : "Failed to check integrity");
+      });
+    return () => {
+      mounted = false;
+    };
+  }, [refreshToken]);
+
+  if (error) return <p className="text-sm text-red-600">{error}</p>;
+  if (!report) return null;
+  if (report.ok) {
+    return (
+      <p className="rounded-md bg-emerald-50 px-3 py-2 text-sm text-emerald-800">
+        Routes and places are consistent.
+      </p>
+    );
+  }
+
+  const routeLink = (fid?: number) =>
+    fid !== undefined && onSelectRoute ? (
+      <button type="button" onClick={() => onSelectRoute(fid)} className="font-semibold text-[#991B1B] underline">
+        #{fid}
+      </button>
+    ) : (
+      <span className="font-semibold">#{fid ?? "?"}</span>
+    );
+
+  return (
+    <div className="space-y-2 rounded-xl border border-amber-300 bg-amber-50 p-4 text-sm text-amber-900 shadow-sm">
+      <h2 className="text-sm font-semibold uppercase tracking-wide text-amber-800">Integrity</h2>
+      {report.danglingSlugs.length > 0 ? (
+        <div>
+          <p className="font-semibold">Slugs with no matching place</p>
+          <ul className="list-disc pl-5">
+            {report.danglingSlugs.map((item) => (
+              <li key={`${item.fid}-${item.field}`}>
+                Route {routeLink(item.fid)} {item.field}: <span className="font-mono">{item.slug}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      ) : null}
+      {report.endpointMismatches.length > 0 ? (
+        <div>
+          <p className="font-semibold">Line ends far from their place</p>
+          <ul className="list-disc pl-5">
+            {report.endpointMismatches.map((item) => (
+              <li key={`${item.fid}-${item.field}`}>
+                Route {routeLink(item.fid)} {item.field === "fromSlug" ? "starts" : "ends"} {item.distanceKm} km from{" "}
+                <span className="font-mono">{item.slug}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      ) : null}
+      {report.duplicateOrders.length > 0 ? (
+        <div>
+          <p className="font-semibold">Orders used more than once</p>
+          <ul className="list-disc pl-5">
+            {report.duplicateOrders.map((item) => (
+              <li key={item.order}>
+                Order {item.order}:{" "}
+                {item.fids.map((fid, index) => (
+                  <span key={`${fid}-${index}`}>
+                    {index > 0 ? ", " : ""}
+                    {routeLink(fid)}
+                  </span>
+                ))}
+              </li>
+            ))}
+          </ul>
+        </div>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,93 @@
+"use client";
+
+import { useMemo } from "react";
+
+import { placePeriod } from "@/lib/historicalDates";
+import { buildTimeline, stepAtDay } from "@/lib/timeline";
+import { Place } from "@/types/place";
+
+type JourneyTimelineProps = {
+  /** Places in journey order, as the map steps through them. */
+  places: Place[];
+  currentStep: number;
+  reachedStep: number;
+  started: boolean;
+  /** Dragging moves to the last place reached by the scrubber's date. */
+  onScrub: (index: number) => void;
+  /** Called with the places of a clicked year band. */
+  onSelectYear: (places: Place[]) => void;
+};
+
+const LABEL_EVERY = 5;
+
+/** The 1911-1941 axis under the map: a tick per place, a scrubber and clickable year bands. */
+export default function JourneyTimeline({
+  places,
+  currentStep,
+  reachedStep,
+  started,
+  onScrub,
+  onSelectYear,
+}: JourneyTimelineProps) {
+  const timeline = useMemo(() => buildTimeline(places), [places]);
+  const currentTick = timeline.ticks[currentStep];
+  const reachedPosition = started ? (timeline.ticks[reachedStep]?.position ?? 0) : 0;
+
+  return (
+    <div className="w-full select-none">
+      <div className="relative h-7">
+        <div className="absolute left-0 right-0 top-1/2 h-1 -translate-y-1/2 rounded-full bg-slate-200" />
+        <div
+          className="absolute left-0 top-1/2 h-1 -translate-y-1/2 rounded-full bg-[#991B1B]/70"
+          style={{ width: `${reachedPosition * 100}%` }}
+        />
+        {timeline.ticks.map((tick) =>
+          tick.dated ? (
+            <span
+              key={tick.place.id || tick.place.slug || `tick-${tick.index}`}
+              className={`absolute top-1/2 w-0.5 -translate-x-1/2 -translate-y-1/2 rounded-full ${
+                tick.index === currentStep && started
+                  ? "h-5 bg-[#991B1B]"
+                  : started && tick.index <= reachedStep
+                    ? "h-3 bg-[#991B1B]/80"
+                    : "h-3 bg-slate-400"
+              }`}
+              style={{ left: `${tick.position * 100}%` }}
+              title={`${placePeriod(tick.place)} - ${tick.place.title}`}
+            />
+          ) : null,
+        )}
+        <input
+          type="range"
+          min={timeline.firstDay}
+          max={timeline.lastDay}
+          value={currentTick?.day ?? timeline.firstDay}
+          disabled={places.length === 0}
+          onChange={(e) => onScrub(stepAtDay(timeline, Number(e.target.value)))}
+          aria-label="Dòng thời gian"
+          aria-valuetext={currentTick ? `${placePeriod(currentTick.place)} - ${currentTick.place.title}` : undefined}
+          className="absolute inset-0 h-full w-full cursor-pointer appearance-none bg-transparent [&::-moz-range-thumb]:h-4 [&::-moz-range-thumb]:w-4 [&::-moz-range-thumb]:rounded-full [&::-moz-range-thumb]:border-2 [&::-moz-range-thumb]:border-white [&::-moz-range-thumb]:bg-[#991B1B] [&::-webkit-slider-thumb]:h-4 [&::-webkit-slider-thumb]:w-4 [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:rounded-full [&::-webkit-slider-thumb]:border-2 [&::-webkit-slider-thumb]:border-white [&::-webkit-slider-thumb]:bg-[#991B1B] [&::-webkit-slider-thumb]:shadow"
+        />
+      </div>
+      <div className="relative flex h-6">
+        {timeline.years.map(({ year, start, end, placeIndexes }) => {
+          const count = placeIndexes.length;
+          const showLabel = year % LABEL_EVERY === 0 || year === timeline.years[0]?.year;
+          return (
+            <button
+              key={year}
+              type="button"
+              disabled={count === 0}
+              onClick={() => onSelectYear(placeIndexes.map((index) => places[index]))}
+              title={count > 0 ? `${year}: ${count} địa điểm` : `${year}`}
+              className="relative h-full border-l border-white/60 text-[10px] font-semibold text-slate-600 first:border-l-0 enabled:bg-[#EAB308]/20 enabled:hover:bg-[#EAB308]/45 disabled:cursor-default"
+              style={{ width: `${(end - start) * 100}%` }}
+            >
+              {showLabel ? <span className="absolute left-0.5 top-1/2 -translate-y-1/2">{year}</span> : null}
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,117 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+import type { LinkIssueKind, LinkReport } from "@/lib/linkCheck";
+
+type LinkReportPanelProps = {
+  /** Bump to re-run the check, e.g. after a save. */
+  refreshToken: number;
+  onSelectPlace?: (placeId: string) => void;
+};
+
+const KIND_LABELS: Record<LinkIssueKind, string> = {
+  missing_file: "Missing files",
+  malformed_url: "Malformed URLs",
+  unsupported_video: "Videos that cannot be played",
+  unreachable: "Links that do not answer",
+};
+
+export default function LinkReportPanel({ refreshToken, onSelectPlace }: LinkReportPanelProps) {
+  const [report, setReport] = useState<LinkReport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [remote, setRemote] = useState(false);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let mounted = true;
+    fetch(`/api/link-check${remote ? "?remote=1" : ""}`, { cache: "no-store" })
+      .then(async (res) => {
+        if (!res.ok) throw new Error("Failed to check links");
+        return (await res.json()) as LinkReport;
+      })
+      .then((data) => {
+        if (!mounted) return;
+        setReport(data);
+        setError(null);
+      })
+      .catch((err) => {
+        if (mounted) setError(err instanceof Error ? err.message : "Failed to check links");
+      })
+      .finally(() => {
+        if (mounted) setLoading(false);
+      });
+    return () => {
+      mounted = false;
+    };
+  }, [refreshToken, remote]);
+
+  const remoteButton = (
+    <button
+      type="button"
+      onClick={() => {
+        setLoading(true);
+        setRemote(true);
+      }}
+      disabled={loading || remote}
+      className="rounded-md border border-slate-200 bg-white px-2 py-1 text-xs font-semibold text-slate-700 hover:bg-slate-100 disabled:opacity-60"
+    >
+      {loading && remote ? "Checking external links..." : remote ? "External links checked" : "Also check external links"}
+    </button>
+  );
+
+  if (error) return <p className="text-sm text-red-600">{error}</p>;
+  if (!report) return <p className="text-sm text-slate-500">Checking links...</p>;
+  if (report.ok) {
+    return (
+      <div className="flex flex-wrap items-center justify-between gap-2 rounded-md bg-emerald-50 px-3 py-2 text-sm text-emerald-800">
+        <span>
+          All {report.checked} media files and links look fine
+          {report.remoteChecked ? "" : " (external links were not opened)"}.
+        </span>
+        {remoteButton}
+      </div>
+    );
+  }
+
+  const kinds = (Object.keys(KIND_LABELS) as LinkIssueKind[]).filter((kind) =>
+    report.issues.some((issue) => issue.kind === kind),
+  );
+
+  return (
+    <div className="space-y-2 rounded-xl border border-amber-300 bg-amber-50 p-4 text-sm text-amber-900 shadow-sm">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h2 className="text-sm font-semibold uppercase tracking-wide text-amber-800">
+          Broken media and links ({report.issues.length} of {report.checked})
+        </h2>
+        {remoteButton}
+      </div>
+      {kinds.map((kind) => (
+        <div key={kind}>
+          <p className="font-semibold">{KIND_LABELS[kind]}</p>
+          <ul className="list-disc pl-5">
+            {report.issues
+              .filter((issue) => issue.kind === kind)
+              .map((issue, index) => (
+                <li key={`${issue.placeId}-${issue.field}-${index}`}>
+                  {issue.placeId && onSelectPlace ? (
+                    <button
+                      type="button"
+                      onClick={() => onSelectPlace(issue.placeId as string)}
+                      className="font-semibold text-[#991B1B] underline"
+                    >
+                      {issue.placeTitle}
+                    </button>
+                  ) : (
+                    <span className="font-semibold">{issue.placeTitle}</span>
+                  )}{" "}
+                  <span className="font-mono text-xs">{issue.field}</span>:{" "}
+                  <span className="break-all font-mono text-xs">{issue.url}</span> &middot; {issue.message}
+                </li>
+              ))}
+          </ul>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -1,13 +1,52 @@
 ﻿"use client";
 
 import Link from "next/link";
-import { useEffect, useMemo, useRef, useState } from "react";
+import { useEffect, useMemo, useRef, useState, useSyncExternalStore } from "react";
 import mapboxgl from "mapbox-gl";
 import "mapbox-gl/dist/mapbox-gl.css";
 
-import routes from "@/data/routes.json";
-import quizData from "@/data/quiz.json";
-import { Place } from "@/types/place";
+import JourneyTimeline from "@/components/JourneyTimeline";
+import QuizHistoryPanel from "@/components/QuizHistoryPanel";
+import { countryCodeFromName } from "@/lib/countries";
+import { formatDate, placeDateSpan, placePeriod } from "@/lib/historicalDates";
+import { sortPlacesByJourney, toNumberOrder } from "@/lib/journeyOrder";
+import {
+  AutoSpeed,
+  JourneyTab,
+  JourneyUrlState,
+  ProjectionMode,
+  journeySearch,
+  parseJourneyState,
+} from "@/lib/journeyUrl";
+import { renderMarkdown } from "@/lib/markdown";
+import { getEmbedVideoSrc, isImageUrl, isVideoUrl } from "@/lib/mediaUrls";
+import { dealQuizSet, filterQuizBank, questionPlaceSlugs, shuffledIndexes } from "@/lib/quizBank";
+import {
+  QuizClassroomError,
+  QuizClassroomJoin,
+  QuizClassroomState,
+  followQuizClassroom,
+  joinQuizClassroom,
+  readQuizClassroom,
+  sendQuizClassroomAnswers,
+  writeQuizClassroom,
+} from "@/lib/quizClassroom";
+import { QuizAnswer, gradeQuizAnswer, hasQuizAnswer } from "@/lib/quizGrading";
+import {
+  clearStoredQuizAttempts,
+  createQuizAttempt,
+  parseStoredQuizAttempts,
+  readQuizProgress,
+  sendQuizAttempt,
+  storeQuizAttempt,
+  storedQuizAttemptsSnapshot,
+  subscribeStoredQuizAttempts,
+  writeQuizProgress,
+} from "@/lib/quizHistory";
+import { AUDIENCE_LEVELS } from "@/lib/quizSchema";
+import { AudienceLevel, Place, PlaceStory } from "@/types/place";
+import { QuizQuestion, QuizQuestionPrompt } from "@/types/quiz";
+import { RouteCollection } from "@/types/route";
 
 const MAPBOX_TOKEN = process.env.NEXT_PUBLIC_MAPBOX_TOKEN || "\u0110\u1ecba \u0111i\u1ec3m";
 mapboxgl.accessToken = MAPBOX_TOKEN;
@@ -18,15 +57,18 @@ type MarkerEntry = {
   place: Place;
 };
 
-type Props = {
-  places: Place[];
+const AUDIENCE_LABELS: Record<AudienceLevel, string> = {
+  primary: "Tiểu học",
+  secondary: "THCS",
+  high: "THPT",
 };
 
-type QuizQuestion = {
-  id: string;
-  question: string;
-  options: string[];
-  answerIndex: number;
+type Props = {
+  places: Place[];
+  routes: RouteCollection;
+  quiz: QuizQuestion[];
+  /** Also send graded sets to /api/quiz/results. */
+  saveResults?: boolean;
 };
 
 // Positron GL style supports globe projection without API key
@@ -40,65 +82,10 @@ type RouteFeature = GeoJSON.Feature<
 const EMPTY_FC: GeoJSON.FeatureCollection<GeoJSON.Geometry> = { type: "FeatureCollection", features: [] };
 const POPUP_STYLE_ID = "mapbox-popup-clean-style";
 
-const COUNTRY_ISO_MAP: Record<string, string> = {
-  "ai cap": "EGY",
-  algeria: "DZA",
-  angola: "AGO",
-  anh: "GBR",
-  argentina: "ARG",
-  bi: "BEL",
-  congo: "COD",
-  "cote d ivoire": "CIV",
-  duc: "DEU",
-  ghana: "GHA",
-  "ha lan": "NLD",
-  kenya: "KEN",
-  madagascar: "MDG",
-  malaysia: "MYS",
-  martinique: "FRA",
-  morocco: "MAR",
-  my: "USA",
-  "nam phi": "ZAF",
-  nga: "RUS",
-  nigeria: "NGA",
-  phap: "FRA",
-  reunion: "FRA",
-  senegal: "SEN",
-  singapore: "SGP",
-  somalia: "SOM",
-  "sri lanka": "LKA",
-  tanzania: "TZA",
-  "thai lan": "THA",
-  "trung quoc": "CHN",
-  tunisie: "TUN",
-  uc: "AUS",
-  uruguay: "URY",
-  "viet nam": "VNM",
-  y: "ITA",
-};
-
-function normalizeCountryName(value: string) {
-  return value
-    .normalize("NFD")
-    .replace(/[\u0300-\u036f]/g, "")
-    .toLowerCase()
-    .replace(/[^a-z0-9]+/g, " ")
-    .trim()
-    .replace(/\s+/g, " ");
-}
-
 function collectCountryCodes(list: Place[]) {
   const codes = new Set<string>();
   list.forEach((place) => {
-    const placeAny = place as any;
-    const rawCode = typeof placeAny.countryCode === "string" ? placeAny.countryCode.trim() : "";
-    if (rawCode && /^[a-zA-Z]{3}$/.test(rawCode)) {
-      codes.add(rawCode.toUpperCase());
-      return;
-    }
-    if (!place.country) return;
-    const key = normalizeCountryName(place.country);
-    const code = COUNTRY_ISO_MAP[key];
+    const code = place.countryCode || countryCodeFromName(place.country);
     if (code) codes.add(code);
   });
   return Array.from(codes);
@@ -123,72 +110,7 @@ function getIconSrc(icon: string) {
   return null;
 }
 
-function isImageUrl(url: string) {
-  return /\.(png|jpe?g|webp|gif|svg)$/i.test(url);
-}
-
-function isVideoUrl(url: string) {
-  return /\.(mp4|webm|ogg)$/i.test(url);
-}
-
-function getEmbedVideoSrc(url: string) {
-  const trimmed = url.trim();
-  const ytMatch = trimmed.match(
-    /^(?:https?:\/\/)?(?:www\.)?(?:youtube\.com\/watch\?v=|youtube\.com\/embed\/|youtu\.be\/)([A-Za-z0-9_-]{6,})/i,
-  );
-  if (ytMatch) {
-    return `https://www.youtube.com/embed/${ytMatch[1]}`;
-  }
-  const vimeoMatch = trimmed.match(/^(?:https?:\/\/)?(?:www\.)?vimeo\.com\/(\d+)/i);
-  if (vimeoMatch) {
-    return `https://player.vimeo.com/video/${vimeoMatch[1]}`;
-  }
-  return null;
-}
-
-function renderSimpleMarkdown(input: string) {
-  const escapeHtml = (value: string) =>
-    value
-      .replace(/&/g, "&amp;")
-      .replace(/</g, "&lt;")
-      .replace(/>/g, "&gt;")
-      .replace(/"/g, "&quot;");
-  const safe = escapeHtml(input || "");
-  const withBlocks = safe
-    .replace(/^### (.*)$/gm, '<h4 class="mt-3 text-sm font-semibold text-slate-700">$1</h4>')
-    .replace(/^## (.*)$/gm, '<h3 class="mt-3 text-base font-semibold text-slate-800">$1</h3>')
-    .replace(/^# (.*)$/gm, '<h2 class="mt-3 text-lg font-semibold text-slate-900">$1</h2>')
-    .replace(/^> (.*)$/gm, '<blockquote class="border-l-2 border-slate-300 pl-3 italic text-slate-600">$1</blockquote>');
-  const lines = withBlocks.split(/\n/);
-  const out: string[] = [];
-  let inList = false;
-  lines.forEach((line) => {
-    const match = line.match(/^[-*]\s+(.*)$/);
-    if (match) {
-      if (!inList) {
-        inList = true;
-        out.push('<ul class="list-disc space-y-1 pl-5">');
-      }
-      out.push(`<li>${match[1]}</li>`);
-      return;
-    }
-    if (inList) {
-      out.push("</ul>");
-      inList = false;
-    }
-    if (!line.trim()) {
-      out.push("<br />");
-      return;
-    }
-    const inline = line.replace(/\*\*(.+?)\*\*/g, "<strong>$1</strong>").replace(/_(.+?)_/g, "<em>$1</em>");
-    out.push(`<p>${inline}</p>`);
-  });
-  if (inList) out.push("</ul>");
-  return out.join("");
-}
-
 function buildPopupContent(place: Place, onDetail: () => void) {
-  const placeAny = place as any;
   const wrapper = document.createElement("div");
   wrapper.className =
     "relative max-w-[280px] overflow-hidden rounded-2xl border border-white/30 bg-white/55 shadow-2xl ring-1 ring-white/20 backdrop-blur-xl";
@@ -224,17 +146,14 @@ function buildPopupContent(place: Place, onDetail: () => void) {
     const pill = document.createElement("span");
     pill.className =
       "inline-flex items-center rounded-full bg-[#EAB308]/20 px-3 py-1 text-[13px] font-semibold text-[#991B1B] backdrop-blur";
-    const fallbackRange =
-      place.dateStart && place.dateEnd ? `${place.dateStart} -> ${place.dateEnd}` : place.dateStart || place.dateEnd || "\u0110\u1ecba \u0111i\u1ec3m";
-    pill.textContent = place.periodLabel || fallbackRange;
+    pill.textContent = placePeriod(place, "\u0110\u1ecba \u0111i\u1ec3m");
     const dateWrap = document.createElement("div");
     dateWrap.className = "mt-1";
     dateWrap.appendChild(pill);
     body.appendChild(dateWrap);
   }
 
-  const customPopup = typeof placeAny.popup === "string" ? placeAny.popup : undefined;
-  const mainText = customPopup || place.levelTexts?.primary;
+  const mainText = place.popup || place.levelTexts?.primary;
   const extraText = place.levelTexts?.secondary || place.levelTexts?.high;
   if (mainText) {
     const desc = document.createElement("p");
@@ -361,15 +280,6 @@ function buildPartialLineByDistance(coords: [number, number][], distanceMeters:
   return out;
 }
 
-function toNumberOrder(v: string | number | undefined) {
-  if (typeof v === "number") return v;
-  if (typeof v === "string") {
-    const n = Number(v);
-    if (!Number.isNaN(n)) return n;
-  }
-  return undefined;
-}
-
 function isSameCoord(a: [number, number], b: [number, number], epsilon = 1e-4) {
   return Math.abs(a[0] - b[0]) < epsilon && Math.abs(a[1] - b[1]) < epsilon;
 }
@@ -387,27 +297,64 @@ function buildPointCollection(places: Place[]): GeoJSON.FeatureCollection<GeoJSO
   };
 }
 
-function pickRandomItems<T>(items: T[], count: number) {
-  const copy = [...items];
-  for (let i = copy.length - 1; i > 0; i -= 1) {
-    const j = Math.floor(Math.random() * (i + 1));
-    [copy[i], copy[j]] = [copy[j], copy[i]];
-  }
-  return copy.slice(0, Math.min(count, copy.length));
+/** Colours of a quiz choice: right or wrong once graded, otherwise picked or not. */
+function quizChoiceTone(showCorrect: boolean, showWrong: boolean, isSelected: boolean) {
+  if (showCorrect) return "border-emerald-400 bg-emerald-50 text-emerald-800";
+  if (showWrong) return "border-rose-400 bg-rose-50 text-rose-700";
+  if (isSelected) return "border-[#991B1B]/50 bg-[#991B1B]/10 text-[#991B1B]";
+  return "border-white/60 bg-white/70 text-slate-700 hover:bg-white";
+}
+
+/**
+ * Ordering questions start shuffled, never already in order. That order is their
+ * answer until the player moves an event.
+ */
+function startingQuizAnswers(questions: (QuizQuestion | QuizQuestionPrompt)[]): Record<string, QuizAnswer> {
+  return Object.fromEntries(
+    questions.flatMap((question) => {
+      if (question.type !== "order") return [];
+      let order = shuffledIndexes(question.items.length);
+      for (let tries = 0; tries < 5 && order.every((itemIndex, position) => itemIndex === position); tries += 1) {
+        order = shuffledIndexes(question.items.length);
+      }
+      return [[question.id, { type: "order", order } satisfies QuizAnswer]];
+    }),
+  );
+}
+
+/**
+ * The answers a classroom set starts from and, when it was submitted and its answers
+ * are known, its score.
+ */
+function classroomSetState(
+  questions: (QuizQuestion | QuizQuestionPrompt)[],
+  answers: Record<string, QuizAnswer>,
+  submitted: boolean,
+  locate: (slug: string) => [number, number] | undefined,
+): { answers: Record<string, QuizAnswer>; scores: Record<number, number> } {
+  return {
+    answers: { ...startingQuizAnswers(questions), ...answers },
+    scores:
+      submitted && questions.every(hasQuizAnswer)
+        ? { 0: questions.filter((question) => gradeQuizAnswer(question, answers[question.id], locate).correct).length }
+        : {},
+  };
 }
 
-function shuffleQuizOptions(question: QuizQuestion): QuizQuestion {
-  const entries = question.options.map((option, index) => ({ option, index }));
-  for (let i = entries.length - 1; i > 0; i -= 1) {
-    const j = Math.floor(Math.random() * (i + 1));
-    [entries[i], entries[j]] = [entries[j], entries[i]];
+/** Writes the journey state and the camera into the address bar; a new history entry only when `push` is set. */
+function writeJourneyUrl(state: JourneyUrlState, map: mapboxgl.Map | null, push: boolean) {
+  const camera = map ? { center: map.getCenter().toArray() as [number, number], zoom: map.getZoom() } : state.camera;
+  const search = journeySearch({ ...state, camera });
+  if (search === window.location.search) return;
+  const url = `${window.location.pathname}${search}${window.location.hash}`;
+  if (push) {
+    window.history.pushState(null, "", url);
+  } else {
+    window.history.replaceState(null, "", url);
   }
-  const newOptions = entries.map((entry) => entry.option);
-  const newAnswerIndex = entries.findIndex((entry) => entry.index === question.answerIndex);
-  return { ...question, options: newOptions, answerIndex: newAnswerIndex };
 }
 
-export default function MapView({ places }: Props) {
+export default function MapView({ places, routes, quiz, saveResults = false }: Props) {
   const hasToken = Boolean(MAPBOX_TOKEN);
   const mapContainerRef = useRef<HTMLDivElement | null>(null);
   const wrapperRef = useRef<HTMLDivElement | null>(null);
@@ -425,31 +372,40 @@ export default function MapView({ places }: Props) {
   const [mapLoaded, setMapLoaded] = useState(false);
   const [activePlaceId, setActivePlaceId] = useState<string | null>(null);
   const [stepIndex, setStepIndex] = useState<number>(0);
-  const [projectionMode, setProjectionMode] = useState<"globe" | "mercator">("globe");
+  const [projectionMode, setProjectionMode] = useState<ProjectionMode>("globe");
   const [showMenu, setShowMenu] = useState<boolean>(true);
   const [isFullscreen, setIsFullscreen] = useState<boolean>(false);
   const [detailPlace, setDetailPlace] = useState<Place | null>(null);
-  const [activeTab, setActiveTab] = useState<"places" | "journey" | "quiz">("journey");
+  const [activeTab, setActiveTab] = useState<JourneyTab>("journey");
   const [hasStarted, setHasStarted] = useState(false);
   const [countryQuery, setCountryQuery] = useState("");
   const [hoveredTab, setHoveredTab] = useState<"places" | "journey" | "quiz" | null>(null);
-  const [quizSets, setQuizSets] = useState<QuizQuestion[][]>([]);
-  const [quizAnswersBySet, setQuizAnswersBySet] = useState<Record<number, Record<string, number>>>({});
+  // A classroom set is prompts without answers until its session ends.
+  const [quizSets, setQuizSets] = useState<(QuizQuestion | QuizQuestionPrompt)[][]>([]);
+  const [quizAnswersBySet, setQuizAnswersBySet] = useState<Record<number, Record<string, QuizAnswer>>>({});
   const [quizSubmittedBySet, setQuizSubmittedBySet] = useState<Record<number, boolean>>({});
   const [quizScoreBySet, setQuizScoreBySet] = useState<Record<number, number>>({});
   const [activeQuizIndex, setActiveQuizIndex] = useState(-1);
+  const [quizLevel, setQuizLevel] = useState<AudienceLevel | "all">("all");
+  const [quizReachedOnly, setQuizReachedOnly] = useState(false);
+  // The filters the current sets were dealt for; see quizFilterKey.
+  const [quizSetsFilter, setQuizSetsFilter] = useState("");
+  const [showQuizHistory, setShowQuizHistory] = useState(false);
+  // A teacher's live session: while joined, the quiz tab holds its one set instead of dealt ones.
+  const [quizClassroom, setQuizClassroom] = useState<QuizClassroomState | null>(null);
+  const [classroomCodeInput, setClassroomCodeInput] = useState("");
+  const [classroomNameInput, setClassroomNameInput] = useState("");
+  const [classroomError, setClassroomError] = useState<string | null>(null);
+  const [isJoiningClassroom, setIsJoiningClassroom] = useState(false);
+  // The map question waiting for a click on the map.
+  const [quizPickId, setQuizPickId] = useState<string | null>(null);
   const [reachedStepIndex, setReachedStepIndex] = useState(0);
   const [isAutoPlay, setIsAutoPlay] = useState(false);
   const [showAutoOptions, setShowAutoOptions] = useState(false);
-  const [autoSpeed, setAutoSpeed] = useState<"auto" | "x2" | "x4" | "custom">("auto");
+  const [autoSpeed, setAutoSpeed] = useState<AutoSpeed>("auto");
   const [customSpeedFactor, setCustomSpeedFactor] = useState(1);
   const [viewportWidth, setViewportWidth] = useState<number>(0);
-  const [activeStory, setActiveStory] = useState<{
-    title?: string;
-    body?: string;
-    imageUrl?: string;
-    imageLabel?: string;
-  } | null>(null);
+  const [activeStory, setActiveStory] = useState<PlaceStory | null>(null);
   const placeSectionRef = useRef<HTMLDivElement | null>(null);
   const journeySectionRef = useRef<HTMLDivElement | null>(null);
   const autoNextTimeoutRef = useRef<number | null>(null);
@@ -457,6 +413,14 @@ export default function MapView({ places }: Props) {
   const lastAnimDurationRef = useRef(0);
   const stepIndexRef = useRef(0);
   const autoPlayTokenRef = useRef(0);
+  // Shared-link state: what the address bar should show, a link still waiting for the map, and
+  // a camera to apply once a projection change from the link has run.
+  const urlStateRef = useRef<JourneyUrlState>({});
+  const pendingUrlStateRef = useRef<JourneyUrlState | null>(null);
+  const pendingCameraRef = useRef<JourneyUrlState["camera"] | null>(null);
+  const applyUrlStateRef = useRef<(state: JourneyUrlState) => void>(() => {});
+  const showRestoredUrlStateRef = useRef<(state: JourneyUrlState) => void>(() => {});
+  const mapClickRef = useRef<(coords: [number, number]) => void>(() => {});
 
   useEffect(() => {
     const updateWidth = () => setViewportWidth(window.innerWidth || 0);
@@ -475,49 +439,9 @@ export default function MapView({ places }: Props) {
 
   const leftSidebarWidth = showMenu ? getSidebarWidth(360) : 0;
   const rightSidebarWidth = detailPlace ? getSidebarWidth(360) : 0;
+  const detailSpan = detailPlace ? placeDateSpan(detailPlace) : null;
 
-  const routeOrderMap = useMemo(() => {
-    const m = new Map<string, number>();
-    (routes as GeoJSON.FeatureCollection).features?.forEach((f, idx) => {
-      if (f.type !== "Feature") return;
-      const props = f.properties as RouteFeature["properties"];
-      const ord = toNumberOrder(props?.order) ?? idx + 1;
-      if (!ord) return;
-      if (props?.fromSlug) {
-        const cur = m.get(props.fromSlug);
-        if (cur === undefined || ord < cur) m.set(props.fromSlug, ord);
-      }
-      if (props?.toSlug) {
-        const cur = m.get(props.toSlug);
-        if (cur === undefined || ord < cur) m.set(props.toSlug, ord);
-      }
-    });
-    return m;
-  }, []);
-
-  const sortedPlaces = useMemo(() => {
-    const list = [...places];
-    list.sort((a, b) => {
-      const aOrd = a.slug ? routeOrderMap.get(a.slug) : undefined;
-      const bOrd = b.slug ? routeOrderMap.get(b.slug) : undefined;
-      if (aOrd !== undefined && bOrd !== undefined && aOrd !== bOrd) return aOrd - bOrd;
-      if (aOrd !== undefined && bOrd === undefined) return -1;
-      if (aOrd === undefined && bOrd !== undefined) return 1;
-
-      const aHas = Boolean(a.dateStart);
-      const bHas = Boolean(b.dateStart);
-      if (aHas && bHas) {
-        const compare = (a.dateStart || "\u0110\u1ecba \u0111i\u1ec3m").localeCompare(b.dateStart || "\u0110\u1ecba \u0111i\u1ec3m");
-        if (compare !== 0) return compare;
-      } else if (aHas && !bHas) {
-        return -1;
-      } else if (!aHas && bHas) {
-        return 1;
-      }
-      return (a.title || "\u0110\u1ecba \u0111i\u1ec3m").localeCompare(b.title || "\u0110\u1ecba \u0111i\u1ec3m");
-    });
-    return list;
-  }, [places, routeOrderMap]);
+  const sortedPlaces = useMemo(() => sortPlacesByJourney(places, routes), [places, routes]);
 
   const filteredPlaces = useMemo(() => {
     const query = countryQuery.trim().toLowerCase();
@@ -525,54 +449,242 @@ export default function MapView({ places }: Props) {
     return sortedPlaces.filter((place) => (place.country || "").toLowerCase().includes(query));
   }, [sortedPlaces, countryQuery]);
 
-  const quizBank = useMemo(() => {
-    return (quizData as QuizQuestion[])
-      .filter((q) => q && q.id && Array.isArray(q.options))
-      .map((q) => {
-        const rawIndex = Number(q.answerIndex);
-        if (!Number.isFinite(rawIndex)) return q;
-        const maxIndex = Math.max(0, q.options.length - 1);
-        const normalized = Math.max(0, Math.min(maxIndex, rawIndex - 1));
-        return { ...q, answerIndex: normalized };
-      });
-  }, []);
+  const placesBySlug = useMemo(
+    () => new Map(sortedPlaces.flatMap((place) => (place.slug ? [[place.slug, place] as const] : []))),
+    [sortedPlaces],
+  );
+
+  const locatePlace = (slug: string) => placesBySlug.get(slug)?.coords;
+
+  const quizFilterKey = quizClassroom
+    ? `session:${quizClassroom.code}`
+    : JSON.stringify({ level: quizLevel, reached: quizReachedOnly && hasStarted });
+  // Attempts graded in this browser; the server snapshot is empty, so the history fills in after hydration.
+  const storedQuizAttempts = useSyncExternalStore(subscribeStoredQuizAttempts, storedQuizAttemptsSnapshot, () => "");
+  const quizAttempts = useMemo(() => parseStoredQuizAttempts(storedQuizAttempts), [storedQuizAttempts]);
 
+  // "Reached only" draws from the places the journey has passed when the set is made;
+  // later progress does not reshuffle a set being answered.
   const generateQuizSet = () => {
-    const nextSets = Array.from({ length: 10 }, () => pickRandomItems(quizBank, 10).map(shuffleQuizOptions));
+    const bank = filterQuizBank(quiz, {
+      level: quizLevel === "all" ? undefined : quizLevel,
+      placeSlugs:
+        quizReachedOnly && hasStarted
+          ? new Set(visiblePlaces.flatMap((place) => (place.slug ? [place.slug] : [])))
+          : undefined,
+    }).filter((question) => question.type !== "map" || locatePlace(question.placeSlug));
+    const nextSets = bank.length > 0 ? Array.from({ length: 10 }, () => dealQuizSet(bank, 10)) : [];
     setQuizSets(nextSets);
-    setQuizAnswersBySet({});
+    setQuizAnswersBySet(Object.fromEntries(nextSets.map((questions, index) => [index, startingQuizAnswers(questions)])));
     setQuizSubmittedBySet({});
     setQuizScoreBySet({});
     setActiveQuizIndex(-1);
+    setQuizPickId(null);
+    setQuizSetsFilter(quizFilterKey);
+  };
+
+  // Opening the tab again, or reloading the page, picks up the sets being answered;
+  // changing the filters deals new ones.
+  const prepareQuizSets = () => {
+    if (quizSets.length > 0 && quizSetsFilter === quizFilterKey) return;
+    const classroom = quizClassroom ? null : readQuizClassroom();
+    if (classroom) {
+      joinClassroom(classroom.code, { studentId: classroom.studentId, name: classroom.name });
+      return;
+    }
+    const saved = readQuizProgress();
+    const knownIds = new Set(quiz.map((question) => question.id));
+    if (
+      saved &&
+      saved.filter === quizFilterKey &&
+      saved.sets.length > 0 &&
+      saved.sets.every((questions) => questions.every((question) => knownIds.has(question.id)))
+    ) {
+      setQuizSets(saved.sets);
+      setQuizAnswersBySet(saved.answers);
+      setQuizSubmittedBySet(saved.submitted);
+      setQuizScoreBySet(saved.scores);
+      setActiveQuizIndex(Math.min(saved.activeIndex, saved.sets.length - 1));
+      setQuizPickId(null);
+      setQuizSetsFilter(saved.filter);
+      return;
+    }
+    generateQuizSet();
   };
 
   useEffect(() => {
     if (activeTab === "quiz") {
-      generateQuizSet();
+      prepareQuizSets();
     }
-  }, [activeTab, quizBank]);
+  }, [activeTab, quiz, quizFilterKey]);
+
+  const classroomErrorMessage = (err: unknown) => {
+    if (!(err instanceof QuizClassroomError)) return "Không kết nối được với phiên, hãy thử lại.";
+    if (err.status === 404) return "Không tìm thấy phiên có mã này.";
+    if (err.status === 409) return "Phiên đã kết thúc hoặc đã đủ người.";
+    if (err.status === 400) return "Hãy nhập tên của bạn (tối đa 40 ký tự).";
+    return "Không vào được phiên, hãy thử lại.";
+  };
+
+  // Rejoining with a studentId, e.g. after a reload, brings back the answers already sent.
+  const joinClassroom = async (code: string, input: { name?: string; studentId?: string }) => {
+    setIsJoiningClassroom(true);
+    setClassroomError(null);
+    try {
+      const { session, join, answers, submitted } = await joinQuizClassroom(code, input);
+      const set = classroomSetState(session.questions, answers, submitted, locatePlace);
+      writeQuizClassroom(join);
+      setQuizClassroom({ ...join, status: session.status });
+      setQuizSets([session.questions]);
+      setQuizAnswersBySet({ 0: set.answers });
+      setQuizSubmittedBySet({ 0: submitted });
+      setQuizScoreBySet(set.scores);
+      setActiveQuizIndex(0);
+      setQuizPickId(null);
+      setQuizSetsFilter(`session:${join.code}`);
+    } catch (err) {
+      setClassroomError(classroomErrorMessage(err));
+      if (input.studentId) {
+        // The saved session is gone; go back to dealt sets.
+        writeQuizClassroom(null);
+        generateQuizSet();
+      }
+    } finally {
+      setIsJoiningClassroom(false);
+    }
+  };
 
-  const handleQuizAnswer = (id: string, optionIndex: number) => {
+  // The dealt sets come back once the effect above sees the filters change.
+  const leaveClassroom = () => {
+    writeQuizClassroom(null);
+    setQuizClassroom(null);
+    setQuizSets([]);
+    setClassroomError(null);
+  };
+
+  const sendClassroomAnswers = (
+    join: QuizClassroomJoin,
+    answers: Record<string, QuizAnswer | null>,
+    submitted = false,
+  ) => {
+    sendQuizClassroomAnswers(join, answers, submitted).catch((err) => {
+      if (err instanceof QuizClassroomError && err.status === 409) {
+        setQuizClassroom((prev) => (prev && prev.code === join.code ? { ...prev, status: "closed" } : prev));
+        return;
+      }
+      setClassroomError("Chưa gửi được câu trả lời cho giáo viên.");
+    });
+  };
+
+  const classroomCode = quizClassroom?.code;
+  useEffect(() => {
+    if (!classroomCode) return;
+    return followQuizClassroom(classroomCode, (status) => {
+      setQuizClassroom((prev) => (prev && prev.code === classroomCode ? { ...prev, status } : prev));
+    });
+  }, [classroomCode]);
+
+  // Once the session has ended its answers can be fetched: the set is swapped for the full
+  // questions and graded if it was submitted.
+  const revealCode =
+    quizClassroom?.status === "closed" && quizSets.some((set) => !set.every(hasQuizAnswer)) ? quizClassroom.code : null;
+  const revealStudentId = revealCode ? quizClassroom?.studentId : undefined;
+  useEffect(() => {
+    if (!revealCode || !revealStudentId) return;
+    let cancelled = false;
+    joinQuizClassroom(revealCode, { studentId: revealStudentId })
+      .then(({ session, answers, submitted }) => {
+        if (cancelled || session.status !== "closed") return;
+        const set = classroomSetState(session.questions, answers, submitted, (slug) => placesBySlug.get(slug)?.coords);
+        setQuizSets([session.questions]);
+        setQuizAnswersBySet({ 0: set.answers });
+        setQuizSubmittedBySet({ 0: submitted });
+        setQuizScoreBySet(set.scores);
+      })
+      .catch(() => {
+        if (!cancelled) setClassroomError("Chưa tải được đáp án của phiên, hãy tải lại trang.");
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [revealCode, revealStudentId, placesBySlug]);
+
+  // A classroom set comes back by rejoining, so only dealt sets are kept.
+  useEffect(() => {
+    if (quizSets.length === 0 || quizClassroom) return;
+    writeQuizProgress({
+      filter: quizSetsFilter,
+      sets: quizSets.filter((set): set is QuizQuestion[] => set.every(hasQuizAnswer)),
+      answers: quizAnswersBySet,
+      submitted: quizSubmittedBySet,
+      scores: quizScoreBySet,
+      activeIndex: activeQuizIndex,
+    });
+  }, [quizSets, quizSetsFilter, quizAnswersBySet, quizSubmittedBySet, quizScoreBySet, activeQuizIndex, quizClassroom]);
+
+  // `undefined` takes the answer back, e.g. when every ticked option is unticked.
+  const handleQuizAnswer = (id: string, answer: QuizAnswer | undefined) => {
     if (activeQuizIndex < 0) return;
     if (quizSubmittedBySet[activeQuizIndex]) return;
-    setQuizAnswersBySet((prev) => ({
-      ...prev,
-      [activeQuizIndex]: { ...(prev[activeQuizIndex] ?? {}), [id]: optionIndex },
-    }));
+    setQuizAnswersBySet((prev) => {
+      const answers = { ...(prev[activeQuizIndex] ?? {}) };
+      if (answer) answers[id] = answer;
+      else delete answers[id];
+      return { ...prev, [activeQuizIndex]: answers };
+    });
+    if (quizClassroom?.status === "open") sendClassroomAnswers(quizClassroom, { [id]: answer ?? null });
+  };
+
+  const toggleQuizOption = (id: string, optionIndex: number) => {
+    const current = activeQuizAnswers[id];
+    const indexes = current?.type === "multiple" ? current.indexes : [];
+    const next = indexes.includes(optionIndex)
+      ? indexes.filter((index) => index !== optionIndex)
+      : [...indexes, optionIndex];
+    handleQuizAnswer(id, next.length > 0 ? { type: "multiple", indexes: next } : undefined);
+  };
+
+  const moveQuizItem = (id: string, position: number, offset: number) => {
+    const current = activeQuizAnswers[id];
+    if (current?.type !== "order") return;
+    const target = position + offset;
+    if (target < 0 || target >= current.order.length) return;
+    const order = [...current.order];
+    [order[position], order[target]] = [order[target], order[position]];
+    handleQuizAnswer(id, { type: "order", order });
+  };
+
+  // On narrow screens the menu covers the map, so it steps aside until the click.
+  const startQuizPick = (id: string) => {
+    setQuizPickId(id);
+    if (viewportWidth > 0 && viewportWidth < 768) setShowMenu(false);
   };
 
   const handleQuizSubmit = () => {
     if (activeQuizIndex < 0) return;
     if (quizSubmittedBySet[activeQuizIndex]) return;
     const answers = quizAnswersBySet[activeQuizIndex] ?? {};
-    const score = displayQuizQuestions.reduce((sum, question) => {
-      return sum + (answers[question.id] === question.answerIndex ? 1 : 0);
-    }, 0);
-    setQuizScoreBySet((prev) => ({ ...prev, [activeQuizIndex]: score }));
+    if (quizClassroom?.status === "open") {
+      // The answers stay on the server until the teacher ends the session; the set is graded then.
+      setQuizSubmittedBySet((prev) => ({ ...prev, [activeQuizIndex]: true }));
+      setQuizPickId(null);
+      sendClassroomAnswers(quizClassroom, answers, true);
+      return;
+    }
+    const results = displayQuizQuestions.filter(hasQuizAnswer).map((question) => ({
+      id: question.id,
+      correct: gradeQuizAnswer(question, answers[question.id], locatePlace).correct,
+    }));
+    const attempt = createQuizAttempt(results, quizLevel === "all" ? undefined : quizLevel);
+    setQuizScoreBySet((prev) => ({ ...prev, [activeQuizIndex]: attempt.score }));
     setQuizSubmittedBySet((prev) => ({ ...prev, [activeQuizIndex]: true }));
+    setQuizPickId(null);
+    storeQuizAttempt(attempt);
+    if (saveResults) sendQuizAttempt(attempt);
   };
 
   const handleQuizNext = () => {
+    if (quizClassroom) return;
     if (activeQuizIndex < quizSets.length - 1) {
       setActiveQuizIndex((prev) => Math.min(prev + 1, quizSets.length - 1));
       return;
@@ -627,6 +739,7 @@ export default function MapView({ places }: Props) {
   const activeQuizSet = activeQuizIndex >= 0 ? quizSets[activeQuizIndex] : [];
   const displayQuizQuestions = activeQuizSet ?? [];
   const activeQuizAnswers = quizAnswersBySet[activeQuizIndex] ?? {};
+  const isPickingQuizPlace = quizPickId !== null && activeTab === "quiz";
   const quizSubmitted = quizSubmittedBySet[activeQuizIndex] ?? false;
   const quizScore = quizScoreBySet[activeQuizIndex] ?? null;
   const quizAnsweredCount = displayQuizQuestions.reduce(
@@ -635,8 +748,7 @@ export default function MapView({ places }: Props) {
   );
 
   const routeFeatures: RouteFeature[] = useMemo(() => {
-    const fc = routes as GeoJSON.FeatureCollection;
-    const features = (fc.features || []) as RouteFeature[];
+    const features = routes.features as RouteFeature[];
     const R = 6378137;
     const toLngLat = (x: number, y: number): [number, number] => {
       const lon = (x / R) * (180 / Math.PI);
@@ -658,7 +770,7 @@ export default function MapView({ places }: Props) {
         geometry: { ...f.geometry, coordinates: smoothed },
       } as RouteFeature;
     });
-  }, []);
+  }, [routes]);
 
   const routeByPairRef = useRef<Map<string, RouteFeature>>(new Map());
   const maxOrderRef = useRef<number>(0);
@@ -866,6 +978,28 @@ export default function MapView({ places }: Props) {
     }
   };
 
+  /** Opens the popup of one place, closing any other. */
+  const openPlacePopup = (place: Place, key: string) => {
+    if (!mapRef.current) return;
+    Object.values(markerMapRef.current).forEach(({ popup }) => popup.remove());
+    if (activePopupRef.current) {
+      activePopupRef.current.remove();
+      activePopupRef.current = null;
+    }
+    const entry = markerMapRef.current[key];
+    if (entry) {
+      entry.popup.setDOMContent(buildPopupContent(entry.place, () => setDetailPlace(entry.place)));
+      entry.popup.setLngLat(entry.place.coords).addTo(mapRef.current);
+      activePopupRef.current = entry.popup;
+    } else {
+      const popup = new mapboxgl.Popup({ offset: 12, closeButton: true, className: "popup-clean" }).setDOMContent(
+        buildPopupContent(place, () => setDetailPlace(place)),
+      );
+      popup.setLngLat(place.coords).addTo(mapRef.current);
+      activePopupRef.current = popup;
+    }
+  };
+
   const applyStep = (nextIndex: number, prevIndex?: number, options?: { animate?: boolean; forceZoom?: boolean }) => {
     const animate = options?.animate !== false;
     const forceZoom = options?.forceZoom === true;
@@ -879,22 +1013,7 @@ export default function MapView({ places }: Props) {
     const map = mapRef.current;
     const showPopup = () => {
       if (!mapRef.current) return;
-      if (activePopupRef.current) {
-        activePopupRef.current.remove();
-        activePopupRef.current = null;
-      }
-      const entry = markerMapRef.current[key];
-      if (entry) {
-        entry.popup.setDOMContent(buildPopupContent(entry.place, () => setDetailPlace(entry.place)));
-        entry.popup.setLngLat(entry.place.coords).addTo(mapRef.current);
-        activePopupRef.current = entry.popup;
-      } else {
-        const popup = new mapboxgl.Popup({ offset: 12, closeButton: true, className: "popup-clean" }).setDOMContent(
-          buildPopupContent(place, () => setDetailPlace(place)),
-        );
-        popup.setLngLat(place.coords).addTo(mapRef.current);
-        activePopupRef.current = popup;
-      }
+      openPlacePopup(place, key);
       setDetailPlace(place);
     };
 
@@ -1125,6 +1244,139 @@ export default function MapView({ places }: Props) {
     applyStep(clamped, prev);
   };
 
+  // The timeline scrubber jumps straight to a place in either direction: progress is
+  // rebuilt up to it, and the popup opens there without the flight animation.
+  const scrubToStep = (nextIndex: number, options?: { ease?: boolean }) => {
+    if (sortedPlaces.length === 0) return;
+    const clamped = Math.max(0, Math.min(nextIndex, sortedPlaces.length - 1));
+    if (hasStarted && clamped === currentStep && clamped === reachedStepIndex) return;
+    stopAutoPlay();
+    if (animationRef.current !== null) {
+      cancelAnimationFrame(animationRef.current);
+      animationRef.current = null;
+    }
+    setHasStarted(true);
+    setStepIndex(clamped);
+    applyStep(clamped, undefined, { animate: false });
+    completedSegmentsRef.current = new Set();
+    markProgressUpTo(clamped, true);
+    setReachedStepIndex(clamped);
+    const place = sortedPlaces[clamped];
+    openPlacePopup(place, place.id || place.slug || `place-${clamped}`);
+    // Keep an open detail panel on the scrubbed place; opening one would resize the timeline mid-drag.
+    setDetailPlace((prev) => (prev ? place : prev));
+    if (options?.ease !== false) {
+      mapRef.current?.easeTo({ center: place.coords, duration: 400, essential: true });
+    }
+  };
+
+  // A history entry without a step is the page before the journey started.
+  const resetJourney = () => {
+    if (!hasStarted) return;
+    stopAutoPlay();
+    if (animationRef.current !== null) {
+      cancelAnimationFrame(animationRef.current);
+      animationRef.current = null;
+    }
+    animateSegment(undefined);
+    Object.values(markerMapRef.current).forEach(({ popup }) => popup.remove());
+    if (activePopupRef.current) {
+      activePopupRef.current.remove();
+      activePopupRef.current = null;
+    }
+    completedSegmentsRef.current = new Set();
+    setRoutesProgressData([]);
+    setHasStarted(false);
+    setStepIndex(0);
+    setReachedStepIndex(0);
+    setActivePlaceId(null);
+  };
+
+  // Puts the page in the state a link or a history entry describes. The step applies
+  // straight away; the projection and camera wait until the map has loaded.
+  const applyJourneyUrlState = (state: JourneyUrlState) => {
+    const ready = Boolean(mapRef.current && mapLoaded);
+    setActiveTab(state.tab ?? "journey");
+    setAutoSpeed(state.speed ?? "auto");
+    if (state.customSpeed !== undefined) setCustomSpeedFactor(state.customSpeed);
+    if (state.step !== undefined) {
+      scrubToStep(state.step, { ease: ready && !state.camera });
+    } else {
+      resetJourney();
+    }
+    const linked = state.place ? places.find((place) => place.slug === state.place) : undefined;
+    setDetailPlace(linked ?? null);
+    if (hasToken && !ready) {
+      pendingUrlStateRef.current = state;
+      return;
+    }
+    applyJourneyView(state);
+  };
+
+  /** The projection and camera of a link or history entry. */
+  const applyJourneyView = (state: JourneyUrlState) => {
+    const map = mapRef.current;
+    const projection = state.projection ?? "globe";
+    if (map && mapLoaded && state.camera) {
+      if (projection !== projectionMode) {
+        // Switching projection moves the camera; the link's camera is applied after it.
+        pendingCameraRef.current = state.camera;
+      } else {
+        map.jumpTo({ center: state.camera.center, zoom: state.camera.zoom });
+      }
+    }
+    setProjectionMode(projection);
+  };
+
+  // A step restored before the map loaded gets its route, popup and camera once it has.
+  const showRestoredJourney = (state: JourneyUrlState) => {
+    const map = mapRef.current;
+    if (map && hasStarted && sortedPlaces.length > 0) {
+      const place = sortedPlaces[currentStep];
+      const key = place.id || place.slug || `place-${currentStep}`;
+      setActivePlaceId(key);
+      markProgressUpTo(currentStep, true);
+      openPlacePopup(place, key);
+      if (!state.camera) map.easeTo({ center: place.coords, duration: 400, essential: true });
+    }
+    applyJourneyView(state);
+  };
+
+  /** Fits the map to the places of one year band on the timeline. */
+  const fitYear = (yearPlaces: Place[]) => {
+    const map = mapRef.current;
+    if (!map || yearPlaces.length === 0) return;
+    stopAutoPlay();
+    if (moveTimeoutRef.current !== null) {
+      window.clearTimeout(moveTimeoutRef.current);
+      moveTimeoutRef.current = null;
+    }
+    if (zoomInTimeoutRef.current !== null) {
+      window.clearTimeout(zoomInTimeoutRef.current);
+      zoomInTimeoutRef.current = null;
+    }
+    const bounds = new mapboxgl.LngLatBounds();
+    yearPlaces.forEach((place) => bounds.extend(place.coords));
+    map.fitBounds(bounds, {
+      padding: { top: 80, bottom: 200, left: leftSidebarWidth + 40, right: rightSidebarWidth + 40 },
+      maxZoom: 6,
+      duration: 1200,
+      essential: true,
+    });
+  };
+
+  // A wrong answer points back at its place without moving the journey on.
+  const showQuizPlace = (place: Place) => {
+    const index = sortedPlaces.indexOf(place);
+    const key = place.id || place.slug || `place-${index}`;
+    setActivePlaceId(key);
+    setDetailPlace(place);
+    const map = mapRef.current;
+    if (!map) return;
+    openPlacePopup(place, key);
+    map.easeTo({ center: place.coords, zoom: Math.max(map.getZoom(), 5), duration: 1200, essential: true });
+  };
+
   const handleStartJourney = () => {
     setHasStarted(true);
     if (sortedPlaces.length === 0) return;
@@ -1208,6 +1460,10 @@ export default function MapView({ places }: Props) {
     );
 
     map.dragRotate.enable();
+    map.on("moveend", () => {
+      if (!pendingUrlStateRef.current) writeJourneyUrl(urlStateRef.current, map, false);
+    });
+    map.on("click", (e) => mapClickRef.current([e.lngLat.lng, e.lngLat.lat]));
 
     map.addControl(new mapboxgl.NavigationControl({ showCompass: true }), "top-right");
     map.on("load", () => {
@@ -1389,8 +1645,62 @@ export default function MapView({ places }: Props) {
 
   useEffect(() => {
     applyProjection(projectionMode);
+    const camera = pendingCameraRef.current;
+    if (camera && mapRef.current) {
+      pendingCameraRef.current = null;
+      mapRef.current.jumpTo({ center: camera.center, zoom: camera.zoom });
+    }
   }, [projectionMode]);
 
+  useEffect(() => {
+    applyUrlStateRef.current = applyJourneyUrlState;
+    showRestoredUrlStateRef.current = showRestoredJourney;
+  });
+
+  useEffect(() => {
+    mapClickRef.current = (coords) => {
+      if (!isPickingQuizPlace || !quizPickId) return;
+      handleQuizAnswer(quizPickId, { type: "map", coords });
+      setQuizPickId(null);
+      setShowMenu(true);
+    };
+  });
+
+  // A shared link is read once on mount; its projection and camera wait for the map to load.
+  useEffect(() => {
+    applyUrlStateRef.current(parseJourneyState(window.location.search));
+  }, []);
+
+  useEffect(() => {
+    const state = pendingUrlStateRef.current;
+    if (!mapLoaded || !state) return;
+    pendingUrlStateRef.current = null;
+    showRestoredUrlStateRef.current(state);
+  }, [mapLoaded]);
+
+  // Each step the reader takes is a history entry, so back/forward move between steps;
+  // autoplay and every other change only update the current entry.
+  useEffect(() => {
+    if (pendingUrlStateRef.current) return;
+    const state: JourneyUrlState = {
+      step: hasStarted ? currentStep : undefined,
+      projection: projectionMode,
+      tab: activeTab,
+      place: detailPlace?.slug,
+      speed: autoSpeed,
+      customSpeed: customSpeedFactor,
+    };
+    urlStateRef.current = state;
+    const stepMoved = state.step !== undefined && parseJourneyState(window.location.search).step !== state.step;
+    writeJourneyUrl(state, mapRef.current, stepMoved && !isAutoPlayRef.current);
+  }, [hasStarted, currentStep, projectionMode, activeTab, detailPlace, autoSpeed, customSpeedFactor]);
+
+  useEffect(() => {
+    const handlePopState = () => applyUrlStateRef.current(parseJourneyState(window.location.search));
+    window.addEventListener("popstate", handlePopState);
+    return () => window.removeEventListener("popstate", handlePopState);
+  }, []);
+
   useEffect(() => {
     if (mapRef.current) {
       mapRef.current.resize();
@@ -1404,7 +1714,7 @@ export default function MapView({ places }: Props) {
   useEffect(() => {
     const audio = detailAudioRef.current;
     if (!audio) return;
-    const src = (detailPlace as any)?.media?.audio;
+    const src = detailPlace?.media?.audio;
     if (!detailPlace || !src) {
       audio.pause();
       audio.removeAttribute("src");
@@ -1536,6 +1846,41 @@ export default function MapView({ places }: Props) {
     }
   }, [visiblePlaces]);
 
+  // While a map question waits for its click, the place markers would give the answer away.
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map || !mapLoaded) return;
+    Object.values(markerMapRef.current).forEach(({ marker, popup }) => {
+      marker.getElement().style.visibility = isPickingQuizPlace ? "hidden" : "";
+      if (isPickingQuizPlace) popup.remove();
+    });
+    if (map.getLayer("route-nodes-circle")) {
+      map.setLayoutProperty("route-nodes-circle", "visibility", isPickingQuizPlace ? "none" : "visible");
+    }
+    map.getCanvas().style.cursor = isPickingQuizPlace ? "crosshair" : "";
+  }, [isPickingQuizPlace, mapLoaded, visiblePlaces]);
+
+  // The spots picked for the open set's map questions and, once it is graded, the places themselves.
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map || !mapLoaded || activeTab !== "quiz" || activeQuizIndex < 0) return;
+    const answers = quizAnswersBySet[activeQuizIndex] ?? {};
+    const submitted = quizSubmittedBySet[activeQuizIndex] ?? false;
+    const pins: mapboxgl.Marker[] = [];
+    (quizSets[activeQuizIndex] ?? []).forEach((question) => {
+      if (question.type !== "map") return;
+      const answer = answers[question.id];
+      if (answer?.type === "map") {
+        pins.push(new mapboxgl.Marker({ color: "#2563eb" }).setLngLat(answer.coords).addTo(map));
+      }
+      const target = hasQuizAnswer(question) ? placesBySlug.get(question.placeSlug)?.coords : undefined;
+      if (submitted && target) {
+        pins.push(new mapboxgl.Marker({ color: "#059669" }).setLngLat(target).addTo(map));
+      }
+    });
+    return () => pins.forEach((pin) => pin.remove());
+  }, [mapLoaded, activeTab, activeQuizIndex, quizSets, quizAnswersBySet, quizSubmittedBySet, placesBySlug]);
+
   if (!hasToken) {
     return (
       <section className="h-screen w-screen bg-slate-50">
@@ -1665,8 +2010,105 @@ export default function MapView({ places }: Props) {
                   <div className="relative z-10 min-h-0 flex-1 overflow-y-auto bg-white/50 backdrop-blur-xl">
                     {visibleTab === "quiz" ? (
                       <div className="space-y-4 px-3 py-4">
+                        <div className="space-y-2 rounded-xl border border-white/40 bg-white/70 p-3 shadow-sm">
+                          <p className="text-xs font-semibold uppercase tracking-wide text-slate-500">Lớp học trực tiếp</p>
+                          {quizClassroom ? (
+                            <>
+                              <p className="text-sm text-slate-700">
+                                {`Đang làm bài trong phiên ${quizClassroom.code} với tên ${quizClassroom.name}.`}
+                              </p>
+                              {quizClassroom.status === "closed" ? (
+                                <p className="text-xs font-semibold text-rose-700">
+                                  Giáo viên đã kết thúc phiên; câu trả lời mới không được gửi nữa.
+                                </p>
+                              ) : (
+                                <p className="text-xs text-slate-500">Câu trả lời được gửi cho giáo viên ngay khi chọn.</p>
+                              )}
+                              <button
+                                type="button"
+                                onClick={leaveClassroom}
+                                className="text-xs font-semibold text-rose-700 underline-offset-2 hover:underline"
+                              >
+                                Rời phiên
+                              </button>
+                            </>
+                          ) : (
+                            <form
+                              className="space-y-2"
+                              onSubmit={(e) => {
+                                e.preventDefault();
+                                joinClassroom(classroomCodeInput, { name: classroomNameInput });
+                              }}
+                            >
+                              <div className="flex gap-2">
+                                <input
+                                  type="text"
+                                  value={classroomCodeInput}
+                                  onChange={(e) => setClassroomCodeInput(e.target.value.toUpperCase())}
+                                  placeholder="Mã phiên"
+                                  maxLength={6}
+                                  className="w-24 rounded-md border border-white/60 bg-white/80 px-2 py-1 font-mono text-sm uppercase text-slate-700"
+                                />
+                                <input
+                                  type="text"
+                                  value={classroomNameInput}
+                                  onChange={(e) => setClassroomNameInput(e.target.value)}
+                                  placeholder="Tên của bạn"
+                                  maxLength={40}
+                                  className="min-w-0 flex-1 rounded-md border border-white/60 bg-white/80 px-2 py-1 text-sm text-slate-700"
+                                />
+                              </div>
+                              <button
+                                type="submit"
+                                disabled={isJoiningClassroom || !classroomCodeInput.trim() || !classroomNameInput.trim()}
+                                className="w-full rounded-md bg-[#991B1B] px-3 py-1.5 text-xs font-semibold text-white shadow-sm transition hover:bg-[#7F1D1D] disabled:cursor-not-allowed disabled:opacity-50"
+                              >
+                                {isJoiningClassroom ? "Đang vào phiên..." : "Tham gia"}
+                              </button>
+                            </form>
+                          )}
+                          {classroomError ? <p className="text-xs text-rose-700">{classroomError}</p> : null}
+                        </div>
+                        {quiz.length > 0 && !quizClassroom ? (
+                          <div className="space-y-2 rounded-xl border border-white/40 bg-white/70 p-3 shadow-sm">
+                            <label className="flex items-center justify-between gap-2 text-xs font-semibold text-slate-600">
+                              Cấp học
+                              <select
+                                value={quizLevel}
+                                onChange={(e) => setQuizLevel(e.target.value as AudienceLevel | "all")}
+                                className="rounded-md border border-white/60 bg-white/80 px-2 py-1 text-xs text-slate-700"
+                              >
+                                <option value="all">Tất cả</option>
+                                {AUDIENCE_LEVELS.map((level) => (
+                                  <option key={level} value={level}>
+                                    {AUDIENCE_LABELS[level]}
+                                  </option>
+                                ))}
+                              </select>
+                            </label>
+                            <label
+                              className={`flex items-center gap-2 text-xs font-semibold ${
+                                hasStarted ? "text-slate-600" : "text-slate-400"
+                              }`}
+                            >
+                              <input
+                                type="checkbox"
+                                checked={quizReachedOnly && hasStarted}
+                                disabled={!hasStarted}
+                                onChange={(e) => setQuizReachedOnly(e.target.checked)}
+                              />
+                              {hasStarted
+                                ? `Chỉ hỏi về ${visiblePlaces.length} địa điểm đã đi qua`
+                                : "Bắt đầu hành trình để hỏi về các địa điểm đã đi qua"}
+                            </label>
+                          </div>
+                        ) : null}
                         {quizSets.length === 0 ? (
-                          <p className="rounded-xl border border-white/40 bg-white/70 px-3 py-4 text-sm text-slate-600">{"Ch\u01b0a c\u00f3 c\u00e2u h\u1ecfi tr\u1eafc nghi\u1ec7m. H\u00e3y th\u00eam c\u00e2u h\u1ecfi v\u00e0o src/data/quiz.json."}</p>
+                          <p className="rounded-xl border border-white/40 bg-white/70 px-3 py-4 text-sm text-slate-600">
+                            {quiz.length === 0
+                              ? "Ch\u01b0a c\u00f3 c\u00e2u h\u1ecfi tr\u1eafc nghi\u1ec7m. H\u00e3y th\u00eam c\u00e2u h\u1ecfi v\u00e0o src/data/quiz.json."
+                              : "Không có câu hỏi phù hợp với lựa chọn này."}
+                          </p>
                         ) : (
                           <div className="space-y-3">
                             <div className="rounded-xl border border-white/40 bg-white/70 p-3 shadow-sm">
@@ -1702,53 +2144,196 @@ export default function MapView({ places }: Props) {
                                       {isActive ? (
                                         <div className="mt-2 space-y-3 rounded-lg border border-white/50 bg-white/70 p-3 shadow-sm">
                                           {setQuestions.map((question, qIndex) => {
-                                            const selectedIndex = activeQuizAnswers[question.id];
-                                            const isCorrect = selectedIndex === question.answerIndex;
+                                            const answer = activeQuizAnswers[question.id];
+                                            // Null until the set is graded, and while a classroom session holds the answers back.
+                                            const graded = quizSubmitted && hasQuizAnswer(question) ? question : null;
+                                            const grade = graded ? gradeQuizAnswer(graded, answer, locatePlace) : null;
+                                            const isCorrect = grade?.correct ?? false;
+                                            const isPicking = quizPickId === question.id;
                                             return (
                                               <div key={question.id} className="rounded-xl border border-white/40 bg-white/70 p-3 shadow-sm">
                                                 <p className="text-sm font-semibold text-slate-900">{`${qIndex + 1}. ${question.question}`}</p>
-                                                <div className="mt-2 space-y-2">
-                                                  {question.options.map((option, optionIndex) => {
-                                                    const isSelected = selectedIndex === optionIndex;
-                                                    const showCorrect = quizSubmitted && question.answerIndex === optionIndex;
-                                                    const showWrong =
-                                                      quizSubmitted && isSelected && question.answerIndex !== optionIndex;
-                                                    return (
+                                                {question.type === "multiple" ? (
+                                                  <p className="mt-1 text-xs text-slate-500">Chọn tất cả các đáp án đúng.</p>
+                                                ) : question.type === "truefalse" ? (
+                                                  <p className="mt-1 text-xs text-slate-500">Nhận định trên đúng hay sai?</p>
+                                                ) : question.type === "order" ? (
+                                                  <p className="mt-1 text-xs text-slate-500">Sắp xếp các sự kiện theo thứ tự thời gian, sớm nhất ở trên cùng.</p>
+                                                ) : null}
+                                                {question.type === "single" || question.type === "multiple" ? (
+                                                  <div className="mt-2 space-y-2">
+                                                    {question.options.map((option, optionIndex) => {
+                                                      const isSelected =
+                                                        answer?.type === "single"
+                                                          ? answer.index === optionIndex
+                                                          : answer?.type === "multiple" && answer.indexes.includes(optionIndex);
+                                                      const isRight =
+                                                        graded?.type === "single"
+                                                          ? graded.correctIndex === optionIndex
+                                                          : graded?.type === "multiple" && graded.correctIndexes.includes(optionIndex);
+                                                      return (
+                                                        <button
+                                                          key={`${question.id}-${optionIndex}`}
+                                                          type="button"
+                                                          onClick={() =>
+                                                            question.type === "single"
+                                                              ? handleQuizAnswer(question.id, { type: "single", index: optionIndex })
+                                                              : toggleQuizOption(question.id, optionIndex)
+                                                          }
+                                                          className={`flex w-full items-start gap-2 rounded-lg border px-3 py-2 text-left text-sm transition ${quizChoiceTone(
+                                                            isRight,
+                                                            graded !== null && isSelected && !isRight,
+                                                            isSelected,
+                                                          )}`}
+                                                        >
+                                                          <span
+                                                            className={`mt-0.5 inline-flex h-5 w-5 shrink-0 items-center justify-center border border-current text-[11px] font-semibold ${
+                                                              question.type === "multiple" ? "rounded" : "rounded-full"
+                                                            }`}
+                                                          >
+                                                            {String.fromCharCode(65 + optionIndex)}
+                                                          </span>
+                                                          <span>{option}</span>
+                                                        </button>
+                                                      );
+                                                    })}
+                                                  </div>
+                                                ) : null}
+                                                {question.type === "truefalse" ? (
+                                                  <div className="mt-2 grid grid-cols-2 gap-2">
+                                                    {[true, false].map((value) => {
+                                                      const isSelected = answer?.type === "truefalse" && answer.value === value;
+                                                      return (
+                                                        <button
+                                                          key={`${question.id}-${value}`}
+                                                          type="button"
+                                                          onClick={() => handleQuizAnswer(question.id, { type: "truefalse", value })}
+                                                          className={`rounded-lg border px-3 py-2 text-sm font-semibold transition ${quizChoiceTone(
+                                                            graded?.type === "truefalse" && graded.answer === value,
+                                                            graded?.type === "truefalse" && isSelected && graded.answer !== value,
+                                                            isSelected,
+                                                          )}`}
+                                                        >
+                                                          {value ? "Đúng" : "Sai"}
+                                                        </button>
+                                                      );
+                                                    })}
+                                                  </div>
+                                                ) : null}
+                                                {question.type === "order" && answer?.type === "order" ? (
+                                                  <ol className="mt-2 space-y-2">
+                                                    {answer.order.map((itemIndex, position) => (
+                                                      <li
+                                                        key={`${question.id}-${itemIndex}`}
+                                                        className={`flex items-center gap-2 rounded-lg border px-3 py-2 text-sm ${quizChoiceTone(
+                                                          graded !== null && itemIndex === position,
+                                                          graded !== null && itemIndex !== position,
+                                                          false,
+                                                        )}`}
+                                                      >
+                                                        <span className="inline-flex h-5 w-5 shrink-0 items-center justify-center rounded-full border border-current text-[11px] font-semibold">
+                                                          {position + 1}
+                                                        </span>
+                                                        <span className="flex-1">{question.items[itemIndex]}</span>
+                                                        {!quizSubmitted ? (
+                                                          <span className="flex shrink-0 gap-1">
+                                                            <button
+                                                              type="button"
+                                                              onClick={() => moveQuizItem(question.id, position, -1)}
+                                                              disabled={position === 0}
+                                                              aria-label="Lên trên"
+                                                              className="rounded-md border border-white/60 bg-white/80 px-2 py-0.5 text-xs text-slate-600 hover:bg-white disabled:opacity-40"
+                                                            >
+                                                              ↑
+                                                            </button>
+                                                            <button
+                                                              type="button"
+                                                              onClick={() => moveQuizItem(question.id, position, 1)}
+                                                              disabled={position === answer.order.length - 1}
+                                                              aria-label="Xuống dưới"
+                                                              className="rounded-md border border-white/60 bg-white/80 px-2 py-0.5 text-xs text-slate-600 hover:bg-white disabled:opacity-40"
+                                                            >
+                                                              ↓
+                                                            </button>
+                                                          </span>
+                                                        ) : null}
+                                                      </li>
+                                                    ))}
+                                                  </ol>
+                                                ) : null}
+                                                {graded?.type === "order" && !isCorrect ? (
+                                                  <div className="mt-2 text-xs text-slate-600">
+                                                    <p className="font-semibold">Thứ tự đúng:</p>
+                                                    <ol className="mt-1 list-decimal space-y-0.5 pl-5">
+                                                      {graded.items.map((item) => (
+                                                        <li key={`${question.id}-${item}`}>{item}</li>
+                                                      ))}
+                                                    </ol>
+                                                  </div>
+                                                ) : null}
+                                                {question.type === "map" ? (
+                                                  <div className="mt-2 space-y-1">
+                                                    {!quizSubmitted ? (
                                                       <button
-                                                        key={`${question.id}-${optionIndex}`}
                                                         type="button"
-                                                        onClick={() => handleQuizAnswer(question.id, optionIndex)}
-                                                        className={`flex w-full items-start gap-2 rounded-lg border px-3 py-2 text-left text-sm transition ${
-                                                          showCorrect
-                                                            ? "border-emerald-400 bg-emerald-50 text-emerald-800"
-                                                            : showWrong
-                                                              ? "border-rose-400 bg-rose-50 text-rose-700"
-                                                              : isSelected
-                                                                ? "border-[#991B1B]/50 bg-[#991B1B]/10 text-[#991B1B]"
-                                                                : "border-white/60 bg-white/70 text-slate-700 hover:bg-white"
-                                                        }`}
+                                                        onClick={() => (isPicking ? setQuizPickId(null) : startQuizPick(question.id))}
+                                                        className={`w-full rounded-lg border px-3 py-2 text-left text-sm font-semibold transition ${quizChoiceTone(
+                                                          false,
+                                                          false,
+                                                          isPicking,
+                                                        )}`}
                                                       >
-                                                        <span className="mt-0.5 inline-flex h-5 w-5 shrink-0 items-center justify-center rounded-full border border-current text-[11px] font-semibold">
-                                                          {String.fromCharCode(65 + optionIndex)}
-                                                        </span>
-                                                        <span>{option}</span>
+                                                        {isPicking
+                                                          ? "Nhấp vào vị trí trên bản đồ... (bấm để hủy)"
+                                                          : answer?.type === "map"
+                                                            ? "Chọn lại trên bản đồ"
+                                                            : "Chọn vị trí trên bản đồ"}
                                                       </button>
-                                                    );
-                                                  })}
-                                                </div>
-                                                {quizSubmitted ? (
+                                                    ) : null}
+                                                    {answer?.type === "map" ? (
+                                                      <p className="text-xs text-slate-600">
+                                                        {`Đã chọn: ${answer.coords[1].toFixed(2)}, ${answer.coords[0].toFixed(2)}`}
+                                                      </p>
+                                                    ) : null}
+                                                  </div>
+                                                ) : null}
+                                                {graded ? (
                                                   <p
                                                     className={`mt-2 text-xs font-semibold ${
                                                       isCorrect ? "text-emerald-700" : "text-rose-700"
                                                     }`}
                                                   >
-                                                    {selectedIndex === undefined
+                                                    {answer === undefined
                                                       ? "Ch\u01b0a ch\u1ecdn \u0111\u00e1p \u00e1n"
                                                       : isCorrect
                                                         ? "\u0110\u00fang"
                                                         : "Sai"}
+                                                    {grade?.distanceKm !== undefined ? ` (cách địa điểm đúng khoảng ${grade.distanceKm} km)` : null}
                                                   </p>
                                                 ) : null}
+                                                {graded?.explanation ? (
+                                                  <p className="mt-2 rounded-lg border border-white/60 bg-white/80 px-3 py-2 text-xs text-slate-700">
+                                                    <span className="font-semibold">Giải thích: </span>
+                                                    {graded.explanation}
+                                                  </p>
+                                                ) : null}
+                                                {graded && !isCorrect
+                                                  ? questionPlaceSlugs(graded).flatMap((slug) => {
+                                                      const place = placesBySlug.get(slug);
+                                                      return place
+                                                        ? [
+                                                            <button
+                                                              key={`${question.id}-${slug}`}
+                                                              type="button"
+                                                              onClick={() => showQuizPlace(place)}
+                                                              className="mt-1 block text-left text-xs font-semibold text-[#991B1B] underline-offset-2 hover:underline"
+                                                            >
+                                                              {`Xem lại trên bản đồ: ${place.title}`}
+                                                            </button>,
+                                                          ]
+                                                        : [];
+                                                    })
+                                                  : null}
                                               </div>
                                             );
                                           })}
@@ -1770,14 +2355,18 @@ export default function MapView({ places }: Props) {
                                               <button
                                                 type="button"
                                                 onClick={handleQuizNext}
-                                                disabled={displayQuizQuestions.length === 0}
+                                                disabled={displayQuizQuestions.length === 0 || quizClassroom !== null}
                                                 className="rounded-md border border-white/60 bg-white/80 px-3 py-2 text-xs font-semibold text-slate-700 shadow-sm transition hover:bg-white disabled:cursor-not-allowed disabled:opacity-50"
                                               >
                                                 {"K\u1ebf ti\u1ebfp"}
                                               </button>
                                             </div>
                                           </div>
-                                          {quizSubmitted ? (
+                                          {quizSubmitted && quizScore === null ? (
+                                            <div className="rounded-xl border border-slate-200 bg-white/80 px-3 py-2 text-sm font-semibold text-slate-700">
+                                              Đã nộp bài. Đáp án và điểm hiện khi giáo viên kết thúc phiên.
+                                            </div>
+                                          ) : quizSubmitted ? (
                                             <div className="rounded-xl border border-emerald-200 bg-emerald-50 px-3 py-2 text-sm font-semibold text-emerald-800">
                                               {"K\u1ebft qu\u1ea3: "}
                                               {quizScore ?? 0}/{displayQuizQuestions.length}
@@ -1798,6 +2387,25 @@ export default function MapView({ places }: Props) {
                             {"Ch\u1ecdn m\u1ed9t b\u00e0i \u0111\u1ec3 b\u1eaft \u0111\u1ea7u."}
                           </p>
                         ) : null}
+
+                        {quiz.length > 0 ? (
+                          <div className="space-y-2">
+                            <button
+                              type="button"
+                              onClick={() => setShowQuizHistory((prev) => !prev)}
+                              className="w-full rounded-lg border border-white/60 bg-white/80 px-3 py-2 text-left text-sm font-semibold text-slate-700 transition hover:bg-white"
+                            >
+                              {`${showQuizHistory ? "Ẩn" : "Xem"} lịch sử làm bài (${quizAttempts.length})`}
+                            </button>
+                            {showQuizHistory ? (
+                              <QuizHistoryPanel
+                                attempts={quizAttempts}
+                                questions={quiz}
+                                onClear={clearStoredQuizAttempts}
+                              />
+                            ) : null}
+                          </div>
+                        ) : null}
                       </div>
                     ) : sortedPlaces.length === 0 ? (
                       <p className="p-4 text-sm text-slate-600">{"Ch\u01b0a c\u00f3 d\u1eef li\u1ec7u. Th\u00eam JSON v\u00e0o src/data/places.json."}</p>
@@ -1904,10 +2512,7 @@ export default function MapView({ places }: Props) {
                                       </p>
                                       {place.periodLabel || place.dateStart || place.dateEnd ? (
                                         <p className="text-xs font-medium text-[#991B1B]">
-                                          {place.periodLabel ||
-                                            (place.dateStart && place.dateEnd
-                                              ? `${place.dateStart} -> ${place.dateEnd}`
-                                              : place.dateStart || place.dateEnd)}
+                                          {placePeriod(place)}
                                         </p>
                                       ) : null}
                                       {place.levelTexts?.primary ? (
@@ -1974,13 +2579,13 @@ export default function MapView({ places }: Props) {
                     </button>
                   )}
                   <div className="flex min-w-[220px] flex-1 items-center gap-3">
-                    <input
-                      type="range"
-                      min={0}
-                      max={Math.max(sortedPlaces.length - 1, 0)}
-                      value={currentStep}
-                      onChange={(e) => setStep(Number(e.target.value))}
-                      className="w-full accent-[#991B1B]"
+                    <JourneyTimeline
+                      places={sortedPlaces}
+                      currentStep={currentStep}
+                      reachedStep={reachedStepIndex}
+                      started={hasStarted}
+                      onScrub={scrubToStep}
+                      onSelectYear={fitYear}
                     />
                   </div>
                 </div>
@@ -2027,14 +2632,11 @@ export default function MapView({ places }: Props) {
                   <p className="text-xs font-semibold uppercase tracking-wide text-slate-500">Thời gian</p>
                   <div className="flex flex-wrap gap-2">
                     <p className="inline-flex items-center gap-2 rounded-full bg-[#EAB308]/20 px-3 py-1 text-sm font-semibold text-[#991B1B]">
-                      {detailPlace.periodLabel ||
-                        (detailPlace.dateStart && detailPlace.dateEnd
-                          ? `${detailPlace.dateStart} -> ${detailPlace.dateEnd}`
-                          : detailPlace.dateStart || detailPlace.dateEnd)}
+                      {placePeriod(detailPlace)}
                     </p>
-                    {detailPlace.dateStart && detailPlace.dateEnd && !detailPlace.periodLabel ? (
+                    {detailSpan?.end && !detailPlace.periodLabel ? (
                       <p className="inline-flex items-center gap-2 rounded-full bg-slate-100 px-3 py-1 text-xs font-semibold text-slate-700">
-                        Từ {detailPlace.dateStart} đến {detailPlace.dateEnd}
+                        Từ {formatDate(detailSpan.start)} đến {formatDate(detailSpan.end)}
                       </p>
                     ) : null}
                   </div>
@@ -2049,10 +2651,10 @@ export default function MapView({ places }: Props) {
                 />
               ) : null}
 
-              {(detailPlace as any).media?.images?.length ? (
+              {detailPlace.media?.images?.length ? (
                 <div className="space-y-2 text-sm text-slate-700">
                   <div className="space-y-2">
-                    {(detailPlace as any).media.images.slice(0, 3).map((img: any, idx: number) => (
+                    {detailPlace.media.images.slice(0, 3).map((img, idx) => (
                       <div key={`img-${idx}`} className="rounded-md border border-slate-100 p-2">
                         {img.url && isImageUrl(img.url) ? (
                           <img src={img.url} alt={img.label || "\u0110\u1ecba \u0111i\u1ec3m"} className="h-auto w-full rounded-md" />
@@ -2077,11 +2679,11 @@ export default function MapView({ places }: Props) {
 
               <div className="space-y-2 text-sm text-slate-700">
                 <p className="text-xs font-semibold uppercase tracking-wide text-slate-500">Nội dung</p>
-                {(detailPlace as any).detailMarkdown ? (
+                {detailPlace.detailMarkdown ? (
                   <div
                     className="rounded-md bg-slate-50 px-3 py-2 text-sm text-slate-800 text-justify"
                     dangerouslySetInnerHTML={{
-                      __html: renderSimpleMarkdown((detailPlace as any).detailMarkdown),
+                      __html: renderMarkdown(detailPlace.detailMarkdown, { sources: detailPlace.sources }),
                     }}
                   />
                 ) : null}
@@ -2099,13 +2701,13 @@ export default function MapView({ places }: Props) {
                 ) : null}
               </div>
 
-              {(detailPlace as any).stories?.length ? (
+              {detailPlace.stories?.length ? (
                 <div className="space-y-2 text-sm text-slate-700">
                   <p className="text-xs font-semibold uppercase tracking-wide text-slate-500">
                     {"C\u00e2u chuy\u1ec7n"}
                   </p>
                   <div className="flex flex-wrap gap-2">
-                    {(detailPlace as any).stories.map((story: any, idx: number) => (
+                    {detailPlace.stories.map((story, idx) => (
                       <button
                         key={`story-${idx}`}
                         type="button"
@@ -2119,11 +2721,11 @@ export default function MapView({ places }: Props) {
                 </div>
               ) : null}
 
-              {(detailPlace as any).media?.videos?.length ? (
+              {detailPlace.media?.videos?.length ? (
                 <div className="space-y-2 text-sm text-slate-700">
                   <p className="text-xs font-semibold uppercase tracking-wide text-slate-500">Video</p>
                   <div className="space-y-2">
-                    {(detailPlace as any).media.videos.slice(0, 3).map((vid: any, idx: number) => (
+                    {detailPlace.media.videos.slice(0, 3).map((vid, idx) => (
                       <div key={`vid-${idx}`} className="rounded-md border border-slate-100 p-2">
                         {vid.url && isVideoUrl(vid.url) ? (
                           <video src={vid.url} controls className="w-full rounded-md" />
@@ -2241,7 +2843,10 @@ export default function MapView({ places }: Props) {
                 <div
                   className="rounded-2xl border border-white/40 bg-white/80 px-5 py-4 text-base leading-relaxed text-slate-800 shadow-sm"
                   dangerouslySetInnerHTML={{
-                    __html: renderSimpleMarkdown(activeStory.body || "\u0110ang c\u1eadp nh\u1eadt c\u00e2u chuy\u1ec7n..."),
+                    __html: renderMarkdown(activeStory.body || "\u0110ang c\u1eadp nh\u1eadt c\u00e2u chuy\u1ec7n...", {
+                      sources: detailPlace?.sources,
+                      idPrefix: "story-",
+                    }),
                   }}
                 />
               </div>
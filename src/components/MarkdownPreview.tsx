@@ -0,0 +1,27 @@
+"use client";
+
+import { useMemo } from "react";
+
+import { renderMarkdown } from "@/lib/markdown";
+import { Citation } from "@/types/place";
+
+type MarkdownPreviewProps = {
+  markdown: string;
+  sources?: Citation[];
+  /** Keeps footnote ids of several previews on one page apart. */
+  idPrefix?: string;
+  emptyText?: string;
+};
+
+/** Shows Markdown exactly as the map and the place page will render it. */
+export default function MarkdownPreview({
+  markdown,
+  sources,
+  idPrefix,
+  emptyText = "Nothing to preview.",
+}: MarkdownPreviewProps) {
+  const html = useMemo(() => renderMarkdown(markdown, { sources, idPrefix }), [markdown, sources, idPrefix]);
+
+  if (!markdown.trim()) return <p className="text-xs text-slate-500">{emptyText}</p>;
+  return <div className="text-sm leading-relaxed text-slate-800" dangerouslySetInnerHTML={{ __html: html }} />;
+}
@@ -0,0 +1,96 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+
+import type { MediaAsset, MediaAssetKind } from "@/lib/mediaLibrary";
+
+type MediaPickerProps = {
+  kind: Exclude<MediaAssetKind, "other">;
+  onPick: (asset: MediaAsset) => void;
+  onClose: () => void;
+};
+
+export default function MediaPicker({ kind, onPick, onClose }: MediaPickerProps) {
+  const [assets, setAssets] = useState<MediaAsset[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [search, setSearch] = useState("");
+
+  useEffect(() => {
+    let mounted = true;
+    fetch("/api/media", { cache: "no-store" })
+      .then(async (res) => {
+        if (!res.ok) throw new Error("Failed to load the media library");
+        return (await res.json()) as { assets: MediaAsset[] };
+      })
+      .then((data) => {
+        if (mounted) setAssets(data.assets);
+      })
+      .catch((err) => {
+        if (mounted) setError(err instanceof Error ? err.message : "Failed to load the media library");
+      });
+    return () => {
+      mounted = false;
+    };
+  }, []);
+
+  const visible = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    return (assets ?? []).filter((asset) => asset.kind === kind && (!query || asset.path.toLowerCase().includes(query)));
+  }, [assets, kind, search]);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/40 p-4" onClick={onClose}>
+      <div
+        className="flex max-h-[80vh] w-full max-w-3xl flex-col gap-3 rounded-xl bg-white p-4 shadow-xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between gap-3">
+          <h2 className="text-sm font-semibold uppercase tracking-wide text-slate-500">Pick from library</h2>
+          <button
+            type="button"
+            onClick={onClose}
+            className="rounded-md border border-slate-200 px-2 py-1 text-xs font-semibold text-slate-700 hover:bg-slate-100"
+          >
+            Close
+          </button>
+        </div>
+        <input
+          type="text"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Search file names"
+          autoFocus
+          className="rounded-md border border-slate-200 px-3 py-2 text-sm text-slate-700"
+        />
+        {error ? <p className="text-sm text-red-600">{error}</p> : null}
+        {!assets && !error ? <p className="text-sm text-slate-500">Loading...</p> : null}
+        {assets && visible.length === 0 ? <p className="text-sm text-slate-500">No matching files.</p> : null}
+        <ul className="grid gap-2 overflow-y-auto sm:grid-cols-2 md:grid-cols-3">
+          {visible.map((asset) => (
+            <li key={asset.path}>
+              <button
+                type="button"
+                onClick={() => onPick(asset)}
+                className="flex w-full flex-col gap-1 rounded-md border border-slate-200 p-2 text-left text-xs text-slate-700 hover:border-[#991B1B] hover:bg-red-50"
+              >
+                {asset.kind === "image" ? (
+                  <img
+                    src={asset.thumbnailUrl ?? asset.url}
+                    alt=""
+                    loading="lazy"
+                    className="h-24 w-full rounded bg-slate-100 object-cover"
+                  />
+                ) : null}
+                <span className="break-all font-semibold">{asset.name}</span>
+                <span className="text-slate-500">
+                  {asset.folder || "media"}
+                  {asset.references.length > 0 ? ` · used ${asset.references.length}x` : ""}
+                </span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,100 @@
+"use client";
+
+import { MergeChoice, MergeConflict } from "@/lib/threeWayMerge";
+
+type MergeConflictPanelProps = {
+  conflicts: MergeConflict[];
+  choices: Record<string, MergeChoice>;
+  autoMerged: number;
+  onChoose: (id: string, choice: MergeChoice) => void;
+  onApply: () => void;
+  onCancel: () => void;
+};
+
+const preview = (value: unknown) => {
+  if (value === undefined) return "(deleted)";
+  const text = typeof value === "string" ? value : JSON.stringify(value);
+  return text.length > 160 ? `${text.slice(0, 157)}...` : text;
+};
+
+export default function MergeConflictPanel({
+  conflicts,
+  choices,
+  autoMerged,
+  onChoose,
+  onApply,
+  onCancel,
+}: MergeConflictPanelProps) {
+  return (
+    <div className="space-y-3 rounded-xl border border-amber-300 bg-amber-50 p-4 shadow-sm">
+      <div>
+        <h2 className="text-sm font-semibold uppercase tracking-wide text-amber-800">Someone else saved first</h2>
+        <p className="text-sm text-amber-900">
+          Your changes were merged with the newer server copy. {autoMerged} change(s) merged cleanly
+          {conflicts.length > 0 ? `, ${conflicts.length} need a decision` : ""}. Applying the merge does not save; review
+          it and press Save again.
+        </p>
+      </div>
+      {conflicts.length > 0 ? (
+        <ul className="max-h-96 space-y-2 overflow-y-auto">
+          {conflicts.map((conflict) => {
+            const choice = choices[conflict.id] ?? "local";
+            return (
+              <li key={conflict.id} className="rounded-md border border-amber-200 bg-white p-2 text-sm">
+                <p className="font-semibold text-slate-800">
+                  {conflict.key}
+                  <span className="font-normal text-slate-500">
+                    {" "}
+                    &middot; {conflict.field === "*" ? "deleted on one side, edited on the other" : conflict.field}
+                  </span>
+                </p>
+                <p className="mt-1 text-xs text-slate-500">Before: {preview(conflict.base)}</p>
+                <div className="mt-2 grid gap-2 md:grid-cols-2">
+                  {(["local", "remote"] as const).map((side) => (
+                    <label
+                      key={side}
+                      className={`flex cursor-pointer gap-2 rounded-md border p-2 text-xs ${
+                        choice === side ? "border-[#991B1B] bg-red-50" : "border-slate-200"
+                      }`}
+                    >
+                      <input
+                        type="radio"
+                        name={conflict.id}
+                        checked={choice === side}
+                        onChange={() => onChoose(conflict.id, side)}
+                      />
+                      <span>
+                        <span className="block font-semibold text-slate-700">
+                          {side === "local" ? "Keep mine" : "Take theirs"}
+                        </span>
+                        <span className="break-all text-slate-600">
+                          {preview(side === "local" ? conflict.local : conflict.remote)}
+                        </span>
+                      </span>
+                    </label>
+                  ))}
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      ) : null}
+      <div className="flex gap-2">
+        <button
+          type="button"
+          onClick={onApply}
+          className="rounded-md bg-[#991B1B] px-3 py-2 text-sm font-semibold text-white shadow-sm hover:bg-[#7F1D1D]"
+        >
+          Apply merge
+        </button>
+        <button
+          type="button"
+          onClick={onCancel}
+          className="rounded-md border border-slate-200 bg-white px-3 py-2 text-sm font-semibold text-slate-700 hover:bg-slate-100"
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
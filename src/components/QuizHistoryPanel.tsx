@@ -0,0 +1,99 @@
+"use client";
+
+import { useMemo } from "react";
+
+import { summarizeAttempts } from "@/lib/quizHistory";
+import { QuizAttempt, QuizQuestion } from "@/types/quiz";
+
+type QuizHistoryPanelProps = {
+  attempts: QuizAttempt[];
+  questions: QuizQuestion[];
+  onClear: () => void;
+};
+
+const CHART_ATTEMPTS = 20;
+const RECENT_ATTEMPTS = 5;
+
+/** This browser's graded sets: scores over time and the questions missed most often. */
+export default function QuizHistoryPanel({ attempts, questions, onClear }: QuizHistoryPanelProps) {
+  const summary = useMemo(() => summarizeAttempts(attempts), [attempts]);
+  const questionText = useMemo(
+    () => new Map(questions.map((question) => [question.id, question.question])),
+    [questions],
+  );
+
+  if (summary.attempts === 0) {
+    return (
+      <p className="rounded-xl border border-white/40 bg-white/70 px-3 py-4 text-sm text-slate-600">
+        Chưa có bài nào được chấm. Làm một bài rồi bấm &quot;Chấm điểm&quot; để lưu kết quả.
+      </p>
+    );
+  }
+
+  const chart = summary.scores.slice(-CHART_ATTEMPTS);
+  const recent = summary.scores.slice(-RECENT_ATTEMPTS).reverse();
+
+  return (
+    <div className="space-y-3 rounded-xl border border-white/40 bg-white/70 p-3 shadow-sm">
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-xs font-semibold uppercase tracking-wide text-slate-500">Lịch sử làm bài</p>
+        <p className="text-xs font-semibold text-slate-600">
+          {`${summary.attempts} bài · trung bình ${summary.averagePercent ?? 0}%`}
+        </p>
+      </div>
+
+      <div>
+        <p className="text-xs text-slate-500">{`Điểm ${chart.length} bài gần nhất`}</p>
+        <div className="mt-1 flex h-20 items-end gap-1 rounded-lg border border-white/60 bg-white/80 px-2 pb-1 pt-2">
+          {chart.map((attempt) => {
+            const percent = attempt.total > 0 ? Math.round((attempt.score / attempt.total) * 100) : 0;
+            return (
+              <div
+                key={attempt.id}
+                title={`${new Date(attempt.finishedAt).toLocaleString("vi-VN")}: ${attempt.score}/${attempt.total}`}
+                className="flex-1 rounded-t bg-[#991B1B]/70"
+                style={{ height: `${Math.max(percent, 4)}%` }}
+              />
+            );
+          })}
+        </div>
+      </div>
+
+      <div>
+        <p className="text-xs font-semibold text-slate-600">Bài gần đây</p>
+        <ul className="mt-1 space-y-0.5 text-xs text-slate-600">
+          {recent.map((attempt) => (
+            <li key={attempt.id} className="flex justify-between gap-2">
+              <span>{new Date(attempt.finishedAt).toLocaleString("vi-VN")}</span>
+              <span className="font-semibold text-slate-800">{`${attempt.score}/${attempt.total}`}</span>
+            </li>
+          ))}
+        </ul>
+      </div>
+
+      {summary.mostMissed.length > 0 ? (
+        <div>
+          <p className="text-xs font-semibold text-slate-600">Câu hay trả lời sai</p>
+          <ol className="mt-1 list-decimal space-y-1 pl-5 text-xs text-slate-700">
+            {summary.mostMissed.map((entry) => (
+              <li key={entry.id}>
+                <span>{questionText.get(entry.id) ?? entry.id}</span>{" "}
+                <span className="font-semibold text-rose-700">{`(sai ${entry.missed}/${entry.asked} lần)`}</span>
+              </li>
+            ))}
+          </ol>
+        </div>
+      ) : null}
+
+      <button
+        type="button"
+        onClick={() => {
+          if (window.confirm("Xóa toàn bộ lịch sử làm bài trên trình duyệt này?")) onClear();
+        }}
+        className="text-xs font-semibold text-rose-700 underline-offset-2 hover:underline"
+      >
+        Xóa lịch sử
+      </button>
+    </div>
+  );
+}
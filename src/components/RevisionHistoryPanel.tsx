@@ -0,0 +1,177 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+
+type RevisionKind = "places" | "routes" | "quiz";
+
+type RevisionMeta = {
+  id: string;
+  createdAt: string;
+  author: string;
+  summary: string;
+};
+
+type RecordDiff = {
+  added: string[];
+  removed: string[];
+  changed: { key: string; fields: string[] }[];
+};
+
+type DiffView = {
+  id: string;
+  compare: "previous" | "current";
+  diff: RecordDiff;
+};
+
+type RevisionHistoryPanelProps = {
+  kind: RevisionKind;
+  onRestored: () => void;
+};
+
+async function readError(res: Response, fallback: string) {
+  const data = (await res.json().catch(() => ({}))) as { error?: string };
+  return data.error || fallback;
+}
+
+export default function RevisionHistoryPanel({ kind, onRestored }: RevisionHistoryPanelProps) {
+  const [revisions, setRevisions] = useState<RevisionMeta[]>([]);
+  const [status, setStatus] = useState<"idle" | "loading" | "error">("loading");
+  const [error, setError] = useState<string | null>(null);
+  const [diffView, setDiffView] = useState<DiffView | null>(null);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+
+  const loadRevisions = useCallback(async () => {
+    setStatus("loading");
+    setError(null);
+    try {
+      const res = await fetch(`/api/${kind}/revisions`, { cache: "no-store" });
+      if (!res.ok) throw new Error(await readError(res, "Failed to load history"));
+      const data = (await res.json()) as { revisions: RevisionMeta[] };
+      setRevisions(data.revisions);
+      setStatus("idle");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load history");
+      setStatus("error");
+    }
+  }, [kind]);
+
+  useEffect(() => {
+    loadRevisions();
+  }, [loadRevisions]);
+
+  const showDiff = async (id: string, compare: DiffView["compare"]) => {
+    setError(null);
+    try {
+      const res = await fetch(`/api/${kind}/revisions/${id}?compare=${compare}`, { cache: "no-store" });
+      if (!res.ok) throw new Error(await readError(res, "Failed to load diff"));
+      const data = (await res.json()) as { diff: RecordDiff };
+      setDiffView({ id, compare, diff: data.diff });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load diff");
+    }
+  };
+
+  const restore = async (revision: RevisionMeta) => {
+    const when = new Date(revision.createdAt).toLocaleString();
+    if (!window.confirm(`Restore ${kind} to the revision from ${when}? Unsaved edits will be lost.`)) return;
+    setRestoringId(revision.id);
+    setError(null);
+    try {
+      const res = await fetch(`/api/${kind}/revisions/${revision.id}`, { method: "POST" });
+      if (!res.ok) throw new Error(await readError(res, "Restore failed"));
+      setDiffView(null);
+      await loadRevisions();
+      onRestored();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Restore failed");
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-3 rounded-xl border border-slate-200 bg-white p-4 shadow-sm">
+      <div className="flex items-center justify-between">
+        <h2 className="text-sm font-semibold uppercase tracking-wide text-slate-500">History</h2>
+        <button
+          type="button"
+          onClick={loadRevisions}
+          className="rounded-md border border-slate-200 px-2 py-1 text-xs font-semibold text-slate-700 hover:bg-slate-100"
+        >
+          Refresh
+        </button>
+      </div>
+      {error ? <p className="text-sm text-red-600">{error}</p> : null}
+      {status === "loading" ? <p className="text-sm text-slate-500">Loading history...</p> : null}
+      {status === "idle" && revisions.length === 0 ? (
+        <p className="text-sm text-slate-500">No saves recorded yet.</p>
+      ) : null}
+      <ul className="max-h-80 space-y-2 overflow-y-auto">
+        {revisions.map((revision, index) => (
+          <li key={revision.id} className="rounded-md border border-slate-200 p-2 text-sm">
+            <div className="flex items-center justify-between gap-2">
+              <span className="font-semibold text-slate-800">{new Date(revision.createdAt).toLocaleString()}</span>
+              <span className="text-xs text-slate-500">{revision.author}</span>
+            </div>
+            <p className="text-slate-600">{revision.summary}</p>
+            <div className="mt-2 flex flex-wrap gap-2">
+              <button
+                type="button"
+                onClick={() => showDiff(revision.id, "previous")}
+                className="rounded-md border border-slate-200 px-2 py-1 text-xs font-semibold text-slate-700 hover:bg-slate-100"
+              >
+                Changes in this save
+              </button>
+              {index > 0 ? (
+                <>
+                  <button
+                    type="button"
+                    onClick={() => showDiff(revision.id, "current")}
+                    className="rounded-md border border-slate-200 px-2 py-1 text-xs font-semibold text-slate-700 hover:bg-slate-100"
+                  >
+                    Compare with current
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => restore(revision)}
+                    disabled={restoringId !== null}
+                    className="rounded-md bg-[#991B1B] px-2 py-1 text-xs font-semibold text-white hover:bg-[#7F1D1D] disabled:opacity-60"
+                  >
+                    {restoringId === revision.id ? "Restoring..." : "Restore"}
+                  </button>
+                </>
+              ) : null}
+            </div>
+            {diffView?.id === revision.id ? (
+              <div className="mt-2 space-y-1 rounded-md bg-slate-50 p-2 text-xs text-slate-700">
+                <p className="font-semibold text-slate-500">
+                  {diffView.compare === "previous" ? "Compared with the save before it" : "What restoring would change"}
+                </p>
+                {diffView.diff.added.length === 0 &&
+                diffView.diff.removed.length === 0 &&
+                diffView.diff.changed.length === 0 ? (
+                  <p>No differences.</p>
+                ) : null}
+                {diffView.diff.added.length > 0 ? (
+                  <p>
+                    <span className="font-semibold text-emerald-700">Added:</span> {diffView.diff.added.join(", ")}
+                  </p>
+                ) : null}
+                {diffView.diff.removed.length > 0 ? (
+                  <p>
+                    <span className="font-semibold text-red-700">Removed:</span> {diffView.diff.removed.join(", ")}
+                  </p>
+                ) : null}
+                {diffView.diff.changed.map((item) => (
+                  <p key={item.key}>
+                    <span className="font-semibold text-amber-700">{item.key}:</span> {item.fields.join(", ")}
+                  </p>
+                ))}
+              </div>
+            ) : null}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
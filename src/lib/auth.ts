@@ -0,0 +1,99 @@
+import { createHmac, scryptSync, timingSafeEqual } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+
+export type Role = "editor" | "viewer";
+
+export type Session = {
+  username: string;
+  role: Role;
+  expiresAt: number;
+};
+
+type StoredUser = {
+  username: string;
+  role: Role;
+  /** `scrypt$<salt hex>$<hash hex>`, see scripts/add-user.mjs */
+  passwordHash: string;
+};
+
+export const SESSION_COOKIE = "hcm_session";
+export const SESSION_MAX_AGE = 60 * 60 * 12;
+
+const usersPath = process.env.AUTH_USERS_FILE || path.join(process.cwd(), "auth", "users.json");
+
+export class AuthConfigError extends Error {}
+
+function getSecret() {
+  const secret = process.env.AUTH_SECRET;
+  if (!secret || secret.length < 16) {
+    throw new AuthConfigError("AUTH_SECRET must be set to at least 16 characters");
+  }
+  return secret;
+}
+
+async function readUsers(): Promise<StoredUser[]> {
+  try {
+    const raw = await fs.readFile(usersPath, "utf8");
+    const parsed = JSON.parse(raw);
+    if (!Array.isArray(parsed)) return [];
+    return parsed.filter(
+      (user): user is StoredUser =>
+        user &&
+        typeof user.username === "string" &&
+        typeof user.passwordHash === "string" &&
+        (user.role === "editor" || user.role === "viewer"),
+    );
+  } catch (err) {
+    console.error("Failed to read credentials file", usersPath, err);
+    return [];
+  }
+}
+
+function verifyPassword(password: string, stored: string) {
+  const [scheme, salt, hash] = stored.split("$");
+  if (scheme !== "scrypt" || !salt || !hash) return false;
+  const expected = Buffer.from(hash, "hex");
+  const actual = scryptSync(password, Buffer.from(salt, "hex"), expected.length);
+  return expected.length > 0 && timingSafeEqual(expected, actual);
+}
+
+export async function verifyCredentials(username: string, password: string): Promise<Session | null> {
+  const users = await readUsers();
+  const user = users.find((item) => item.username === username);
+  if (!user || !verifyPassword(password, user.passwordHash)) return null;
+  return { username: user.username, role: user.role, expiresAt: Date.now() + SESSION_MAX_AGE * 1000 };
+}
+
+function sign(payload: string) {
+  return createHmac("sha256", getSecret()).update(payload).digest("base64url");
+}
+
+export function createSessionToken(session: Session) {
+  const payload = Buffer.from(JSON.stringify(session)).toString("base64url");
+  return `${payload}.${sign(payload)}`;
+}
+
+export function readSessionToken(token: string | undefined): Session | null {
+  if (!token) return null;
+  const [payload, signature] = token.split(".");
+  if (!payload || !signature) return null;
+  try {
+    const expected = Buffer.from(sign(payload));
+    const actual = Buffer.from(signature);
+    if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null;
+    const session = JSON.parse(Buffer.from(payload, "base64url").toString("utf8")) as Session;
+    if (typeof session.expiresAt !== "number" || session.expiresAt < Date.now()) return null;
+    if (session.role !== "editor" && session.role !== "viewer") return null;
+    return session;
+  } catch {
+    return null;
+  }
+}
+
+/** Reads the session cookie from a route handler request. */
+export function getSession(request: Request): Session | null {
+  const cookie = request.headers.get("cookie") ?? "";
+  const match = cookie.split(/;\s*/).find((part) => part.startsWith(`${SESSION_COOKIE}=`));
+  return readSessionToken(match ? decodeURIComponent(match.slice(SESSION_COOKIE.length + 1)) : undefined);
+}
@@ -0,0 +1,204 @@
+import { Citation, Place } from "@/types/place";
+
+/** What a citation id may look like; ids are used in `[@id]` markers, anchors and BibTeX keys. */
+export const CITATION_ID_PATTERN = /^[A-Za-z0-9][\w.:-]*$/;
+
+export type CitationSegment = {
+  kind: "text" | "title" | "url";
+  text: string;
+};
+
+export type BibliographyEntry = {
+  citation: Citation;
+  places: { slug?: string; title: string }[];
+};
+
+const isWebUrl = (value: string) => /^(https?:)?\/\//i.test(value.trim());
+
+/** Wraps a legacy source string: URLs become the citation's url, anything else its title. */
+export function citationFromText(text: string, id: string): Citation {
+  const value = text.trim();
+  return isWebUrl(value) ? { id, url: value } : { id, title: value };
+}
+
+/** The first `s<n>` id not used by `sources`, for citations added in the editor. */
+export function nextCitationId(sources: Citation[] = []) {
+  const taken = new Set(sources.map((source) => source.id));
+  let n = sources.length + 1;
+  while (taken.has(`s${n}`)) n += 1;
+  return `s${n}`;
+}
+
+/**
+ * Finds what a `[@key]` marker cites: the citation with that id, or for a bare
+ * number the nth citation (1-based). `number` is the position shown to readers.
+ */
+export function resolveCitation(sources: Citation[] | undefined, key: string) {
+  const list = sources ?? [];
+  let index = list.findIndex((source) => source.id === key);
+  if (index < 0 && /^\d+$/.test(key)) index = Number(key) - 1;
+  const citation = list[index];
+  return citation ? { citation, number: index + 1 } : null;
+}
+
+function hostOf(url: string) {
+  try {
+    return new URL(url.startsWith("//") ? `https:${url}` : url).hostname.replace(/^www\./, "");
+  } catch {
+    return url;
+  }
+}
+
+const ISO_DATE = /^(\d{4})(?:-(\d{2})(?:-(\d{2}))?)?$/;
+
+/** "1960-05-01" -> "01/05/1960", "1960-05" -> "05/1960"; other text is kept as written. */
+export function formatCitationDate(value: string | undefined) {
+  const text = value?.trim() ?? "";
+  const match = text.match(ISO_DATE);
+  if (!match) return text;
+  const [, year, month, day] = match;
+  return [day, month, year].filter(Boolean).join("/");
+}
+
+const withPeriod = (text: string) => (/[.!?]$/.test(text) ? text : `${text}.`);
+
+/**
+ * The house citation style, split so pages can italicise the title and link
+ * the URL: "Author. Title. Publisher, date. tr. page. URL. Truy cap date."
+ */
+export function citationSegments(citation: Citation): CitationSegment[] {
+  const blocks: CitationSegment[][] = [];
+  const author = citation.author?.trim();
+  const title = citation.title?.trim();
+  const url = citation.url?.trim();
+  if (author) blocks.push([{ kind: "text", text: withPeriod(author) }]);
+  if (title) {
+    blocks.push([
+      { kind: "title", text: title },
+      { kind: "text", text: /[.!?]$/.test(title) ? "" : "." },
+    ]);
+  } else if (url && !author) {
+    // An untitled web page is at least named by its site.
+    blocks.push([{ kind: "text", text: withPeriod(hostOf(url)) }]);
+  }
+  const imprint = [citation.publisher?.trim(), formatCitationDate(citation.date)].filter(Boolean).join(", ");
+  if (imprint) blocks.push([{ kind: "text", text: withPeriod(imprint) }]);
+  const page = citation.page?.trim();
+  if (page) blocks.push([{ kind: "text", text: withPeriod(/^tr\./i.test(page) ? page : `tr. ${page}`) }]);
+  if (url) blocks.push([{ kind: "url", text: url }]);
+  if (citation.accessed?.trim()) {
+    blocks.push([{ kind: "text", text: `Truy cap ${formatCitationDate(citation.accessed)}.` }]);
+  }
+  if (citation.note?.trim()) blocks.push([{ kind: "text", text: withPeriod(citation.note.trim()) }]);
+  return blocks.flatMap((block, idx) => (idx === 0 ? block : [{ kind: "text" as const, text: " " }, ...block]));
+}
+
+/** The citation as one line of plain text, e.g. for tooltips. */
+export function formatCitation(citation: Citation) {
+  return citationSegments(citation)
+    .map((segment) => segment.text)
+    .join("");
+}
+
+// Two places citing the same work usually share the URL; otherwise the formatted text must match.
+const citationKey = (citation: Citation) =>
+  citation.url?.trim().replace(/\/+$/, "").toLowerCase() || formatCitation(citation).toLowerCase();
+
+/** Every distinct citation across the places, with the places that cite it, sorted by author/title. */
+export function collectBibliography(places: Place[]): BibliographyEntry[] {
+  const entries = new Map<string, BibliographyEntry>();
+  places.forEach((place) => {
+    (place.sources ?? []).forEach((citation) => {
+      const key = citationKey(citation);
+      if (!key) return;
+      const entry = entries.get(key);
+      if (!entry) {
+        entries.set(key, { citation, places: [{ slug: place.slug, title: place.title }] });
+        return;
+      }
+      // Keep the most complete description of the work.
+      if (formatCitation(citation).length > formatCitation(entry.citation).length) entry.citation = citation;
+      if (!entry.places.some((item) => item.slug === place.slug)) {
+        entry.places.push({ slug: place.slug, title: place.title });
+      }
+    });
+  });
+  return Array.from(entries.values()).sort((a, b) =>
+    formatCitation(a.citation).localeCompare(formatCitation(b.citation), "vi"),
+  );
+}
+
+const splitAuthors = (author: string | undefined) =>
+  (author ?? "")
+    .split(";")
+    .map((name) => name.trim())
+    .filter(Boolean);
+
+const escapeBibtex = (value: string) => value.replace(/([{}%&$#_\\])/g, "\\$1");
+
+function bibtexType(citation: Citation) {
+  if (citation.url && !citation.publisher) return "online";
+  if (citation.publisher) return "book";
+  return "misc";
+}
+
+/**
+ * BibTeX (biblatex field names) for the citations. `keyPrefix` keeps keys unique
+ * when citations of several places are exported together.
+ */
+export function toBibtex(citations: Citation[], keyPrefix = "") {
+  return citations
+    .map((citation) => {
+      const fields: [string, string | undefined][] = [
+        ["author", splitAuthors(citation.author).join(" and ") || undefined],
+        ["title", citation.title],
+        ["publisher", citation.publisher],
+        ["date", citation.date?.match(ISO_DATE) ? citation.date : undefined],
+        // Free-text dates ("khoang 1930") still give BibTeX a year.
+        ["year", citation.date?.match(ISO_DATE) ? undefined : citation.date?.match(/\d{4}/)?.[0]],
+        ["pages", citation.page],
+        ["url", citation.url],
+        ["urldate", citation.accessed?.match(ISO_DATE) ? citation.accessed : undefined],
+        ["note", citation.note],
+      ];
+      const body = fields
+        .filter((entry): entry is [string, string] => Boolean(entry[1]?.trim()))
+        .map(([name, value]) => `  ${name} = {${name === "url" ? value.trim() : escapeBibtex(value.trim())}}`)
+        .join(",\n");
+      return `@${bibtexType(citation)}{${keyPrefix}${citation.id},\n${body}\n}`;
+    })
+    .join("\n\n");
+}
+
+function cslDate(value: string | undefined) {
+  const text = value?.trim();
+  if (!text) return undefined;
+  const match = text.match(ISO_DATE);
+  if (!match) return { literal: text };
+  return { "date-parts": [match.slice(1).filter(Boolean).map(Number)] };
+}
+
+function cslName(name: string) {
+  const [family, given] = name.split(",").map((part) => part.trim());
+  return given ? { family, given } : { literal: name };
+}
+
+/** CSL-JSON items, the format Zotero and citeproc read. */
+export function toCslJson(citations: Citation[], keyPrefix = "") {
+  return citations.map((citation) => {
+    const authors = splitAuthors(citation.author);
+    const item: Record<string, unknown> = {
+      id: `${keyPrefix}${citation.id}`,
+      type: citation.url && !citation.publisher ? "webpage" : citation.publisher ? "book" : "document",
+      title: citation.title?.trim() || (citation.url ? hostOf(citation.url) : undefined),
+      author: authors.length > 0 ? authors.map(cslName) : undefined,
+      publisher: citation.publisher?.trim() || undefined,
+      issued: cslDate(citation.date),
+      page: citation.page?.trim() || undefined,
+      URL: citation.url?.trim() || undefined,
+      accessed: cslDate(citation.accessed),
+      note: citation.note?.trim() || undefined,
+    };
+    return Object.fromEntries(Object.entries(item).filter(([, value]) => value !== undefined));
+  });
+}
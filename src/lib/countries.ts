@@ -0,0 +1,61 @@
+import { CountryCode } from "@/types/place";
+
+// Vietnamese country names (accents stripped) used in places.json.
+const COUNTRY_ISO_MAP: Record<string, CountryCode> = {
+  "ai cap": "EGY",
+  algeria: "DZA",
+  angola: "AGO",
+  anh: "GBR",
+  argentina: "ARG",
+  bi: "BEL",
+  congo: "COD",
+  "cote d ivoire": "CIV",
+  duc: "DEU",
+  france: "FRA",
+  ghana: "GHA",
+  "ha lan": "NLD",
+  kenya: "KEN",
+  "lien xo": "RUS",
+  madagascar: "MDG",
+  malaysia: "MYS",
+  martinique: "FRA",
+  morocco: "MAR",
+  my: "USA",
+  "nam phi": "ZAF",
+  nga: "RUS",
+  nigeria: "NGA",
+  phap: "FRA",
+  reunion: "FRA",
+  senegal: "SEN",
+  singapore: "SGP",
+  somalia: "SOM",
+  "sri lanka": "LKA",
+  tanzania: "TZA",
+  "thai lan": "THA",
+  "trung quoc": "CHN",
+  tunisie: "TUN",
+  uc: "AUS",
+  uruguay: "URY",
+  "viet nam": "VNM",
+  y: "ITA",
+};
+
+export function normalizeCountryName(value: string) {
+  return value
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/đ/gi, "d")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim()
+    .replace(/\s+/g, " ");
+}
+
+export function isCountryCode(value: unknown): value is CountryCode {
+  return typeof value === "string" && /^[A-Z]{3}$/.test(value);
+}
+
+export function countryCodeFromName(name: string | undefined): CountryCode | undefined {
+  if (!name) return undefined;
+  return COUNTRY_ISO_MAP[normalizeCountryName(name)];
+}
@@ -0,0 +1,16 @@
+import { revalidateTag } from "next/cache";
+
+import { DataKind } from "@/lib/dataStore";
+
+/** Cache tag for everything the public pages build from one data file. */
+export function dataCacheTag(kind: DataKind) {
+  return `data:${kind}`;
+}
+
+/**
+ * Expires the cached data and pages built from these files at once, so the
+ * next visitor sees the save. Only callable from route handlers.
+ */
+export function revalidateData(...kinds: DataKind[]) {
+  kinds.forEach((kind) => revalidateTag(dataCacheTag(kind), { expire: 0 }));
+}
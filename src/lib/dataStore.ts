@@ -0,0 +1,144 @@
+import { createHash } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+
+import { recordRevision } from "@/lib/revisions";
+import { StoreError } from "@/lib/storeError";
+
+export type DataKind = "places" | "routes" | "quiz";
+
+export type SaveMeta = {
+  author: string;
+  summary?: string;
+};
+
+export type VersionedContent = {
+  content: unknown;
+  version: string;
+};
+
+export const DATA_KINDS: DataKind[] = ["places", "routes", "quiz"];
+
+export const dataFilePaths: Record<DataKind, string> = {
+  places: path.join(process.cwd(), "src", "data", "places.json"),
+  routes: path.join(process.cwd(), "src", "data", "routes.json"),
+  quiz: path.join(process.cwd(), "src", "data", "quiz.json"),
+};
+
+/** Thrown by saveDataFile when the file changed since the caller read it. */
+export class VersionConflictError extends Error {
+  current: unknown;
+  version: string;
+
+  constructor(current: unknown, version: string) {
+    super("Data was changed by someone else");
+    this.name = "VersionConflictError";
+    this.current = current;
+    this.version = version;
+  }
+}
+
+export function isDataKind(value: string): value is DataKind {
+  return (DATA_KINDS as string[]).includes(value);
+}
+
+function contentVersion(raw: string) {
+  return createHash("sha256").update(raw).digest("hex").slice(0, 16);
+}
+
+function parseRaw(raw: string) {
+  return JSON.parse(raw.startsWith("\ufeff") ? raw.slice(1) : raw);
+}
+
+export async function readDataFile(kind: DataKind): Promise<unknown> {
+  return parseRaw(await fs.readFile(dataFilePaths[kind], "utf8"));
+}
+
+export async function readDataFileWithVersion(kind: DataKind): Promise<VersionedContent> {
+  const raw = await fs.readFile(dataFilePaths[kind], "utf8");
+  return { content: parseRaw(raw), version: contentVersion(raw) };
+}
+
+export function formatETag(version: string) {
+  return `"${version}"`;
+}
+
+/** Returns the versions listed in an If-Match header, or null when the header is absent. */
+export function parseIfMatch(header: string | null): string[] | null {
+  if (!header) return null;
+  return header
+    .split(",")
+    .map((item) => item.trim().replace(/^W\//, "").replace(/^"|"$/g, ""))
+    .filter(Boolean);
+}
+
+// Saves of the same file run one after another so the version check and the write cannot interleave.
+const writeQueues: Partial<Record<DataKind, Promise<unknown>>> = {};
+
+function enqueueWrite<T>(kind: DataKind, task: () => Promise<T>): Promise<T> {
+  const run = (writeQueues[kind] ?? Promise.resolve()).then(task, task);
+  writeQueues[kind] = run.catch(() => undefined);
+  return run;
+}
+
+type DataUpdate<T> = {
+  content: unknown;
+  result: T;
+  /** Undoes what `update` did besides returning content, should the write fail. */
+  rollback?: () => Promise<unknown>;
+};
+
+/**
+ * Reads the data file, applies `update` and writes what it returns, keeping the
+ * previous and new content as revisions. `update` may throw to abort the write.
+ * It may also be async, so work that must not overlap another save, such as moving
+ * a media file, runs in the same queue. Returning `current` itself writes nothing.
+ */
+export function updateDataFile<T>(
+  kind: DataKind,
+  update: (current: unknown, version: string) => DataUpdate<T> | Promise<DataUpdate<T>>,
+  meta: SaveMeta,
+) {
+  return enqueueWrite(kind, async () => {
+    // Only a missing file starts empty; one that cannot be read or parsed is left as it is.
+    let previous: VersionedContent | undefined;
+    try {
+      previous = await readDataFileWithVersion(kind);
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== "ENOENT") {
+        console.error(`Failed to read ${kind}.json`, err);
+        throw new StoreError(500, `${kind}.json could not be read; fix or restore it before saving`);
+      }
+    }
+    const { content, result, rollback } = await update(previous?.content, previous?.version ?? "");
+    if (previous && content === previous.content) return { revision: null, version: previous.version, result };
+    const raw = `${JSON.stringify(content, null, 2)}\n`;
+    try {
+      await fs.writeFile(dataFilePaths[kind], raw, "utf8");
+    } catch (err) {
+      if (rollback) await rollback().catch((undoErr) => console.error(`Failed to undo a ${kind} update`, undoErr));
+      throw err;
+    }
+    const revision = await recordRevision(kind, previous?.content, content, meta);
+    return { revision, version: contentVersion(raw), result };
+  });
+}
+
+/**
+ * Replaces the data file. When `expectedVersions` is given the write only happens
+ * if the file still has one of those versions ("*" matches any); otherwise
+ * VersionConflictError is thrown.
+ */
+export async function saveDataFile(kind: DataKind, content: unknown, meta: SaveMeta, expectedVersions?: string[]) {
+  const { revision, version } = await updateDataFile(
+    kind,
+    (current, currentVersion) => {
+      if (expectedVersions && !expectedVersions.includes("*") && !expectedVersions.includes(currentVersion)) {
+        throw new VersionConflictError(current, currentVersion);
+      }
+      return { content, result: undefined };
+    },
+    meta,
+  );
+  return { revision, version };
+}
@@ -0,0 +1,42 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+
+import { formatDateSpan, parseDate, parsePeriodLabel, storedDateFromText } from "@/lib/historicalDates";
+
+const label = (text: string) => {
+  const span = parsePeriodLabel(text);
+  return span && formatDateSpan(span);
+};
+
+test("reads stored dates with their qualifiers", () => {
+  assert.deepEqual(parseDate("1928-07~"), { year: 1928, month: 7, approximate: true });
+  assert.deepEqual(parseDate("1930-9"), { year: 1930, month: 9 });
+  assert.equal(parseDate("1928-02-30"), null);
+  assert.equal(parseDate("07/1928"), null);
+});
+
+test("reads Vietnamese period labels with or without diacritics", () => {
+  assert.equal(label("tháng 7 năm 1928"), "07/1928");
+  assert.equal(label("thang 7 nam 1928"), "07/1928");
+  assert.equal(label("ngày 5 tháng 6 năm 1911"), "05/06/1911");
+  assert.equal(label("Khoảng 1930"), "~1930");
+  assert.equal(label("có lẽ 1931"), "1931?");
+  assert.equal(label("Những năm 1920"), "1920 - 1929");
+  assert.equal(label("cuối thu 1929"), "~09/1929");
+  assert.equal(label("mùa xuân 1941"), "01/1941 - 03/1941");
+  assert.equal(label("Từ 1914 đến 1917"), "1914 - 1917");
+  assert.equal(label("không rõ"), null);
+});
+
+test("completes a range start from the month and year its end gives", () => {
+  assert.equal(label("02 - 04/1912"), "02/1912 - 04/1912");
+  assert.equal(label("5 - 12/06/1911"), "05/06/1911 - 12/06/1911");
+  assert.equal(label("1914–1917"), "1914 - 1917");
+});
+
+test("turns typed dates into the stored form, taking the edge asked for", () => {
+  assert.equal(storedDateFromText("07/1928", "start"), "1928-07");
+  assert.equal(storedDateFromText("02 - 04/1912", "start"), "1912-02");
+  assert.equal(storedDateFromText("02 - 04/1912", "end"), "1912-04");
+  assert.equal(storedDateFromText("sometime", "start"), null);
+});
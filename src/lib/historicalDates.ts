@@ -0,0 +1,277 @@
+import { Place } from "@/types/place";
+
+/**
+ * A date known to the year, the month or the day. Stored in `dateStart` /
+ * `dateEnd` as a small subset of EDTF: `1928`, `1928-07` or `1928-07-05`,
+ * optionally followed by `~` (circa), `?` (uncertain) or `%` (both).
+ */
+export type PartialDate = {
+  year: number;
+  month?: number;
+  day?: number;
+  approximate?: boolean;
+  uncertain?: boolean;
+};
+
+/** One date, or a range when `end` is set. */
+export type DateSpan = {
+  start: PartialDate;
+  end?: PartialDate;
+};
+
+export const DATE_FORMAT_HINT = "Use YYYY, YYYY-MM or YYYY-MM-DD, optionally followed by ~ (circa) or ? (uncertain)";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Lenient about leading zeros so older data such as "1930-9" or "1922-04-1" still reads.
+const STORED_DATE = /^(\d{4})(?:-(\d{1,2})(?:-(\d{1,2}))?)?\s*([~?%])?$/;
+
+const daysInMonth = (year: number, month: number) => new Date(Date.UTC(year, month, 0)).getUTCDate();
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+function buildDate(year: number, month?: number, day?: number): PartialDate | null {
+  if (month !== undefined && (month < 1 || month > 12)) return null;
+  if (day !== undefined && (month === undefined || day < 1 || day > daysInMonth(year, month))) return null;
+  const date: PartialDate = { year };
+  if (month !== undefined) date.month = month;
+  if (day !== undefined) date.day = day;
+  return date;
+}
+
+function withQualifier(date: PartialDate, qualifier: string | undefined): PartialDate {
+  if (qualifier === "~" || qualifier === "%") date.approximate = true;
+  if (qualifier === "?" || qualifier === "%") date.uncertain = true;
+  return date;
+}
+
+/** Reads a stored date (see PartialDate); null when the text is not one. */
+export function parseDate(value: string | undefined): PartialDate | null {
+  const match = value?.trim().match(STORED_DATE);
+  if (!match) return null;
+  const [, year, month, day, qualifier] = match;
+  const date = buildDate(Number(year), month ? Number(month) : undefined, day ? Number(day) : undefined);
+  return date ? withQualifier(date, qualifier) : null;
+}
+
+/** The stored form of a date, e.g. "1928-07~". */
+export function formatDateValue(date: PartialDate) {
+  const qualifier = date.approximate && date.uncertain ? "%" : date.approximate ? "~" : date.uncertain ? "?" : "";
+  return `${toIsoDate(date)}${qualifier}`;
+}
+
+/** The date as ISO 8601 without qualifiers, e.g. for schema.org. */
+export function toIsoDate(date: PartialDate) {
+  return [String(date.year).padStart(4, "0"), date.month && pad(date.month), date.day && pad(date.day)]
+    .filter(Boolean)
+    .join("-");
+}
+
+/** The date the way Vietnamese labels write it: "05/06/1911", "07/1928", "~1930", "1931?". */
+export function formatDate(date: PartialDate) {
+  const text = [date.day && pad(date.day), date.month && pad(date.month), String(date.year)].filter(Boolean).join("/");
+  return `${date.approximate ? "~" : ""}${text}${date.uncertain ? "?" : ""}`;
+}
+
+export function formatDateSpan(span: DateSpan) {
+  if (!span.end || formatDate(span.end) === formatDate(span.start)) return formatDate(span.start);
+  return `${formatDate(span.start)} - ${formatDate(span.end)}`;
+}
+
+/** The first and last day a date could mean, as day numbers. */
+function dayRange(date: PartialDate): [number, number] {
+  const firstMonth = date.month ?? 1;
+  const lastMonth = date.month ?? 12;
+  const first = Date.UTC(date.year, firstMonth - 1, date.day ?? 1) / DAY_MS;
+  const last = Date.UTC(date.year, lastMonth - 1, date.day ?? daysInMonth(date.year, lastMonth)) / DAY_MS;
+  return [first, last];
+}
+
+// A circa date may be off by about one of its own units.
+function slack(date: PartialDate) {
+  if (!date.approximate) return 0;
+  return date.day ? 7 : date.month ? 31 : 366;
+}
+
+export function spanDayRange(span: DateSpan): [number, number] {
+  const end = span.end ?? span.start;
+  return [dayRange(span.start)[0], dayRange(end)[1]];
+}
+
+/**
+ * Orders spans by when they begin; when two begin together the less precise
+ * one ("1912") comes before the more precise ("02/1912", "01/02/1912").
+ */
+export function compareDateSpans(a: DateSpan, b: DateSpan) {
+  const [aFirst, aLast] = spanDayRange(a);
+  const [bFirst, bLast] = spanDayRange(b);
+  if (aFirst !== bFirst) return aFirst - bFirst;
+  return bLast - aLast;
+}
+
+// Months each season covers, counted the way Vietnamese lunar-calendar seasons usually are.
+const SEASON_MONTHS: Record<string, [number, number]> = {
+  xuan: [1, 3],
+  ha: [4, 6],
+  he: [4, 6],
+  thu: [7, 9],
+  dong: [10, 12],
+};
+
+function normalizeLabel(label: string) {
+  return label
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/đ/gi, "d")
+    .toLowerCase()
+    .replace(/[–—]/g, "-")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function monthSpan(year: number, from: number, to: number): DateSpan {
+  return from === to ? { start: { year, month: from } } : { start: { year, month: from }, end: { year, month: to } };
+}
+
+/** "dau thu 1929" style parts: early/mid/late in a year or season, which are always estimates. */
+function parseSeason(text: string): DateSpan | null {
+  const match = text.match(/^(?:(dau|giua|cuoi)\s+)?(?:(?:mua\s+)?(xuan|ha|he|thu|dong)\s+)?(?:nam\s+)?(\d{4})$/);
+  if (!match || (!match[1] && !match[2])) return null;
+  const [, part, season, yearText] = match;
+  const year = Number(yearText);
+  const [from, to] = season ? SEASON_MONTHS[season] : [1, 12];
+  if (!part) return monthSpan(year, from, to);
+  // Thirds of the months in question: a year splits 4/4/4, a season 1/1/1.
+  const size = (to - from + 1) / 3;
+  const index = { dau: 0, giua: 1, cuoi: 2 }[part as "dau" | "giua" | "cuoi"];
+  const span = monthSpan(year, from + index * size, from + (index + 1) * size - 1);
+  span.start.approximate = true;
+  if (span.end) span.end.approximate = true;
+  return span;
+}
+
+function parseLabelPart(text: string): DateSpan | null {
+  const part = text
+    .replace(/^ngay\s+(\d{1,2})\s+thang\s+(\d{1,2})\s+nam\s+(\d{4})$/, "$1/$2/$3")
+    .replace(/^thang\s+(\d{1,2})\s*(?:nam\s+|\/)\s*(\d{4})$/, "$1/$2")
+    .replace(/^nam\s+(\d{4})$/, "$1");
+  const stored = parseDate(part);
+  if (stored) return { start: stored };
+  const numeric = part.match(/^(?:(\d{1,2})[/.])?(\d{1,2})[/.](\d{4})$/);
+  if (numeric) {
+    const [, day, month, year] = numeric;
+    const date = buildDate(Number(year), Number(month), day ? Number(day) : undefined);
+    return date ? { start: date } : null;
+  }
+  const decade = part.match(/^(?:nhung nam|thap nien)\s+(\d{3}0)$/);
+  if (decade) {
+    const year = Number(decade[1]);
+    return { start: { year }, end: { year: year + 9 } };
+  }
+  return parseSeason(part);
+}
+
+/**
+ * Reads a period label as editors write them: "07/1928", "5/6/1911",
+ * "thang 7 nam 1928", "1914 - 1917", "khoang 1930", "cuoi thu 1929",
+ * "nhung nam 1920" (with or without diacritics). Null when it cannot tell.
+ */
+export function parsePeriodLabel(label: string | undefined): DateSpan | null {
+  let text = normalizeLabel(label ?? "");
+  if (!text) return null;
+  let approximate = false;
+  let uncertain = false;
+  text = text.replace(/^(?:khoang|chung|circa|ca\.|c\.|~)\s*/, () => {
+    approximate = true;
+    return "";
+  });
+  text = text.replace(/\s*\?$|^(?:co le|co the)\s+/g, () => {
+    uncertain = true;
+    return "";
+  });
+  text = text.replace(/^tu\s+/, "");
+
+  const [startText, endText, ...rest] = text.split(/\s+(?:-|->|den|toi)\s+|(?<=^\d{4})-(?=\d{4}$)/);
+  if (rest.length > 0 || !startText) return null;
+  let span: DateSpan | null;
+  if (endText === undefined) {
+    span = parseLabelPart(startText);
+  } else {
+    const end = parseLabelPart(endText);
+    // "02 - 04/1912": the start borrows the month and year it leaves out from the end.
+    const startParts = startText.split("/");
+    const completed = /^\d{1,2}(\/\d{1,2})?$/.test(startText)
+      ? [...startParts, ...endText.split("/").slice(startParts.length)].join("/")
+      : startText;
+    const start = parseLabelPart(completed);
+    span = start && end ? { start: start.start, end: end.end ?? end.start } : null;
+  }
+  if (!span) return null;
+  [span.start, span.end].forEach((date) => {
+    if (!date) return;
+    if (approximate) date.approximate = true;
+    if (uncertain) date.uncertain = true;
+  });
+  return span;
+}
+
+/**
+ * Text an editor typed into dateStart/dateEnd ("07/1928", "1930-9") in the
+ * stored format; a range gives the edge asked for. Null when it cannot be read.
+ */
+export function storedDateFromText(text: string, edge: "start" | "end") {
+  const span = parsePeriodLabel(text);
+  if (!span) return null;
+  return formatDateValue(edge === "end" ? (span.end ?? span.start) : span.start);
+}
+
+/** A place's dates from dateStart/dateEnd, falling back to its period label. */
+export function placeDateSpan(place: Pick<Place, "dateStart" | "dateEnd" | "periodLabel">): DateSpan | null {
+  const start = parseDate(place.dateStart);
+  if (start) {
+    const end = parseDate(place.dateEnd);
+    return end ? { start, end } : { start };
+  }
+  return parsePeriodLabel(place.periodLabel);
+}
+
+/** Dated places first, in date order; `null` when neither is dated. */
+export function comparePlaceDates(a: Place, b: Place) {
+  const aSpan = placeDateSpan(a);
+  const bSpan = placeDateSpan(b);
+  if (aSpan && bSpan) return compareDateSpans(aSpan, bSpan);
+  if (aSpan) return -1;
+  if (bSpan) return 1;
+  return null;
+}
+
+/** What pages show as a place's time: the editor's label, else the formatted dates. */
+export function placePeriod(place: Place, fallback = "") {
+  const label = place.periodLabel?.trim();
+  if (label) return label;
+  const span = placeDateSpan(place);
+  if (span) return formatDateSpan(span);
+  return [place.dateStart, place.dateEnd].filter(Boolean).join(" - ") || fallback;
+}
+
+/**
+ * Why the period label and dateStart/dateEnd disagree, or null when they agree
+ * or either cannot be read. Circa dates get about one unit of leeway.
+ */
+export function periodLabelConflict(place: Place) {
+  const labelSpan = parsePeriodLabel(place.periodLabel);
+  const start = parseDate(place.dateStart);
+  if (!labelSpan || !start) return null;
+  const [first, last] = spanDayRange(labelSpan);
+  const from = first - slack(labelSpan.start);
+  const to = last + slack(labelSpan.end ?? labelSpan.start);
+  const outside = (date: PartialDate) => {
+    const [dateFirst, dateLast] = dayRange(date);
+    return dateLast + slack(date) < from || dateFirst - slack(date) > to;
+  };
+  const end = parseDate(place.dateEnd);
+  const reads = `The period label reads as ${formatDateSpan(labelSpan)}`;
+  if (outside(start)) return `${reads}, but date start is ${formatDate(start)}.`;
+  if (end && outside(end)) return `${reads}, but date end is ${formatDate(end)}.`;
+  return null;
+}
@@ -0,0 +1,118 @@
+import { Place } from "@/types/place";
+import { RouteCollection, RouteFeature } from "@/types/route";
+
+export type RouteEnd = "fromSlug" | "toSlug";
+
+export type DanglingSlug = {
+  fid?: number;
+  field: RouteEnd;
+  slug: string;
+};
+
+export type EndpointMismatch = {
+  fid?: number;
+  field: RouteEnd;
+  slug: string;
+  distanceKm: number;
+};
+
+export type DuplicateOrder = {
+  order: string;
+  fids: (number | undefined)[];
+};
+
+export type IntegrityReport = {
+  ok: boolean;
+  danglingSlugs: DanglingSlug[];
+  endpointMismatches: EndpointMismatch[];
+  duplicateOrders: DuplicateOrder[];
+};
+
+/** How far the first or last point of a line may sit from its place before it is reported. */
+export const ENDPOINT_TOLERANCE_KM = 25;
+
+const EARTH_RADIUS_M = 6378137;
+
+// Some lines are stored in Web Mercator metres; MapView converts them the same way.
+function toLngLat(position: [number, number]): [number, number] {
+  const [x, y] = position;
+  if (Math.abs(x) <= 180 && Math.abs(y) <= 90) return position;
+  const lng = (x / EARTH_RADIUS_M) * (180 / Math.PI);
+  const lat = (2 * Math.atan(Math.exp(y / EARTH_RADIUS_M)) - Math.PI / 2) * (180 / Math.PI);
+  return [lng, lat];
+}
+
+/** Great-circle distance between two [lng, lat] points. */
+export function distanceKm(a: [number, number], b: [number, number]) {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(b[1] - a[1]);
+  const dLng = toRad(b[0] - a[0]);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(a[1])) * Math.cos(toRad(b[1])) * Math.sin(dLng / 2) ** 2;
+  return 2 * 6371 * Math.asin(Math.sqrt(h));
+}
+
+function lineEnds(route: RouteFeature): [[number, number], [number, number]] | null {
+  const coords = route.geometry?.coordinates;
+  if (!Array.isArray(coords) || coords.length < 2) return null;
+  const first = coords[0];
+  const last = coords[coords.length - 1];
+  const isPair = (value: unknown): value is [number, number] =>
+    Array.isArray(value) && value.length === 2 && value.every((n) => typeof n === "number" && Number.isFinite(n));
+  return isPair(first) && isPair(last) ? [toLngLat(first), toLngLat(last)] : null;
+}
+
+/** Cross-checks routes.json against places.json. */
+export function checkIntegrity(places: Place[], routes: RouteCollection): IntegrityReport {
+  const bySlug = new Map(places.filter((place) => place.slug).map((place) => [place.slug as string, place]));
+  const danglingSlugs: DanglingSlug[] = [];
+  const endpointMismatches: EndpointMismatch[] = [];
+  const fidsByOrder = new Map<string, (number | undefined)[]>();
+
+  routes.features.forEach((route) => {
+    const props = route.properties ?? {};
+    const ends = lineEnds(route);
+    (["fromSlug", "toSlug"] as const).forEach((field, endIndex) => {
+      const slug = props[field];
+      if (!slug) return;
+      const place = bySlug.get(slug);
+      if (!place) {
+        danglingSlugs.push({ fid: props.fid, field, slug });
+        return;
+      }
+      if (!ends) return;
+      const distance = distanceKm(ends[endIndex], place.coords);
+      if (distance > ENDPOINT_TOLERANCE_KM) {
+        endpointMismatches.push({ fid: props.fid, field, slug, distanceKm: Math.round(distance) });
+      }
+    });
+    if (props.order !== undefined && String(props.order).trim()) {
+      const key = String(Number(props.order) || props.order).trim();
+      fidsByOrder.set(key, [...(fidsByOrder.get(key) ?? []), props.fid]);
+    }
+  });
+
+  const duplicateOrders = Array.from(fidsByOrder.entries())
+    .filter(([, fids]) => fids.length > 1)
+    .map(([order, fids]) => ({ order, fids }));
+
+  return {
+    ok: danglingSlugs.length === 0 && endpointMismatches.length === 0 && duplicateOrders.length === 0,
+    danglingSlugs,
+    endpointMismatches,
+    duplicateOrders,
+  };
+}
+
+/** Route ends that point at `slug`, i.e. what renaming that slug would rewrite. */
+export function routesUsingSlug(routes: RouteCollection, slug: string) {
+  return routes.features.flatMap((route) =>
+    (["fromSlug", "toSlug"] as const)
+      .filter((field) => route.properties?.[field] === slug)
+      .map((field) => ({
+        fid: route.properties?.fid,
+        field,
+        fromSlug: route.properties?.fromSlug,
+        toSlug: route.properties?.toSlug,
+      })),
+  );
+}
@@ -0,0 +1,52 @@
+import { comparePlaceDates } from "@/lib/historicalDates";
+import { Place } from "@/types/place";
+import { RouteCollection } from "@/types/route";
+
+export function toNumberOrder(v: string | number | undefined) {
+  if (typeof v === "number") return v;
+  if (typeof v === "string") {
+    const n = Number(v);
+    if (!Number.isNaN(n)) return n;
+  }
+  return undefined;
+}
+
+/** The lowest route order that starts or ends at each slug; routes without an order count by position. */
+export function routeOrderBySlug(routes: RouteCollection) {
+  const m = new Map<string, number>();
+  routes.features.forEach((f, idx) => {
+    const props = f.properties;
+    const ord = toNumberOrder(props?.order) ?? idx + 1;
+    if (!ord) return;
+    if (props?.fromSlug) {
+      const cur = m.get(props.fromSlug);
+      if (cur === undefined || ord < cur) m.set(props.fromSlug, ord);
+    }
+    if (props?.toSlug) {
+      const cur = m.get(props.toSlug);
+      if (cur === undefined || ord < cur) m.set(props.toSlug, ord);
+    }
+  });
+  return m;
+}
+
+/**
+ * Places in the order the journey visits them: by route order, then places
+ * without a route by date (see comparePlaceDates), then by title.
+ */
+export function sortPlacesByJourney(places: Place[], routes: RouteCollection) {
+  const routeOrderMap = routeOrderBySlug(routes);
+  const list = [...places];
+  list.sort((a, b) => {
+    const aOrd = a.slug ? routeOrderMap.get(a.slug) : undefined;
+    const bOrd = b.slug ? routeOrderMap.get(b.slug) : undefined;
+    if (aOrd !== undefined && bOrd !== undefined && aOrd !== bOrd) return aOrd - bOrd;
+    if (aOrd !== undefined && bOrd === undefined) return -1;
+    if (aOrd === undefined && bOrd !== undefined) return 1;
+
+    const byDate = comparePlaceDates(a, b);
+    if (byDate) return byDate;
+    return (a.title || "").localeCompare(b.title || "");
+  });
+  return list;
+}
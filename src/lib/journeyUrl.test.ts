@@ -0,0 +1,33 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+
+import { journeySearch, parseJourneyState } from "@/lib/journeyUrl";
+
+test("reads a shared link, with a 1-based step", () => {
+  assert.deepEqual(parseJourneyState("?step=12&view=mercator&tab=places&place=hue&at=105.8,21,5.5&speed=x2"), {
+    step: 11,
+    projection: "mercator",
+    tab: "places",
+    place: "hue",
+    camera: { center: [105.8, 21], zoom: 5.5 },
+    speed: "x2",
+  });
+  assert.deepEqual(parseJourneyState("?speed=1.5"), { speed: "custom", customSpeed: 1.5 });
+});
+
+test("ignores values that do not parse", () => {
+  assert.deepEqual(parseJourneyState("?step=0&view=flat&tab=admin&place=%20&at=200,0,3&speed=-1"), {});
+});
+
+test("writes only what differs from the defaults and reads back the same state", () => {
+  assert.equal(journeySearch({ step: 0, projection: "globe", tab: "journey", speed: "auto" }), "?step=1");
+  assert.equal(journeySearch({}), "");
+  const camera = { center: [105.84321, 21.02] as [number, number], zoom: 6 };
+  const search = journeySearch({ step: 3, projection: "mercator", camera });
+  assert.equal(search, "?step=4&view=mercator&at=105.8432,21.02,6");
+  assert.deepEqual(parseJourneyState(search), {
+    step: 3,
+    projection: "mercator",
+    camera: { center: [105.8432, 21.02], zoom: 6 },
+  });
+});
@@ -0,0 +1,88 @@
+export type JourneyTab = "places" | "journey" | "quiz";
+export type ProjectionMode = "globe" | "mercator";
+export type AutoSpeed = "auto" | "x2" | "x4" | "custom";
+
+/**
+ * The part of the map's state a shared link carries. Everything is optional:
+ * a missing field means the map's default.
+ */
+export type JourneyUrlState = {
+  /** Journey step, 0-based; absent before the journey starts. */
+  step?: number;
+  projection?: ProjectionMode;
+  tab?: JourneyTab;
+  /** Slug of the place open in the detail panel. */
+  place?: string;
+  camera?: { center: [number, number]; zoom: number };
+  speed?: AutoSpeed;
+  /** Autoplay speed factor when `speed` is "custom". */
+  customSpeed?: number;
+};
+
+const TABS: JourneyTab[] = ["places", "journey", "quiz"];
+const PRESET_SPEEDS: AutoSpeed[] = ["x2", "x4"];
+
+const round = (value: number, digits: number) => Number(value.toFixed(digits));
+
+function parseCamera(value: string | null) {
+  const parts = (value ?? "").split(",").map(Number);
+  if (parts.length !== 3 || parts.some((part) => !Number.isFinite(part))) return undefined;
+  const [lng, lat, zoom] = parts;
+  if (lng < -180 || lng > 180 || lat < -90 || lat > 90 || zoom < 0 || zoom > 22) return undefined;
+  return { center: [lng, lat] as [number, number], zoom };
+}
+
+/**
+ * Reads `?step=12&view=mercator&tab=places&place=<slug>&at=lng,lat,zoom&speed=x2`.
+ * `step` is 1-based in the URL; `speed` is x2, x4 or a custom factor. Values
+ * that do not parse are ignored.
+ */
+export function parseJourneyState(search: string | URLSearchParams): JourneyUrlState {
+  const params = typeof search === "string" ? new URLSearchParams(search) : search;
+  const state: JourneyUrlState = {};
+
+  const step = Number(params.get("step"));
+  if (Number.isInteger(step) && step >= 1) state.step = step - 1;
+
+  const view = params.get("view");
+  if (view === "globe" || view === "mercator") state.projection = view;
+
+  const tab = params.get("tab");
+  if (TABS.includes(tab as JourneyTab)) state.tab = tab as JourneyTab;
+
+  const place = params.get("place")?.trim();
+  if (place) state.place = place;
+
+  const camera = parseCamera(params.get("at"));
+  if (camera) state.camera = camera;
+
+  const speed = params.get("speed");
+  if (PRESET_SPEEDS.includes(speed as AutoSpeed)) {
+    state.speed = speed as AutoSpeed;
+  } else if (speed && Number.isFinite(Number(speed)) && Number(speed) > 0) {
+    state.speed = "custom";
+    state.customSpeed = Number(speed);
+  }
+
+  return state;
+}
+
+/** The query string for a state, leaving out defaults; "" when everything is default. */
+export function journeySearch(state: JourneyUrlState) {
+  const params = new URLSearchParams();
+  if (state.step !== undefined) params.set("step", String(state.step + 1));
+  if (state.projection === "mercator") params.set("view", "mercator");
+  if (state.tab && state.tab !== "journey") params.set("tab", state.tab);
+  if (state.place) params.set("place", state.place);
+  if (state.camera) {
+    const { center, zoom } = state.camera;
+    params.set("at", [round(center[0], 4), round(center[1], 4), round(zoom, 2)].join(","));
+  }
+  if (state.speed === "custom" && state.customSpeed) {
+    params.set("speed", String(round(state.customSpeed, 2)));
+  } else if (state.speed && state.speed !== "auto" && state.speed !== "custom") {
+    params.set("speed", state.speed);
+  }
+  const search = params.toString();
+  return search ? `?${search.replace(/%2C/g, ",")}` : "";
+}
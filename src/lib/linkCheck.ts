@@ -0,0 +1,170 @@
+import { promises as fs } from "fs";
+import path from "path";
+
+import { markdownImageUrls } from "@/lib/markdown";
+import { getEmbedVideoSrc, isVideoUrl, normalizeMediaUrl } from "@/lib/mediaUrls";
+import { readPlaces } from "@/lib/placeStore";
+import { Place } from "@/types/place";
+
+export type LinkIssueKind = "missing_file" | "malformed_url" | "unsupported_video" | "unreachable";
+
+export type LinkIssue = {
+  placeId?: string;
+  placeTitle: string;
+  field: string;
+  url: string;
+  kind: LinkIssueKind;
+  message: string;
+};
+
+export type LinkReport = {
+  ok: boolean;
+  /** Number of URLs looked at, counting repeats. */
+  checked: number;
+  /** Whether external URLs were requested; otherwise only their shape is checked. */
+  remoteChecked: boolean;
+  issues: LinkIssue[];
+};
+
+type LinkRole = "image" | "video" | "audio" | "source";
+
+type PlaceLink = { field: string; url: string; role: LinkRole };
+
+const PUBLIC_ROOT = path.join(process.cwd(), "public");
+const REMOTE_TIMEOUT_MS = 5000;
+const REMOTE_CONCURRENCY = 6;
+
+/** Every URL a place shows, with the field it came from. Images in Markdown count as their field. */
+function placeLinks(place: Place): PlaceLink[] {
+  const links: PlaceLink[] = [];
+  const add = (url: string | undefined, field: string, role: LinkRole) => {
+    if (typeof url === "string" && url.trim()) links.push({ field, url, role });
+  };
+  const media = place.media ?? {};
+  add(media.cover, "media.cover", "image");
+  media.gallery?.forEach((url, i) => add(url, `media.gallery[${i}]`, "image"));
+  media.images?.forEach((link, i) => add(link.url, `media.images[${i}].url`, "image"));
+  media.videos?.forEach((link, i) => add(link.url, `media.videos[${i}].url`, "video"));
+  add(media.audio, "media.audio", "audio");
+  markdownImageUrls(place.detailMarkdown ?? "").forEach((url) => add(url, "detailMarkdown", "image"));
+  place.stories?.forEach((story, i) => {
+    add(story.imageUrl, `stories[${i}].imageUrl`, "image");
+    markdownImageUrls(story.body ?? "").forEach((url) => add(url, `stories[${i}].body`, "image"));
+  });
+  place.sources?.forEach((citation, i) => add(citation.url, `sources[${i}].url`, "source"));
+  return links;
+}
+
+const isExternal = (url: string) => /^(https?:)?\/\//i.test(url);
+
+function parseExternal(url: string) {
+  try {
+    const parsed = new URL(url.startsWith("//") ? `https:${url}` : url);
+    return /^https?:$/.test(parsed.protocol) && parsed.hostname.includes(".") ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+async function localFileExists(url: string) {
+  let decoded = url.replace(/[?#].*$/, "");
+  try {
+    decoded = decodeURI(decoded);
+  } catch {
+    return false;
+  }
+  const filePath = path.resolve(PUBLIC_ROOT, `.${decoded}`);
+  if (!filePath.startsWith(`${PUBLIC_ROOT}${path.sep}`)) return false;
+  const stats = await fs.stat(filePath).catch(() => null);
+  return Boolean(stats?.isFile());
+}
+
+/** What is wrong with one link without leaving the machine, or null when it looks fine. */
+async function checkLink({ url, role }: PlaceLink): Promise<Pick<LinkIssue, "kind" | "message"> | null> {
+  // "https//..." or "http:/..." would otherwise be read as a file name in public/media.
+  if (/^https?[:/]/i.test(url.trim()) && !isExternal(url.trim())) {
+    return { kind: "malformed_url", message: "Not a valid web address" };
+  }
+  const normalized = normalizeMediaUrl(url) ?? url;
+  if (normalized.startsWith("blob:")) {
+    return { kind: "malformed_url", message: "Temporary browser URL; upload the file instead" };
+  }
+  if (normalized.startsWith("data:")) return null;
+  if (isExternal(normalized)) {
+    if (!parseExternal(normalized)) return { kind: "malformed_url", message: "Not a valid web address" };
+    if (role === "video" && !isVideoUrl(normalized) && !getEmbedVideoSrc(normalized)) {
+      return { kind: "unsupported_video", message: "Only YouTube, Vimeo or direct .mp4/.webm/.ogg links can be played" };
+    }
+    return null;
+  }
+  if (role === "source") return { kind: "malformed_url", message: "Not a valid web address" };
+  if (!(await localFileExists(normalized))) {
+    return { kind: "missing_file", message: `No file at public${normalized}` };
+  }
+  if (role === "video" && !isVideoUrl(normalized)) {
+    return { kind: "unsupported_video", message: "Local videos must be .mp4, .webm or .ogg" };
+  }
+  return null;
+}
+
+async function fetchStatus(url: string, method: "HEAD" | "GET") {
+  const res = await fetch(url, { method, redirect: "follow", signal: AbortSignal.timeout(REMOTE_TIMEOUT_MS) });
+  await res.body?.cancel();
+  return res.status;
+}
+
+// Some servers reject HEAD, so a failed HEAD is retried as GET before giving up.
+async function probeRemote(url: string): Promise<string | null> {
+  try {
+    const status = await fetchStatus(url, "HEAD").catch(() => 0);
+    const finalStatus = status > 0 && status < 400 ? status : await fetchStatus(url, "GET");
+    return finalStatus < 400 ? null : `The server answered ${finalStatus}`;
+  } catch (err) {
+    return err instanceof Error && err.name === "TimeoutError" ? "No answer within 5 seconds" : "Could not connect";
+  }
+}
+
+async function probeAll(urls: string[]) {
+  const results = new Map<string, string | null>();
+  const queue = [...urls];
+  const worker = async () => {
+    for (let url = queue.shift(); url; url = queue.shift()) {
+      results.set(url, await probeRemote(url));
+    }
+  };
+  await Promise.all(Array.from({ length: REMOTE_CONCURRENCY }, worker));
+  return results;
+}
+
+/**
+ * Checks every media field and source of every place. With `remote` the
+ * external URLs are also requested (each distinct URL once).
+ */
+export async function checkPlaceLinks({ remote = false } = {}): Promise<LinkReport> {
+  const { places } = await readPlaces();
+  const entries = places.flatMap((place) => placeLinks(place).map((link) => ({ place, link })));
+  const issues: LinkIssue[] = [];
+  const remoteTargets: { place: Place; link: PlaceLink; url: string }[] = [];
+
+  for (const { place, link } of entries) {
+    const problem = await checkLink(link);
+    if (problem) {
+      issues.push({ placeId: place.id, placeTitle: place.title, field: link.field, url: link.url, ...problem });
+      continue;
+    }
+    const parsed = isExternal(link.url) ? parseExternal(link.url) : null;
+    if (remote && parsed) remoteTargets.push({ place, link, url: parsed.href });
+  }
+
+  if (remote) {
+    const results = await probeAll(Array.from(new Set(remoteTargets.map((target) => target.url))));
+    remoteTargets.forEach(({ place, link, url }) => {
+      const message = results.get(url);
+      if (message) {
+        issues.push({ placeId: place.id, placeTitle: place.title, field: link.field, url: link.url, kind: "unreachable", message });
+      }
+    });
+  }
+
+  return { ok: issues.length === 0, checked: entries.length, remoteChecked: remote, issues };
+}
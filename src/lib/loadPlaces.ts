@@ -1,56 +1,67 @@
 import fs from "fs/promises";
-import path from "path";
+import { unstable_cache } from "next/cache";
 
-import { Place } from "@/types/place";
+import { dataCacheTag } from "@/lib/dataCache";
+import { dataFilePaths } from "@/lib/dataStore";
+import { normalizeMediaUrl } from "@/lib/mediaUrls";
+import { migratePlaces, PLACE_SCHEMA_VERSION } from "@/lib/migratePlace";
+import { validatePlaces } from "@/lib/placeSchema";
+import { MediaLink, Place } from "@/types/place";
 
-function normalizeMediaUrl(value: unknown): string | undefined {
-  if (typeof value !== "string" || !value.trim()) return undefined;
-  const url = value.trim();
-  if (/^(https?:)?\/\//i.test(url) || url.startsWith("data:") || url.startsWith("blob:")) return url;
-  if (url.startsWith("/")) return url;
-  return `/media/${url}`;
+function normalizeLink(link: MediaLink): MediaLink {
+  return { ...link, url: normalizeMediaUrl(link.url) ?? link.url };
 }
 
-function normalizePlaceMedia(place: any): Place {
-  if (!place || typeof place !== "object") return place as Place;
+function normalizePlaceMedia(place: Place): Place {
   const media = place.media ?? {};
-  const normalized = {
+  return {
     ...place,
     media: {
       ...media,
       cover: normalizeMediaUrl(media.cover) ?? media.cover,
-      gallery: Array.isArray(media.gallery)
-        ? media.gallery.map((item: unknown) => normalizeMediaUrl(item) || item).filter(Boolean)
+      gallery: media.gallery
+        ? media.gallery.map((item) => normalizeMediaUrl(item) || item).filter(Boolean)
         : media.gallery,
-      images: Array.isArray(media.images)
-        ? media.images.map((img: any) => ({
-            ...img,
-            url: normalizeMediaUrl(img?.url) ?? img?.url,
-          }))
-        : media.images,
-      videos: Array.isArray(media.videos)
-        ? media.videos.map((vid: any) => ({
-            ...vid,
-            url: normalizeMediaUrl(vid?.url) ?? vid?.url,
-          }))
-        : media.videos,
+      images: media.images ? media.images.map(normalizeLink) : media.images,
+      videos: media.videos ? media.videos.map(normalizeLink) : media.videos,
+      audio: normalizeMediaUrl(media.audio) ?? media.audio,
     },
+    stories: place.stories
+      ? place.stories.map((story) => ({ ...story, imageUrl: normalizeMediaUrl(story.imageUrl) ?? story.imageUrl }))
+      : place.stories,
   };
-  return normalized as Place;
 }
 
+async function readPublishedPlaces(): Promise<Place[]> {
+  const content = await fs.readFile(dataFilePaths.places, "utf-8");
+  const normalized = content.startsWith("\ufeff") ? content.slice(1) : content;
+  const parsed = migratePlaces(JSON.parse(normalized));
+  if (!Array.isArray(parsed)) return [];
+  const { places, issues } = validatePlaces(parsed);
+  if (issues.length > 0) {
+    console.warn("Skipping invalid records in places.json", JSON.stringify(issues, null, 2));
+  }
+  const invalid = new Set(issues.map((issue) => issue.index));
+  return places.filter((_, index) => !invalid.has(index)).map(normalizePlaceMedia);
+}
+
+// Kept until a save expires the tag (see revalidateData), so public pages can be served statically.
+// The schema version is part of the key so a cache written before a migration is not served after it.
+const cachedPlaces = unstable_cache(readPublishedPlaces, ["published-places", String(PLACE_SCHEMA_VERSION)], {
+  tags: [dataCacheTag("places")],
+});
+
 export async function loadPlaces(): Promise<Place[]> {
   try {
-    const filePath = path.join(process.cwd(), "src", "data", "places.json");
-    const content = await fs.readFile(filePath, "utf-8");
-    const normalized = content.startsWith("\ufeff") ? content.slice(1) : content;
-    const parsed = JSON.parse(normalized);
-    if (Array.isArray(parsed)) {
-      return parsed.map((item) => normalizePlaceMedia(item));
-    }
-    return [];
+    return await cachedPlaces();
   } catch (error) {
+    // Failed reads are not cached, so the next request tries the file again.
     console.error("Failed to read places.json", error);
     return [];
   }
 }
+
+/** The places that have a page at /places/<slug>; a place without a slug has none. */
+export async function loadPlacesWithSlug() {
+  return (await loadPlaces()).filter((place): place is Place & { slug: string } => Boolean(place.slug));
+}
@@ -0,0 +1,32 @@
+import fs from "fs/promises";
+import { unstable_cache } from "next/cache";
+
+import { dataCacheTag } from "@/lib/dataCache";
+import { dataFilePaths } from "@/lib/dataStore";
+import { migrateQuiz } from "@/lib/migrateQuiz";
+import { validateQuiz } from "@/lib/quizSchema";
+import { QuizQuestion } from "@/types/quiz";
+
+async function readPublishedQuiz(): Promise<QuizQuestion[]> {
+  const content = await fs.readFile(dataFilePaths.quiz, "utf-8");
+  const parsed = migrateQuiz(JSON.parse(content.startsWith("\ufeff") ? content.slice(1) : content));
+  if (!Array.isArray(parsed)) return [];
+  const { questions, issues } = validateQuiz(parsed);
+  if (issues.length > 0) {
+    console.warn(`Skipping ${issues.length} invalid question(s) in quiz.json`, JSON.stringify(issues, null, 2));
+  }
+  const invalid = new Set(issues.map((issue) => issue.index));
+  return questions.filter((_, index) => !invalid.has(index));
+}
+
+// Kept until a save through /api/quiz expires the tag (see revalidateData).
+const cachedQuiz = unstable_cache(readPublishedQuiz, ["published-quiz"], { tags: [dataCacheTag("quiz")] });
+
+export async function loadQuiz(): Promise<QuizQuestion[]> {
+  try {
+    return await cachedQuiz();
+  } catch (error) {
+    console.error("Failed to read quiz.json", error);
+    return [];
+  }
+}
@@ -0,0 +1,29 @@
+import { unstable_cache } from "next/cache";
+
+import { dataCacheTag } from "@/lib/dataCache";
+import { validateRoute } from "@/lib/routeSchema";
+import { readRoutes } from "@/lib/routeStore";
+import { RouteCollection } from "@/types/route";
+
+async function readPublishedRoutes(): Promise<RouteCollection> {
+  const { routes } = await readRoutes();
+  // Features with a broken line still carry the order of their places, so they are reported but kept.
+  const invalid = routes.features
+    .map((feature) => ({ fid: feature.properties?.fid, errors: validateRoute(feature) }))
+    .filter((item) => item.errors.length > 0);
+  if (invalid.length > 0) {
+    console.warn(`routes.json has ${invalid.length} feature(s) with problems`, JSON.stringify(invalid));
+  }
+  return routes;
+}
+
+const cachedRoutes = unstable_cache(readPublishedRoutes, ["published-routes"], { tags: [dataCacheTag("routes")] });
+
+export async function loadRoutes(): Promise<RouteCollection> {
+  try {
+    return await cachedRoutes();
+  } catch (error) {
+    console.error("Failed to read routes.json", error);
+    return { type: "FeatureCollection", features: [] };
+  }
+}
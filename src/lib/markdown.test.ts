@@ -0,0 +1,32 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+
+import { mapMarkdownImages, markdownImageUrls } from "@/lib/markdown";
+
+const text = [
+  'Intro ![a.jpg](a.jpg "a.jpg") and ![x](</media/b c.jpg>)',
+  "",
+  "![r][one] and a [link](a.jpg), not an image",
+  "",
+  "[one]: /media/data.jpg",
+  "",
+  "`![code](a.jpg)`",
+].join("\n");
+
+test("finds inline, angle-bracketed and reference images only", () => {
+  assert.deepEqual(markdownImageUrls(text), ["a.jpg", "/media/b c.jpg", "/media/data.jpg"]);
+});
+
+test("rewrites only the image destination and leaves the rest untouched", () => {
+  const next = mapMarkdownImages(text, (url) => (url === "a.jpg" ? "/media/new (1).jpg" : undefined));
+  assert.equal(
+    next,
+    text.replace('![a.jpg](a.jpg "a.jpg")', '![a.jpg](/media/new%20%281%29.jpg "a.jpg")'),
+  );
+  assert.equal(mapMarkdownImages(text, () => undefined), text);
+});
+
+test("rewrites the definition a reference image points at", () => {
+  const next = mapMarkdownImages(text, (url) => (url === "/media/data.jpg" ? "/media/renamed.jpg" : undefined));
+  assert.match(next, /^\[one\]: \/media\/renamed\.jpg$/m);
+});
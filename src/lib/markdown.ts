@@ -0,0 +1,225 @@
+import type { Element, Root as HastRoot } from "hast";
+import type { Definition, Image, ImageReference, PhrasingContent, Root as MdastRoot } from "mdast";
+import rehypeSanitize, { defaultSchema } from "rehype-sanitize";
+import rehypeStringify from "rehype-stringify";
+import remarkBreaks from "remark-breaks";
+import remarkGfm from "remark-gfm";
+import remarkParse from "remark-parse";
+import remarkRehype from "remark-rehype";
+import { unified } from "unified";
+import { visit } from "unist-util-visit";
+
+import { formatCitation, resolveCitation } from "@/lib/citations";
+import { normalizeMediaUrl } from "@/lib/mediaUrls";
+import { Citation } from "@/types/place";
+
+export type MarkdownOptions = {
+  /** The place's citations; `[@id]` cites one by id, `[@n]` the nth (1-based). */
+  sources?: Citation[];
+  /**
+   * When the page lists the sources with ids `${sourceAnchorPrefix}${citation.id}`,
+   * markers jump there. Otherwise a marker links straight to the citation's URL.
+   */
+  sourceAnchorPrefix?: string;
+  /** Keeps footnote ids apart when several documents share a page, e.g. `story-2-`. */
+  idPrefix?: string;
+};
+
+/** `[@duiker2000]` cites the citation with that id; see resolveCitation. */
+const CITATION_MARKER = /\[@([A-Za-z0-9][\w.:-]*)\]/g;
+
+const CLASS_BY_TAG: Record<string, string> = {
+  h1: "mt-3 text-lg font-semibold text-slate-900",
+  h2: "mt-3 text-lg font-semibold text-slate-900",
+  h3: "mt-3 text-base font-semibold text-slate-800",
+  h4: "mt-3 text-sm font-semibold text-slate-700",
+  h5: "mt-3 text-sm font-semibold text-slate-700",
+  h6: "mt-3 text-sm font-semibold text-slate-700",
+  p: "my-2",
+  blockquote: "my-2 border-l-2 border-slate-300 pl-3 italic text-slate-600",
+  ul: "my-2 list-disc space-y-1 pl-5",
+  ol: "my-2 list-decimal space-y-1 pl-5",
+  a: "font-semibold text-[#991B1B] underline underline-offset-2",
+  img: "my-2 h-auto max-w-full rounded-md",
+  code: "rounded bg-slate-100 px-1 font-mono text-[0.9em]",
+  pre: "my-2 overflow-x-auto rounded-md bg-slate-100 p-3",
+  hr: "my-4 border-slate-200",
+  table: "my-2 w-full border-collapse text-left text-sm",
+  th: "border border-slate-200 bg-slate-50 px-2 py-1 font-semibold",
+  td: "border border-slate-200 px-2 py-1",
+  section: "mt-4 border-t border-slate-200 pt-2 text-xs text-slate-600",
+};
+
+const CITATION_CLASS = "align-super text-[0.7em] font-semibold text-[#991B1B] no-underline";
+const MISSING_CITATION_CLASS = "rounded bg-amber-100 px-1 text-amber-800";
+
+const isWebUrl = (value: string) => /^(https?:)?\/\//i.test(value.trim());
+
+/** Replaces `[@id]` in text with a numbered citation link, or a flagged marker when nothing matches. */
+function remarkCitations(options: MarkdownOptions) {
+  return (tree: MdastRoot) => {
+    visit(tree, "text", (node, index, parent) => {
+      if (!parent || index === undefined || !CITATION_MARKER.test(node.value)) return;
+      CITATION_MARKER.lastIndex = 0;
+      const parts: PhrasingContent[] = [];
+      let last = 0;
+      for (const match of node.value.matchAll(CITATION_MARKER)) {
+        const start = match.index ?? 0;
+        if (start > last) parts.push({ type: "text", value: node.value.slice(last, start) });
+        const key = match[1];
+        const resolved = resolveCitation(options.sources, key);
+        if (!resolved) {
+          parts.push({
+            type: "emphasis",
+            data: {
+              hName: "span",
+              hProperties: { dataCitation: key, dataMissing: true, title: `Khong co nguon "${key}"` },
+            },
+            children: [{ type: "text", value: match[0] }],
+          });
+        } else {
+          const { citation, number } = resolved;
+          const url = citation.url?.trim();
+          const href = options.sourceAnchorPrefix
+            ? `#${options.sourceAnchorPrefix}${citation.id}`
+            : url && isWebUrl(url)
+              ? url
+              : undefined;
+          parts.push({
+            type: href ? "link" : "emphasis",
+            url: href ?? "",
+            title: formatCitation(citation),
+            data: { hName: href ? "a" : "span", hProperties: { dataCitation: citation.id } },
+            children: [{ type: "text", value: `[${number}]` }],
+          } as PhrasingContent);
+        }
+        last = start + match[0].length;
+      }
+      if (last < node.value.length) parts.push({ type: "text", value: node.value.slice(last) });
+      parent.children.splice(index, 1, ...parts);
+      return index + parts.length;
+    });
+  };
+}
+
+// Runs after sanitizing, so the classes and link attributes it adds are our own.
+function rehypePresentation(prefix: string) {
+  return (tree: HastRoot) => {
+    visit(tree, "element", (node: Element) => {
+      const props = node.properties;
+      // remark-rehype gives the footnote heading a fixed id; prefix it like the other footnote ids.
+      if (props.id === "footnote-label") props.id = `${prefix}footnote-label`;
+      if (Array.isArray(props.ariaDescribedBy) && props.ariaDescribedBy.includes("footnote-label")) {
+        props.ariaDescribedBy = [`${prefix}footnote-label`];
+      }
+      const existing = Array.isArray(props.className) ? props.className.map(String) : [];
+      const base = CLASS_BY_TAG[node.tagName];
+      if (props.dataCitation !== undefined) {
+        props.className = (props.dataMissing ? MISSING_CITATION_CLASS : CITATION_CLASS).split(" ");
+      } else if (node.tagName === "code" && existing.length > 0) {
+        // Fenced code keeps its language class; the <pre> around it carries the styling.
+      } else if (base) {
+        props.className = [...base.split(" "), ...existing];
+      }
+      if (node.tagName === "img" && typeof props.src === "string") {
+        props.src = normalizeMediaUrl(props.src) ?? props.src;
+        props.loading = "lazy";
+      }
+      if (node.tagName === "a" && typeof props.href === "string" && isWebUrl(props.href)) {
+        props.target = "_blank";
+        props.rel = ["noopener", "noreferrer"];
+      }
+    });
+  };
+}
+
+// The default GitHub schema, plus the data attributes citation markers use. Ids
+// are already prefixed by remark-rehype, so sanitizing must not prefix them again.
+const sanitizeSchema = {
+  ...defaultSchema,
+  clobberPrefix: "",
+  attributes: {
+    ...defaultSchema.attributes,
+    a: [...(defaultSchema.attributes?.a ?? []), "dataCitation"],
+    span: [...(defaultSchema.attributes?.span ?? []), "dataCitation", "dataMissing"],
+  },
+};
+
+// Where a link destination starts: after `](` of an image or `]:` of a definition,
+// optionally inside angle brackets.
+const DESTINATION_BEFORE: Record<"image" | "definition", RegExp> = {
+  image: /\]\(\s*<?$/,
+  definition: /\]:\s*<?$/,
+};
+
+/** Spaces and brackets would end the destination early, so a new URL writes them escaped. */
+const escapeDestination = (url: string) =>
+  url.replace(/[\s()<>]/g, (char) => `%${char.charCodeAt(0).toString(16).toUpperCase().padStart(2, "0")}`);
+
+/**
+ * Calls `visitImage` for the URL of every image in the Markdown, including
+ * `![alt][ref]` through its definition. When it returns a string that URL is
+ * rewritten in place and the rest of the text is left exactly as it was.
+ * Parses like renderMarkdown, so it sees the same images the page shows.
+ */
+export function mapMarkdownImages(input: string, visitImage: (url: string) => string | void) {
+  const tree = unified().use(remarkParse).use(remarkGfm).parse(input);
+  const imageRefs = new Set<string>();
+  visit(tree, "imageReference", (node: ImageReference) => {
+    imageRefs.add(node.identifier);
+  });
+  const edits: { start: number; end: number; url: string }[] = [];
+  const onImage = (node: Image | Definition) => {
+    if (!node.url) return;
+    const next = visitImage(node.url);
+    const start = node.position?.start.offset;
+    const end = node.position?.end.offset;
+    if (typeof next !== "string" || next === node.url || start === undefined || end === undefined) return;
+    const source = input.slice(start, end);
+    for (let at = source.indexOf(node.url); at !== -1; at = source.indexOf(node.url, at + 1)) {
+      if (DESTINATION_BEFORE[node.type].test(source.slice(0, at))) {
+        edits.push({ start: start + at, end: start + at + node.url.length, url: escapeDestination(next) });
+        return;
+      }
+    }
+  };
+  visit(tree, "image", onImage);
+  visit(tree, "definition", (node: Definition) => {
+    if (imageRefs.has(node.identifier)) onImage(node);
+  });
+  return edits
+    .sort((a, b) => b.start - a.start)
+    .reduce((text, edit) => `${text.slice(0, edit.start)}${edit.url}${text.slice(edit.end)}`, input);
+}
+
+/** The image URLs in the Markdown, in the order the walk finds them. */
+export function markdownImageUrls(input: string) {
+  const urls: string[] = [];
+  mapMarkdownImages(input, (url) => {
+    urls.push(url);
+  });
+  return urls;
+}
+
+/**
+ * Renders editor Markdown (GitHub flavoured: links, numbered and nested lists,
+ * tables, footnotes, images) to sanitized HTML for `dangerouslySetInnerHTML`.
+ * A single newline is a line break and raw HTML in the input is dropped. Bare
+ * image names resolve to public/media like the other media fields, and `[@id]`
+ * cites one of the place's sources.
+ */
+export function renderMarkdown(input: string, options: MarkdownOptions = {}) {
+  const prefix = `${options.idPrefix ?? ""}md-`;
+  const file = unified()
+    .use(remarkParse)
+    .use(remarkGfm)
+    // Editors end lines with a single Enter and expect the break to show.
+    .use(remarkBreaks)
+    .use(remarkCitations, options)
+    .use(remarkRehype, { clobberPrefix: prefix, footnoteLabel: "Chu thich", footnoteBackLabel: "Quay lai" })
+    .use(rehypeSanitize, sanitizeSchema)
+    .use(rehypePresentation, prefix)
+    .use(rehypeStringify)
+    .processSync(input || "");
+  return String(file);
+}
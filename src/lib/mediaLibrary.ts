@@ -0,0 +1,291 @@
+import { promises as fs } from "fs";
+import path from "path";
+
+import { SaveMeta, updateDataFile } from "@/lib/dataStore";
+import { mapMarkdownImages } from "@/lib/markdown";
+import { migratePlaces } from "@/lib/migratePlace";
+import { readPlaces } from "@/lib/placeStore";
+import { StoreError } from "@/lib/storeError";
+import { Place } from "@/types/place";
+
+export type MediaAssetKind = "image" | "video" | "audio" | "other";
+
+export type MediaReference = {
+  placeId?: string;
+  placeTitle: string;
+  /** Dotted path of the field holding the URL, e.g. `media.images[2].url` or `stories[0].body` for a Markdown image. */
+  field: string;
+};
+
+export type MediaAsset = {
+  /** Path below public/media, always with forward slashes. */
+  path: string;
+  url: string;
+  name: string;
+  folder: string;
+  kind: MediaAssetKind;
+  size: number;
+  modifiedAt: string;
+  references: MediaReference[];
+  /** The file name appears in the site's source, e.g. a map icon. */
+  usedInCode: boolean;
+  /** Set for uploaded images that have a generated thumbnail. */
+  thumbnailUrl?: string;
+};
+
+const MEDIA_ROOT = path.join(process.cwd(), "public", "media");
+const SOURCE_ROOT = path.join(process.cwd(), "src");
+// Generated from uploads; they are listed through the image they belong to.
+const THUMBS_FOLDER = "uploads/images/thumbs";
+
+const KIND_BY_EXTENSION: Record<string, MediaAssetKind> = {
+  jpg: "image",
+  jpeg: "image",
+  png: "image",
+  gif: "image",
+  webp: "image",
+  avif: "image",
+  svg: "image",
+  mp4: "video",
+  mov: "video",
+  webm: "video",
+  mp3: "audio",
+  m4a: "audio",
+  wav: "audio",
+  ogg: "audio",
+  flac: "audio",
+};
+
+const kindOf = (name: string) => KIND_BY_EXTENSION[path.extname(name).slice(1).toLowerCase()] ?? "other";
+
+const toUrl = (relPath: string) => `/media/${relPath}`;
+
+/**
+ * The file below public/media a stored URL points at, or null for external
+ * links. Bare file names count as /media/<name>, like loadPlaces treats them.
+ */
+export function mediaPathFromUrl(url: string): string | null {
+  const trimmed = url.trim().replace(/\\/g, "/").replace(/[?#].*$/, "");
+  if (!trimmed || /^(https?:)?\/\//i.test(trimmed) || /^(data|blob):/i.test(trimmed)) return null;
+  let decoded = trimmed;
+  try {
+    decoded = decodeURI(trimmed);
+  } catch {
+    // Keep the raw value; a stray % is more likely part of the name than an escape.
+  }
+  if (decoded.startsWith("/media/")) return decoded.slice("/media/".length);
+  if (decoded.startsWith("/")) return null;
+  return decoded;
+}
+
+/**
+ * Calls `visit` for every media URL a place stores, including images in its
+ * Markdown. When `visit` returns a string the URL is replaced, so the same walk
+ * serves lookups and renames.
+ */
+function mapPlaceMedia(place: Place, visit: (url: string, field: string) => string | void): Place {
+  const swap = (value: string | undefined, field: string) => (value ? (visit(value, field) ?? value) : value);
+  const swapMarkdown = (text: string | undefined, field: string) =>
+    text ? mapMarkdownImages(text, (url) => visit(url, field)) : text;
+  const media = place.media;
+  const next: Place = { ...place };
+  if (media) {
+    next.media = {
+      ...media,
+      cover: swap(media.cover, "media.cover"),
+      gallery: media.gallery?.map((url, i) => swap(url, `media.gallery[${i}]`) as string),
+      images: media.images?.map((link, i) => ({
+        ...link,
+        url: swap(link.url, `media.images[${i}].url`),
+        thumbnailUrl: swap(link.thumbnailUrl, `media.images[${i}].thumbnailUrl`),
+      })),
+      videos: media.videos?.map((link, i) => ({ ...link, url: swap(link.url, `media.videos[${i}].url`) })),
+      audio: swap(media.audio, "media.audio"),
+    };
+  }
+  if (place.detailMarkdown) next.detailMarkdown = swapMarkdown(place.detailMarkdown, "detailMarkdown");
+  if (place.stories) {
+    next.stories = place.stories.map((story, i) => ({
+      ...story,
+      imageUrl: swap(story.imageUrl, `stories[${i}].imageUrl`),
+      body: swapMarkdown(story.body, `stories[${i}].body`),
+    }));
+  }
+  return next;
+}
+
+function referencesByPath(places: Place[]) {
+  const refs = new Map<string, MediaReference[]>();
+  places.forEach((place) => {
+    mapPlaceMedia(place, (url, field) => {
+      const relPath = mediaPathFromUrl(url);
+      if (!relPath) return;
+      refs.set(relPath, [...(refs.get(relPath) ?? []), { placeId: place.id, placeTitle: place.title, field }]);
+    });
+  });
+  return refs;
+}
+
+async function walk(dir: string, prefix = ""): Promise<string[]> {
+  const entries = await fs.readdir(dir, { withFileTypes: true }).catch(() => []);
+  const nested = await Promise.all(
+    entries.map(async (entry) => {
+      const relPath = prefix ? `${prefix}/${entry.name}` : entry.name;
+      if (entry.isDirectory()) return relPath === THUMBS_FOLDER ? [] : walk(path.join(dir, entry.name), relPath);
+      return entry.isFile() ? [relPath] : [];
+    }),
+  );
+  return nested.flat();
+}
+
+// The components refer to a few files (map icons) by name; they must not look unused.
+async function readSourceText() {
+  const files = (await walk(SOURCE_ROOT)).filter((file) => /\.(tsx?|css)$/.test(file));
+  const texts = await Promise.all(files.map((file) => fs.readFile(path.join(SOURCE_ROOT, file), "utf8")));
+  return texts.join("\n");
+}
+
+// A name only counts on its own, so "a.jpg" is not found inside "data.jpg".
+const mentionsFile = (sourceText: string, name: string) =>
+  new RegExp(`(?<![\\w.-])${name.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}(?![\\w.-])`).test(sourceText);
+
+/** Resolves a library path and refuses anything that escapes public/media. */
+function resolveMediaPath(relPath: string) {
+  const resolved = path.resolve(MEDIA_ROOT, relPath);
+  if (!resolved.startsWith(`${MEDIA_ROOT}${path.sep}`)) {
+    throw new StoreError(400, "Path is outside the media folder", { code: "invalid_path" });
+  }
+  return resolved;
+}
+
+async function statAsset(relPath: string, refs: Map<string, MediaReference[]>, sourceText: string): Promise<MediaAsset> {
+  const stats = await fs.stat(resolveMediaPath(relPath));
+  const name = path.posix.basename(relPath);
+  const folder = path.posix.dirname(relPath);
+  const thumbPath = `${THUMBS_FOLDER}/${path.posix.basename(name, path.extname(name))}.webp`;
+  const hasThumbnail =
+    folder === "uploads/images" && Boolean(await fs.stat(resolveMediaPath(thumbPath)).catch(() => null));
+  return {
+    path: relPath,
+    url: toUrl(relPath),
+    name,
+    folder: folder === "." ? "" : folder,
+    kind: kindOf(name),
+    size: stats.size,
+    modifiedAt: stats.mtime.toISOString(),
+    references: refs.get(relPath) ?? [],
+    usedInCode: mentionsFile(sourceText, name),
+    thumbnailUrl: hasThumbnail ? toUrl(thumbPath) : undefined,
+  };
+}
+
+export async function listMediaAssets(): Promise<MediaAsset[]> {
+  const [files, { places }, sourceText] = await Promise.all([walk(MEDIA_ROOT), readPlaces(), readSourceText()]);
+  const refs = referencesByPath(places);
+  const assets = await Promise.all(files.map((file) => statAsset(file, refs, sourceText)));
+  return assets.sort((a, b) => a.path.localeCompare(b.path));
+}
+
+async function loadAsset(relPath: string) {
+  const filePath = resolveMediaPath(relPath);
+  const stats = await fs.stat(filePath).catch(() => null);
+  if (!stats?.isFile()) throw new StoreError(404, "File not found", { code: "not_found" });
+  const [{ places }, sourceText] = await Promise.all([readPlaces(), readSourceText()]);
+  return { filePath, asset: await statAsset(relPath, referencesByPath(places), sourceText) };
+}
+
+const SAFE_NAME = /^[\p{L}\p{N}][\p{L}\p{N} ._()-]*$/u;
+
+/**
+ * Renames a file in place, with its thumbnail, and rewrites every place field that
+ * pointed at either. The extension is kept so the file type cannot change by accident.
+ */
+export async function renameMediaAsset(relPath: string, newName: string, meta: SaveMeta) {
+  const { asset } = await loadAsset(relPath);
+  const extension = path.extname(asset.name);
+  const trimmed = newName.trim();
+  const name = path.extname(trimmed) ? trimmed : `${trimmed}${extension}`;
+  if (!SAFE_NAME.test(name) || name.length > 120) {
+    throw new StoreError(400, "Use letters, digits, spaces, dots, dashes, underscores or brackets", {
+      code: "invalid_name",
+      field: "name",
+    });
+  }
+  if (path.extname(name).toLowerCase() !== extension.toLowerCase()) {
+    throw new StoreError(400, `The extension must stay ${extension}`, { code: "invalid_name", field: "name" });
+  }
+  if (asset.usedInCode) {
+    throw new StoreError(409, "The site's code refers to this file by name", { code: "used_in_code" });
+  }
+  if (name === asset.name) return { asset, updatedPlaces: [] as string[] };
+
+  const nextPath = asset.folder ? `${asset.folder}/${name}` : name;
+  // An uploaded image's thumbnail is named after it, so it moves along.
+  const thumbPath = asset.thumbnailUrl?.slice("/media/".length);
+  const nextThumbPath = thumbPath && `${THUMBS_FOLDER}/${path.posix.basename(name, extension)}.webp`;
+  const moves: [string, string][] = [[relPath, nextPath]];
+  if (thumbPath && nextThumbPath) moves.push([thumbPath, nextThumbPath]);
+  const renamedPaths = new Map(moves);
+
+  // The move runs in the places save queue, so no other save can slip in between it and the rewrite.
+  const { result: updatedPlaces } = await updateDataFile(
+    "places",
+    async (current) => {
+      const taken = await Promise.all(moves.map(([, to]) => fs.stat(resolveMediaPath(to)).catch(() => null)));
+      if (taken.some(Boolean)) {
+        throw new StoreError(409, `A file named "${name}" already exists`, { code: "name_taken", field: "name" });
+      }
+      const list = migratePlaces(current);
+      const places = Array.isArray(list) ? (list as Place[]) : [];
+      const changed = new Set<string>();
+      const content = places.map((place) =>
+        mapPlaceMedia(place, (url) => {
+          const target = renamedPaths.get(mediaPathFromUrl(url) ?? "");
+          if (!target) return;
+          changed.add(place.id ?? place.title);
+          return toUrl(target);
+        }),
+      );
+      await moveFiles(moves);
+      // Put the files back if the places cannot be saved, so the old names keep working.
+      const rollback = () => moveFiles(moves.map(([from, to]): [string, string] => [to, from]));
+      return changed.size > 0 ? { content, result: Array.from(changed), rollback } : { content: current, result: [] };
+    },
+    { ...meta, summary: `Renamed media ${relPath} to ${nextPath}` },
+  );
+
+  const { places } = await readPlaces();
+  const renamed = await statAsset(nextPath, referencesByPath(places), "");
+  return { asset: renamed, updatedPlaces };
+}
+
+/** Renames each pair of library paths in turn; when one fails, the ones already moved go back. */
+async function moveFiles(moves: [string, string][]) {
+  const done: [string, string][] = [];
+  try {
+    for (const [from, to] of moves) {
+      await fs.rename(resolveMediaPath(from), resolveMediaPath(to));
+      done.push([from, to]);
+    }
+  } catch (err) {
+    await Promise.all(done.map(([from, to]) => fs.rename(resolveMediaPath(to), resolveMediaPath(from)).catch(() => undefined)));
+    throw err;
+  }
+}
+
+/** Deletes a file nobody uses; a referenced file is refused with the list of references. */
+export async function deleteMediaAsset(relPath: string) {
+  const { filePath, asset } = await loadAsset(relPath);
+  if (asset.references.length > 0 || asset.usedInCode) {
+    throw new StoreError(409, "The file is still in use", {
+      code: "in_use",
+      references: asset.references,
+      usedInCode: asset.usedInCode,
+    });
+  }
+  await fs.unlink(filePath);
+  if (asset.thumbnailUrl) {
+    await fs.unlink(resolveMediaPath(asset.thumbnailUrl.slice("/media/".length))).catch(() => undefined);
+  }
+  return asset;
+}
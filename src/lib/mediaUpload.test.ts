@@ -0,0 +1,14 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+
+import { sniffMediaType } from "@/lib/mediaUpload";
+
+const isoFile = (brand: string) => Buffer.concat([Buffer.from([0, 0, 0, 0x18]), Buffer.from(`ftyp${brand}`, "latin1")]);
+
+test("accepts MP4 brands as video", () => {
+  ["isom", "mp42", "M4V "].forEach((brand) => assert.equal(sniffMediaType(isoFile(brand))?.mime, "video/mp4", brand));
+});
+
+test("refuses HEIC photos and 3GP instead of calling them MP4", () => {
+  ["heic", "heix", "mif1", "msf1", "3gp4"].forEach((brand) => assert.equal(sniffMediaType(isoFile(brand)), null, brand));
+});
@@ -0,0 +1,195 @@
+import { createHash } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+import sharp from "sharp";
+
+import { StoreError } from "@/lib/storeError";
+
+export type MediaKind = "image" | "video" | "audio";
+
+export type UploadedMedia = {
+  url: string;
+  kind: MediaKind;
+  mime: string;
+  size: number;
+  hash: string;
+  /** True when the same bytes were uploaded before; the existing file is reused. */
+  duplicate: boolean;
+  width?: number;
+  height?: number;
+  thumbnailUrl?: string;
+};
+
+type SniffedType = { kind: MediaKind; mime: string; ext: string };
+
+/** Largest accepted upload per kind, in bytes. */
+export const UPLOAD_LIMITS: Record<MediaKind, number> = {
+  image: 10 * 1024 * 1024,
+  video: 200 * 1024 * 1024,
+  audio: 30 * 1024 * 1024,
+};
+
+const FOLDERS: Record<MediaKind, string> = {
+  image: "uploads/images",
+  video: "uploads/videos",
+  audio: "uploads/audio",
+};
+
+const THUMBNAIL_WIDTH = 320;
+
+export const isMediaKind = (value: unknown): value is MediaKind =>
+  value === "image" || value === "video" || value === "audio";
+
+const startsWith = (buffer: Buffer, bytes: number[], offset = 0) =>
+  buffer.length >= offset + bytes.length && bytes.every((byte, i) => buffer[offset + i] === byte);
+
+const ascii = (buffer: Buffer, start: number, end: number) => buffer.toString("latin1", start, end);
+
+// Other ISO media brands, such as HEIC photos or 3GP, are not MP4 video and are not accepted.
+const MP4_BRANDS = new Set(["isom", "iso2", "mp41", "mp42", "avc1", "dash", "M4V "]);
+
+const EXPECTED_KIND_LABELS: Record<MediaKind, string> = { image: "an image", video: "a video", audio: "an audio file" };
+
+/**
+ * Works out what a file is from its first bytes. The browser-supplied name and
+ * MIME type are never trusted. SVG is deliberately not accepted because it can
+ * carry scripts.
+ */
+export function sniffMediaType(buffer: Buffer): SniffedType | null {
+  if (startsWith(buffer, [0xff, 0xd8, 0xff])) return { kind: "image", mime: "image/jpeg", ext: "jpg" };
+  if (startsWith(buffer, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) {
+    return { kind: "image", mime: "image/png", ext: "png" };
+  }
+  if (ascii(buffer, 0, 6) === "GIF87a" || ascii(buffer, 0, 6) === "GIF89a") {
+    return { kind: "image", mime: "image/gif", ext: "gif" };
+  }
+  if (ascii(buffer, 0, 4) === "RIFF") {
+    const format = ascii(buffer, 8, 12);
+    if (format === "WEBP") return { kind: "image", mime: "image/webp", ext: "webp" };
+    if (format === "WAVE") return { kind: "audio", mime: "audio/wav", ext: "wav" };
+  }
+  if (ascii(buffer, 4, 8) === "ftyp") {
+    const brand = ascii(buffer, 8, 12);
+    if (brand === "avif" || brand === "avis") return { kind: "image", mime: "image/avif", ext: "avif" };
+    if (brand === "M4A " || brand === "M4B ") return { kind: "audio", mime: "audio/mp4", ext: "m4a" };
+    if (brand === "qt  ") return { kind: "video", mime: "video/quicktime", ext: "mov" };
+    if (MP4_BRANDS.has(brand)) return { kind: "video", mime: "video/mp4", ext: "mp4" };
+    return null;
+  }
+  if (startsWith(buffer, [0x1a, 0x45, 0xdf, 0xa3])) return { kind: "video", mime: "video/webm", ext: "webm" };
+  if (ascii(buffer, 0, 3) === "ID3" || (buffer.length >= 2 && buffer[0] === 0xff && (buffer[1] & 0xe0) === 0xe0)) {
+    return { kind: "audio", mime: "audio/mpeg", ext: "mp3" };
+  }
+  if (ascii(buffer, 0, 4) === "OggS") return { kind: "audio", mime: "audio/ogg", ext: "ogg" };
+  if (ascii(buffer, 0, 4) === "fLaC") return { kind: "audio", mime: "audio/flac", ext: "flac" };
+  return null;
+}
+
+const megabytes = (bytes: number) => Math.round(bytes / (1024 * 1024));
+
+async function exists(filePath: string) {
+  try {
+    await fs.access(filePath);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Writes to a temp file first so a half-written upload never shows up under its final name.
+async function writeOnce(filePath: string, data: Buffer) {
+  if (await exists(filePath)) return false;
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  const tempPath = `${filePath}.${process.pid}.${Date.now()}.tmp`;
+  await fs.writeFile(tempPath, data);
+  await fs.rename(tempPath, filePath);
+  return true;
+}
+
+async function describeImage(buffer: Buffer, hash: string) {
+  let metadata: sharp.Metadata;
+  try {
+    metadata = await sharp(buffer).metadata();
+  } catch {
+    throw new StoreError(422, "The image could not be read", { code: "invalid_image" });
+  }
+  // EXIF orientations 5-8 are rotated by 90 degrees, so the displayed size is swapped.
+  const rotated = (metadata.orientation ?? 1) >= 5;
+  const width = rotated ? metadata.height : metadata.width;
+  const height = rotated ? metadata.width : metadata.height;
+
+  const thumbName = `${hash}.webp`;
+  const thumbPath = path.join(process.cwd(), "public", "media", FOLDERS.image, "thumbs", thumbName);
+  if (!(await exists(thumbPath))) {
+    const thumbnail = await sharp(buffer)
+      .rotate()
+      .resize({ width: THUMBNAIL_WIDTH, withoutEnlargement: true })
+      .webp({ quality: 75 })
+      .toBuffer();
+    await writeOnce(thumbPath, thumbnail);
+  }
+  return { width, height, thumbnailUrl: `/media/${FOLDERS.image}/thumbs/${thumbName}` };
+}
+
+/**
+ * Validates and stores an uploaded file under a name derived from its content,
+ * so re-uploading the same file reuses it and different files never overwrite
+ * each other. `expectedKind` is the slot the editor uploads into; a file of
+ * another kind is rejected.
+ */
+export async function storeUpload(file: unknown, expectedKind?: MediaKind): Promise<UploadedMedia> {
+  if (!(file instanceof File)) throw new StoreError(400, "Missing file", { code: "missing_file" });
+  if (file.size === 0) throw new StoreError(400, "The file is empty", { code: "empty_file" });
+  // The largest limit applies until the content says which kind it is.
+  const maxSize = Math.max(...Object.values(UPLOAD_LIMITS));
+  if (file.size > maxSize) {
+    throw new StoreError(413, `The file is larger than ${megabytes(maxSize)} MB`, {
+      code: "too_large",
+      limit: maxSize,
+      size: file.size,
+    });
+  }
+
+  const buffer = Buffer.from(await file.arrayBuffer());
+  const sniffed = sniffMediaType(buffer);
+  if (!sniffed) {
+    throw new StoreError(415, "Unsupported file type", {
+      code: "unsupported_type",
+      accepted: ["jpg", "png", "gif", "webp", "avif", "mp4", "mov", "webm", "mp3", "m4a", "wav", "ogg", "flac"],
+    });
+  }
+  if (expectedKind && sniffed.kind !== expectedKind) {
+    throw new StoreError(415, `Expected ${EXPECTED_KIND_LABELS[expectedKind]}, got ${sniffed.mime}`, {
+      code: "type_mismatch",
+      expected: expectedKind,
+      actual: sniffed.kind,
+      mime: sniffed.mime,
+    });
+  }
+  const limit = UPLOAD_LIMITS[sniffed.kind];
+  if (buffer.length > limit) {
+    throw new StoreError(413, `${sniffed.kind[0].toUpperCase()}${sniffed.kind.slice(1)} files may be at most ${megabytes(limit)} MB`, {
+      code: "too_large",
+      kind: sniffed.kind,
+      limit,
+      size: buffer.length,
+    });
+  }
+
+  const hash = createHash("sha256").update(buffer).digest("hex").slice(0, 16);
+  const folder = FOLDERS[sniffed.kind];
+  const fileName = `${hash}.${sniffed.ext}`;
+  // Image metadata is read before writing so an undecodable image is never stored.
+  const image = sniffed.kind === "image" ? await describeImage(buffer, hash) : {};
+  const written = await writeOnce(path.join(process.cwd(), "public", "media", folder, fileName), buffer);
+
+  return {
+    url: `/media/${folder}/${fileName}`,
+    kind: sniffed.kind,
+    mime: sniffed.mime,
+    size: buffer.length,
+    hash,
+    duplicate: !written,
+    ...image,
+  };
+}
@@ -0,0 +1,32 @@
+/** Turns a stored media value into the URL the site requests; bare file names live in public/media. */
+export function normalizeMediaUrl(value: unknown): string | undefined {
+  if (typeof value !== "string" || !value.trim()) return undefined;
+  const url = value.trim();
+  if (/^(https?:)?\/\//i.test(url) || url.startsWith("data:") || url.startsWith("blob:")) return url;
+  if (url.startsWith("/")) return url;
+  return `/media/${url}`;
+}
+
+export function isImageUrl(url: string) {
+  return /\.(png|jpe?g|webp|gif|svg)$/i.test(url);
+}
+
+export function isVideoUrl(url: string) {
+  return /\.(mp4|webm|ogg)$/i.test(url);
+}
+
+/** The player URL for a YouTube or Vimeo link, or null when the host cannot be embedded. */
+export function getEmbedVideoSrc(url: string) {
+  const trimmed = url.trim();
+  const ytMatch = trimmed.match(
+    /^(?:https?:\/\/)?(?:www\.)?(?:youtube\.com\/watch\?v=|youtube\.com\/embed\/|youtu\.be\/)([A-Za-z0-9_-]{6,})/i,
+  );
+  if (ytMatch) {
+    return `https://www.youtube.com/embed/${ytMatch[1]}`;
+  }
+  const vimeoMatch = trimmed.match(/^(?:https?:\/\/)?(?:www\.)?vimeo\.com\/(\d+)/i);
+  if (vimeoMatch) {
+    return `https://player.vimeo.com/video/${vimeoMatch[1]}`;
+  }
+  return null;
+}
@@ -0,0 +1,136 @@
+import { citationFromText } from "@/lib/citations";
+import { countryCodeFromName, isCountryCode } from "@/lib/countries";
+import { storedDateFromText } from "@/lib/historicalDates";
+import { MediaLink, Place, PlaceStory } from "@/types/place";
+
+export const PLACE_SCHEMA_VERSION = 4;
+
+type RawRecord = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is RawRecord =>
+  Boolean(value) && typeof value === "object" && !Array.isArray(value);
+
+const toNumber = (value: unknown) => {
+  if (typeof value === "number") return value;
+  if (typeof value === "string" && value.trim()) {
+    const parsed = Number(value.trim().replace(",", "."));
+    if (Number.isFinite(parsed)) return parsed;
+  }
+  return value;
+};
+
+const toList = (value: unknown) => {
+  if (value === undefined || value === null) return value;
+  if (Array.isArray(value)) return value;
+  if (typeof value === "string") return value.trim() ? [value] : [];
+  return value;
+};
+
+const toMediaLinks = (value: unknown) => {
+  const list = toList(value);
+  if (!Array.isArray(list)) return list;
+  return list.map((item): MediaLink | unknown => (typeof item === "string" ? { url: item } : item));
+};
+
+const toStories = (value: unknown) => {
+  const list = toList(value);
+  if (!Array.isArray(list)) return list;
+  return list.map((item): PlaceStory | unknown => (typeof item === "string" ? { body: item } : item));
+};
+
+// v1 -> v2: records written before stories, countryCode and schemaVersion existed.
+// Loose shapes (string coords, a single source string, plain-string media lists)
+// are coerced into the typed model; anything still wrong is left for validatePlaces.
+function upgradeFromV1(record: RawRecord): RawRecord {
+  const next: RawRecord = { ...record };
+
+  if (Array.isArray(record.coords)) {
+    next.coords = record.coords.map(toNumber);
+  }
+
+  if (typeof record.levelTexts === "string") {
+    next.levelTexts = { primary: record.levelTexts };
+  }
+
+  if (record.sources !== undefined) next.sources = toList(record.sources);
+  if (record.tags !== undefined) next.tags = toList(record.tags);
+  if (record.stories !== undefined) next.stories = toStories(record.stories);
+
+  if (isRecord(record.media)) {
+    const media: RawRecord = { ...record.media };
+    if (media.gallery !== undefined) media.gallery = toList(media.gallery);
+    if (media.images !== undefined) media.images = toMediaLinks(media.images);
+    if (media.videos !== undefined) media.videos = toMediaLinks(media.videos);
+    next.media = media;
+  }
+
+  const rawCode = typeof record.countryCode === "string" ? record.countryCode.trim().toUpperCase() : "";
+  if (isCountryCode(rawCode)) {
+    next.countryCode = rawCode;
+  } else {
+    const derived = countryCodeFromName(typeof record.country === "string" ? record.country : undefined);
+    if (derived) {
+      next.countryCode = derived;
+    } else {
+      delete next.countryCode;
+    }
+  }
+
+  next.schemaVersion = 2;
+  return next;
+}
+
+// v2 -> v3: sources were bare strings (in practice URLs). Each becomes a citation
+// with id s1, s2, ... so `[@1]`-style markers keep pointing at the same source.
+function upgradeFromV2(record: RawRecord): RawRecord {
+  const next: RawRecord = { ...record };
+  if (Array.isArray(record.sources)) {
+    next.sources = record.sources.map((item, idx) =>
+      typeof item === "string" ? citationFromText(item, `s${idx + 1}`) : item,
+    );
+  }
+  next.schemaVersion = 3;
+  return next;
+}
+
+// v3 -> v4: dateStart/dateEnd become the stored date format of historicalDates
+// ("1930-9" -> "1930-09"; a range such as "1925 - 1927" keeps the end it names).
+// Empty strings are dropped and unreadable text is left for validatePlaces.
+function upgradeFromV3(record: RawRecord): RawRecord {
+  const next: RawRecord = { ...record };
+  (["dateStart", "dateEnd"] as const).forEach((key) => {
+    const value = record[key];
+    if (typeof value !== "string") return;
+    if (!value.trim()) {
+      delete next[key];
+      return;
+    }
+    const stored = storedDateFromText(value, key === "dateEnd" ? "end" : "start");
+    if (stored) next[key] = stored;
+  });
+  next.schemaVersion = 4;
+  return next;
+}
+
+const migrations: Record<number, (record: RawRecord) => RawRecord> = {
+  1: upgradeFromV1,
+  2: upgradeFromV2,
+  3: upgradeFromV3,
+};
+
+export function migratePlace(value: unknown): Place {
+  if (!isRecord(value)) return value as Place;
+  let record = value;
+  let version = typeof record.schemaVersion === "number" ? record.schemaVersion : 1;
+  while (version < PLACE_SCHEMA_VERSION) {
+    const step = migrations[version];
+    if (!step) break;
+    record = step(record);
+    version += 1;
+  }
+  return record as Place;
+}
+
+export function migratePlaces(value: unknown): unknown {
+  return Array.isArray(value) ? value.map(migratePlace) : value;
+}
@@ -0,0 +1,26 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+
+import { migrateQuestion, migrateQuiz } from "@/lib/migrateQuiz";
+
+test("turns the 1-based answerIndex into the 0-based correctIndex", () => {
+  assert.deepEqual(migrateQuestion({ id: "q1", question: "?", options: ["a", "b"], answerIndex: 2 }), {
+    id: "q1",
+    question: "?",
+    options: ["a", "b"],
+    correctIndex: 1,
+    type: "single",
+  });
+});
+
+test("an existing correctIndex wins over a leftover answerIndex", () => {
+  const question = migrateQuestion({ id: "q1", type: "single", options: ["a", "b"], answerIndex: 2, correctIndex: 0 });
+  assert.equal("answerIndex" in question, false);
+  assert.equal(question.type === "single" && question.correctIndex, 0);
+});
+
+test("leaves current questions and non-lists alone", () => {
+  const current = { id: "q2", type: "truefalse", question: "?", answer: true };
+  assert.deepEqual(migrateQuiz([current]), [current]);
+  assert.deepEqual(migrateQuiz({ questions: [] }), { questions: [] });
+});
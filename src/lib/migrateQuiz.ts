@@ -0,0 +1,27 @@
+import { QuizQuestion } from "@/types/quiz";
+
+type RawRecord = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is RawRecord =>
+  Boolean(value) && typeof value === "object" && !Array.isArray(value);
+
+// Questions written before the quiz editor stored a 1-based `answerIndex`. It becomes the
+// 0-based `correctIndex`; the new name keeps an old value from ever being read the wrong way.
+// Questions written before other question types existed have no `type` and are single choice.
+export function migrateQuestion(value: unknown): QuizQuestion {
+  if (!isRecord(value)) return value as QuizQuestion;
+  let record = value;
+  if ("answerIndex" in record) {
+    const { answerIndex, ...rest } = record;
+    record =
+      rest.correctIndex !== undefined
+        ? rest
+        : { ...rest, correctIndex: typeof answerIndex === "number" ? answerIndex - 1 : answerIndex };
+  }
+  if (record.type === undefined) record = { ...record, type: "single" };
+  return record as QuizQuestion;
+}
+
+export function migrateQuiz(value: unknown): unknown {
+  return Array.isArray(value) ? value.map(migrateQuestion) : value;
+}
@@ -0,0 +1,18 @@
+export const createPlaceId = () => `place-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+export const slugify = (value: string) =>
+  value
+    .toLowerCase()
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/đ/g, "d")
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+
+/** Returns `base`, or `base-2`, `base-3`... when it is already taken. */
+export function uniqueSlug(base: string, taken: Set<string>) {
+  if (!taken.has(base)) return base;
+  let suffix = 2;
+  while (taken.has(`${base}-${suffix}`)) suffix += 1;
+  return `${base}-${suffix}`;
+}
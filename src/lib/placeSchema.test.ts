@@ -0,0 +1,35 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+
+import { validatePlace, validatePlaces } from "@/lib/placeSchema";
+
+const place = { id: "p1", slug: "hue", title: "Huế", coords: [107.59, 16.46], dateStart: "1906", dateEnd: "1909" };
+
+test("accepts a valid place", () => {
+  assert.deepEqual(validatePlace(place), []);
+});
+
+test("reports each bad field by its path", () => {
+  const errors = validatePlace({ ...place, title: " ", coords: [190, 16], dateStart: "1906-7", tags: ["a", 1] });
+  assert.deepEqual(
+    errors.map((error) => error.field),
+    ["title", "coords[0]", "dateStart", "tags[1]"],
+  );
+  assert.deepEqual(validatePlace({ slug: "x" }).map((error) => error.field), ["title", "coords"]);
+});
+
+test("refuses an end before the start", () => {
+  assert.deepEqual(validatePlace({ ...place, dateStart: "1910", dateEnd: "1909" }), [
+    { field: "dateEnd", message: "Must not be before date start" },
+  ]);
+});
+
+test("flags duplicate slugs and ids across the list", () => {
+  const result = validatePlaces([place, { ...place, title: "Again" }]);
+  assert.equal(result.ok, false);
+  assert.deepEqual(
+    result.issues.map(({ index, errors }) => ({ index, fields: errors.map((error) => error.field) })),
+    [{ index: 1, fields: ["slug", "id"] }],
+  );
+  assert.equal(validatePlaces({}).ok, false);
+});
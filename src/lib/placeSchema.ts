@@ -0,0 +1,249 @@
+import { CITATION_ID_PATTERN } from "@/lib/citations";
+import { isCountryCode } from "@/lib/countries";
+import { DATE_FORMAT_HINT, formatDateValue, parseDate, spanDayRange } from "@/lib/historicalDates";
+import { Place } from "@/types/place";
+
+export type PlaceFieldError = {
+  field: string;
+  message: string;
+};
+
+export type PlaceRecordIssues = {
+  index: number;
+  id?: string;
+  slug?: string;
+  title?: string;
+  errors: PlaceFieldError[];
+};
+
+export type PlacesValidationResult = {
+  ok: boolean;
+  places: Place[];
+  issues: PlaceRecordIssues[];
+};
+
+type FieldCheck = (value: unknown, field: string) => PlaceFieldError[];
+
+type FieldRule = {
+  required?: boolean;
+  check: FieldCheck;
+};
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  Boolean(value) && typeof value === "object" && !Array.isArray(value);
+
+const fail = (field: string, message: string): PlaceFieldError[] => [{ field, message }];
+
+const optionalString: FieldCheck = (value, field) =>
+  typeof value === "string" ? [] : fail(field, "Must be a string");
+
+const nonEmptyString: FieldCheck = (value, field) => {
+  if (typeof value !== "string") return fail(field, "Must be a string");
+  if (!value.trim()) return fail(field, "Must not be empty");
+  return [];
+};
+
+const stringList: FieldCheck = (value, field) => {
+  if (!Array.isArray(value)) return fail(field, "Must be a list of strings");
+  return value.flatMap((item, idx) => optionalString(item, `${field}[${idx}]`));
+};
+
+const coordsCheck: FieldCheck = (value, field) => {
+  if (!Array.isArray(value) || value.length !== 2) {
+    return fail(field, "Must be [longitude, latitude]");
+  }
+  const [lng, lat] = value;
+  const errors: PlaceFieldError[] = [];
+  if (typeof lng !== "number" || !Number.isFinite(lng) || lng < -180 || lng > 180) {
+    errors.push({ field: `${field}[0]`, message: "Longitude must be a number between -180 and 180" });
+  }
+  if (typeof lat !== "number" || !Number.isFinite(lat) || lat < -90 || lat > 90) {
+    errors.push({ field: `${field}[1]`, message: "Latitude must be a number between -90 and 90" });
+  }
+  return errors;
+};
+
+const objectOf =
+  (rules: Record<string, FieldCheck>): FieldCheck =>
+  (value, field) => {
+    if (!isPlainObject(value)) return fail(field, "Must be an object");
+    return Object.entries(rules).flatMap(([key, check]) =>
+      value[key] === undefined || value[key] === null ? [] : check(value[key], `${field}.${key}`),
+    );
+  };
+
+const listOf =
+  (check: FieldCheck): FieldCheck =>
+  (value, field) => {
+    if (!Array.isArray(value)) return fail(field, "Must be a list");
+    return value.flatMap((item, idx) => check(item, `${field}[${idx}]`));
+  };
+
+const countryCodeCheck: FieldCheck = (value, field) =>
+  isCountryCode(value) ? [] : fail(field, "Must be an ISO 3166-1 alpha-3 code, e.g. VNM");
+
+const versionCheck: FieldCheck = (value, field) =>
+  typeof value === "number" && Number.isInteger(value) && value > 0 ? [] : fail(field, "Must be a positive integer");
+
+const pixelSize: FieldCheck = (value, field) =>
+  typeof value === "number" && Number.isInteger(value) && value > 0 ? [] : fail(field, "Must be a positive whole number of pixels");
+
+const labelledUrl = objectOf({
+  label: optionalString,
+  url: optionalString,
+  width: pixelSize,
+  height: pixelSize,
+  thumbnailUrl: optionalString,
+});
+
+const storyCheck = objectOf({
+  title: optionalString,
+  body: optionalString,
+  imageUrl: optionalString,
+  imageLabel: optionalString,
+});
+
+const dateCheck: FieldCheck = (value, field) => {
+  if (typeof value !== "string") return fail(field, "Must be a string");
+  if (!value.trim()) return [];
+  const date = parseDate(value);
+  if (!date) return fail(field, DATE_FORMAT_HINT);
+  const stored = formatDateValue(date);
+  return stored === value ? [] : fail(field, `Write as ${stored}`);
+};
+
+// The end may be less precise than the start ("1914-05" to "1914") but not earlier.
+function dateOrderErrors(record: Record<string, unknown>): PlaceFieldError[] {
+  const start = typeof record.dateStart === "string" ? parseDate(record.dateStart) : null;
+  const end = typeof record.dateEnd === "string" ? parseDate(record.dateEnd) : null;
+  if (!start || !end) return [];
+  return spanDayRange({ start: end })[1] < spanDayRange({ start })[0]
+    ? fail("dateEnd", "Must not be before date start")
+    : [];
+}
+
+const citationFields = objectOf({
+  id: (value, field) =>
+    typeof value === "string" && CITATION_ID_PATTERN.test(value)
+      ? []
+      : fail(field, "Must start with a letter or digit and use only letters, digits, '-', '_', '.' or ':'"),
+  author: optionalString,
+  title: optionalString,
+  publisher: optionalString,
+  date: optionalString,
+  page: optionalString,
+  url: optionalString,
+  accessed: optionalString,
+  note: optionalString,
+});
+
+const citationList: FieldCheck = (value, field) => {
+  const errors = listOf(citationFields)(value, field);
+  if (!Array.isArray(value)) return errors;
+  const seen = new Set<unknown>();
+  value.forEach((item, idx) => {
+    if (!isPlainObject(item)) return;
+    if (item.id === undefined || item.id === null) {
+      errors.push({ field: `${field}[${idx}].id`, message: "Required" });
+    } else if (seen.has(item.id)) {
+      errors.push({ field: `${field}[${idx}].id`, message: `Duplicate citation id "${String(item.id)}"` });
+    }
+    seen.add(item.id);
+    if (!["title", "url", "note"].some((key) => typeof item[key] === "string" && (item[key] as string).trim())) {
+      errors.push({ field: `${field}[${idx}]`, message: "Needs at least a title, URL or note" });
+    }
+  });
+  return errors;
+};
+
+// Keyed by every field of Place so the compiler flags a missing rule when the type grows.
+const placeRules: Record<keyof Place, FieldRule> = {
+  schemaVersion: { check: versionCheck },
+  id: { check: nonEmptyString },
+  slug: { check: nonEmptyString },
+  title: { required: true, check: nonEmptyString },
+  country: { check: optionalString },
+  countryCode: { check: countryCodeCheck },
+  city: { check: optionalString },
+  coords: { required: true, check: coordsCheck },
+  dateStart: { check: dateCheck },
+  dateEnd: { check: dateCheck },
+  periodLabel: { check: optionalString },
+  levelTexts: {
+    check: objectOf({ primary: optionalString, secondary: optionalString, high: optionalString }),
+  },
+  popup: { check: optionalString },
+  icon: { check: optionalString },
+  detailMarkdown: { check: optionalString },
+  accuracyNote: { check: optionalString },
+  media: {
+    check: objectOf({
+      cover: optionalString,
+      gallery: stringList,
+      images: listOf(labelledUrl),
+      videos: listOf(labelledUrl),
+      audio: optionalString,
+    }),
+  },
+  stories: { check: listOf(storyCheck) },
+  tags: { check: stringList },
+  sources: { check: citationList },
+};
+
+export function validatePlace(value: unknown): PlaceFieldError[] {
+  if (!isPlainObject(value)) return fail("", "Each place must be an object");
+  const fieldErrors = (Object.keys(placeRules) as (keyof Place)[]).flatMap((key) => {
+    const rule = placeRules[key];
+    const fieldValue = value[key];
+    if (fieldValue === undefined || fieldValue === null) {
+      return rule.required ? fail(key, "Required") : [];
+    }
+    return rule.check(fieldValue, key);
+  });
+  return [...fieldErrors, ...dateOrderErrors(value)];
+}
+
+export function validatePlaces(value: unknown): PlacesValidationResult {
+  if (!Array.isArray(value)) {
+    return {
+      ok: false,
+      places: [],
+      issues: [{ index: -1, errors: fail("", "Expected an array of places") }],
+    };
+  }
+
+  const seenSlugs = new Map<string, number>();
+  const seenIds = new Map<string, number>();
+  const issues: PlaceRecordIssues[] = [];
+
+  value.forEach((item, index) => {
+    const errors = validatePlace(item);
+    const record = isPlainObject(item) ? item : {};
+    const id = typeof record.id === "string" ? record.id : undefined;
+    const slug = typeof record.slug === "string" ? record.slug : undefined;
+    const title = typeof record.title === "string" ? record.title : undefined;
+
+    if (slug) {
+      const first = seenSlugs.get(slug);
+      if (first !== undefined) {
+        errors.push({ field: "slug", message: `Duplicate slug, already used by place #${first + 1}` });
+      } else {
+        seenSlugs.set(slug, index);
+      }
+    }
+    if (id) {
+      const first = seenIds.get(id);
+      if (first !== undefined) {
+        errors.push({ field: "id", message: `Duplicate id, already used by place #${first + 1}` });
+      } else {
+        seenIds.set(id, index);
+      }
+    }
+
+    if (errors.length > 0) {
+      issues.push({ index, id, slug, title, errors });
+    }
+  });
+
+  return { ok: issues.length === 0, places: value as Place[], issues };
+}
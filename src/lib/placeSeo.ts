@@ -0,0 +1,79 @@
+import { parseDate, toIsoDate } from "@/lib/historicalDates";
+import { absoluteUrl } from "@/lib/site";
+import { Place } from "@/types/place";
+
+const DESCRIPTION_LENGTH = 160;
+
+function stripMarkdown(input: string) {
+  return input
+    .replace(/^#{1,6}\s+/gm, "")
+    .replace(/^>\s?/gm, "")
+    .replace(/^[-*]\s+/gm, "")
+    .replace(/\*\*(.+?)\*\*/g, "$1")
+    .replace(/_(.+?)_/g, "$1")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function truncate(text: string, max: number) {
+  if (text.length <= max) return text;
+  const cut = text.slice(0, max - 1);
+  const lastSpace = cut.lastIndexOf(" ");
+  return `${(lastSpace > max / 2 ? cut.slice(0, lastSpace) : cut).trimEnd()}…`;
+}
+
+/** Search/preview description: the primary level text, else the start of the detail text. */
+export function placeDescription(place: Place) {
+  const source =
+    place.levelTexts?.primary?.trim() ||
+    (place.detailMarkdown ? stripMarkdown(place.detailMarkdown) : "") ||
+    [place.city, place.country].filter(Boolean).join(", ");
+  return truncate(source.replace(/\s+/g, " "), DESCRIPTION_LENGTH);
+}
+
+/** The picture that represents a place in previews: the cover, else the first image that has one. */
+export function placePreviewImage(place: Place) {
+  return (
+    place.media?.cover ||
+    place.media?.gallery?.[0] ||
+    place.media?.images?.find((image) => image.url)?.url ||
+    place.stories?.find((story) => story.imageUrl)?.imageUrl ||
+    undefined
+  );
+}
+
+/**
+ * schema.org data for a place page. A dated stop is an Event held at the
+ * Place; an undated one is just the Place.
+ */
+export function placeJsonLd(place: Place) {
+  const url = absoluteUrl(`/places/${place.slug}`);
+  const image = placePreviewImage(place);
+  const location = {
+    "@type": "Place",
+    name: [place.city, place.country].filter(Boolean).join(", ") || place.title,
+    address: place.country
+      ? { "@type": "PostalAddress", addressLocality: place.city, addressCountry: place.countryCode || place.country }
+      : undefined,
+    geo: { "@type": "GeoCoordinates", latitude: place.coords[1], longitude: place.coords[0] },
+  };
+  const common = {
+    "@context": "https://schema.org",
+    name: place.title,
+    description: placeDescription(place),
+    url,
+    image: image ? new URL(image, absoluteUrl("/")).href : undefined,
+  };
+  // schema.org has no way to say "circa", so qualified dates are given as their plain ISO form.
+  const start = parseDate(place.dateStart);
+  const end = parseDate(place.dateEnd);
+  if (!start) return { ...common, ...location, "@type": "Place", name: place.title };
+  return {
+    ...common,
+    "@type": "Event",
+    startDate: toIsoDate(start),
+    endDate: end ? toIsoDate(end) : undefined,
+    eventStatus: "https://schema.org/EventScheduled",
+    location,
+  };
+}
@@ -0,0 +1,169 @@
+import { createHash } from "crypto";
+
+import { SaveMeta, readDataFileWithVersion, updateDataFile } from "@/lib/dataStore";
+import { migratePlace, migratePlaces } from "@/lib/migratePlace";
+import { routesUsingSlug } from "@/lib/integrity";
+import { createPlaceId, slugify, uniqueSlug } from "@/lib/placeIdentity";
+import { PlaceFieldError, validatePlace } from "@/lib/placeSchema";
+import { questionPlaceSlugs } from "@/lib/quizBank";
+import { readQuiz, renameSlugInQuiz } from "@/lib/quizStore";
+import { readRoutes, renameSlugInRoutes } from "@/lib/routeStore";
+import { StoreError } from "@/lib/storeError";
+import { Place } from "@/types/place";
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  Boolean(value) && typeof value === "object" && !Array.isArray(value);
+
+export function placeVersion(place: Place) {
+  return createHash("sha256").update(JSON.stringify(place)).digest("hex").slice(0, 16);
+}
+
+function toPlaceList(content: unknown): Place[] {
+  const list = migratePlaces(content);
+  return Array.isArray(list) ? (list as Place[]) : [];
+}
+
+export async function readPlaces() {
+  const { content, version } = await readDataFileWithVersion("places");
+  return { places: toPlaceList(content), version };
+}
+
+/** Looks a place up by id, falling back to its slug. */
+export function findPlaceIndex(places: Place[], idOrSlug: string) {
+  const byId = places.findIndex((place) => place.id === idOrSlug);
+  return byId >= 0 ? byId : places.findIndex((place) => place.slug === idOrSlug);
+}
+
+/** What saving `slug` on a place would do: whether it is free and which route ends and questions follow it. */
+export async function previewSlugRename(idOrSlug: string, slug: string) {
+  const [{ places }, { routes }, { questions }] = await Promise.all([readPlaces(), readRoutes(), readQuiz()]);
+  const index = findPlaceIndex(places, idOrSlug);
+  if (index < 0) throw new StoreError(404, "Place not found");
+  const place = places[index];
+  const owner = places.find((item, i) => i !== index && item.slug === slug);
+  return {
+    from: place.slug ?? null,
+    to: slug,
+    takenBy: owner ? owner.title || owner.id || slug : null,
+    routes: place.slug && place.slug !== slug ? routesUsingSlug(routes, place.slug) : [],
+    questions:
+      place.slug && place.slug !== slug
+        ? questions
+            .filter((question) => questionPlaceSlugs(question).includes(place.slug ?? ""))
+            .map((question) => question.id)
+        : [],
+  };
+}
+
+function assertValid(place: Place) {
+  const errors: PlaceFieldError[] = validatePlace(place);
+  if (errors.length > 0) {
+    throw new StoreError(400, "Invalid place", { errors });
+  }
+}
+
+function assertSlugFree(places: Place[], slug: string, ignoreIndex = -1) {
+  const owner = places.findIndex((place, index) => index !== ignoreIndex && place.slug === slug);
+  if (owner >= 0) {
+    throw new StoreError(409, `Slug "${slug}" is already used by ${places[owner].title || places[owner].id}`, {
+      field: "slug",
+    });
+  }
+}
+
+function assertVersion(place: Place, expected: string[]) {
+  const version = placeVersion(place);
+  if (!expected.includes("*") && !expected.includes(version)) {
+    throw new StoreError(409, "Place was changed by someone else", { place, version });
+  }
+}
+
+export async function createPlace(input: unknown, meta: SaveMeta) {
+  if (!isRecord(input)) throw new StoreError(400, "Expected a place object");
+  const { revision, result } = await updateDataFile(
+    "places",
+    (current) => {
+      const places = toPlaceList(current);
+      const place = migratePlace(input);
+      if (!place.id) {
+        place.id = createPlaceId();
+      } else if (places.some((item) => item.id === place.id)) {
+        throw new StoreError(409, `Id "${place.id}" is already in use`, { field: "id" });
+      }
+      if (place.slug) {
+        assertSlugFree(places, place.slug);
+      } else {
+        place.slug = uniqueSlug(slugify(place.title || "") || place.id, new Set(places.map((item) => item.slug ?? "")));
+      }
+      assertValid(place);
+      return { content: [...places, place], result: place };
+    },
+    { ...meta, summary: meta.summary || `Created place "${String(input.title ?? "")}"` },
+  );
+  return { place: result, version: placeVersion(result), revision };
+}
+
+/**
+ * Applies a shallow patch: listed fields replace the stored ones and `null`
+ * removes a field. The id cannot change; an emptied slug is regenerated.
+ * A new slug is carried over to every route and quiz question that used the old one.
+ */
+export async function updatePlace(idOrSlug: string, patch: unknown, meta: SaveMeta, expected: string[]) {
+  if (!isRecord(patch)) throw new StoreError(400, "Expected an object of changed fields");
+  const { revision, result } = await updateDataFile(
+    "places",
+    (current) => {
+      const places = toPlaceList(current);
+      const index = findPlaceIndex(places, idOrSlug);
+      if (index < 0) throw new StoreError(404, "Place not found");
+      const existing = places[index];
+      assertVersion(existing, expected);
+      if (patch.id !== undefined && patch.id !== existing.id) {
+        throw new StoreError(400, "The id of a place cannot be changed", { field: "id" });
+      }
+      const next: Record<string, unknown> = { ...existing };
+      Object.entries(patch).forEach(([key, value]) => {
+        if (value === null) delete next[key];
+        else next[key] = value;
+      });
+      const place = migratePlace(next);
+      if (!place.slug) {
+        const taken = new Set(places.filter((_, i) => i !== index).map((item) => item.slug ?? ""));
+        place.slug = uniqueSlug(slugify(place.title || "") || place.id || "place", taken);
+      } else if (place.slug !== existing.slug) {
+        assertSlugFree(places, place.slug, index);
+      }
+      assertValid(place);
+      const content = [...places];
+      content[index] = place;
+      return { content, result: { place, previousSlug: existing.slug } };
+    },
+    { ...meta, summary: meta.summary || `Updated place "${idOrSlug}" (${Object.keys(patch).join(", ")})` },
+  );
+  const { place, previousSlug } = result;
+  const cascade = async <T>(rename: (from: string, to: string, meta: SaveMeta) => Promise<T[]>) =>
+    previousSlug && place.slug && previousSlug !== place.slug
+      ? rename(previousSlug, place.slug, {
+          author: meta.author,
+          summary: `Renamed slug ${previousSlug} to ${place.slug} with place "${place.title}"`,
+        })
+      : [];
+  const cascadedRoutes = await cascade(renameSlugInRoutes);
+  const cascadedQuestions = await cascade(renameSlugInQuiz);
+  return { place, version: placeVersion(place), revision, cascadedRoutes, cascadedQuestions };
+}
+
+export async function deletePlace(idOrSlug: string, meta: SaveMeta, expected: string[]) {
+  const { revision, result } = await updateDataFile(
+    "places",
+    (current) => {
+      const places = toPlaceList(current);
+      const index = findPlaceIndex(places, idOrSlug);
+      if (index < 0) throw new StoreError(404, "Place not found");
+      assertVersion(places[index], expected);
+      return { content: places.filter((_, i) => i !== index), result: places[index] };
+    },
+    { ...meta, summary: meta.summary || `Deleted place "${idOrSlug}"` },
+  );
+  return { place: result, revision };
+}
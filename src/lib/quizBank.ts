@@ -0,0 +1,53 @@
+import { AudienceLevel } from "@/types/place";
+import { QuizQuestion } from "@/types/quiz";
+
+export type QuizFilter = {
+  /** Only questions for this audience; a question without levels suits every audience. */
+  level?: AudienceLevel;
+  /** Only questions about at least one of these places. */
+  placeSlugs?: Set<string>;
+};
+
+/** The places a question is about: its tags and, for a map question, the place to find. */
+export function questionPlaceSlugs(question: QuizQuestion) {
+  const slugs = question.placeSlugs ?? [];
+  return question.type === "map" && !slugs.includes(question.placeSlug) ? [question.placeSlug, ...slugs] : slugs;
+}
+
+/** The questions a quiz set may draw from. */
+export function filterQuizBank(questions: QuizQuestion[], { level, placeSlugs }: QuizFilter) {
+  return questions.filter((question) => {
+    if (level && question.levels?.length && !question.levels.includes(level)) return false;
+    if (placeSlugs && !questionPlaceSlugs(question).some((slug) => placeSlugs.has(slug))) return false;
+    return true;
+  });
+}
+
+export function pickRandomItems<T>(items: T[], count: number) {
+  const copy = [...items];
+  for (let i = copy.length - 1; i > 0; i -= 1) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [copy[i], copy[j]] = [copy[j], copy[i]];
+  }
+  return copy.slice(0, Math.min(count, copy.length));
+}
+
+export function shuffledIndexes(count: number) {
+  return pickRandomItems(Array.from({ length: count }, (_, index) => index), count);
+}
+
+/** Shuffles the options of a choice question; the correct answers follow their options. */
+export function shuffleQuizOptions(question: QuizQuestion): QuizQuestion {
+  if (question.type !== "single" && question.type !== "multiple") return question;
+  const order = shuffledIndexes(question.options.length);
+  const options = order.map((index) => question.options[index]);
+  if (question.type === "single") {
+    return { ...question, options, correctIndex: order.indexOf(question.correctIndex) };
+  }
+  return { ...question, options, correctIndexes: question.correctIndexes.map((index) => order.indexOf(index)) };
+}
+
+/** `size` random questions from the bank, each with its options shuffled. */
+export function dealQuizSet(bank: QuizQuestion[], size: number) {
+  return pickRandomItems(bank, size).map(shuffleQuizOptions);
+}
@@ -0,0 +1,103 @@
+import { QuizAnswer } from "@/lib/quizGrading";
+import type { QuizSessionStatus, QuizSessionView } from "@/lib/quizSessionStore";
+
+/** A student's place in a classroom session, kept for the visit so a reload rejoins as the same student. */
+export type QuizClassroomJoin = {
+  code: string;
+  studentId: string;
+  name: string;
+};
+
+export type QuizClassroomState = QuizClassroomJoin & {
+  status: QuizSessionStatus;
+};
+
+type JoinResponse = {
+  error?: string;
+  session?: QuizSessionView;
+  studentId?: string;
+  name?: string;
+  answers?: Record<string, QuizAnswer>;
+  submitted?: boolean;
+};
+
+/** Carries the HTTP status so the map can word the error for students. */
+export class QuizClassroomError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = "QuizClassroomError";
+    this.status = status;
+  }
+}
+
+const CLASSROOM_KEY = "quiz-classroom";
+
+const sessionUrl = (code: string) => `/api/quiz/sessions/${encodeURIComponent(code.trim().toUpperCase())}`;
+
+export function readQuizClassroom(): QuizClassroomJoin | null {
+  try {
+    const parsed = JSON.parse(window.sessionStorage.getItem(CLASSROOM_KEY) ?? "null");
+    return parsed && typeof parsed.code === "string" && typeof parsed.studentId === "string"
+      ? { code: parsed.code, studentId: parsed.studentId, name: typeof parsed.name === "string" ? parsed.name : "" }
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+export function writeQuizClassroom(join: QuizClassroomJoin | null) {
+  try {
+    if (join) window.sessionStorage.setItem(CLASSROOM_KEY, JSON.stringify(join));
+    else window.sessionStorage.removeItem(CLASSROOM_KEY);
+  } catch {
+    // Storage blocked: a reload then asks for the code again.
+  }
+}
+
+/** Joins as `name`, or rejoins as `studentId` with the answers already given. */
+export async function joinQuizClassroom(code: string, input: { name?: string; studentId?: string }) {
+  const res = await fetch(`${sessionUrl(code)}/join`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(input),
+  });
+  const data = (await res.json().catch(() => ({}))) as JoinResponse;
+  if (!res.ok || !data.session || !data.studentId) {
+    throw new QuizClassroomError(res.status, data.error || "Failed to join the session");
+  }
+  return {
+    session: data.session,
+    join: { code: data.session.code, studentId: data.studentId, name: data.name ?? input.name ?? "" },
+    answers: data.answers ?? {},
+    submitted: data.submitted ?? false,
+  };
+}
+
+/** Sends changed answers (`null` takes one back); `submitted` locks them on the teacher's dashboard. */
+export async function sendQuizClassroomAnswers(
+  join: QuizClassroomJoin,
+  answers: Record<string, QuizAnswer | null>,
+  submitted = false,
+) {
+  const res = await fetch(`${sessionUrl(join.code)}/answers`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ studentId: join.studentId, answers, ...(submitted ? { submitted } : {}) }),
+  });
+  if (!res.ok) {
+    const data = (await res.json().catch(() => ({}))) as { error?: string };
+    throw new QuizClassroomError(res.status, data.error || "Failed to send the answers");
+  }
+}
+
+/** Follows the session's status over server-sent events. */
+export function followQuizClassroom(code: string, onStatus: (status: QuizSessionStatus) => void) {
+  const source = new EventSource(`${sessionUrl(code)}/events`);
+  source.addEventListener("status", (event) => {
+    const { status } = JSON.parse((event as MessageEvent<string>).data) as { status: QuizSessionStatus };
+    onStatus(status);
+  });
+  return () => source.close();
+}
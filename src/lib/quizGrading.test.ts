@@ -0,0 +1,60 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+
+import { gradeQuizAnswer, parseQuizAnswer } from "@/lib/quizGrading";
+import { QuizQuestion } from "@/types/quiz";
+
+const single: QuizQuestion = { id: "q1", type: "single", question: "?", options: ["a", "b", "c"], correctIndex: 1 };
+const multiple: QuizQuestion = {
+  id: "q2",
+  type: "multiple",
+  question: "?",
+  options: ["a", "b", "c"],
+  correctIndexes: [0, 2],
+};
+const trueFalse: QuizQuestion = { id: "q3", type: "truefalse", question: "?", answer: false };
+const order: QuizQuestion = { id: "q4", type: "order", question: "?", items: ["first", "second", "third"] };
+const map: QuizQuestion = { id: "q5", type: "map", question: "?", placeSlug: "hue" };
+
+const hue: [number, number] = [107.59, 16.46];
+const locate = (slug: string) => (slug === "hue" ? hue : undefined);
+const grade = (question: QuizQuestion, answer: Parameters<typeof gradeQuizAnswer>[1]) =>
+  gradeQuizAnswer(question, answer, locate).correct;
+
+test("grades single and multiple choice", () => {
+  assert.equal(grade(single, { type: "single", index: 1 }), true);
+  assert.equal(grade(single, { type: "single", index: 0 }), false);
+  assert.equal(grade(multiple, { type: "multiple", indexes: [2, 0] }), true);
+  assert.equal(grade(multiple, { type: "multiple", indexes: [0] }), false);
+  assert.equal(grade(multiple, { type: "multiple", indexes: [0, 1, 2] }), false);
+});
+
+test("grades true/false and ordering", () => {
+  assert.equal(grade(trueFalse, { type: "truefalse", value: false }), true);
+  assert.equal(grade(trueFalse, { type: "truefalse", value: true }), false);
+  assert.equal(grade(order, { type: "order", order: [0, 1, 2] }), true);
+  assert.equal(grade(order, { type: "order", order: [1, 0, 2] }), false);
+});
+
+test("grades a map click by its distance from the place", () => {
+  const near = gradeQuizAnswer(map, { type: "map", coords: [107.6, 16.5] }, locate);
+  assert.equal(near.correct, true);
+  assert.ok((near.distanceKm ?? Infinity) < 10);
+  assert.equal(grade(map, { type: "map", coords: [105.85, 21.03] }), false);
+  assert.equal(grade({ ...map, radiusKm: 1000 }, { type: "map", coords: [105.85, 21.03] }), true);
+  assert.equal(grade({ ...map, placeSlug: "nowhere" }, { type: "map", coords: hue }), false);
+});
+
+test("a missing answer or one of another type is wrong", () => {
+  assert.equal(grade(single, undefined), false);
+  assert.equal(grade(single, { type: "truefalse", value: true }), false);
+});
+
+test("parses only answers that fit the question", () => {
+  assert.deepEqual(parseQuizAnswer(single, { type: "single", index: 2 }), { type: "single", index: 2 });
+  assert.equal(parseQuizAnswer(single, { type: "single", index: 3 }), null);
+  assert.equal(parseQuizAnswer(multiple, { type: "multiple", indexes: [1, 1] }), null);
+  assert.equal(parseQuizAnswer(order, { type: "order", order: [0, 1] }), null);
+  assert.equal(parseQuizAnswer(map, { type: "map", coords: [200, 0] }), null);
+  assert.equal(parseQuizAnswer(trueFalse, { type: "single", index: 0 }), null);
+});
@@ -0,0 +1,102 @@
+import { distanceKm } from "@/lib/integrity";
+import { QuizQuestion, QuizQuestionPrompt } from "@/types/quiz";
+
+/**
+ * What the player gave for a question; `type` matches the question's. `order` lists
+ * positions in the question's `items` in the order the player put them.
+ */
+export type QuizAnswer =
+  | { type: "single"; index: number }
+  | { type: "multiple"; indexes: number[] }
+  | { type: "truefalse"; value: boolean }
+  | { type: "order"; order: number[] }
+  | { type: "map"; coords: [number, number] };
+
+export type QuizGrade = {
+  correct: boolean;
+  /** Map questions: how far the click was from the place. */
+  distanceKm?: number;
+};
+
+/** Whether the question carries its answer; a classroom session holds it back until it ends. */
+export function hasQuizAnswer(question: QuizQuestion | QuizQuestionPrompt): question is QuizQuestion {
+  return !("answerHidden" in question);
+}
+
+/** How close a click must be when a map question sets no radius. */
+export const MAP_QUESTION_RADIUS_KM = 200;
+
+/**
+ * Grades one answer. A missing answer, or one of another type, is wrong.
+ * `locate` gives a place's coords; a map question whose place has none cannot be
+ * answered right.
+ */
+export function gradeQuizAnswer(
+  question: QuizQuestion,
+  answer: QuizAnswer | undefined,
+  locate: (slug: string) => [number, number] | undefined,
+): QuizGrade {
+  if (!answer || answer.type !== question.type) return { correct: false };
+  switch (question.type) {
+    case "single":
+      return { correct: answer.type === "single" && answer.index === question.correctIndex };
+    case "multiple": {
+      if (answer.type !== "multiple") return { correct: false };
+      const picked = new Set(answer.indexes);
+      const correct = new Set(question.correctIndexes);
+      return { correct: picked.size === correct.size && [...picked].every((index) => correct.has(index)) };
+    }
+    case "truefalse":
+      return { correct: answer.type === "truefalse" && answer.value === question.answer };
+    case "order":
+      return {
+        correct:
+          answer.type === "order" &&
+          answer.order.length === question.items.length &&
+          answer.order.every((itemIndex, position) => itemIndex === position),
+      };
+    case "map": {
+      const target = locate(question.placeSlug);
+      if (answer.type !== "map" || !target) return { correct: false };
+      const distance = distanceKm(answer.coords, target);
+      return { correct: distance <= (question.radiusKm ?? MAP_QUESTION_RADIUS_KM), distanceKm: Math.round(distance) };
+    }
+  }
+}
+
+const isIndexBelow = (value: unknown, length: number): value is number =>
+  typeof value === "number" && Number.isInteger(value) && value >= 0 && value < length;
+
+/** Reads an answer to `question` from untrusted JSON; null unless it fits the question. */
+export function parseQuizAnswer(question: QuizQuestion, value: unknown): QuizAnswer | null {
+  if (!value || typeof value !== "object") return null;
+  const answer = value as Record<string, unknown>;
+  if (answer.type !== question.type) return null;
+  switch (question.type) {
+    case "single":
+      return isIndexBelow(answer.index, question.options.length) ? { type: "single", index: answer.index } : null;
+    case "multiple": {
+      const { indexes } = answer;
+      if (!Array.isArray(indexes) || indexes.length === 0) return null;
+      if (!indexes.every((index) => isIndexBelow(index, question.options.length))) return null;
+      return new Set(indexes).size === indexes.length ? { type: "multiple", indexes } : null;
+    }
+    case "truefalse":
+      return typeof answer.value === "boolean" ? { type: "truefalse", value: answer.value } : null;
+    case "order": {
+      const { order } = answer;
+      // A rearrangement of every item, each once.
+      if (!Array.isArray(order) || order.length !== question.items.length) return null;
+      if (!order.every((index) => isIndexBelow(index, question.items.length))) return null;
+      return new Set(order).size === order.length ? { type: "order", order } : null;
+    }
+    case "map": {
+      const { coords } = answer;
+      if (!Array.isArray(coords) || coords.length !== 2) return null;
+      const [lng, lat] = coords;
+      if (typeof lng !== "number" || !Number.isFinite(lng) || Math.abs(lng) > 180) return null;
+      if (typeof lat !== "number" || !Number.isFinite(lat) || Math.abs(lat) > 90) return null;
+      return { type: "map", coords: [lng, lat] };
+    }
+  }
+}
@@ -0,0 +1,219 @@
+import { QuizAnswer } from "@/lib/quizGrading";
+import { isAudienceLevel } from "@/lib/quizSchema";
+import { AudienceLevel } from "@/types/place";
+import { QuizAttempt, QuizQuestion } from "@/types/quiz";
+
+export type MissedQuestion = {
+  id: string;
+  missed: number;
+  asked: number;
+};
+
+export type QuizHistorySummary = {
+  attempts: number;
+  /** Mean share of right answers in percent; null before the first attempt. */
+  averagePercent: number | null;
+  /** Every attempt, oldest first. */
+  scores: Pick<QuizAttempt, "id" | "finishedAt" | "score" | "total">[];
+  /** Attempts per day (UTC), oldest first. */
+  byDay: { day: string; attempts: number; averagePercent: number }[];
+  /** Questions missed at least once, most missed first. */
+  mostMissed: MissedQuestion[];
+};
+
+/** The sets on screen, kept so reloading the page or switching tabs does not deal new ones. */
+export type QuizProgress = {
+  /** The filters the sets were dealt for. */
+  filter: string;
+  sets: QuizQuestion[][];
+  answers: Record<number, Record<string, QuizAnswer>>;
+  submitted: Record<number, boolean>;
+  scores: Record<number, number>;
+  activeIndex: number;
+};
+
+export const MAX_STORED_ATTEMPTS = 200;
+const MAX_ATTEMPT_QUESTIONS = 100;
+
+const ATTEMPTS_KEY = "quiz-attempts";
+const PROGRESS_KEY = "quiz-progress";
+const BROWSER_ID_KEY = "quiz-browser-id";
+// `storage` events only reach other tabs; this one tells the tab that saved.
+const ATTEMPTS_EVENT = "quiz-attempts-change";
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  Boolean(value) && typeof value === "object" && !Array.isArray(value);
+
+const createId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+const percent = (attempt: Pick<QuizAttempt, "score" | "total">) =>
+  attempt.total > 0 ? (attempt.score / attempt.total) * 100 : 0;
+
+export function createQuizAttempt(answers: QuizAttempt["answers"], level?: AudienceLevel): QuizAttempt {
+  return {
+    id: createId(),
+    finishedAt: new Date().toISOString(),
+    score: answers.filter((answer) => answer.correct).length,
+    total: answers.length,
+    ...(level ? { level } : {}),
+    answers,
+  };
+}
+
+/** Reads an attempt from untrusted JSON; null unless the score matches its answers. */
+export function parseQuizAttempt(value: unknown): QuizAttempt | null {
+  if (!isRecord(value)) return null;
+  const { id, finishedAt, score, total, level, answers } = value;
+  if (typeof id !== "string" || !/^[a-z0-9-]{1,40}$/.test(id)) return null;
+  if (typeof finishedAt !== "string" || Number.isNaN(Date.parse(finishedAt))) return null;
+  if (level !== undefined && !isAudienceLevel(level)) return null;
+  if (!Array.isArray(answers) || answers.length === 0 || answers.length > MAX_ATTEMPT_QUESTIONS) return null;
+  const parsed = answers.flatMap((answer) =>
+    isRecord(answer) && typeof answer.id === "string" && answer.id && typeof answer.correct === "boolean"
+      ? [{ id: answer.id, correct: answer.correct }]
+      : [],
+  );
+  const right = parsed.filter((answer) => answer.correct).length;
+  if (parsed.length !== answers.length || total !== parsed.length || score !== right) return null;
+  return {
+    id,
+    finishedAt: new Date(finishedAt).toISOString(),
+    score: right,
+    total: parsed.length,
+    ...(level ? { level } : {}),
+    answers: parsed,
+  };
+}
+
+export function summarizeAttempts(attempts: QuizAttempt[], missedLimit = 5): QuizHistorySummary {
+  const sorted = [...attempts].sort((a, b) => a.finishedAt.localeCompare(b.finishedAt));
+  const tally = new Map<string, MissedQuestion>();
+  const days = new Map<string, { attempts: number; percentSum: number }>();
+  sorted.forEach((attempt) => {
+    attempt.answers.forEach(({ id, correct }) => {
+      const entry = tally.get(id) ?? { id, missed: 0, asked: 0 };
+      entry.asked += 1;
+      if (!correct) entry.missed += 1;
+      tally.set(id, entry);
+    });
+    const day = attempt.finishedAt.slice(0, 10);
+    const entry = days.get(day) ?? { attempts: 0, percentSum: 0 };
+    entry.attempts += 1;
+    entry.percentSum += percent(attempt);
+    days.set(day, entry);
+  });
+  return {
+    attempts: sorted.length,
+    averagePercent: sorted.length
+      ? Math.round(sorted.reduce((sum, attempt) => sum + percent(attempt), 0) / sorted.length)
+      : null,
+    scores: sorted.map(({ id, finishedAt, score, total }) => ({ id, finishedAt, score, total })),
+    byDay: Array.from(days, ([day, entry]) => ({
+      day,
+      attempts: entry.attempts,
+      averagePercent: Math.round(entry.percentSum / entry.attempts),
+    })),
+    // Ties go to the question missed more often relative to how often it was asked.
+    mostMissed: Array.from(tally.values())
+      .filter((entry) => entry.missed > 0)
+      .sort((a, b) => b.missed - a.missed || b.missed / b.asked - a.missed / a.asked || a.id.localeCompare(b.id))
+      .slice(0, missedLimit),
+  };
+}
+
+// Storage can be full or blocked (e.g. private browsing); the quiz then simply is not kept.
+function readStored(storage: () => Storage, key: string) {
+  try {
+    return storage().getItem(key);
+  } catch {
+    return null;
+  }
+}
+
+function writeStored(storage: () => Storage, key: string, value: string | null) {
+  try {
+    if (value === null) storage().removeItem(key);
+    else storage().setItem(key, value);
+  } catch {
+    // Not kept; see readStored.
+  }
+}
+
+const local = () => window.localStorage;
+const session = () => window.sessionStorage;
+
+/** For useSyncExternalStore: the raw stored attempts, which only change when an attempt is saved or cleared. */
+export function storedQuizAttemptsSnapshot() {
+  return readStored(local, ATTEMPTS_KEY) ?? "";
+}
+
+export function subscribeStoredQuizAttempts(onChange: () => void) {
+  const handleStorage = (event: StorageEvent) => {
+    if (event.key === null || event.key === ATTEMPTS_KEY) onChange();
+  };
+  window.addEventListener("storage", handleStorage);
+  window.addEventListener(ATTEMPTS_EVENT, onChange);
+  return () => {
+    window.removeEventListener("storage", handleStorage);
+    window.removeEventListener(ATTEMPTS_EVENT, onChange);
+  };
+}
+
+export function parseStoredQuizAttempts(raw: string): QuizAttempt[] {
+  try {
+    const parsed: unknown = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? parsed.flatMap((item) => parseQuizAttempt(item) ?? []) : [];
+  } catch {
+    return [];
+  }
+}
+
+/** Keeps the attempt in this browser, dropping the oldest beyond MAX_STORED_ATTEMPTS. */
+export function storeQuizAttempt(attempt: QuizAttempt) {
+  const attempts = [...parseStoredQuizAttempts(storedQuizAttemptsSnapshot()), attempt].slice(-MAX_STORED_ATTEMPTS);
+  writeStored(local, ATTEMPTS_KEY, JSON.stringify(attempts));
+  window.dispatchEvent(new Event(ATTEMPTS_EVENT));
+}
+
+export function clearStoredQuizAttempts() {
+  writeStored(local, ATTEMPTS_KEY, null);
+  window.dispatchEvent(new Event(ATTEMPTS_EVENT));
+}
+
+/** Sends the attempt to /api/quiz/results. The browser keeps its own copy, so a failure is only logged. */
+export function sendQuizAttempt(attempt: QuizAttempt) {
+  let browserId = readStored(local, BROWSER_ID_KEY);
+  if (!browserId) {
+    browserId = createId();
+    writeStored(local, BROWSER_ID_KEY, browserId);
+  }
+  fetch("/api/quiz/results", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ ...attempt, browserId }),
+    keepalive: true,
+  }).catch((err) => console.warn("Failed to send the quiz result", err));
+}
+
+// The sets of this visit live in sessionStorage: a reload keeps them, a new visit deals fresh ones.
+export function readQuizProgress(): QuizProgress | null {
+  try {
+    const parsed: unknown = JSON.parse(readStored(session, PROGRESS_KEY) ?? "null");
+    if (!isRecord(parsed) || typeof parsed.filter !== "string" || !Array.isArray(parsed.sets)) return null;
+    if (!parsed.sets.every((set) => Array.isArray(set) && set.every((question) => isRecord(question)))) return null;
+    return {
+      filter: parsed.filter,
+      sets: parsed.sets as QuizQuestion[][],
+      answers: isRecord(parsed.answers) ? (parsed.answers as QuizProgress["answers"]) : {},
+      submitted: isRecord(parsed.submitted) ? (parsed.submitted as QuizProgress["submitted"]) : {},
+      scores: isRecord(parsed.scores) ? (parsed.scores as QuizProgress["scores"]) : {},
+      activeIndex: typeof parsed.activeIndex === "number" ? parsed.activeIndex : -1,
+    };
+  } catch {
+    return null;
+  }
+}
+
+export function writeQuizProgress(progress: QuizProgress) {
+  writeStored(session, PROGRESS_KEY, JSON.stringify(progress));
+}
@@ -0,0 +1,78 @@
+import { promises as fs } from "fs";
+import path from "path";
+
+import { parseQuizAttempt } from "@/lib/quizHistory";
+import { StoreError } from "@/lib/storeError";
+import { QuizAttempt } from "@/types/quiz";
+
+/** An attempt as received by /api/quiz/results. */
+export type StoredQuizAttempt = QuizAttempt & {
+  /** Random id the browser keeps, so attempts from one browser can be counted together. */
+  browserId?: string;
+  receivedAt: string;
+};
+
+const MAX_RESULTS = 5000;
+
+const resultsPath = () =>
+  process.env.QUIZ_RESULTS_FILE || path.join(process.cwd(), "src", "data", "quiz-results.json");
+
+/** Results are only collected when QUIZ_RESULTS_API=1; otherwise attempts stay in each browser. */
+export function quizResultsEnabled() {
+  return process.env.QUIZ_RESULTS_API === "1";
+}
+
+export async function readQuizResults(): Promise<StoredQuizAttempt[]> {
+  try {
+    const parsed = JSON.parse(await fs.readFile(resultsPath(), "utf8"));
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+// Writes run one after another so two students finishing at once cannot drop each other's result.
+let writeQueue: Promise<unknown> = Promise.resolve();
+
+function enqueueWrite<T>(task: () => Promise<T>): Promise<T> {
+  const run = writeQueue.then(task, task);
+  writeQueue = run.catch(() => undefined);
+  return run;
+}
+
+async function writeQuizResults(results: StoredQuizAttempt[]) {
+  await fs.mkdir(path.dirname(resultsPath()), { recursive: true });
+  await fs.writeFile(resultsPath(), `${JSON.stringify(results)}\n`, "utf8");
+}
+
+/**
+ * Stores an attempt, keeping the newest MAX_RESULTS. Sending the same attempt
+ * again returns the stored copy instead of counting it twice.
+ */
+export function recordQuizResult(input: unknown) {
+  const attempt = parseQuizAttempt(input);
+  if (!attempt) throw new StoreError(400, "Invalid quiz attempt");
+  const rawBrowserId = (input as Record<string, unknown>).browserId;
+  const browserId =
+    typeof rawBrowserId === "string" && /^[a-z0-9-]{1,40}$/.test(rawBrowserId) ? rawBrowserId : undefined;
+  return enqueueWrite(async () => {
+    const results = await readQuizResults();
+    const existing = results.find((item) => item.id === attempt.id);
+    if (existing) return { result: existing, created: false };
+    const result: StoredQuizAttempt = {
+      ...attempt,
+      ...(browserId ? { browserId } : {}),
+      receivedAt: new Date().toISOString(),
+    };
+    await writeQuizResults([...results, result].slice(-MAX_RESULTS));
+    return { result, created: true };
+  });
+}
+
+export function clearQuizResults() {
+  return enqueueWrite(async () => {
+    const results = await readQuizResults();
+    await writeQuizResults([]);
+    return results.length;
+  });
+}
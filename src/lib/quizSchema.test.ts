@@ -0,0 +1,44 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+
+import { nextQuestionId, validateQuestion, validateQuiz } from "@/lib/quizSchema";
+
+const fields = (value: unknown, knownSlugs?: Set<string>) =>
+  validateQuestion(value, knownSlugs).map((error) => error.field);
+
+test("accepts each question type", () => {
+  [
+    { id: "q1", type: "single", question: "?", options: ["a", "b"], correctIndex: 0 },
+    { id: "q2", type: "multiple", question: "?", options: ["a", "b"], correctIndexes: [0, 1] },
+    { id: "q3", type: "truefalse", question: "?", answer: true },
+    { id: "q4", type: "order", question: "?", items: ["a", "b"] },
+    { id: "q5", type: "map", question: "?", placeSlug: "hue", radiusKm: 50 },
+  ].forEach((question) => assert.deepEqual(validateQuestion(question, new Set(["hue"])), [], question.id));
+});
+
+test("checks the fields each type needs", () => {
+  assert.deepEqual(fields({ id: "q1", type: "single", question: "?", options: ["a", " A "], correctIndex: 2 }), [
+    "options[1]",
+    "correctIndex",
+  ]);
+  assert.deepEqual(fields({ id: "q2", type: "multiple", question: "?", options: ["a", "b"], correctIndexes: [] }), [
+    "correctIndexes",
+  ]);
+  assert.deepEqual(fields({ id: "q3", type: "truefalse", question: "?", answer: "yes" }), ["answer"]);
+  assert.deepEqual(fields({ id: "q4", type: "order", question: "?", items: ["a"] }), ["items"]);
+  assert.deepEqual(fields({ id: "q5", type: "map", question: "?", placeSlug: "hue", radiusKm: 0 }, new Set()), [
+    "placeSlug",
+    "radiusKm",
+  ]);
+  assert.deepEqual(fields({ id: "bad id", question: "", type: "essay" }), ["id", "question", "type"]);
+});
+
+test("flags duplicate ids and numbers the next one after the highest", () => {
+  const question = { id: "q007", type: "truefalse", question: "?", answer: false };
+  const result = validateQuiz([question, question]);
+  assert.deepEqual(
+    result.issues.map(({ index, errors }) => ({ index, fields: errors.map((error) => error.field) })),
+    [{ index: 1, fields: ["id"] }],
+  );
+  assert.equal(nextQuestionId([{ id: "q007" }, { id: "custom" }]), "q008");
+});
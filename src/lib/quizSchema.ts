@@ -0,0 +1,206 @@
+import { PlaceFieldError } from "@/lib/placeSchema";
+import { AudienceLevel } from "@/types/place";
+import { QuizQuestion, QuizQuestionType } from "@/types/quiz";
+
+export type QuizFieldError = PlaceFieldError;
+
+export type QuizRecordIssues = {
+  index: number;
+  id?: string;
+  errors: QuizFieldError[];
+};
+
+export type QuizValidationResult = {
+  ok: boolean;
+  questions: QuizQuestion[];
+  issues: QuizRecordIssues[];
+};
+
+export const QUIZ_QUESTION_TYPES: QuizQuestionType[] = ["single", "multiple", "truefalse", "order", "map"];
+
+/** The least a single or multiple choice question may offer, and the fewest events to order. */
+export const MIN_QUIZ_OPTIONS = 2;
+
+export const AUDIENCE_LEVELS: AudienceLevel[] = ["primary", "secondary", "high"];
+
+const QUESTION_ID = /^[A-Za-z0-9_-]+$/;
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  Boolean(value) && typeof value === "object" && !Array.isArray(value);
+
+/** Options that differ only in case, spacing or Unicode form count as the same answer. */
+const optionKey = (option: string) => option.normalize("NFC").trim().replace(/\s+/g, " ").toLowerCase();
+
+/** The next "q###" id after the highest numbered one in use. */
+export function nextQuestionId(questions: Pick<QuizQuestion, "id">[]) {
+  const highest = questions.reduce((max, question) => {
+    const match = /^q(\d+)$/.exec(question.id ?? "");
+    return match ? Math.max(max, Number(match[1])) : max;
+  }, 0);
+  return `q${String(highest + 1).padStart(3, "0")}`;
+}
+
+export function isAudienceLevel(value: unknown): value is AudienceLevel {
+  return AUDIENCE_LEVELS.includes(value as AudienceLevel);
+}
+
+/** Each entry must pass `isValid` and appear once; `describe` words the error for a bad entry. */
+function checkList(value: unknown, field: string, isValid: (item: unknown) => boolean, describe: string) {
+  if (value === undefined) return [];
+  if (!Array.isArray(value)) return [{ field, message: "Must be a list" }];
+  const errors: QuizFieldError[] = [];
+  value.forEach((item, idx) => {
+    if (!isValid(item)) {
+      errors.push({ field: `${field}[${idx}]`, message: describe });
+    } else if (value.indexOf(item) !== idx) {
+      errors.push({ field: `${field}[${idx}]`, message: `"${String(item)}" is listed twice` });
+    }
+  });
+  return errors;
+}
+
+/** A list of distinct, non-empty texts: the options of a choice question or the events to order. */
+function checkChoices(value: unknown, field: string, noun: string) {
+  if (!Array.isArray(value)) return [{ field, message: `Must be a list of ${noun}s` }];
+  const errors: QuizFieldError[] = [];
+  if (value.length < MIN_QUIZ_OPTIONS) {
+    errors.push({ field, message: `Needs at least ${MIN_QUIZ_OPTIONS} ${noun}s` });
+  }
+  const seen = new Map<string, number>();
+  value.forEach((choice, idx) => {
+    if (typeof choice !== "string" || !choice.trim()) {
+      errors.push({ field: `${field}[${idx}]`, message: "Must be non-empty text" });
+      return;
+    }
+    const first = seen.get(optionKey(choice));
+    if (first !== undefined) {
+      errors.push({ field: `${field}[${idx}]`, message: `Same as ${noun} ${first + 1}` });
+    } else {
+      seen.set(optionKey(choice), idx);
+    }
+  });
+  return errors;
+}
+
+const isOptionIndex = (value: unknown, options: unknown[] | null) =>
+  typeof value === "number" && Number.isInteger(value) && value >= 0 && (!options || value < options.length);
+
+/**
+ * Checks a single question: its id, text and type, the fields its type needs and
+ * its tags. Place slugs are only checked against places when `knownSlugs` is given.
+ */
+export function validateQuestion(value: unknown, knownSlugs?: Set<string>): QuizFieldError[] {
+  if (!isPlainObject(value)) return [{ field: "", message: "Each question must be an object" }];
+  const errors: QuizFieldError[] = [];
+
+  if (typeof value.id !== "string" || !value.id.trim()) {
+    errors.push({ field: "id", message: "Required" });
+  } else if (!QUESTION_ID.test(value.id)) {
+    errors.push({ field: "id", message: "Use letters, digits, - and _ only" });
+  }
+
+  if (typeof value.question !== "string" || !value.question.trim()) {
+    errors.push({ field: "question", message: "Required" });
+  }
+
+  if (value.explanation !== undefined && typeof value.explanation !== "string") {
+    errors.push({ field: "explanation", message: "Must be text" });
+  }
+
+  const isKnownSlug = (slug: unknown) =>
+    typeof slug === "string" && Boolean(slug.trim()) && (!knownSlugs || knownSlugs.has(slug));
+  const slugMessage = knownSlugs ? "No place has this slug" : "Must be a place slug";
+  const options = Array.isArray(value.options) ? value.options : null;
+
+  switch (value.type) {
+    case "single": {
+      errors.push(...checkChoices(value.options, "options", "option"));
+      const { correctIndex } = value;
+      if (typeof correctIndex !== "number" || !Number.isInteger(correctIndex)) {
+        errors.push({ field: "correctIndex", message: "Must be a whole number (0 is the first option)" });
+      } else if (!isOptionIndex(correctIndex, options)) {
+        errors.push({
+          field: "correctIndex",
+          message: `Must be between 0 and ${Math.max(0, (options?.length ?? 1) - 1)} (0 is the first option)`,
+        });
+      }
+      break;
+    }
+    case "multiple":
+      errors.push(...checkChoices(value.options, "options", "option"));
+      if (!Array.isArray(value.correctIndexes) || value.correctIndexes.length === 0) {
+        errors.push({ field: "correctIndexes", message: "Pick at least one correct option" });
+      } else {
+        errors.push(
+          ...checkList(
+            value.correctIndexes,
+            "correctIndexes",
+            (index) => isOptionIndex(index, options),
+            "Must be the position of an option (0 is the first option)",
+          ),
+        );
+      }
+      break;
+    case "truefalse":
+      if (typeof value.answer !== "boolean") {
+        errors.push({ field: "answer", message: "Must be true or false" });
+      }
+      break;
+    case "order":
+      errors.push(...checkChoices(value.items, "items", "event"));
+      break;
+    case "map":
+      if (typeof value.placeSlug !== "string" || !value.placeSlug.trim()) {
+        errors.push({ field: "placeSlug", message: "Required" });
+      } else if (!isKnownSlug(value.placeSlug)) {
+        errors.push({ field: "placeSlug", message: slugMessage });
+      }
+      if (
+        value.radiusKm !== undefined &&
+        (typeof value.radiusKm !== "number" || !Number.isFinite(value.radiusKm) || value.radiusKm <= 0)
+      ) {
+        errors.push({ field: "radiusKm", message: "Must be a distance in km above 0" });
+      }
+      break;
+    default:
+      errors.push({ field: "type", message: `Must be one of ${QUIZ_QUESTION_TYPES.join(", ")}` });
+  }
+
+  errors.push(
+    ...checkList(value.placeSlugs, "placeSlugs", isKnownSlug, slugMessage),
+    ...checkList(value.levels, "levels", isAudienceLevel, `Must be one of ${AUDIENCE_LEVELS.join(", ")}`),
+  );
+
+  return errors;
+}
+
+export function validateQuiz(value: unknown, knownSlugs?: Set<string>): QuizValidationResult {
+  if (!Array.isArray(value)) {
+    return {
+      ok: false,
+      questions: [],
+      issues: [{ index: -1, errors: [{ field: "", message: "Expected an array of questions" }] }],
+    };
+  }
+
+  const seenIds = new Map<string, number>();
+  const issues: QuizRecordIssues[] = [];
+
+  value.forEach((item, index) => {
+    const errors = validateQuestion(item, knownSlugs);
+    const id = isPlainObject(item) && typeof item.id === "string" ? item.id : undefined;
+    if (id) {
+      const first = seenIds.get(id);
+      if (first !== undefined) {
+        errors.push({ field: "id", message: `Duplicate id, already used by question #${first + 1}` });
+      } else {
+        seenIds.set(id, index);
+      }
+    }
+    if (errors.length > 0) {
+      issues.push({ index, id, errors });
+    }
+  });
+
+  return { ok: issues.length === 0, questions: value as QuizQuestion[], issues };
+}
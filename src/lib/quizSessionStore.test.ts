@@ -0,0 +1,61 @@
+import assert from "node:assert/strict";
+import { mock, test } from "node:test";
+
+import {
+  answerQuizSession,
+  closeQuizSession,
+  createQuizSession,
+  getQuizSessionStats,
+  getQuizSessionView,
+  joinQuizSession,
+  subscribeQuizSession,
+} from "@/lib/quizSessionStore";
+import { QuizQuestion } from "@/types/quiz";
+
+const question: QuizQuestion = { id: "q001", type: "truefalse", question: "Statement", answer: true };
+
+test("an expired session notifies its subscribers once and is gone", () => {
+  const { code } = createQuizSession({ questions: [question], createdBy: "alice", locations: {} });
+  let calls = 0;
+  // Like the events route: every change reads the session again.
+  subscribeQuizSession(code, () => {
+    calls += 1;
+    assert.throws(() => getQuizSessionStats(code), /Quiz session not found/);
+  });
+
+  const later = Date.now() + 13 * 60 * 60 * 1000;
+  mock.method(Date, "now", () => later);
+  try {
+    assert.throws(() => getQuizSessionStats(code), /Quiz session not found/);
+  } finally {
+    mock.restoreAll();
+  }
+  assert.equal(calls, 1);
+});
+
+test("students see no answers until the session ends", () => {
+  const questions: QuizQuestion[] = [
+    { id: "q1", type: "single", question: "Pick", options: ["a", "b"], correctIndex: 1, explanation: "Because" },
+    { id: "q2", type: "order", question: "Order", items: ["first", "second", "third"] },
+    { id: "q3", type: "map", question: "Where", placeSlug: "paris", placeSlugs: ["paris"] },
+  ];
+  const { code } = createQuizSession({ questions, createdBy: "alice", locations: {} });
+  const open = getQuizSessionView(code);
+  assert.equal(open.status, "open");
+  const text = JSON.stringify(open.questions);
+  ["correctIndex", "Because", "paris"].forEach((secret) => assert.ok(!text.includes(secret), secret));
+
+  // An order answer is given in the shown positions and kept as item indexes.
+  const shown = open.questions.find((question) => question.id === "q2");
+  assert.ok(shown?.type === "order");
+  const inOrder = ["first", "second", "third"].map((item) => shown.items.indexOf(item));
+  const { studentId } = joinQuizSession(code, { name: "Lan" });
+  answerQuizSession(code, { studentId, answers: { q2: { type: "order", order: inOrder } } });
+  assert.equal(getQuizSessionStats(code).questionStats[1].correct, 1);
+
+  closeQuizSession(code);
+  const closed = getQuizSessionView(code);
+  assert.equal(closed.status, "closed");
+  assert.deepEqual(closed.questions, questions);
+  assert.deepEqual(joinQuizSession(code, { studentId }).answers.q2, { type: "order", order: [0, 1, 2] });
+});
@@ -0,0 +1,330 @@
+import { randomBytes, randomUUID } from "crypto";
+
+import { shuffledIndexes } from "@/lib/quizBank";
+import { QuizAnswer, gradeQuizAnswer, parseQuizAnswer } from "@/lib/quizGrading";
+import { StoreError } from "@/lib/storeError";
+import { AudienceLevel } from "@/types/place";
+import { QuizQuestion, QuizQuestionPrompt } from "@/types/quiz";
+
+export type QuizSessionStatus = "open" | "closed";
+
+/**
+ * What a student gets: the set every student of the session answers. The answers are
+ * only part of it once the session has ended.
+ */
+export type QuizSessionView =
+  | { code: string; status: "open"; questions: QuizQuestionPrompt[] }
+  | { code: string; status: "closed"; questions: QuizQuestion[] };
+
+export type QuizSessionStudentStats = {
+  id: string;
+  name: string;
+  answered: number;
+  correct: number;
+  submitted: boolean;
+};
+
+export type QuizSessionQuestionStats = {
+  id: string;
+  answered: number;
+  correct: number;
+  /**
+   * How many students picked each option of a choice question, or `[false, true]`
+   * for a true/false one. Empty for ordering and map questions.
+   */
+  counts: number[];
+};
+
+/** The teacher's view of a session, sent again on every change. */
+export type QuizSessionStats = {
+  code: string;
+  status: QuizSessionStatus;
+  createdAt: string;
+  createdBy: string;
+  level?: AudienceLevel;
+  questions: QuizQuestion[];
+  students: QuizSessionStudentStats[];
+  questionStats: QuizSessionQuestionStats[];
+};
+
+type SessionStudent = {
+  id: string;
+  name: string;
+  answers: Record<string, QuizAnswer>;
+  submitted: boolean;
+};
+
+type QuizSession = {
+  code: string;
+  status: QuizSessionStatus;
+  createdAt: number;
+  createdBy: string;
+  level?: AudienceLevel;
+  questions: QuizQuestion[];
+  /** The questions as students see them while the session is open. */
+  prompts: QuizQuestionPrompt[];
+  /**
+   * For each ordering question, the item shown at each position of its prompt. Students
+   * answer with those positions; the session keeps item indexes, as grading expects.
+   */
+  itemOrders: Record<string, number[]>;
+  /** Coords of the places map questions ask for, taken when the session starts. */
+  locations: Record<string, [number, number]>;
+  students: Map<string, SessionStudent>;
+  listeners: Set<() => void>;
+};
+
+const SESSION_TTL_MS = 12 * 60 * 60 * 1000;
+const MAX_SESSIONS = 50;
+const MAX_STUDENTS = 200;
+const MAX_NAME_LENGTH = 40;
+// No 0/O or 1/I/L, so a code read off the board is typed right.
+const CODE_ALPHABET = "ABCDEFGHJKMNPQRSTUVWXYZ23456789";
+const CODE_LENGTH = 6;
+
+// Sessions only live in this server's memory: a restart ends them. Kept on globalThis so
+// reloading a module in development does not drop the sessions in progress.
+const registry = globalThis as typeof globalThis & { quizSessions?: Map<string, QuizSession> };
+const sessions = (registry.quizSessions ??= new Map<string, QuizSession>());
+
+const notFound = () => new StoreError(404, "Quiz session not found");
+
+// Expired sessions leave the map before any listener runs: a listener reads the session
+// again, which prunes again, and must not find the same session still there.
+function pruneSessions() {
+  const now = Date.now();
+  const expired = Array.from(sessions.values()).filter((session) => now - session.createdAt > SESSION_TTL_MS);
+  expired.forEach((session) => {
+    session.status = "closed";
+    sessions.delete(session.code);
+  });
+  expired.forEach(notify);
+}
+
+function findSession(code: string) {
+  pruneSessions();
+  const session = sessions.get(code.trim().toUpperCase());
+  if (!session) throw notFound();
+  return session;
+}
+
+function notify(session: QuizSession) {
+  session.listeners.forEach((listener) => listener());
+}
+
+function createCode() {
+  for (;;) {
+    const code = Array.from(randomBytes(CODE_LENGTH), (byte) => CODE_ALPHABET[byte % CODE_ALPHABET.length]).join("");
+    if (!sessions.has(code)) return code;
+  }
+}
+
+function promptFor(question: QuizQuestion, itemOrder: number[] | undefined): QuizQuestionPrompt {
+  const base = { id: question.id, question: question.question, answerHidden: true as const };
+  switch (question.type) {
+    case "single":
+      return { ...base, type: "single", options: question.options };
+    case "multiple":
+      return { ...base, type: "multiple", options: question.options };
+    case "truefalse":
+      return { ...base, type: "truefalse" };
+    case "order":
+      return { ...base, type: "order", items: (itemOrder ?? []).map((index) => question.items[index]) };
+    case "map":
+      return { ...base, type: "map", ...(question.radiusKm !== undefined ? { radiusKm: question.radiusKm } : {}) };
+  }
+}
+
+/** A student's order answer, given in shown positions, as item indexes. */
+function toItemIndexes(session: QuizSession, questionId: string, answer: QuizAnswer): QuizAnswer {
+  const itemOrder = session.itemOrders[questionId];
+  return answer.type === "order" && itemOrder
+    ? { type: "order", order: answer.order.map((position) => itemOrder[position]) }
+    : answer;
+}
+
+/** A student's answers as they read against the questions the student is shown now. */
+function answersForStudent(session: QuizSession, answers: Record<string, QuizAnswer>) {
+  if (session.status !== "open") return answers;
+  return Object.fromEntries(
+    Object.entries(answers).map(([questionId, answer]) => {
+      const itemOrder = session.itemOrders[questionId];
+      return [
+        questionId,
+        answer.type === "order" && itemOrder
+          ? { type: "order", order: answer.order.map((index) => itemOrder.indexOf(index)) }
+          : answer,
+      ];
+    }),
+  ) as Record<string, QuizAnswer>;
+}
+
+/** Starts a session for an already dealt set. */
+export function createQuizSession(input: {
+  questions: QuizQuestion[];
+  createdBy: string;
+  level?: AudienceLevel;
+  locations: Record<string, [number, number]>;
+}): QuizSessionStats {
+  pruneSessions();
+  if (input.questions.length === 0) throw new StoreError(400, "No questions match these filters");
+  if (sessions.size >= MAX_SESSIONS) throw new StoreError(409, "Too many sessions in progress; end one first");
+  const itemOrders = Object.fromEntries(
+    input.questions.flatMap((question) =>
+      question.type === "order" ? [[question.id, shuffledIndexes(question.items.length)]] : [],
+    ),
+  );
+  const session: QuizSession = {
+    code: createCode(),
+    status: "open",
+    createdAt: Date.now(),
+    createdBy: input.createdBy,
+    ...(input.level ? { level: input.level } : {}),
+    questions: input.questions,
+    prompts: input.questions.map((question) => promptFor(question, itemOrders[question.id])),
+    itemOrders,
+    locations: input.locations,
+    students: new Map(),
+    listeners: new Set(),
+  };
+  sessions.set(session.code, session);
+  return statsOf(session);
+}
+
+export function listQuizSessions() {
+  pruneSessions();
+  return Array.from(sessions.values(), statsOf);
+}
+
+export function getQuizSessionStats(code: string) {
+  return statsOf(findSession(code));
+}
+
+/** The set without its answers while the session is open, with them once it has ended. */
+export function getQuizSessionView(code: string): QuizSessionView {
+  const session = findSession(code);
+  return session.status === "open"
+    ? { code: session.code, status: "open", questions: session.prompts }
+    : { code: session.code, status: "closed", questions: session.questions };
+}
+
+/**
+ * Adds a student, or returns the one with `studentId` so a reloaded page keeps its answers.
+ * A session that has ended takes no new students. The answers read against the questions
+ * getQuizSessionView returns at the same moment.
+ */
+export function joinQuizSession(code: string, input: { name?: unknown; studentId?: unknown }) {
+  const session = findSession(code);
+  const existing = typeof input.studentId === "string" ? session.students.get(input.studentId) : undefined;
+  if (existing) {
+    return {
+      studentId: existing.id,
+      name: existing.name,
+      answers: answersForStudent(session, existing.answers),
+      submitted: existing.submitted,
+    };
+  }
+  if (session.status !== "open") throw new StoreError(409, "This session has ended");
+  const name = typeof input.name === "string" ? input.name.trim().replace(/\s+/g, " ") : "";
+  if (!name) throw new StoreError(400, "Name is required");
+  if (name.length > MAX_NAME_LENGTH) throw new StoreError(400, `Name must be at most ${MAX_NAME_LENGTH} characters`);
+  if (session.students.size >= MAX_STUDENTS) throw new StoreError(409, "This session is full");
+  const student: SessionStudent = { id: randomUUID(), name, answers: {}, submitted: false };
+  session.students.set(student.id, student);
+  notify(session);
+  return { studentId: student.id, name, answers: student.answers, submitted: false };
+}
+
+/**
+ * Records a student's answers, given against the session's prompts; `null` takes one back.
+ * `submitted` locks them, as grading a set does on the map.
+ */
+export function answerQuizSession(
+  code: string,
+  input: { studentId?: unknown; answers?: unknown; submitted?: unknown },
+) {
+  const session = findSession(code);
+  const student = typeof input.studentId === "string" ? session.students.get(input.studentId) : undefined;
+  if (!student) throw new StoreError(404, "Student not found in this session");
+  if (session.status !== "open") throw new StoreError(409, "This session has ended");
+  if (student.submitted) throw new StoreError(409, "Answers were already submitted");
+  const answers = input.answers ?? {};
+  if (typeof answers !== "object" || Array.isArray(answers)) throw new StoreError(400, "answers must be an object");
+  const next = { ...student.answers };
+  for (const [questionId, value] of Object.entries(answers)) {
+    const question = session.questions.find((item) => item.id === questionId);
+    if (!question) throw new StoreError(400, `Question ${questionId} is not part of this session`);
+    if (value === null) {
+      delete next[questionId];
+      continue;
+    }
+    const answer = parseQuizAnswer(question, value);
+    if (!answer) throw new StoreError(400, `Invalid answer for question ${questionId}`);
+    next[questionId] = toItemIndexes(session, questionId, answer);
+  }
+  student.answers = next;
+  if (input.submitted === true) student.submitted = true;
+  notify(session);
+  return { answers: answersForStudent(session, student.answers), submitted: student.submitted };
+}
+
+/** Ends the session: students keep their set but can no longer answer. */
+export function closeQuizSession(code: string) {
+  const session = findSession(code);
+  session.status = "closed";
+  notify(session);
+  return statsOf(session);
+}
+
+/** Calls `onChange` whenever a student joins or answers, or the session ends. */
+export function subscribeQuizSession(code: string, onChange: () => void) {
+  const session = findSession(code);
+  session.listeners.add(onChange);
+  return () => {
+    session.listeners.delete(onChange);
+  };
+}
+
+function statsOf(session: QuizSession): QuizSessionStats {
+  const locate = (slug: string) => session.locations[slug];
+  const students = Array.from(session.students.values());
+  return {
+    code: session.code,
+    status: session.status,
+    createdAt: new Date(session.createdAt).toISOString(),
+    createdBy: session.createdBy,
+    ...(session.level ? { level: session.level } : {}),
+    questions: session.questions,
+    students: students.map((student) => {
+      const answered = session.questions.filter((question) => student.answers[question.id]);
+      return {
+        id: student.id,
+        name: student.name,
+        answered: answered.length,
+        correct: answered.filter((question) => gradeQuizAnswer(question, student.answers[question.id], locate).correct)
+          .length,
+        submitted: student.submitted,
+      };
+    }),
+    questionStats: session.questions.map((question) => {
+      const answers = students.flatMap((student) => student.answers[question.id] ?? []);
+      const counts =
+        question.type === "single" || question.type === "multiple"
+          ? question.options.map(() => 0)
+          : question.type === "truefalse"
+            ? [0, 0]
+            : [];
+      answers.forEach((answer) => {
+        if (answer.type === "single") counts[answer.index] += 1;
+        if (answer.type === "multiple") answer.indexes.forEach((index) => (counts[index] += 1));
+        if (answer.type === "truefalse") counts[answer.value ? 1 : 0] += 1;
+      });
+      return {
+        id: question.id,
+        answered: answers.length,
+        correct: answers.filter((answer) => gradeQuizAnswer(question, answer, locate).correct).length,
+        counts,
+      };
+    }),
+  };
+}
@@ -0,0 +1,157 @@
+import { createHash } from "crypto";
+
+import { SaveMeta, readDataFile, readDataFileWithVersion, updateDataFile } from "@/lib/dataStore";
+import { migrateQuiz } from "@/lib/migrateQuiz";
+import { questionPlaceSlugs } from "@/lib/quizBank";
+import { nextQuestionId, validateQuestion } from "@/lib/quizSchema";
+import { StoreError } from "@/lib/storeError";
+import { QuizQuestion } from "@/types/quiz";
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  Boolean(value) && typeof value === "object" && !Array.isArray(value);
+
+export function questionVersion(question: QuizQuestion) {
+  return createHash("sha256").update(JSON.stringify(question)).digest("hex").slice(0, 16);
+}
+
+function toQuestionList(content: unknown): QuizQuestion[] {
+  const list = migrateQuiz(content);
+  return Array.isArray(list) ? (list as QuizQuestion[]) : [];
+}
+
+export async function readQuiz() {
+  const { content, version } = await readDataFileWithVersion("quiz");
+  return { questions: toQuestionList(content), version };
+}
+
+export function findQuestionIndex(questions: QuizQuestion[], id: string) {
+  return questions.findIndex((question) => question.id === id);
+}
+
+/** Slugs in places.json, which a question's placeSlugs must point at. */
+export async function readPlaceSlugs() {
+  const content = await readDataFile("places");
+  const list = Array.isArray(content) ? content : [];
+  return new Set(list.flatMap((place) => (isRecord(place) && typeof place.slug === "string" ? [place.slug] : [])));
+}
+
+// Only stored questions are migrated; written ones must use the 0-based correctIndex.
+function assertNoAnswerIndex(input: Record<string, unknown>) {
+  if ("answerIndex" in input) {
+    throw new StoreError(400, "answerIndex is no longer accepted; send the 0-based correctIndex", {
+      field: "answerIndex",
+    });
+  }
+}
+
+function assertValid(question: QuizQuestion, knownSlugs: Set<string>) {
+  const errors = validateQuestion(question, knownSlugs);
+  if (errors.length > 0) {
+    throw new StoreError(400, "Invalid question", { errors });
+  }
+}
+
+function assertVersion(question: QuizQuestion, expected: string[]) {
+  const version = questionVersion(question);
+  if (!expected.includes("*") && !expected.includes(version)) {
+    throw new StoreError(409, "Question was changed by someone else", { question, version });
+  }
+}
+
+/** Creates a question; a missing id becomes the next free "q###". */
+export async function createQuestion(input: unknown, meta: SaveMeta) {
+  if (!isRecord(input)) throw new StoreError(400, "Expected a question object");
+  assertNoAnswerIndex(input);
+  const knownSlugs = await readPlaceSlugs();
+  const { revision, result } = await updateDataFile(
+    "quiz",
+    (current) => {
+      const questions = toQuestionList(current);
+      const { id, ...rest } = input as QuizQuestion;
+      const question: QuizQuestion = { id: id || nextQuestionId(questions), ...rest };
+      if (id && findQuestionIndex(questions, id) >= 0) {
+        throw new StoreError(409, `Id "${id}" is already in use`, { field: "id" });
+      }
+      assertValid(question, knownSlugs);
+      return { content: [...questions, question], result: question };
+    },
+    { ...meta, summary: meta.summary || `Created question "${String(input.question ?? "")}"` },
+  );
+  return { question: result, version: questionVersion(result), revision };
+}
+
+/**
+ * Applies a shallow patch: listed fields replace the stored ones and `null`
+ * removes a field. The id cannot change.
+ */
+export async function updateQuestion(id: string, patch: unknown, meta: SaveMeta, expected: string[]) {
+  if (!isRecord(patch)) throw new StoreError(400, "Expected an object of changed fields");
+  assertNoAnswerIndex(patch);
+  const knownSlugs = await readPlaceSlugs();
+  const { revision, result } = await updateDataFile(
+    "quiz",
+    (current) => {
+      const questions = toQuestionList(current);
+      const index = findQuestionIndex(questions, id);
+      if (index < 0) throw new StoreError(404, "Question not found");
+      assertVersion(questions[index], expected);
+      const next: Record<string, unknown> = { ...questions[index] };
+      Object.entries(patch).forEach(([key, value]) => {
+        if (value === null) delete next[key];
+        else next[key] = value;
+      });
+      if (next.id !== id) {
+        throw new StoreError(400, "The id of a question cannot be changed", { field: "id" });
+      }
+      const question = next as QuizQuestion;
+      assertValid(question, knownSlugs);
+      const list = [...questions];
+      list[index] = question;
+      return { content: list, result: question };
+    },
+    { ...meta, summary: meta.summary || `Updated question ${id}` },
+  );
+  return { question: result, version: questionVersion(result), revision };
+}
+
+export async function deleteQuestion(id: string, meta: SaveMeta, expected: string[]) {
+  const { revision, result } = await updateDataFile(
+    "quiz",
+    (current) => {
+      const questions = toQuestionList(current);
+      const index = findQuestionIndex(questions, id);
+      if (index < 0) throw new StoreError(404, "Question not found");
+      assertVersion(questions[index], expected);
+      return { content: questions.filter((_, i) => i !== index), result: questions[index] };
+    },
+    { ...meta, summary: meta.summary || `Deleted question ${id}` },
+  );
+  return { question: result, revision };
+}
+
+/** Points every question about place `from` at `to`. Returns the ids that changed. */
+export async function renameSlugInQuiz(from: string, to: string, meta: SaveMeta) {
+  const { questions } = await readQuiz();
+  if (!questions.some((question) => questionPlaceSlugs(question).includes(from))) return [];
+  const { result } = await updateDataFile(
+    "quiz",
+    (current) => {
+      const changed: string[] = [];
+      const list = toQuestionList(current).map((question) => {
+        if (!questionPlaceSlugs(question).includes(from)) return question;
+        changed.push(question.id);
+        const next = { ...question };
+        if (next.type === "map" && next.placeSlug === from) next.placeSlug = to;
+        if (next.placeSlugs) {
+          // A question tagged with both slugs keeps a single entry.
+          const placeSlugs = next.placeSlugs.map((slug) => (slug === from ? to : slug));
+          next.placeSlugs = placeSlugs.filter((slug, idx) => placeSlugs.indexOf(slug) === idx);
+        }
+        return next;
+      });
+      return { content: list, result: changed };
+    },
+    { ...meta, summary: meta.summary || `Renamed slug ${from} to ${to}` },
+  );
+  return result;
+}
@@ -0,0 +1,129 @@
+import { NextResponse } from "next/server";
+
+import { getSession } from "@/lib/auth";
+import { revalidateData } from "@/lib/dataCache";
+import { DataKind, formatETag, readDataFile, saveDataFile } from "@/lib/dataStore";
+import { migratePlaces } from "@/lib/migratePlace";
+import { migrateQuiz } from "@/lib/migrateQuiz";
+import { validatePlaces } from "@/lib/placeSchema";
+import { validateQuiz } from "@/lib/quizSchema";
+import { diffContents, listRevisions, readRevision } from "@/lib/revisions";
+import { validateRoute } from "@/lib/routeSchema";
+import { toRouteCollection } from "@/lib/routeStore";
+
+// Shared by /api/places/revisions, /api/routes/revisions and /api/quiz/revisions.
+
+// Revisions hold every earlier version and who saved it, so even reading them needs a signed-in user.
+const authRequired = () => NextResponse.json({ error: "Authentication required" }, { status: 401 });
+
+export async function handleListRevisions(kind: DataKind, request: Request) {
+  if (!getSession(request)) return authRequired();
+  try {
+    const revisions = await listRevisions(kind);
+    return NextResponse.json({ revisions });
+  } catch (err) {
+    console.error(`Failed to list ${kind} revisions`, err);
+    return NextResponse.json({ error: `Failed to list ${kind} revisions` }, { status: 500 });
+  }
+}
+
+async function resolveCompareContent(kind: DataKind, id: string, compare: string) {
+  if (compare === "current") return { label: "current", content: await readDataFile(kind) };
+  if (compare === "previous") {
+    const revisions = await listRevisions(kind);
+    const position = revisions.findIndex((item) => item.id === id);
+    const older = position >= 0 ? revisions[position + 1] : undefined;
+    if (!older) return { label: null, content: undefined };
+    const revision = await readRevision(kind, older.id);
+    return { label: older.id, content: revision?.content };
+  }
+  const revision = await readRevision(kind, compare);
+  return revision ? { label: revision.id, content: revision.content } : null;
+}
+
+export async function handleGetRevision(kind: DataKind, request: Request, id: string) {
+  if (!getSession(request)) return authRequired();
+  try {
+    const revision = await readRevision(kind, id);
+    if (!revision) {
+      return NextResponse.json({ error: "Revision not found" }, { status: 404 });
+    }
+    const { searchParams } = new URL(request.url);
+    const compare = searchParams.get("compare") || "previous";
+    const base = await resolveCompareContent(kind, id, compare);
+    if (!base) {
+      return NextResponse.json({ error: "Comparison revision not found" }, { status: 404 });
+    }
+    // "previous" shows what this save changed; "current" shows what restoring it would change.
+    const diff = diffContents(kind, base.content, revision.content);
+    const { content, ...meta } = revision;
+    return NextResponse.json({
+      revision: meta,
+      compare: base.label,
+      diff,
+      ...(searchParams.get("content") === "1" ? { content } : {}),
+    });
+  } catch (err) {
+    console.error("Failed to read revision", err);
+    return NextResponse.json({ error: "Failed to read revision" }, { status: 500 });
+  }
+}
+
+function isFeatureCollection(value: unknown) {
+  return (
+    Boolean(value) &&
+    typeof value === "object" &&
+    (value as { type?: unknown }).type === "FeatureCollection" &&
+    Array.isArray((value as { features?: unknown }).features)
+  );
+}
+
+export async function handleRestoreRevision(kind: DataKind, request: Request, id: string) {
+  try {
+    const revision = await readRevision(kind, id);
+    if (!revision) {
+      return NextResponse.json({ error: "Revision not found" }, { status: 404 });
+    }
+    let content = revision.content;
+    if (kind === "places") {
+      const { ok, places, issues } = validatePlaces(migratePlaces(content));
+      if (!ok) {
+        return NextResponse.json({ error: "Revision contains invalid places", issues }, { status: 400 });
+      }
+      content = places;
+    } else if (kind === "quiz") {
+      const { ok, questions, issues } = validateQuiz(migrateQuiz(content));
+      if (!ok) {
+        return NextResponse.json({ error: "Revision contains invalid questions", issues }, { status: 400 });
+      }
+      content = questions;
+    } else {
+      if (!isFeatureCollection(content)) {
+        return NextResponse.json({ error: "Revision is not a FeatureCollection" }, { status: 400 });
+      }
+      const features = (content as { features: unknown[] }).features;
+      const issues = features.flatMap((feature, index) => {
+        const errors = validateRoute(feature);
+        return errors.length > 0 ? [{ index, errors }] : [];
+      });
+      if (issues.length > 0) {
+        return NextResponse.json({ error: "Revision contains invalid routes", issues }, { status: 400 });
+      }
+      // Old revisions may lack fids or repeat one; number them the way reading routes.json does.
+      content = toRouteCollection(content);
+    }
+    // A restore is a deliberate overwrite, so it skips the If-Match check editors' saves go through.
+    const saved = await saveDataFile(kind, content, {
+      author: getSession(request)?.username ?? "unknown",
+      summary: `Restored revision from ${revision.createdAt} (${revision.summary})`,
+    });
+    revalidateData(kind);
+    return NextResponse.json(
+      { ok: true, revision: saved.revision, version: saved.version },
+      { headers: { ETag: formatETag(saved.version) } },
+    );
+  } catch (err) {
+    console.error("Failed to restore revision", err);
+    return NextResponse.json({ error: "Failed to restore revision" }, { status: 500 });
+  }
+}
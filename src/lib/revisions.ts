@@ -0,0 +1,167 @@
+import { promises as fs } from "fs";
+import path from "path";
+
+import type { DataKind, SaveMeta } from "@/lib/dataStore";
+
+export type RevisionMeta = {
+  id: string;
+  kind: DataKind;
+  createdAt: string;
+  author: string;
+  summary: string;
+};
+
+export type Revision = RevisionMeta & {
+  content: unknown;
+};
+
+export type RecordDiff = {
+  added: string[];
+  removed: string[];
+  changed: { key: string; fields: string[] }[];
+};
+
+const MAX_REVISIONS = 200;
+
+const revisionsDir = (kind: DataKind) => path.join(process.cwd(), "src", "data", "revisions", kind);
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  Boolean(value) && typeof value === "object" && !Array.isArray(value);
+
+function createRevisionId() {
+  return `${Date.now().toString(36).padStart(9, "0")}-${Math.random().toString(36).slice(2, 6)}`;
+}
+
+function isRevisionId(id: string) {
+  return /^[a-z0-9]+-[a-z0-9]+$/.test(id);
+}
+
+// places.json and quiz.json are arrays, routes.json a FeatureCollection; all diff as keyed records.
+function toKeyedRecords(kind: DataKind, content: unknown): Map<string, Record<string, unknown>> {
+  const map = new Map<string, Record<string, unknown>>();
+  if (kind !== "routes") {
+    const list = Array.isArray(content) ? content : [];
+    list.forEach((item, index) => {
+      if (!isRecord(item)) return;
+      const key = (typeof item.id === "string" && item.id) || (typeof item.slug === "string" && item.slug) || `#${index + 1}`;
+      map.set(key, item);
+    });
+    return map;
+  }
+  const features = isRecord(content) && Array.isArray(content.features) ? content.features : [];
+  features.forEach((feature, index) => {
+    if (!isRecord(feature)) return;
+    const props = isRecord(feature.properties) ? feature.properties : {};
+    const pair = props.fromSlug && props.toSlug ? `${props.fromSlug}->${props.toSlug}` : undefined;
+    const key = props.fid !== undefined ? `fid ${props.fid}` : pair || `#${index + 1}`;
+    map.set(key, { ...props, geometry: feature.geometry });
+  });
+  return map;
+}
+
+export function diffContents(kind: DataKind, before: unknown, after: unknown): RecordDiff {
+  const prev = toKeyedRecords(kind, before);
+  const next = toKeyedRecords(kind, after);
+  const diff: RecordDiff = { added: [], removed: [], changed: [] };
+  next.forEach((record, key) => {
+    const old = prev.get(key);
+    if (!old) {
+      diff.added.push(key);
+      return;
+    }
+    const fields = Array.from(new Set([...Object.keys(old), ...Object.keys(record)])).filter(
+      (field) => JSON.stringify(old[field]) !== JSON.stringify(record[field]),
+    );
+    if (fields.length > 0) diff.changed.push({ key, fields });
+  });
+  prev.forEach((_, key) => {
+    if (!next.has(key)) diff.removed.push(key);
+  });
+  return diff;
+}
+
+export function describeDiff(diff: RecordDiff) {
+  const parts = [
+    diff.added.length ? `${diff.added.length} added` : "",
+    diff.removed.length ? `${diff.removed.length} removed` : "",
+    diff.changed.length ? `${diff.changed.length} changed` : "",
+  ].filter(Boolean);
+  return parts.length ? parts.join(", ") : "No changes";
+}
+
+const indexPath = (kind: DataKind) => path.join(revisionsDir(kind), "index.json");
+
+async function readIndex(kind: DataKind): Promise<RevisionMeta[]> {
+  try {
+    const parsed = JSON.parse(await fs.readFile(indexPath(kind), "utf8"));
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+// Newest first; snapshots beyond MAX_REVISIONS are deleted.
+async function writeRevision(revision: Revision) {
+  const dir = revisionsDir(revision.kind);
+  await fs.mkdir(dir, { recursive: true });
+  await fs.writeFile(path.join(dir, `${revision.id}.json`), `${JSON.stringify(revision)}\n`, "utf8");
+  const index = [toMeta(revision), ...(await readIndex(revision.kind))];
+  const kept = index.slice(0, MAX_REVISIONS);
+  await fs.writeFile(indexPath(revision.kind), `${JSON.stringify(kept, null, 2)}\n`, "utf8");
+  await Promise.all(
+    index.slice(MAX_REVISIONS).map((item) => fs.unlink(path.join(dir, `${item.id}.json`)).catch(() => undefined)),
+  );
+}
+
+/**
+ * Stores `content` as a new revision. The first save also snapshots `previous`
+ * so the state before any tracked edit can be restored.
+ */
+export async function recordRevision(kind: DataKind, previous: unknown, content: unknown, meta: SaveMeta) {
+  const existing = await readIndex(kind);
+  if (existing.length === 0 && previous !== undefined) {
+    await writeRevision({
+      id: createRevisionId(),
+      kind,
+      createdAt: new Date().toISOString(),
+      author: "system",
+      summary: "Snapshot before first tracked save",
+      content: previous,
+    });
+  }
+  const summary = meta.summary?.trim() || describeDiff(diffContents(kind, previous, content));
+  const revision: Revision = {
+    id: createRevisionId(),
+    kind,
+    createdAt: new Date().toISOString(),
+    author: meta.author,
+    summary,
+    content,
+  };
+  await writeRevision(revision);
+  return toMeta(revision);
+}
+
+function toMeta(revision: Revision): RevisionMeta {
+  return {
+    id: revision.id,
+    kind: revision.kind,
+    createdAt: revision.createdAt,
+    author: revision.author,
+    summary: revision.summary,
+  };
+}
+
+export async function readRevision(kind: DataKind, id: string): Promise<Revision | null> {
+  if (!isRevisionId(id)) return null;
+  try {
+    const raw = await fs.readFile(path.join(revisionsDir(kind), `${id}.json`), "utf8");
+    return JSON.parse(raw) as Revision;
+  } catch {
+    return null;
+  }
+}
+
+export async function listRevisions(kind: DataKind): Promise<RevisionMeta[]> {
+  return readIndex(kind);
+}
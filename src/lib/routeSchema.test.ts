@@ -0,0 +1,38 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+
+import { validateRoute } from "@/lib/routeSchema";
+
+const route = {
+  type: "Feature",
+  properties: { fid: 1, fromSlug: "hue", toSlug: "vinh", mode: "train" },
+  geometry: { type: "LineString", coordinates: [[107.59, 16.46], [105.69, 18.67]] },
+};
+
+test("accepts a route between two places", () => {
+  assert.deepEqual(validateRoute(route), []);
+});
+
+test("needs both slugs and a line of at least two points", () => {
+  const errors = validateRoute({
+    ...route,
+    properties: { fromSlug: "hue", fid: "1" },
+    geometry: { type: "LineString", coordinates: [[107.59, 16.46]] },
+  });
+  assert.deepEqual(
+    errors.map((error) => error.field),
+    ["properties.toSlug", "properties.fid", "geometry.coordinates"],
+  );
+  assert.deepEqual(validateRoute({ ...route, geometry: { type: "Point", coordinates: [0, 0] } }), [
+    { field: "geometry", message: "Must be a LineString" },
+  ]);
+  assert.equal(validateRoute(null).length, 1);
+});
+
+test("reports the first point that is not a pair of numbers", () => {
+  const coordinates = [[107.59, 16.46], [105.69, "18.67"]];
+  assert.deepEqual(
+    validateRoute({ ...route, geometry: { type: "LineString", coordinates } }).map((error) => error.field),
+    ["geometry.coordinates[1]"],
+  );
+});
@@ -0,0 +1,46 @@
+import { PlaceFieldError } from "@/lib/placeSchema";
+
+export type RouteFieldError = PlaceFieldError;
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  Boolean(value) && typeof value === "object" && !Array.isArray(value);
+
+// MapView converts lines drawn in Web Mercator metres, so positions are not limited to degrees.
+const isPosition = (value: unknown) =>
+  Array.isArray(value) && value.length === 2 && value.every((n) => typeof n === "number" && Number.isFinite(n));
+
+/** Checks a single route feature: both place slugs and a LineString of at least two points. */
+export function validateRoute(value: unknown): RouteFieldError[] {
+  if (!isPlainObject(value)) return [{ field: "", message: "Each route must be a GeoJSON Feature" }];
+  const errors: RouteFieldError[] = [];
+  const props = isPlainObject(value.properties) ? value.properties : {};
+  (["fromSlug", "toSlug"] as const).forEach((field) => {
+    const slug = props[field];
+    if (typeof slug !== "string" || !slug.trim()) {
+      errors.push({ field: `properties.${field}`, message: "Required" });
+    }
+  });
+  if (props.fid !== undefined && (typeof props.fid !== "number" || !Number.isFinite(props.fid))) {
+    errors.push({ field: "properties.fid", message: "Must be a number" });
+  }
+  if (props.order !== undefined && typeof props.order !== "string" && typeof props.order !== "number") {
+    errors.push({ field: "properties.order", message: "Must be a string or number" });
+  }
+  (["mode", "label"] as const).forEach((field) => {
+    if (props[field] !== undefined && typeof props[field] !== "string") {
+      errors.push({ field: `properties.${field}`, message: "Must be a string" });
+    }
+  });
+  const geometry = isPlainObject(value.geometry) ? value.geometry : null;
+  if (!geometry || geometry.type !== "LineString") {
+    errors.push({ field: "geometry", message: "Must be a LineString" });
+  } else if (!Array.isArray(geometry.coordinates) || geometry.coordinates.length < 2) {
+    errors.push({ field: "geometry.coordinates", message: "Needs at least two points" });
+  } else {
+    const bad = geometry.coordinates.findIndex((point) => !isPosition(point));
+    if (bad >= 0) {
+      errors.push({ field: `geometry.coordinates[${bad}]`, message: "Must be a [x, y] pair of numbers" });
+    }
+  }
+  return errors;
+}
@@ -0,0 +1,204 @@
+import { createHash } from "crypto";
+
+import { SaveMeta, readDataFileWithVersion, updateDataFile } from "@/lib/dataStore";
+import { validateRoute } from "@/lib/routeSchema";
+import { StoreError } from "@/lib/storeError";
+import { RouteCollection, RouteFeature, RouteProperties } from "@/types/route";
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  Boolean(value) && typeof value === "object" && !Array.isArray(value);
+
+export function routeVersion(route: RouteFeature) {
+  return createHash("sha256").update(JSON.stringify(route)).digest("hex").slice(0, 16);
+}
+
+/**
+ * Reads routes.json as a FeatureCollection and gives every feature a unique
+ * numeric fid. Missing or duplicate fids get the next free integer in file order,
+ * so the numbers are stable until the next write persists them.
+ */
+export function toRouteCollection(content: unknown): RouteCollection {
+  const base = isRecord(content) && content.type === "FeatureCollection" ? content : {};
+  const features = Array.isArray(base.features) ? (base.features as RouteFeature[]) : [];
+  const used = new Set<number>();
+  let next =
+    Math.floor(
+      features.reduce((max, feature) => {
+        const fid = feature?.properties?.fid;
+        return typeof fid === "number" && Number.isFinite(fid) ? Math.max(max, fid) : max;
+      }, 0),
+    ) + 1;
+  const normalized = features.map((feature) => {
+    const properties: RouteProperties = isRecord(feature?.properties) ? { ...feature.properties } : {};
+    const fid = properties.fid;
+    if (typeof fid === "number" && Number.isFinite(fid) && !used.has(fid)) {
+      used.add(fid);
+    } else {
+      properties.fid = next;
+      used.add(next);
+      next += 1;
+    }
+    return { ...feature, properties };
+  });
+  return { ...(base as Omit<RouteCollection, "features">), type: "FeatureCollection", features: normalized };
+}
+
+const nextFid = (features: RouteFeature[]) =>
+  Math.floor(features.reduce((max, feature) => Math.max(max, feature.properties?.fid ?? 0), 0)) + 1;
+
+export async function readRoutes() {
+  const { content, version } = await readDataFileWithVersion("routes");
+  return { routes: toRouteCollection(content), version };
+}
+
+export function findRouteIndex(features: RouteFeature[], fid: number) {
+  return features.findIndex((feature) => feature.properties?.fid === fid);
+}
+
+/** The segment from one place to another; a segment in the opposite direction is the fallback. */
+export function findRouteBetween(features: RouteFeature[], from: string, to: string) {
+  return (
+    features.find((feature) => feature.properties?.fromSlug === from && feature.properties?.toSlug === to) ??
+    features.find((feature) => feature.properties?.fromSlug === to && feature.properties?.toSlug === from)
+  );
+}
+
+function assertValid(route: RouteFeature) {
+  const errors = validateRoute(route);
+  if (errors.length > 0) {
+    throw new StoreError(400, "Invalid route", { errors });
+  }
+}
+
+function assertPairFree(features: RouteFeature[], route: RouteFeature, ignoreIndex = -1) {
+  const { fromSlug, toSlug } = route.properties ?? {};
+  const owner = features.findIndex(
+    (feature, index) =>
+      index !== ignoreIndex && feature.properties?.fromSlug === fromSlug && feature.properties?.toSlug === toSlug,
+  );
+  if (owner >= 0) {
+    throw new StoreError(409, `A route from ${fromSlug} to ${toSlug} already exists`, {
+      fid: features[owner].properties?.fid,
+    });
+  }
+}
+
+function assertVersion(route: RouteFeature, expected: string[]) {
+  const version = routeVersion(route);
+  if (!expected.includes("*") && !expected.includes(version)) {
+    throw new StoreError(409, "Route was changed by someone else", { route, version });
+  }
+}
+
+const describeRoute = (route: RouteFeature) => `${route.properties?.fromSlug ?? "?"} -> ${route.properties?.toSlug ?? "?"}`;
+
+/** Creates a route; any fid in the input is ignored and the next free one assigned. */
+export async function createRoute(input: unknown, meta: SaveMeta) {
+  if (!isRecord(input)) throw new StoreError(400, "Expected a route feature");
+  const { revision, result } = await updateDataFile(
+    "routes",
+    (current) => {
+      const collection = toRouteCollection(current);
+      const properties = isRecord(input.properties) ? (input.properties as RouteProperties) : {};
+      const route: RouteFeature = {
+        type: "Feature",
+        properties: { ...properties, fid: nextFid(collection.features) },
+        geometry: input.geometry as RouteFeature["geometry"],
+      };
+      assertValid(route);
+      assertPairFree(collection.features, route);
+      return { content: { ...collection, features: [...collection.features, route] }, result: route };
+    },
+    { ...meta, summary: meta.summary || `Created route ${describeRoute(input as RouteFeature)}` },
+  );
+  return { route: result, version: routeVersion(result), revision };
+}
+
+/**
+ * Applies `{ properties?, geometry? }`: listed properties replace the stored ones
+ * (`null` removes one) and a geometry replaces the line. The fid cannot change.
+ */
+export async function updateRoute(fid: number, patch: unknown, meta: SaveMeta, expected: string[]) {
+  if (!isRecord(patch)) throw new StoreError(400, "Expected an object of changed fields");
+  const { revision, result } = await updateDataFile(
+    "routes",
+    (current) => {
+      const collection = toRouteCollection(current);
+      const index = findRouteIndex(collection.features, fid);
+      if (index < 0) throw new StoreError(404, "Route not found");
+      const existing = collection.features[index];
+      assertVersion(existing, expected);
+      const properties: Record<string, unknown> = { ...existing.properties };
+      if (isRecord(patch.properties)) {
+        Object.entries(patch.properties).forEach(([key, value]) => {
+          if (value === null) delete properties[key];
+          else properties[key] = value;
+        });
+      }
+      if (properties.fid !== fid) {
+        throw new StoreError(400, "The fid of a route cannot be changed", { field: "properties.fid" });
+      }
+      const route: RouteFeature = {
+        ...existing,
+        properties: properties as RouteProperties,
+        geometry: patch.geometry !== undefined ? (patch.geometry as RouteFeature["geometry"]) : existing.geometry,
+      };
+      assertValid(route);
+      assertPairFree(collection.features, route, index);
+      const features = [...collection.features];
+      features[index] = route;
+      return { content: { ...collection, features }, result: route };
+    },
+    { ...meta, summary: meta.summary || `Updated route ${fid}` },
+  );
+  return { route: result, version: routeVersion(result), revision };
+}
+
+export async function deleteRoute(fid: number, meta: SaveMeta, expected: string[]) {
+  const { revision, result } = await updateDataFile(
+    "routes",
+    (current) => {
+      const collection = toRouteCollection(current);
+      const index = findRouteIndex(collection.features, fid);
+      if (index < 0) throw new StoreError(404, "Route not found");
+      assertVersion(collection.features[index], expected);
+      return {
+        content: { ...collection, features: collection.features.filter((_, i) => i !== index) },
+        result: collection.features[index],
+      };
+    },
+    { ...meta, summary: meta.summary || `Deleted route ${fid}` },
+  );
+  return { route: result, revision };
+}
+
+/** Points every route end that uses `from` at `to`. Returns the fids that changed. */
+export async function renameSlugInRoutes(from: string, to: string, meta: SaveMeta) {
+  const { routes } = await readRoutes();
+  if (!routes.features.some((route) => route.properties?.fromSlug === from || route.properties?.toSlug === from)) {
+    return [];
+  }
+  const { result } = await updateDataFile(
+    "routes",
+    (current) => {
+      const collection = toRouteCollection(current);
+      const changed: number[] = [];
+      const features = collection.features.map((route) => {
+        const props = route.properties ?? {};
+        if (props.fromSlug !== from && props.toSlug !== from) return route;
+        if (props.fid !== undefined) changed.push(props.fid);
+        return {
+          ...route,
+          properties: {
+            ...props,
+            fromSlug: props.fromSlug === from ? to : props.fromSlug,
+            toSlug: props.toSlug === from ? to : props.toSlug,
+          },
+        };
+      });
+      return { content: { ...collection, features }, result: changed };
+    },
+    { ...meta, summary: meta.summary || `Renamed slug ${from} to ${to}` },
+  );
+  return result;
+}
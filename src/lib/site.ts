@@ -0,0 +1,11 @@
+export const SITE_NAME = "Hanh trinh 2025";
+
+export const SITE_DESCRIPTION =
+  "Ban do tuong tac cho cac chang hanh trinh: dia diem, thoi gian, hinh anh va nguon trich dan.";
+
+/** Public origin used for canonical URLs, the sitemap and Open Graph tags. Set NEXT_PUBLIC_SITE_URL in production. */
+export const SITE_URL = (process.env.NEXT_PUBLIC_SITE_URL || "http://localhost:3000").replace(/\/+$/, "");
+
+export function absoluteUrl(pathname: string) {
+  return `${SITE_URL}${pathname.startsWith("/") ? pathname : `/${pathname}`}`;
+}
@@ -0,0 +1,27 @@
+import { NextResponse } from "next/server";
+
+import { formatETag } from "@/lib/dataStore";
+
+/** Carries the HTTP status and extra response fields for a failed place or route operation. */
+export class StoreError extends Error {
+  status: number;
+  details: Record<string, unknown>;
+
+  constructor(status: number, message: string, details: Record<string, unknown> = {}) {
+    super(message);
+    this.name = "StoreError";
+    this.status = status;
+    this.details = details;
+  }
+}
+
+/** Maps a StoreError to its JSON response; anything else is logged and becomes a 500. */
+export function storeErrorResponse(err: unknown, fallback: string) {
+  if (err instanceof StoreError) {
+    const headers: Record<string, string> =
+      typeof err.details.version === "string" ? { ETag: formatETag(err.details.version) } : {};
+    return NextResponse.json({ error: err.message, ...err.details }, { status: err.status, headers });
+  }
+  console.error(fallback, err);
+  return NextResponse.json({ error: fallback }, { status: 500 });
+}
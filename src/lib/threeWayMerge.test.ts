@@ -0,0 +1,53 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+
+import { mergeRecords } from "@/lib/threeWayMerge";
+
+type Row = { slug: string; title?: string; city?: string };
+
+const bySlug = (row: Row) => row.slug;
+const base: Row[] = [
+  { slug: "a", title: "A", city: "Hue" },
+  { slug: "b", title: "B" },
+];
+
+test("takes edits to different fields from both sides", () => {
+  const local = [{ ...base[0], title: "A local" }, base[1]];
+  const remote = [{ ...base[0], city: "Vinh" }, base[1]];
+  const result = mergeRecords(base, local, remote, bySlug);
+  assert.deepEqual(result.merged, [{ slug: "a", title: "A local", city: "Vinh" }, base[1]]);
+  assert.deepEqual(result.conflicts, []);
+  assert.equal(result.autoMerged, 1);
+});
+
+test("flags a field both sides changed and keeps mine unless told otherwise", () => {
+  const local = [{ ...base[0], title: "Mine" }, base[1]];
+  const remote = [{ ...base[0], title: "Theirs" }, base[1]];
+  const { merged, conflicts } = mergeRecords(base, local, remote, bySlug);
+  assert.deepEqual(
+    conflicts.map(({ id, base: b, local: l, remote: r }) => ({ id, b, l, r })),
+    [{ id: "a::title", b: "A", l: "Mine", r: "Theirs" }],
+  );
+  assert.equal(merged[0].title, "Mine");
+  assert.equal(mergeRecords(base, local, remote, bySlug, { "a::title": "remote" }).merged[0].title, "Theirs");
+});
+
+test("a record deleted on one side and edited on the other is a record conflict", () => {
+  const local = [base[0]];
+  const remote = [base[0], { ...base[1], title: "B edited" }];
+  const { merged, conflicts } = mergeRecords(base, local, remote, bySlug);
+  assert.deepEqual(
+    conflicts.map(({ id, field }) => ({ id, field })),
+    [{ id: "b::*", field: "*" }],
+  );
+  assert.deepEqual(merged, [base[0]]);
+  assert.deepEqual(mergeRecords(base, local, remote, bySlug, { "b::*": "remote" }).merged, remote);
+});
+
+test("drops records deleted on one side untouched and keeps records added on either", () => {
+  const local = [base[0], { slug: "mine" }];
+  const remote = [{ slug: "theirs" }, base[0]];
+  const { merged, conflicts } = mergeRecords(base, local, remote, bySlug);
+  assert.deepEqual(merged.map(bySlug), ["theirs", "a", "mine"]);
+  assert.deepEqual(conflicts, []);
+});
@@ -0,0 +1,113 @@
+export type MergeChoice = "local" | "remote";
+
+/** A record-level conflict uses field "*": one side deleted it while the other edited it. */
+export type MergeConflict = {
+  id: string;
+  key: string;
+  field: string;
+  base: unknown;
+  local: unknown;
+  remote: unknown;
+};
+
+export type MergeResult<T> = {
+  merged: T[];
+  conflicts: MergeConflict[];
+  autoMerged: number;
+};
+
+type RecordValue = Record<string, unknown>;
+
+const same = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+function indexBy<T>(list: T[], keyOf: (item: T, index: number) => string) {
+  const map = new Map<string, T>();
+  list.forEach((item, index) => map.set(keyOf(item, index), item));
+  return map;
+}
+
+function mergeFields(
+  key: string,
+  base: RecordValue,
+  local: RecordValue,
+  remote: RecordValue,
+  choices: Record<string, MergeChoice>,
+  conflicts: MergeConflict[],
+) {
+  const merged: RecordValue = {};
+  let auto = 0;
+  const fields = new Set([...Object.keys(base), ...Object.keys(local), ...Object.keys(remote)]);
+  fields.forEach((field) => {
+    const b = base[field];
+    const l = local[field];
+    const r = remote[field];
+    let value: unknown;
+    if (same(l, r) || same(l, b)) {
+      value = r;
+    } else if (same(r, b)) {
+      value = l;
+      auto += 1;
+    } else {
+      const id = `${key}::${field}`;
+      conflicts.push({ id, key, field, base: b, local: l, remote: r });
+      value = (choices[id] ?? "local") === "local" ? l : r;
+    }
+    if (value !== undefined) merged[field] = value;
+  });
+  return { merged, auto };
+}
+
+/**
+ * Merges local edits and a newer server copy against the list both started from.
+ * Records are matched with `keyOf` and merged field by field; a field edited on
+ * both sides to different values is a conflict, resolved by `choices` (mine by default).
+ * The result keeps the server order and appends records only added locally.
+ */
+export function mergeRecords<T extends object>(
+  base: T[],
+  local: T[],
+  remote: T[],
+  keyOf: (item: T, index: number) => string,
+  choices: Record<string, MergeChoice> = {},
+): MergeResult<T> {
+  const baseMap = indexBy(base, keyOf);
+  const localMap = indexBy(local, keyOf);
+  const remoteMap = indexBy(remote, keyOf);
+  const conflicts: MergeConflict[] = [];
+  const merged: T[] = [];
+  let autoMerged = 0;
+
+  const pick = (key: string, b: T | undefined, l: T | undefined, r: T | undefined) => {
+    if (l && r) {
+      // Records added on both sides with the same key merge against an empty base.
+      const result = mergeFields(key, (b ?? {}) as RecordValue, l as RecordValue, r as RecordValue, choices, conflicts);
+      autoMerged += result.auto;
+      return result.merged as T;
+    }
+    if (!b) {
+      if (l) autoMerged += 1;
+      return l ?? r;
+    }
+    // Deleted on at least one side.
+    const survivor = l ?? r;
+    if (!survivor || same(survivor, b)) {
+      if (l !== r) autoMerged += 1;
+      return undefined;
+    }
+    const id = `${key}::*`;
+    conflicts.push({ id, key, field: "*", base: b, local: l, remote: r });
+    return (choices[id] ?? "local") === "local" ? l : r;
+  };
+
+  remoteMap.forEach((remoteItem, key) => {
+    const value = pick(key, baseMap.get(key), localMap.get(key), remoteItem);
+    if (value) merged.push(value);
+  });
+  localMap.forEach((localItem, key) => {
+    if (remoteMap.has(key)) return;
+    const value = pick(key, baseMap.get(key), localItem, undefined);
+    if (value) merged.push(value);
+  });
+
+  return { merged, conflicts, autoMerged };
+}
@@ -0,0 +1,78 @@
+import { placeDateSpan, spanDayRange } from "@/lib/historicalDates";
+import { Place } from "@/types/place";
+
+export const TIMELINE_START_YEAR = 1911;
+export const TIMELINE_END_YEAR = 1941;
+
+export type TimelineTick = {
+  /** Position of the place in the journey order the timeline was built from. */
+  index: number;
+  place: Place;
+  /** Day number the tick stands for; undated places share the previous place's day. */
+  day: number;
+  /** 0..1 across the timeline. */
+  position: number;
+  dated: boolean;
+};
+
+export type TimelineYear = {
+  year: number;
+  start: number;
+  end: number;
+  /** Journey indexes of the places whose dates overlap the year. */
+  placeIndexes: number[];
+};
+
+export type Timeline = {
+  firstDay: number;
+  lastDay: number;
+  ticks: TimelineTick[];
+  years: TimelineYear[];
+};
+
+const yearDays = (year: number) => spanDayRange({ start: { year } });
+
+/**
+ * Lays out places (already in journey order) on a linear time axis from
+ * startYear to endYear. Dates outside the range sit at its ends.
+ */
+export function buildTimeline(
+  places: Place[],
+  startYear = TIMELINE_START_YEAR,
+  endYear = TIMELINE_END_YEAR,
+): Timeline {
+  const firstDay = yearDays(startYear)[0];
+  const lastDay = yearDays(endYear)[1];
+  const clampDay = (day: number) => Math.max(firstDay, Math.min(lastDay, day));
+  const positionOf = (day: number) => (day - firstDay) / (lastDay - firstDay);
+
+  const spans = places.map((place) => placeDateSpan(place));
+  let carried = firstDay;
+  const ticks = places.map((place, index): TimelineTick => {
+    const span = spans[index];
+    if (span) carried = clampDay(spanDayRange(span)[0]);
+    return { index, place, day: carried, position: positionOf(carried), dated: Boolean(span) };
+  });
+
+  const years: TimelineYear[] = [];
+  for (let year = startYear; year <= endYear; year += 1) {
+    const [yearFirst, yearLast] = yearDays(year);
+    const placeIndexes = spans.flatMap((span, index) => {
+      if (!span) return [];
+      const [spanFirst, spanLast] = spanDayRange(span);
+      return spanFirst <= yearLast && spanLast >= yearFirst ? [index] : [];
+    });
+    years.push({ year, start: positionOf(yearFirst), end: positionOf(yearLast + 1), placeIndexes });
+  }
+
+  return { firstDay, lastDay, ticks, years };
+}
+
+/** The last place in journey order reached by `day`; the first place when none is. */
+export function stepAtDay(timeline: Timeline, day: number) {
+  let step = 0;
+  timeline.ticks.forEach((tick) => {
+    if (tick.day <= day) step = tick.index;
+  });
+  return step;
+}
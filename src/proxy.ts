@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { SESSION_COOKIE, readSessionToken } from "@/lib/auth";
+
+const READ_METHODS = new Set(["GET", "HEAD", "OPTIONS"]);
+
+// Students send their quiz scores, and join and answer classroom sessions, from /map without signing in.
+const PUBLIC_WRITE_PATHS = [/^\/api\/quiz\/results$/, /^\/api\/quiz\/sessions\/[^/]+\/(join|answers)$/];
+
+const isPublicWrite = (request: NextRequest) =>
+  request.method === "POST" && PUBLIC_WRITE_PATHS.some((pattern) => pattern.test(request.nextUrl.pathname));
+
+export function proxy(request: NextRequest) {
+  const { pathname, search } = request.nextUrl;
+  const session = readSessionToken(request.cookies.get(SESSION_COOKIE)?.value);
+
+  if (pathname.startsWith("/api/")) {
+    if (READ_METHODS.has(request.method) || isPublicWrite(request)) return NextResponse.next();
+    if (!session) {
+      return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+    }
+    if (session.role !== "editor") {
+      return NextResponse.json({ error: "Editor role required" }, { status: 403 });
+    }
+    return NextResponse.next();
+  }
+
+  if (!session) {
+    const loginUrl = new URL("/login", request.url);
+    loginUrl.searchParams.set("next", `${pathname}${search}`);
+    return NextResponse.redirect(loginUrl);
+  }
+  return NextResponse.next();
+}
+
+export const config = {
+  matcher: ["/admin/:path*", "/api/places/:path*", "/api/routes/:path*", "/api/media/:path*", "/api/quiz/:path*"],
+};
@@ -1,25 +1,81 @@
+/** ISO 3166-1 alpha-3 code, e.g. "VNM". Used to highlight countries on the map. */
+export type CountryCode = string;
+
+export type LevelTexts = {
+  primary?: string;
+  secondary?: string;
+  high?: string;
+};
+
+/** The audiences levelTexts is written for: primary, lower secondary and high school. */
+export type AudienceLevel = keyof LevelTexts;
+
+export type MediaLink = {
+  label?: string;
+  url?: string;
+  /** Pixel size and preview of an uploaded image, filled in by the upload endpoint. */
+  width?: number;
+  height?: number;
+  thumbnailUrl?: string;
+};
+
+export type PlaceMedia = {
+  cover?: string;
+  gallery?: string[];
+  images?: MediaLink[];
+  videos?: MediaLink[];
+  audio?: string;
+};
+
+export type PlaceStory = {
+  title?: string;
+  body?: string;
+  imageUrl?: string;
+  imageLabel?: string;
+};
+
+/** A work a place cites. Markdown refers to it as `[@id]`. */
+export type Citation = {
+  /** Unique within the place, e.g. "s1" or "duiker2000". */
+  id: string;
+  /** One or more names separated by ";", each "Family, Given" or written out in full. */
+  author?: string;
+  title?: string;
+  publisher?: string;
+  /** Publication date: YYYY, YYYY-MM, YYYY-MM-DD or free text. */
+  date?: string;
+  page?: string;
+  url?: string;
+  /** When a web source was read, YYYY-MM-DD. */
+  accessed?: string;
+  /** Anything else, e.g. an archive reference. */
+  note?: string;
+};
+
 export type Place = {
+  /** Version of the record shape; older records are upgraded by migratePlace. */
+  schemaVersion?: number;
   id?: string;
   slug?: string;
   title: string;
   country?: string;
+  countryCode?: CountryCode;
   city?: string;
   coords: [number, number];
+  /** `1928`, `1928-07` or `1928-07-05`, optionally ending in `~` (circa) or `?` (uncertain); see historicalDates. */
   dateStart?: string;
   dateEnd?: string;
+  /** How pages show the time, e.g. "07/1928" or "Cuoi thu 1929"; read as a date when dateStart is missing. */
   periodLabel?: string;
-  levelTexts?: {
-    primary?: string;
-    secondary?: string;
-    high?: string;
-  };
-  media?: {
-    cover?: string;
-    gallery?: string[];
-    images?: { label?: string; url?: string }[];
-    videos?: { label?: string; url?: string }[];
-    audio?: string;
-  };
+  levelTexts?: LevelTexts;
+  /** Overrides levelTexts.primary in the map popup. */
+  popup?: string;
+  /** Marker/list icon, either a URL or a file name under public/media. */
+  icon?: string;
+  detailMarkdown?: string;
+  accuracyNote?: string;
+  media?: PlaceMedia;
+  stories?: PlaceStory[];
   tags?: string[];
-  sources?: string[];
+  sources?: Citation[];
 };
@@ -0,0 +1,80 @@
+import { AudienceLevel } from "@/types/place";
+
+type QuizQuestionBase = {
+  id: string;
+  question: string;
+  /** Shown under the question once the set is graded. */
+  explanation?: string;
+  /** Slugs of the places the question is about; a wrong answer links back to them. */
+  placeSlugs?: string[];
+  /** Audiences the question suits; missing or empty means every level. */
+  levels?: AudienceLevel[];
+};
+
+/** One right option out of a list. */
+export type SingleChoiceQuestion = QuizQuestionBase & {
+  type: "single";
+  options: string[];
+  /** 0-based position of the correct option in `options`: 0 is the first option. */
+  correctIndex: number;
+};
+
+/** Every right option must be picked, and no wrong one. */
+export type MultipleChoiceQuestion = QuizQuestionBase & {
+  type: "multiple";
+  options: string[];
+  /** 0-based positions of the correct options in `options`. */
+  correctIndexes: number[];
+};
+
+/** `question` is a statement the player marks as true or false. */
+export type TrueFalseQuestion = QuizQuestionBase & {
+  type: "truefalse";
+  answer: boolean;
+};
+
+/** Events to put in chronological order; they are shuffled when played. */
+export type OrderingQuestion = QuizQuestionBase & {
+  type: "order";
+  /** The events, earliest first. */
+  items: string[];
+};
+
+/** The player clicks the map; a click within `radiusKm` of the place counts. */
+export type MapQuestion = QuizQuestionBase & {
+  type: "map";
+  placeSlug: string;
+  radiusKm?: number;
+};
+
+export type QuizQuestion =
+  | SingleChoiceQuestion
+  | MultipleChoiceQuestion
+  | TrueFalseQuestion
+  | OrderingQuestion
+  | MapQuestion;
+
+export type QuizQuestionType = QuizQuestion["type"];
+
+/** The fields that give a question's answer away; the explanation and the linked places do too. */
+type QuizAnswerField = "correctIndex" | "correctIndexes" | "answer" | "placeSlug" | "explanation" | "placeSlugs";
+
+type WithoutAnswer<Q> = Q extends QuizQuestion ? Omit<Q, QuizAnswerField> & { answerHidden: true } : never;
+
+/**
+ * A question as students see it while a classroom session is open, without its answer.
+ * An ordering question lists its events shuffled.
+ */
+export type QuizQuestionPrompt = WithoutAnswer<QuizQuestion>;
+
+/** One graded quiz set. */
+export type QuizAttempt = {
+  id: string;
+  finishedAt: string;
+  score: number;
+  total: number;
+  /** The audience the set was drawn for, when one was chosen. */
+  level?: AudienceLevel;
+  /** Each question of the set, in the order it was asked. */
+  answers: { id: string; correct: boolean }[];
+};
@@ -0,0 +1,26 @@
+export type RouteProperties = {
+  fid?: number;
+  fromSlug?: string;
+  toSlug?: string;
+  order?: string | number;
+  mode?: string;
+  label?: string;
+};
+
+export type RouteGeometry = {
+  type: "LineString";
+  coordinates: [number, number][];
+};
+
+export type RouteFeature = {
+  type: "Feature";
+  properties?: RouteProperties;
+  geometry: RouteGeometry;
+};
+
+export type RouteCollection = {
+  type: "FeatureCollection";
+  name?: string;
+  crs?: unknown;
+  features: RouteFeature[];
+};